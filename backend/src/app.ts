@@ -0,0 +1,77 @@
+import express from 'express';
+import dotenv from 'dotenv';
+import cookieParser from 'cookie-parser';
+import { Request, Response } from 'express';
+import authRoutes from './routes/auth';
+import salesforceAuthRoutes from './routes/salesforceAuth';
+import salesforceLiveRoutes from './routes/salesforceLive';
+import salesforceKnowledgeRoutes from './routes/salesforceKnowledge';
+import salesforceCategoryRoutes from './routes/salesforceCategories';
+import salesforceJobRoutes from './routes/salesforceJobs';
+import articleRoutes from './routes/articles';
+import syncLogRoutes from './routes/syncLogs';
+import scheduleRoutes from './routes/schedules';
+import reviewRoutes from './routes/reviews';
+import commentRoutes from './routes/comments';
+import userRoutes from './routes/users';
+
+// Load environment variables
+dotenv.config();
+
+// Routes and middleware only; index.ts starts the server and background workers,
+// so tests can mount the app on their own
+const app = express();
+
+// Middleware
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+app.use(cookieParser());
+
+// CORS for frontend
+app.use((req: Request, res: Response, next) => {
+  res.header('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:5173');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, X-CSRF-Token');
+  res.header('Access-Control-Allow-Credentials', 'true');
+  
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(200);
+  } else {
+    next();
+  }
+});
+
+// Routes
+app.use('/auth/salesforce', salesforceAuthRoutes);
+app.use('/auth', authRoutes);
+app.use('/salesforce', salesforceLiveRoutes);
+app.use('/salesforce/knowledge', salesforceKnowledgeRoutes);
+app.use('/salesforce/categories', salesforceCategoryRoutes);
+app.use('/salesforce/jobs', salesforceJobRoutes);
+app.use('/api/articles', articleRoutes);
+app.use('/api/sync-logs', syncLogRoutes);
+app.use('/api/schedules', scheduleRoutes);
+app.use('/api/reviews', reviewRoutes);
+app.use('/api/comments', commentRoutes);
+app.use('/api/users', userRoutes);
+
+// Health check endpoint
+app.get('/health', (req: Request, res: Response) => {
+  res.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime(),
+    environment: process.env.NODE_ENV || 'development',
+    version: '1.0.0'
+  });
+});
+
+// Basic API route
+app.get('/api/status', (req: Request, res: Response) => {
+  res.json({
+    message: 'Kublish Backend API is running',
+    timestamp: new Date().toISOString()
+  });
+});
+
+export default app;
@@ -1,56 +1,15 @@
-import express from 'express';
-import dotenv from 'dotenv';
-import { Request, Response } from 'express';
-import salesforceAuthRoutes from './routes/salesforceAuth';
-import salesforceLiveRoutes from './routes/salesforceLive';
+import app from './app';
+import redis from './config/redis';
+import { migrateTokenRecords } from './services/tokenStore';
+import { adoptLegacyConnections } from './services/orgStore';
+import { migrateUserIds } from './services/userIdMigration';
+import { startPublishWorker } from './services/publishWorker';
+import { startImportWorker } from './services/importWorker';
+import { startScheduler } from './services/scheduler';
+import { startDriftScanner } from './services/driftDetection';
 
-// Load environment variables
-dotenv.config();
-
-const app = express();
 const PORT = process.env.PORT || 3000;
 
-// Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-
-// CORS for frontend
-app.use((req: Request, res: Response, next) => {
-  res.header('Access-Control-Allow-Origin', process.env.FRONTEND_URL || 'http://localhost:5173');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
-  res.header('Access-Control-Allow-Credentials', 'true');
-  
-  if (req.method === 'OPTIONS') {
-    res.sendStatus(200);
-  } else {
-    next();
-  }
-});
-
-// Routes
-app.use('/auth/salesforce', salesforceAuthRoutes);
-app.use('/salesforce', salesforceLiveRoutes);
-
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.json({
-    status: 'healthy',
-    timestamp: new Date().toISOString(),
-    uptime: process.uptime(),
-    environment: process.env.NODE_ENV || 'development',
-    version: '1.0.0'
-  });
-});
-
-// Basic API route
-app.get('/api/status', (req: Request, res: Response) => {
-  res.json({
-    message: 'Kublish Backend API is running',
-    timestamp: new Date().toISOString()
-  });
-});
-
 // Start server
 app.listen(PORT, () => {
   console.log(`🚀 Kublish Backend running on port ${PORT}`);
@@ -58,4 +17,26 @@ app.listen(PORT, () => {
   console.log(`🌐 CORS: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
 });
 
-export default app;
\ No newline at end of file
+// Encrypt plaintext Salesforce tokens, rewrap ones under retired keys,
+// register per-user connections from before named orgs and give name-based
+// ownership records their user ids
+redis.once('ready', () => {
+  migrateTokenRecords()
+    .then(({ scanned, migrated }) => {
+      if (migrated > 0) console.log(`🔐 Migrated ${migrated} of ${scanned} Salesforce token records`);
+      return adoptLegacyConnections();
+    })
+    .then(adopted => {
+      if (adopted > 0) console.log(`🔗 Registered ${adopted} existing Salesforce connections`);
+      return migrateUserIds();
+    })
+    .then(migrated => {
+      if (migrated > 0) console.log(`🪪 Added user ids to ${migrated} records`);
+    })
+    .catch(error => console.error('❌ Startup migration error:', error));
+
+  startPublishWorker();
+  startImportWorker();
+  startScheduler();
+  startDriftScanner();
+});
@@ -0,0 +1,40 @@
+import { NextFunction, Request, Response } from 'express';
+import { ACCESS_COOKIE, verifyAccessToken } from '../services/authService';
+import { getUserById, PublicUser, toPublicUser } from '../services/userStore';
+import { hasPermission, PermissionAction } from '../../../shared/permissions';
+
+/**
+ * The signed-in user resolved by requireAuth
+ */
+export const getSessionUser = (res: Response): PublicUser => res.locals.user as PublicUser;
+
+/**
+ * Resolve the session cookie to a user, looking the role up server-side
+ */
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const payload = verifyAccessToken(req.cookies?.[ACCESS_COOKIE] || '');
+  if (!payload) return res.status(401).json({ error: 'Not authenticated' });
+
+  try {
+    const user = await getUserById(payload.sub);
+    if (!user) return res.status(401).json({ error: 'Not authenticated' });
+
+    res.locals.user = toPublicUser(user);
+    next();
+  } catch (error) {
+    console.error('❌ auth middleware error:', error);
+    res.status(503).json({ error: 'Session store unavailable' });
+  }
+};
+
+/**
+ * Reject the request unless the session user's role allows the action.
+ * Must run after requireAuth.
+ */
+export const requirePermission = (action: PermissionAction) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(getSessionUser(res), action)) {
+      return res.status(403).json({ error: 'Forbidden', action });
+    }
+    next();
+  };
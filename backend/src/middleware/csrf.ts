@@ -0,0 +1,35 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+
+export const CSRF_COOKIE = 'kublish_csrf';
+export const CSRF_HEADER = 'x-csrf-token';
+
+/**
+ * Double-submit token: the cookie can only be echoed back in the header by
+ * a page that read it from GET /auth/csrf, which CORS limits to the frontend
+ */
+export const issueCsrfToken = (res: Response): string => {
+  const token = crypto.randomBytes(32).toString('hex');
+  res.cookie(CSRF_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    path: '/'
+  });
+  return token;
+};
+
+export const requireCsrf = (req: Request, res: Response, next: NextFunction) => {
+  const cookieToken = req.cookies?.[CSRF_COOKIE];
+  const headerToken = req.get(CSRF_HEADER);
+
+  if (
+    !cookieToken ||
+    !headerToken ||
+    cookieToken.length !== headerToken.length ||
+    !crypto.timingSafeEqual(Buffer.from(cookieToken), Buffer.from(headerToken))
+  ) {
+    return res.status(403).json({ error: 'Invalid CSRF token' });
+  }
+  next();
+};
@@ -0,0 +1,575 @@
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import {
+  listArticles,
+  getArticle,
+  saveArticle,
+  listVersions,
+  listVersionsOf,
+  getVersion,
+  saveVersion,
+  deleteVersion,
+  newVersionId,
+  StoreUnavailableError,
+  Article,
+  Version
+} from '../services/articleStore';
+import {
+  archiveArticle,
+  purgeArticle,
+  restoreArticle,
+  trashArticle,
+  unarchiveArticle
+} from '../services/articleLifecycle';
+import { promoteArticle, syncArticle } from '../services/articleSync';
+import { acceptRemoteChanges, overwriteRemoteChanges, scanForDrift } from '../services/driftDetection';
+import { getDriftReport, listDriftReports } from '../services/driftStore';
+import { withdrawReview } from '../services/reviewWorkflow';
+import { requireOrgId } from '../services/salesforceApi';
+import { getUserById, PublicUser } from '../services/userStore';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { canEditArticle, canViewArticle, hasPermission, isAssignedReviewer } from '../../../shared/permissions';
+import { stripEditorialMarkup } from '../../../shared/articleMarkup';
+import { sendSalesforceError } from './salesforceKnowledge';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// All a client may set on an article besides its owner. Editing any of
+// these on an approved article withdraws the approval.
+const CONTENT_FIELDS = ['title', 'body', 'tags', 'visibility', 'dataCategories'] as const;
+
+type ArticleContent = Pick<Article, typeof CONTENT_FIELDS[number]>;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(entry => typeof entry === 'string');
+
+const CONTENT_CHECKS: Record<keyof ArticleContent, (value: unknown) => boolean> = {
+  title: value => typeof value === 'string',
+  body: value => typeof value === 'string',
+  tags: isStringList,
+  visibility: value => value === 'internal' || value === 'public',
+  dataCategories: isStringList
+};
+
+const INVALID_CONTENT = 'title and body must be text, tags and dataCategories lists of text ' +
+  'and visibility internal or public';
+
+/**
+ * The content fields set in a request body; other keys are ignored. Null
+ * when one of them has the wrong type.
+ */
+const pickContentFields = (body: Record<string, unknown>): Partial<ArticleContent> | null => {
+  const fields = CONTENT_FIELDS.filter(field => body[field] !== undefined);
+  if (fields.some(field => !CONTENT_CHECKS[field](body[field]))) return null;
+  return Object.fromEntries(fields.map(field => [field, body[field]]));
+};
+
+// Comments and suggestions in the body are not content until accepted
+const contentOf = (article: Article, field: keyof Article) =>
+  JSON.stringify(field === 'body' ? stripEditorialMarkup(article.body) : article[field]);
+
+// All a client may set on a version; sync details are recorded by the server
+const VERSION_FIELDS = ['title', 'body', 'versionLabel', 'notes'] as const;
+
+type VersionInput = Pick<Version, typeof VERSION_FIELDS[number]>;
+
+const pickVersionFields = (body: Record<string, unknown>): Partial<VersionInput> =>
+  Object.fromEntries(VERSION_FIELDS
+    .filter(field => typeof body[field] === 'string')
+    .map(field => [field, body[field]]));
+
+type Ownership = Pick<Article, 'owner' | 'ownerId'>;
+
+/**
+ * Who owns an article after a write. Only Admins may hand it to someone
+ * else, by user id; the name is copied for display. Null when the
+ * requested owner does not exist.
+ */
+const resolveOwner = async (user: PublicUser, requestedId: unknown, current: Ownership): Promise<Ownership | null> => {
+  if (!hasPermission(user, 'articles:editAll') || typeof requestedId !== 'string' || requestedId === current.ownerId) {
+    return current;
+  }
+  const owner = await getUserById(requestedId);
+  return owner ? { owner: owner.name, ownerId: owner.id } : null;
+};
+
+export const handleStoreError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof StoreUnavailableError) {
+    return res.status(503).json({ error: error.message });
+  }
+  console.error(`❌ ${context} error:`, error);
+  res.status(500).json({ error: `Failed to ${context}` });
+};
+
+/**
+ * GET /api/articles
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const articles = await listArticles();
+    res.status(200).json({
+      articles: articles.filter(article => !article.deletedAt && canViewArticle(user, article))
+    });
+  } catch (error) {
+    handleStoreError(res, error, 'list articles');
+  }
+});
+
+/**
+ * GET /api/articles/versions
+ * Versions of every article the session user can see, newest first
+ */
+router.get('/versions', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const articles = (await listArticles()).filter(article => !article.deletedAt && canViewArticle(user, article));
+    res.status(200).json({ versions: await listVersionsOf(articles.map(article => article.id)) });
+  } catch (error) {
+    handleStoreError(res, error, 'list versions');
+  }
+});
+
+// Drift reports for articles the user can see and that are not in the trash
+const visibleDriftReports = async (user: PublicUser) => {
+  const articles = new Map((await listArticles()).map(article => [article.id, article]));
+  return (await listDriftReports()).filter(report => {
+    const article = articles.get(report.articleId);
+    return article && !article.deletedAt && canViewArticle(user, article);
+  });
+};
+
+/**
+ * GET /api/articles/drift
+ * Articles changed in Salesforce since Kublish last synced them, as of the
+ * last scan
+ */
+router.get('/drift', async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({ reports: await visibleDriftReports(getSessionUser(res)) });
+  } catch (error) {
+    handleStoreError(res, error, 'list drift');
+  }
+});
+
+/**
+ * POST /api/articles/drift/scan
+ * Compare every synced article with Salesforce now rather than on the next
+ * scheduled scan
+ */
+router.post('/drift/scan', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  try {
+    await scanForDrift();
+    res.status(200).json({ reports: await visibleDriftReports(getSessionUser(res)) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'scan for drift');
+  }
+});
+
+/**
+ * GET /api/articles/trash
+ * Articles moved to the trash, newest first
+ */
+router.get('/trash', requirePermission('articles:delete'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const articles = (await listArticles())
+      .filter(article => article.deletedAt && canViewArticle(user, article))
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+    res.status(200).json({ articles });
+  } catch (error) {
+    handleStoreError(res, error, 'list trash');
+  }
+});
+
+/**
+ * DELETE /api/articles/trash/:id
+ * Delete a trashed article and its versions permanently
+ */
+router.delete('/trash/:id', requirePermission('articles:delete'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(user, article)) return res.status(404).json({ error: 'Article not found' });
+    if (!article.deletedAt) return res.status(409).json({ error: 'Only articles in the trash can be deleted permanently' });
+
+    await purgeArticle(article, user.name);
+    res.status(200).json({ message: 'Article deleted' });
+  } catch (error) {
+    handleStoreError(res, error, 'delete article');
+  }
+});
+
+/**
+ * GET /api/articles/:id
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(getSessionUser(res), article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+
+    res.status(200).json({ article });
+  } catch (error) {
+    handleStoreError(res, error, 'fetch article');
+  }
+});
+
+/**
+ * POST /api/articles
+ * New articles get an id from the server and start as drafts; they are
+ * published through review and sync
+ */
+router.post('/', requirePermission('articles:create'), async (req: Request, res: Response) => {
+  const user = getSessionUser(res);
+  const content = pickContentFields(req.body);
+  if (!content) return res.status(400).json({ error: INVALID_CONTENT });
+  if (content.title === undefined) return res.status(400).json({ error: 'Missing title' });
+
+  try {
+    const ownership = await resolveOwner(user, req.body.ownerId, { owner: user.name, ownerId: user.id });
+    if (!ownership) return res.status(422).json({ error: 'Owner not found' });
+
+    const now = new Date().toISOString();
+    const article: Article = {
+      body: '',
+      tags: [],
+      visibility: 'internal',
+      dataCategories: [],
+      ...content,
+      title: content.title,
+      id: crypto.randomUUID(),
+      ...ownership,
+      status: 'draft',
+      createdAt: now,
+      lastModified: now
+    };
+
+    res.status(201).json({ article: await saveArticle(article) });
+  } catch (error) {
+    handleStoreError(res, error, 'create article');
+  }
+});
+
+/**
+ * PUT /api/articles/:id
+ * Saves content and ownership. The status only changes through the review,
+ * sync, archive and trash endpoints, which reach Salesforce where needed;
+ * editing an approved article withdraws its approval.
+ */
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const existing = await getArticle(req.params.id);
+    if (!existing || !canViewArticle(user, existing)) return res.status(404).json({ error: 'Article not found' });
+    if (existing.deletedAt) return res.status(409).json({ error: 'Article is in the trash' });
+
+    // Assigned reviewers save comments and suggestions in the body, but
+    // cannot change the body the author has accepted, markup included
+    if (!canEditArticle(user, existing)) {
+      const { body } = req.body;
+      if (
+        !isAssignedReviewer(user, existing) ||
+        typeof body !== 'string' ||
+        stripEditorialMarkup(body) !== stripEditorialMarkup(existing.body)
+      ) {
+        return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+      }
+      return res.status(200).json({
+        article: await saveArticle({ ...existing, body, lastModified: new Date().toISOString() })
+      });
+    }
+
+    const content = pickContentFields(req.body);
+    if (!content) return res.status(400).json({ error: INVALID_CONTENT });
+    const ownership = await resolveOwner(user, req.body.ownerId, existing);
+    if (!ownership) return res.status(422).json({ error: 'Owner not found' });
+
+    const article: Article = {
+      ...existing,
+      ...content,
+      owner: ownership.owner,
+      ownerId: ownership.ownerId,
+      lastModified: new Date().toISOString()
+    };
+
+    if (existing.status === 'approved' && CONTENT_FIELDS.some(field =>
+      contentOf(article, field) !== contentOf(existing, field)
+    )) {
+      return res.status(200).json({
+        article: await withdrawReview(article, user.name, 'Approval withdrawn because the article was edited')
+      });
+    }
+
+    res.status(200).json({ article: await saveArticle(article) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'update article');
+  }
+});
+
+/**
+ * DELETE /api/articles/:id
+ * Move an article to the trash; a published article is archived in
+ * Salesforce first
+ */
+router.delete('/:id', requirePermission('articles:delete'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(user, article)) return res.status(404).json({ error: 'Article not found' });
+    if (article.deletedAt) return res.status(409).json({ error: 'Article is already in the trash' });
+
+    res.status(200).json({ article: await trashArticle(article, user.name) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'delete article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/restore
+ * Take an article out of the trash
+ */
+router.post('/:id/restore', requirePermission('articles:delete'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(user, article)) return res.status(404).json({ error: 'Article not found' });
+    if (!article.deletedAt) return res.status(409).json({ error: 'Article is not in the trash' });
+
+    res.status(200).json({ article: await restoreArticle(article, user.name) });
+  } catch (error) {
+    handleStoreError(res, error, 'restore article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/archive
+ * Archive an article here and in every org where it is online
+ */
+router.post('/:id/archive', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (article.status === 'archived') return res.status(409).json({ error: 'Article is already archived' });
+
+    res.status(200).json({ article: await archiveArticle(article, user.name) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'archive article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/unarchive
+ * Bring an archived article back as a draft, here and in Salesforce
+ */
+router.post('/:id/unarchive', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (article.status !== 'archived') return res.status(409).json({ error: 'Article is not archived' });
+
+    res.status(200).json({ article: await unarchiveArticle(article, user.name) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'unarchive article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/sync
+ * Write the article to a Salesforce draft, and publish it when publish is
+ * set; orgId defaults to the default org. The synced version is recorded.
+ */
+router.post('/:id/sync', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { orgId, publish = false } = req.body as { orgId?: string; publish?: boolean };
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    const targetOrgId = await requireOrgId(orgId);
+    res.status(200).json(await syncArticle(article, user.name, targetOrgId, publish));
+  } catch (error) {
+    sendSalesforceError(res, error, publish ? 'publish article' : 'sync article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/promote
+ * Promote the version last published to sourceOrgId to targetOrgId
+ */
+router.post('/:id/promote', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { sourceOrgId, targetOrgId } = req.body as { sourceOrgId?: string; targetOrgId?: string };
+  if (!sourceOrgId || !targetOrgId) return res.status(400).json({ error: 'Missing sourceOrgId or targetOrgId' });
+  if (sourceOrgId === targetOrgId) return res.status(400).json({ error: 'Source and target org must differ' });
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+
+    const sourceId = await requireOrgId(sourceOrgId);
+    const targetId = await requireOrgId(targetOrgId);
+    res.status(200).json({ version: await promoteArticle(article, user.name, sourceId, targetId) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'promote article');
+  }
+});
+
+/**
+ * POST /api/articles/:id/drift/accept
+ * Take the version changed in Salesforce (orgId) into Kublish. Accepting a
+ * deletion moves the article to the trash.
+ */
+router.post('/:id/drift/accept', async (req: Request, res: Response) => {
+  const { orgId } = req.body as { orgId?: string };
+  if (!orgId) return res.status(400).json({ error: 'Missing orgId' });
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    const report = await getDriftReport(article.id, orgId);
+    if (!report) return res.status(404).json({ error: 'No drift found for this article' });
+    if (!report.remote && !hasPermission(user, 'articles:delete')) {
+      return res.status(403).json({ error: 'Forbidden', action: 'articles:delete' });
+    }
+
+    res.status(200).json({ article: await acceptRemoteChanges(article, report, user.name) });
+  } catch (error) {
+    handleStoreError(res, error, 'accept remote changes');
+  }
+});
+
+/**
+ * POST /api/articles/:id/drift/overwrite
+ * Replace the version changed in Salesforce (orgId) with the article as it
+ * is in Kublish
+ */
+router.post('/:id/drift/overwrite', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { orgId } = req.body as { orgId?: string };
+  if (!orgId) return res.status(400).json({ error: 'Missing orgId' });
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+
+    const report = await getDriftReport(article.id, orgId);
+    if (!report) return res.status(404).json({ error: 'No drift found for this article' });
+
+    res.status(200).json({ version: await overwriteRemoteChanges(article, report, user.name) });
+  } catch (error) {
+    sendSalesforceError(res, error, 'overwrite remote changes');
+  }
+});
+
+/**
+ * GET /api/articles/:id/versions
+ */
+router.get('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(getSessionUser(res), article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+
+    res.status(200).json({ versions: await listVersions(req.params.id) });
+  } catch (error) {
+    handleStoreError(res, error, 'list versions');
+  }
+});
+
+/**
+ * POST /api/articles/:id/versions
+ * Record a local draft version by the session user
+ */
+router.post('/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    const { title, body, versionLabel, notes } = pickVersionFields(req.body);
+    if (title === undefined || body === undefined) return res.status(400).json({ error: 'Missing title or body' });
+
+    const version: Version = {
+      title,
+      body,
+      versionLabel,
+      notes,
+      articleId: article.id,
+      versionId: newVersionId(),
+      status: 'Draft',
+      createdBy: user.name,
+      createdAt: new Date().toISOString(),
+      syncedToSalesforce: false
+    };
+
+    res.status(201).json({ version: await saveVersion(version) });
+  } catch (error) {
+    handleStoreError(res, error, 'create version');
+  }
+});
+
+/**
+ * PUT /api/articles/:id/versions/:versionId
+ */
+router.put('/:id/versions/:versionId', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(req.params.id);
+    if (!article || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    const existing = await getVersion(req.params.id, req.params.versionId);
+    if (!existing) return res.status(404).json({ error: 'Version not found' });
+
+    const version: Version = { ...existing, ...pickVersionFields(req.body) };
+
+    res.status(200).json({ version: await saveVersion(version) });
+  } catch (error) {
+    handleStoreError(res, error, 'update version');
+  }
+});
+
+/**
+ * DELETE /api/articles/:id/versions/:versionId
+ */
+router.delete('/:id/versions/:versionId', requirePermission('articles:delete'), async (req: Request, res: Response) => {
+  try {
+    const removed = await deleteVersion(req.params.id, req.params.versionId);
+    if (!removed) return res.status(404).json({ error: 'Version not found' });
+
+    res.status(200).json({ message: 'Version deleted' });
+  } catch (error) {
+    handleStoreError(res, error, 'delete version');
+  }
+});
+
+export default router;
@@ -0,0 +1,214 @@
+import express, { Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { StoreUnavailableError } from '../services/articleStore';
+import {
+  REFRESH_COOKIE,
+  hashPassword,
+  verifyCredentials,
+  setAuthCookies,
+  clearAuthCookies,
+  consumeRefreshToken,
+  revokeRefreshToken,
+  createResetToken,
+  consumeResetToken,
+  revokeUserRefreshTokens
+} from '../services/authService';
+import {
+  claimFirstAdmin,
+  createUser,
+  getUserByEmail,
+  getUserById,
+  releaseFirstAdmin,
+  saveUser,
+  toPublicUser,
+  UserExistsError
+} from '../services/userStore';
+import { getSessionUser, requireAuth } from '../middleware/auth';
+import { issueCsrfToken } from '../middleware/csrf';
+
+const router = express.Router();
+
+const MIN_PASSWORD_LENGTH = 8;
+const INVALID_CREDENTIALS = 'Invalid credentials. Please check your email and password.';
+const RESET_REQUESTED = 'If an account with that email exists, a password reset link has been sent.';
+
+// Stricter than the OAuth limiter: these routes accept passwords
+const credentialLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 min
+  max: 20,
+  message: { error: 'Too many login attempts. Please try again in a few minutes.' }
+});
+
+const handleAuthError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof StoreUnavailableError) {
+    return res.status(503).json({ error: error.message });
+  }
+  console.error(`❌ ${context} error:`, error);
+  res.status(500).json({ error: `Failed to ${context}` });
+};
+
+/**
+ * POST /auth/register
+ * The first account becomes an Admin; everyone after starts as a Viewer
+ */
+router.post('/register', credentialLimiter, async (req: Request, res: Response) => {
+  const { email, password, name } = req.body as { email?: string; password?: string; name?: string };
+
+  if (!email || !email.includes('@')) return res.status(400).json({ error: 'Please enter a valid email address.' });
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+  }
+  if (!name?.trim()) return res.status(400).json({ error: 'Please enter your full name.' });
+
+  let isFirstUser = false;
+  try {
+    isFirstUser = await claimFirstAdmin();
+    const user = await createUser({
+      email,
+      name: name.trim(),
+      role: isFirstUser ? 'Admin' : 'Viewer',
+      passwordHash: await hashPassword(password)
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Account created successfully. You can now sign in.',
+      user: toPublicUser(user)
+    });
+  } catch (error) {
+    if (isFirstUser) await releaseFirstAdmin().catch(() => undefined);
+    if (error instanceof UserExistsError) {
+      return res.status(409).json({ error: 'An account with this email already exists.' });
+    }
+    handleAuthError(res, error, 'create account');
+  }
+});
+
+/**
+ * POST /auth/login
+ */
+router.post('/login', credentialLimiter, async (req: Request, res: Response) => {
+  const { email, password } = req.body as { email?: string; password?: string };
+  if (!email || !password) return res.status(400).json({ error: INVALID_CREDENTIALS });
+
+  try {
+    const user = await getUserByEmail(email);
+    const valid = await verifyCredentials(user, password);
+    if (!user || !valid) {
+      return res.status(401).json({ error: INVALID_CREDENTIALS });
+    }
+
+    const updated = await saveUser({ ...user, lastLoginAt: new Date().toISOString() });
+    await setAuthCookies(res, updated);
+
+    res.status(200).json({ user: toPublicUser(updated) });
+  } catch (error) {
+    handleAuthError(res, error, 'log in');
+  }
+});
+
+/**
+ * POST /auth/refresh
+ * Rotates the refresh cookie and issues a new access cookie
+ */
+router.post('/refresh', async (req: Request, res: Response) => {
+  const token = req.cookies?.[REFRESH_COOKIE];
+  if (!token) return res.status(401).json({ error: 'Not authenticated' });
+
+  try {
+    const userId = await consumeRefreshToken(token);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user) {
+      clearAuthCookies(res);
+      return res.status(401).json({ error: 'Session expired' });
+    }
+
+    await setAuthCookies(res, user);
+    res.status(200).json({ user: toPublicUser(user) });
+  } catch (error) {
+    handleAuthError(res, error, 'refresh session');
+  }
+});
+
+/**
+ * POST /auth/logout
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  const token = req.cookies?.[REFRESH_COOKIE];
+
+  try {
+    if (token) await revokeRefreshToken(token);
+  } catch (error) {
+    // The cookies are cleared regardless; the token expires on its own
+    console.error('❌ logout error:', error);
+  }
+
+  clearAuthCookies(res);
+  res.status(200).json({ success: true });
+});
+
+/**
+ * GET /auth/me
+ */
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+  res.status(200).json({ user: getSessionUser(res) });
+});
+
+/**
+ * GET /auth/csrf
+ * Issues the token state-changing Salesforce routes expect in X-CSRF-Token
+ */
+router.get('/csrf', requireAuth, (req: Request, res: Response) => {
+  res.status(200).json({ csrfToken: issueCsrfToken(res) });
+});
+
+/**
+ * POST /auth/password-reset
+ * Always succeeds so the response cannot be used to enumerate accounts
+ */
+router.post('/password-reset', credentialLimiter, async (req: Request, res: Response) => {
+  const { email } = req.body as { email?: string };
+  if (!email) return res.status(400).json({ error: 'Please enter your email address.' });
+
+  try {
+    const user = await getUserByEmail(email);
+    if (user) {
+      const token = await createResetToken(user.id);
+      const resetUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/forgot-password?token=${token}`;
+      // No mail transport is configured yet; surface the link in development only
+      if (process.env.NODE_ENV !== 'production') {
+        console.log(`🔑 Password reset link for ${user.email}: ${resetUrl}`);
+      }
+    }
+
+    res.status(200).json({ success: true, message: RESET_REQUESTED });
+  } catch (error) {
+    handleAuthError(res, error, 'request password reset');
+  }
+});
+
+/**
+ * POST /auth/password-reset/confirm
+ */
+router.post('/password-reset/confirm', credentialLimiter, async (req: Request, res: Response) => {
+  const { token, password } = req.body as { token?: string; password?: string };
+  if (!token) return res.status(400).json({ error: 'Missing reset token' });
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.` });
+  }
+
+  try {
+    const userId = await consumeResetToken(token);
+    const user = userId ? await getUserById(userId) : null;
+    if (!user) return res.status(400).json({ error: 'This reset link is invalid or has expired.' });
+
+    await saveUser({ ...user, passwordHash: await hashPassword(password) });
+    // Whoever knew the old password may still hold a session; end them all
+    await revokeUserRefreshTokens(user.id);
+    res.status(200).json({ success: true, message: 'Your password has been reset. You can now sign in.' });
+  } catch (error) {
+    handleAuthError(res, error, 'reset password');
+  }
+});
+
+export default router;
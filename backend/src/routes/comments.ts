@@ -0,0 +1,136 @@
+import express, { Request, Response } from 'express';
+import { Article, getArticle } from '../services/articleStore';
+import {
+  createThread,
+  deleteThread,
+  getThread,
+  listThreads,
+  newComment,
+  saveThread
+} from '../services/commentStore';
+import { listUsers } from '../services/userStore';
+import { getSessionUser, requireAuth } from '../middleware/auth';
+import { canCommentOnArticle, hasPermission } from '../../../shared/permissions';
+import { findMentions } from '../../../shared/mentions';
+import { handleStoreError } from './articles';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// Load an article the session user may comment on, or answer 404
+const findArticle = async (req: Request, res: Response): Promise<Article | null> => {
+  const article = await getArticle(req.params.articleId);
+  if (!article || article.deletedAt || !canCommentOnArticle(getSessionUser(res), article)) {
+    res.status(404).json({ error: 'Article not found' });
+    return null;
+  }
+  return article;
+};
+
+const mentionsIn = async (body: string) => findMentions(body, (await listUsers()).map(user => user.name));
+
+/**
+ * GET /api/comments/:articleId
+ * Comment threads on an article, oldest first, resolved ones included
+ */
+router.get('/:articleId', async (req: Request, res: Response) => {
+  try {
+    if (!(await findArticle(req, res))) return;
+    res.status(200).json({ threads: await listThreads(req.params.articleId) });
+  } catch (error) {
+    handleStoreError(res, error, 'list comments');
+  }
+});
+
+/**
+ * POST /api/comments/:articleId
+ * Start a thread. The editor anchors it to the quoted text with the
+ * returned thread id.
+ */
+router.post('/:articleId', async (req: Request, res: Response) => {
+  const { quote, body } = req.body as { quote?: string; body?: string };
+  if (typeof quote !== 'string' || !quote.trim() || !body?.trim()) {
+    return res.status(400).json({ error: 'Missing quote or body' });
+  }
+
+  try {
+    if (!(await findArticle(req, res))) return;
+    const user = getSessionUser(res);
+    const comment = newComment(user, body.trim(), await mentionsIn(body));
+    res.status(201).json({ thread: await createThread(req.params.articleId, user, quote, comment) });
+  } catch (error) {
+    handleStoreError(res, error, 'create comment');
+  }
+});
+
+/**
+ * POST /api/comments/:articleId/:threadId/replies
+ */
+router.post('/:articleId/:threadId/replies', async (req: Request, res: Response) => {
+  const { body } = req.body as { body?: string };
+  if (!body?.trim()) return res.status(400).json({ error: 'Missing body' });
+
+  try {
+    if (!(await findArticle(req, res))) return;
+    const thread = await getThread(req.params.articleId, req.params.threadId);
+    if (!thread) return res.status(404).json({ error: 'Thread not found' });
+
+    const comment = newComment(getSessionUser(res), body.trim(), await mentionsIn(body));
+    res.status(201).json({ thread: await saveThread({ ...thread, comments: [...thread.comments, comment] }) });
+  } catch (error) {
+    handleStoreError(res, error, 'reply to comment');
+  }
+});
+
+const setResolved = (resolved: boolean) => async (req: Request, res: Response) => {
+  try {
+    if (!(await findArticle(req, res))) return;
+    const thread = await getThread(req.params.articleId, req.params.threadId);
+    if (!thread) return res.status(404).json({ error: 'Thread not found' });
+
+    res.status(200).json({
+      thread: await saveThread({
+        ...thread,
+        resolved,
+        resolvedBy: resolved ? getSessionUser(res).name : undefined,
+        resolvedAt: resolved ? new Date().toISOString() : undefined
+      })
+    });
+  } catch (error) {
+    handleStoreError(res, error, resolved ? 'resolve comment thread' : 'reopen comment thread');
+  }
+};
+
+/**
+ * POST /api/comments/:articleId/:threadId/resolve
+ */
+router.post('/:articleId/:threadId/resolve', setResolved(true));
+
+/**
+ * POST /api/comments/:articleId/:threadId/reopen
+ */
+router.post('/:articleId/:threadId/reopen', setResolved(false));
+
+/**
+ * DELETE /api/comments/:articleId/:threadId
+ * Only the user who started the thread, or an Admin, may delete it
+ */
+router.delete('/:articleId/:threadId', async (req: Request, res: Response) => {
+  try {
+    if (!(await findArticle(req, res))) return;
+    const user = getSessionUser(res);
+    const thread = await getThread(req.params.articleId, req.params.threadId);
+    if (!thread) return res.status(404).json({ error: 'Thread not found' });
+    if (thread.createdById !== user.id && !hasPermission(user, 'articles:editAll')) {
+      return res.status(403).json({ error: 'Forbidden', action: 'articles:editAll' });
+    }
+
+    await deleteThread(req.params.articleId, req.params.threadId);
+    res.status(200).json({ message: 'Thread deleted' });
+  } catch (error) {
+    handleStoreError(res, error, 'delete comment thread');
+  }
+});
+
+export default router;
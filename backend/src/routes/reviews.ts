@@ -0,0 +1,206 @@
+import express, { Request, Response } from 'express';
+import { Article, getArticle } from '../services/articleStore';
+import {
+  countApprovals,
+  getReviewRequest,
+  getWorkflowSettings,
+  listReviewRequests,
+  saveWorkflowSettings,
+  WorkflowSettings
+} from '../services/reviewStore';
+import {
+  decideReview,
+  isReviewState,
+  ReviewWorkflowError,
+  submitForReview,
+  withdrawReview
+} from '../services/reviewWorkflow';
+import { listUsers } from '../services/userStore';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { canEditArticle, canViewArticle, hasPermission } from '../../../shared/permissions';
+import { handleStoreError } from './articles';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const sendReviewError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof ReviewWorkflowError) {
+    return res.status(error.status).json({ error: error.message, errorCode: error.code });
+  }
+  handleStoreError(res, error, context);
+};
+
+const isIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(id => typeof id === 'string');
+
+// Load an article the session user may see, or answer 404
+const findArticle = async (req: Request, res: Response): Promise<Article | null> => {
+  const article = await getArticle(req.params.articleId);
+  if (!article || article.deletedAt || !canViewArticle(getSessionUser(res), article)) {
+    res.status(404).json({ error: 'Article not found' });
+    return null;
+  }
+  return article;
+};
+
+/**
+ * GET /api/reviews/settings
+ */
+router.get('/settings', async (req: Request, res: Response) => {
+  try {
+    res.status(200).json({ settings: await getWorkflowSettings() });
+  } catch (error) {
+    handleStoreError(res, error, 'fetch workflow settings');
+  }
+});
+
+/**
+ * PUT /api/reviews/settings
+ * Turn the workflow on or off and assign reviewers per data category group.
+ * Reviewers are user ids and must be allowed to review.
+ */
+router.put('/settings', requirePermission('workflow:manage'), async (req: Request, res: Response) => {
+  const { enabled, requiredApprovals, reviewersByGroup, defaultReviewers } = req.body as Partial<WorkflowSettings>;
+  if (
+    typeof enabled !== 'boolean' ||
+    !Number.isInteger(requiredApprovals) || requiredApprovals! < 1 ||
+    !reviewersByGroup || typeof reviewersByGroup !== 'object' || !Object.values(reviewersByGroup).every(isIdList) ||
+    !isIdList(defaultReviewers)
+  ) {
+    return res.status(400).json({
+      error: 'Settings need enabled, requiredApprovals (1 or more), reviewersByGroup and defaultReviewers'
+    });
+  }
+
+  try {
+    const reviewerIds = new Set((await listUsers())
+      .filter(user => hasPermission(user, 'articles:review'))
+      .map(user => user.id));
+    const unknown = [...defaultReviewers, ...Object.values(reviewersByGroup).flat()]
+      .filter(id => !reviewerIds.has(id));
+    if (unknown.length > 0) {
+      return res.status(422).json({ error: `Not a reviewer: ${[...new Set(unknown)].join(', ')}` });
+    }
+
+    // Drop groups nobody is assigned to
+    const groups = Object.fromEntries(Object.entries(reviewersByGroup).filter(([, ids]) => ids.length > 0));
+    const settings = await saveWorkflowSettings({
+      enabled,
+      requiredApprovals: requiredApprovals!,
+      reviewersByGroup: groups,
+      defaultReviewers
+    });
+    res.status(200).json({ settings });
+  } catch (error) {
+    handleStoreError(res, error, 'save workflow settings');
+  }
+});
+
+/**
+ * GET /api/reviews
+ * Submissions of articles still in review, changes requested or approved,
+ * oldest first, with the article's state and approval count
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const reviews = [];
+    for (const request of await listReviewRequests()) {
+      const article = await getArticle(request.articleId);
+      if (!article || article.deletedAt || !isReviewState(article.status) || !canViewArticle(user, article)) continue;
+      reviews.push({ ...request, articleStatus: article.status, approvals: countApprovals(request) });
+    }
+    res.status(200).json({ reviews });
+  } catch (error) {
+    handleStoreError(res, error, 'list reviews');
+  }
+});
+
+/**
+ * GET /api/reviews/:articleId
+ * The article's current submission, or null
+ */
+router.get('/:articleId', async (req: Request, res: Response) => {
+  try {
+    if (!(await findArticle(req, res))) return;
+    const review = await getReviewRequest(req.params.articleId);
+    res.status(200).json({ review: review && { ...review, approvals: countApprovals(review) } });
+  } catch (error) {
+    handleStoreError(res, error, 'fetch review');
+  }
+});
+
+/**
+ * POST /api/reviews/:articleId/submit
+ */
+router.post('/:articleId/submit', async (req: Request, res: Response) => {
+  const { comment } = req.body as { comment?: string };
+
+  try {
+    const user = getSessionUser(res);
+    const article = await findArticle(req, res);
+    if (!article) return;
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    res.status(200).json({ review: await submitForReview(article, user, comment?.trim() || undefined) });
+  } catch (error) {
+    sendReviewError(res, error, 'submit article for review');
+  }
+});
+
+/**
+ * POST /api/reviews/:articleId/approve
+ */
+router.post('/:articleId/approve', requirePermission('articles:review'), async (req: Request, res: Response) => {
+  const { comment } = req.body as { comment?: string };
+
+  try {
+    const article = await findArticle(req, res);
+    if (!article) return;
+
+    const review = await decideReview(article, getSessionUser(res), 'approved', comment?.trim() || '');
+    res.status(200).json({ review: { ...review, approvals: countApprovals(review) } });
+  } catch (error) {
+    sendReviewError(res, error, 'approve article');
+  }
+});
+
+/**
+ * POST /api/reviews/:articleId/request-changes
+ * A comment telling the author what to change is required
+ */
+router.post('/:articleId/request-changes', requirePermission('articles:review'), async (req: Request, res: Response) => {
+  const { comment } = req.body as { comment?: string };
+  if (!comment?.trim()) return res.status(400).json({ error: 'Say what needs to change' });
+
+  try {
+    const article = await findArticle(req, res);
+    if (!article) return;
+
+    const review = await decideReview(article, getSessionUser(res), 'changes_requested', comment.trim());
+    res.status(200).json({ review: { ...review, approvals: countApprovals(review) } });
+  } catch (error) {
+    sendReviewError(res, error, 'request changes');
+  }
+});
+
+/**
+ * POST /api/reviews/:articleId/withdraw
+ * Take the article out of review and back to the status it was submitted from
+ */
+router.post('/:articleId/withdraw', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const article = await findArticle(req, res);
+    if (!article) return;
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+    if (!isReviewState(article.status)) return res.status(409).json({ error: 'Article is not in review' });
+
+    res.status(200).json({ article: await withdrawReview(article, user.name, 'Withdrawn from review') });
+  } catch (error) {
+    handleStoreError(res, error, 'withdraw review');
+  }
+});
+
+export default router;
@@ -3,6 +3,44 @@ import express, { Request, Response } from 'express';
 import axios from 'axios';
 import crypto from 'crypto';
 import rateLimit from 'express-rate-limit';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { requireCsrf } from '../middleware/csrf';
+import { StoreUnavailableError } from '../services/articleStore';
+import {
+  findOrgId,
+  parseIssuedAt,
+  resolveLoginUrl,
+  revokeSalesforceToken,
+  SF_API_VERSION
+} from '../services/salesforceApi';
+import {
+  clearTokenData,
+  consumeOAuthState,
+  getTokenData,
+  SalesforceEnvironment,
+  saveOAuthState,
+  setTokenData
+} from '../services/tokenStore';
+import {
+  createOrgId,
+  deleteOrgConnection,
+  getDefaultOrgId,
+  getOrgConnection,
+  listOrgConnections,
+  OrgConnection,
+  saveOrgConnection,
+  setDefaultOrgId
+} from '../services/orgStore';
+import { clearCategoryStructure } from '../services/categoryStore';
+import { clearApiUsage } from '../services/apiUsageStore';
+import {
+  DEFAULT_FIELD_MAPPING,
+  KNOWLEDGE_CHANNELS,
+  KnowledgeChannel,
+  KnowledgeFieldMapping
+} from '../services/knowledgeMapping';
+import { describeKnowledgeFields, listApiVersions, validateOrgSettings } from '../services/knowledgeDescribe';
+import { sendSalesforceError } from './salesforceKnowledge';
 
 const router = express.Router();
 
@@ -14,38 +52,70 @@ requiredEnvVars.forEach((key) => {
   }
 });
 
-// Mock secure token/session stores (replace with Redis or DB in prod)
-interface SessionStore {
-  [state: string]: {
-    userId: string;
-    timestamp: number;
-  };
-}
-
-interface TokenStore {
-  [userId: string]: {
-    accessToken: string;
-    refreshToken?: string;
-    instanceUrl: string;
-    expiresAt: number;
+const OAUTH_EXPIRY_BUFFER = 5 * 60 * 1000; // 5 min safety buffer
+const ENVIRONMENTS: SalesforceEnvironment[] = ['production', 'sandbox', 'custom'];
+const ENVIRONMENT_NAMES: Record<SalesforceEnvironment, string> = {
+  production: 'Production',
+  sandbox: 'Sandbox',
+  custom: 'My Domain'
+};
+
+const toConnectionStatus = async (org: OrgConnection, defaultOrgId: string | null) => {
+  const tokens = await getTokenData(org.id);
+  // An expired access token is renewed on the next API call while a refresh token exists
+  const isExpired = !tokens || Date.now() > tokens.expiresAt;
+
+  return {
+    ...org,
+    connected: !!tokens && (!isExpired || !!tokens.refreshToken),
+    isDefault: org.id === defaultOrgId,
+    issuedAt: tokens?.issuedAt ? new Date(tokens.issuedAt).toISOString() : undefined,
+    expiresAt: tokens ? new Date(tokens.expiresAt).toISOString() : undefined,
+    expired: isExpired,
   };
-}
+};
 
-const sessionStore: SessionStore = {};
-const tokenStore: TokenStore = {};
+const toOrgSettings = (org: OrgConnection) => ({
+  orgId: org.id,
+  apiVersion: org.apiVersion || SF_API_VERSION,
+  defaultApiVersion: SF_API_VERSION,
+  fieldMapping: org.fieldMapping || DEFAULT_FIELD_MAPPING,
+  customized: !!(org.apiVersion || org.fieldMapping)
+});
 
-const OAUTH_EXPIRY_BUFFER = 5 * 60 * 1000; // 5 min safety buffer
+const optionalFieldName = (value: unknown): string | null | undefined => {
+  if (value === null || value === '') return null;
+  return typeof value === 'string' ? value.trim() : undefined;
+};
 
-const cleanupExpiredSessions = () => {
-  const now = Date.now();
-  const tenMinutes = 10 * 60 * 1000;
-  Object.entries(sessionStore).forEach(([state, { timestamp }]) => {
-    if (now - timestamp > tenMinutes) {
-      delete sessionStore[state];
-    }
-  });
+const channelList = (value: unknown): KnowledgeChannel[] | null =>
+  Array.isArray(value) && value.every(channel => KNOWLEDGE_CHANNELS.includes(channel))
+    ? [...new Set(value as KnowledgeChannel[])]
+    : null;
+
+/**
+ * Read a field mapping from a request body; null when it is malformed
+ */
+const parseFieldMapping = (value: unknown): KnowledgeFieldMapping | null => {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+  const summary = optionalFieldName(input.summary);
+  const tags = optionalFieldName(input.tags);
+  const publicChannels = channelList(input.publicChannels);
+  const internalChannels = channelList(input.internalChannels);
+
+  if (typeof input.title !== 'string' || typeof input.body !== 'string') return null;
+  if (summary === undefined || tags === undefined || !publicChannels || !internalChannels) return null;
+
+  return {
+    title: input.title.trim(),
+    body: input.body.trim(),
+    summary,
+    tags,
+    publicChannels,
+    internalChannels
+  };
 };
-setInterval(cleanupExpiredSessions, 5 * 60 * 1000);
 
 // Rate limiter for public routes
 const authLimiter = rateLimit({
@@ -55,43 +125,73 @@ const authLimiter = rateLimit({
 
 router.use(authLimiter);
 
-router.get('/initiate', async (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
-  if (!userId) return res.status(400).json({ error: 'Missing userId' });
+/**
+ * GET /auth/salesforce/initiate?environment=production|sandbox|custom&loginUrl=&name=
+ * Adds a new org connection. loginUrl is only read for custom (My Domain)
+ * logins; name labels the connection and defaults to the environment.
+ */
+router.get('/initiate', requireAuth, requirePermission('salesforce:manage'), async (req: Request, res: Response) => {
+  const userId = getSessionUser(res).id;
+  const environment = (req.query.environment || 'production') as SalesforceEnvironment;
+  if (!ENVIRONMENTS.includes(environment)) return res.status(400).json({ error: 'Invalid environment' });
+
+  const loginUrl = resolveLoginUrl(environment, req.query.loginUrl as string | undefined);
+  if (!loginUrl) {
+    return res.status(400).json({ error: 'Login URL must be an https *.salesforce.com address' });
+  }
 
   const state = crypto.randomBytes(16).toString('hex');
-  sessionStore[state] = { userId, timestamp: Date.now() };
+  const codeVerifier = crypto.randomBytes(32).toString('base64url');
+  const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+  try {
+    const name = (req.query.name as string | undefined)?.trim() || ENVIRONMENT_NAMES[environment];
+    await saveOAuthState(state, { userId, name, environment, loginUrl, codeVerifier });
+  } catch (err) {
+    console.error('❌ OAuth state error:', err);
+    return res.status(503).json({ error: 'Unable to start Salesforce authorization' });
+  }
 
-  const authUrl = new URL('https://login.salesforce.com/services/oauth2/authorize');
+  const authUrl = new URL(`${loginUrl}/services/oauth2/authorize`);
   authUrl.searchParams.append('response_type', 'code');
   authUrl.searchParams.append('client_id', process.env.SF_CLIENT_ID!);
   authUrl.searchParams.append('redirect_uri', process.env.SF_REDIRECT_URI!);
   authUrl.searchParams.append('scope', 'api refresh_token');
   authUrl.searchParams.append('state', state);
+  authUrl.searchParams.append('code_challenge', codeChallenge);
+  authUrl.searchParams.append('code_challenge_method', 'S256');
 
   res.redirect(authUrl.toString());
 });
 
-router.get('/callback', async (req: Request, res: Response) => {
+/**
+ * GET /auth/salesforce/callback
+ * Sends the browser back to the admin panel once the tokens are stored
+ */
+router.get('/callback', requireAuth, async (req: Request, res: Response) => {
   const { code, state, error } = req.query;
   if (error) return res.status(400).json({ error: 'Salesforce OAuth error', details: error });
   if (!code || !state) return res.status(400).json({ error: 'Missing code or state' });
 
-  const session = sessionStore[state as string];
-  if (!session) return res.status(400).json({ error: 'Invalid or expired state' });
+  try {
+    const session = await consumeOAuthState(state as string);
+    if (!session) return res.status(400).json({ error: 'Invalid or expired state' });
 
-  const { userId } = session;
-  delete sessionStore[state as string];
+    // The org must be linked to the same Kublish user that started the flow
+    const { userId, name, environment, loginUrl, codeVerifier } = session;
+    const user = getSessionUser(res);
+    if (userId !== user.id) {
+      return res.status(403).json({ error: 'OAuth state does not belong to this session' });
+    }
 
-  try {
     const tokenRes = await axios.post(
-      'https://login.salesforce.com/services/oauth2/token',
+      `${loginUrl}/services/oauth2/token`,
       new URLSearchParams({
         grant_type: 'authorization_code',
         client_id: process.env.SF_CLIENT_ID!,
         client_secret: process.env.SF_CLIENT_SECRET!,
         redirect_uri: process.env.SF_REDIRECT_URI!,
-        code: code as string
+        code: code as string,
+        code_verifier: codeVerifier
       }),
       { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
     );
@@ -99,20 +199,33 @@ router.get('/callback', async (req: Request, res: Response) => {
     const { access_token, refresh_token, instance_url, issued_at, expires_in } = tokenRes.data;
     if (!access_token || !instance_url) throw new Error('Invalid token response');
 
-    const expiresAt = Date.now() + parseInt(expires_in || '3600', 10) * 1000 - OAUTH_EXPIRY_BUFFER;
-    tokenStore[userId] = {
+    const issuedAt = parseIssuedAt(issued_at);
+    const connectedAt = new Date(issuedAt).toISOString();
+    const orgId = createOrgId();
+
+    await setTokenData(orgId, {
       accessToken: access_token,
       refreshToken: refresh_token,
       instanceUrl: instance_url,
-      expiresAt,
-    };
-
-    res.status(200).json({
-      message: 'Salesforce connected successfully',
+      expiresAt: issuedAt + parseInt(expires_in || '3600', 10) * 1000 - OAUTH_EXPIRY_BUFFER,
+      issuedAt,
+      connectedAt,
+      environment,
+      loginUrl,
+    });
+    await saveOrgConnection({
+      id: orgId,
+      name,
+      environment,
+      loginUrl,
       instanceUrl: instance_url,
-      connectedAt: new Date().toISOString(),
+      connectedAt,
+      connectedBy: user.name,
     });
+
+    res.redirect(`${process.env.FRONTEND_URL || 'http://localhost:5173'}/admin?salesforce=connected&orgId=${orgId}`);
   } catch (err) {
+    if (err instanceof StoreUnavailableError) return res.status(503).json({ error: err.message });
     if (axios.isAxiosError(err)) {
       const { status, data } = err.response || {};
       return res.status(status || 500).json({
@@ -125,34 +238,178 @@ router.get('/callback', async (req: Request, res: Response) => {
   }
 });
 
-router.get('/status', (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
-  if (!userId) return res.status(400).json({ error: 'Missing userId' });
+/**
+ * GET /auth/salesforce/connections
+ * Every org connection in the workspace, for picking a publish target
+ */
+router.get('/connections', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const defaultOrgId = await getDefaultOrgId();
+    const orgs = await listOrgConnections();
+    res.status(200).json({
+      defaultOrgId,
+      connections: await Promise.all(orgs.map(org => toConnectionStatus(org, defaultOrgId))),
+    });
+  } catch (err) {
+    console.error('❌ /connections error:', err);
+    res.status(503).json({ error: 'Failed to list Salesforce connections' });
+  }
+});
+
+/**
+ * PATCH /auth/salesforce/connections/:orgId
+ * Rename a connection or make it the default target
+ */
+router.patch('/connections/:orgId', requireAuth, requirePermission('salesforce:manage'), requireCsrf, async (req: Request, res: Response) => {
+  const { name, isDefault } = req.body as { name?: string; isDefault?: boolean };
+
+  try {
+    const org = await getOrgConnection(req.params.orgId);
+    if (!org) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    const updated = name?.trim() ? await saveOrgConnection({ ...org, name: name.trim() }) : org;
+    if (isDefault) await setDefaultOrgId(org.id);
 
-  const tokens = tokenStore[userId];
-  if (!tokens) {
-    return res.status(200).json({ connected: false, message: 'No Salesforce connection found' });
+    res.status(200).json({ connection: await toConnectionStatus(updated, await getDefaultOrgId()) });
+  } catch (err) {
+    console.error('❌ /connections update error:', err);
+    res.status(503).json({ error: 'Failed to update Salesforce connection' });
   }
+});
 
-  const isExpired = Date.now() > tokens.expiresAt;
-  res.status(200).json({
-    connected: !isExpired,
-    instanceUrl: tokens.instanceUrl,
-    connectedAt: new Date(tokens.expiresAt - 3600000).toISOString(),
-    expired: isExpired,
-  });
+/**
+ * GET /auth/salesforce/connections/:orgId/settings
+ * The API version and Knowledge field mapping used for this org
+ */
+router.get('/connections/:orgId/settings', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const org = await getOrgConnection(req.params.orgId);
+    if (!org) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    res.status(200).json(toOrgSettings(org));
+  } catch (err) {
+    console.error('❌ /connections settings error:', err);
+    res.status(503).json({ error: 'Failed to read Salesforce connection settings' });
+  }
+});
+
+/**
+ * GET /auth/salesforce/connections/:orgId/describe?apiVersion=
+ * API versions the org serves and its Knowledge__kav fields, to pick a
+ * mapping from
+ */
+router.get('/connections/:orgId/describe', requireAuth, requirePermission('salesforce:manage'), async (req: Request, res: Response) => {
+  try {
+    const org = await getOrgConnection(req.params.orgId);
+    if (!org) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    const apiVersion = (req.query.apiVersion as string | undefined) || org.apiVersion || SF_API_VERSION;
+    res.status(200).json({
+      orgId: org.id,
+      apiVersion,
+      apiVersions: await listApiVersions(org.id),
+      fields: await describeKnowledgeFields(org.id, apiVersion)
+    });
+  } catch (err) {
+    sendSalesforceError(res, err, 'describe Knowledge fields');
+  }
+});
+
+/**
+ * PUT /auth/salesforce/connections/:orgId/settings
+ * Save the org's API version and field mapping after checking both against
+ * the org's describe result. Send reset: true to go back to the defaults.
+ */
+router.put('/connections/:orgId/settings', requireAuth, requirePermission('salesforce:manage'), requireCsrf, async (req: Request, res: Response) => {
+  const { apiVersion, fieldMapping, reset } = req.body as { apiVersion?: unknown; fieldMapping?: unknown; reset?: boolean };
+
+  try {
+    const org = await getOrgConnection(req.params.orgId);
+    if (!org) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    if (reset) {
+      const updated = await saveOrgConnection({ ...org, apiVersion: undefined, fieldMapping: undefined });
+      return res.status(200).json(toOrgSettings(updated));
+    }
+
+    const mapping = parseFieldMapping(fieldMapping);
+    if (typeof apiVersion !== 'string' || !/^v\d+\.0$/.test(apiVersion) || !mapping) {
+      return res.status(400).json({ error: 'Invalid settings', message: 'Expected an apiVersion like v60.0 and a complete fieldMapping' });
+    }
+
+    const problems = await validateOrgSettings(org.id, apiVersion, mapping);
+    if (problems.length > 0) {
+      return res.status(422).json({
+        error: 'Settings do not match the org',
+        message: problems.map(problem => problem.message).join('; '),
+        problems
+      });
+    }
+
+    const updated = await saveOrgConnection({ ...org, apiVersion, fieldMapping: mapping });
+    res.status(200).json(toOrgSettings(updated));
+  } catch (err) {
+    sendSalesforceError(res, err, 'save Salesforce connection settings');
+  }
+});
+
+/**
+ * GET /auth/salesforce/status?orgId=
+ * Status of one connection, the default one when no orgId is given
+ */
+router.get('/status', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const orgId = await findOrgId(req.query.orgId as string | undefined);
+    const org = orgId ? await getOrgConnection(orgId) : null;
+    if (!org) {
+      return res.status(200).json({ connected: false, message: 'No Salesforce connection found' });
+    }
+
+    res.status(200).json(await toConnectionStatus(org, await getDefaultOrgId()));
+  } catch (err) {
+    console.error('❌ /status error:', err);
+    res.status(503).json({ error: 'Failed to read Salesforce connection status' });
+  }
 });
 
-router.post('/disconnect', (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
-  if (!userId) return res.status(400).json({ error: 'Missing userId' });
+/**
+ * POST /auth/salesforce/disconnect?orgId=
+ * Revokes the grant at Salesforce, then forgets the connection, its tokens
+ * and its category cache. The local entry is cleared even when revocation
+ * fails so the user is never stuck.
+ */
+router.post('/disconnect', requireAuth, requirePermission('salesforce:manage'), requireCsrf, async (req: Request, res: Response) => {
+  try {
+    const orgId = await findOrgId(req.query.orgId as string | undefined);
+    if (!orgId) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    const tokens = await getTokenData(orgId);
+    let revoked = false;
+    if (tokens) {
+      try {
+        await revokeSalesforceToken(tokens);
+        revoked = true;
+      } catch (err) {
+        console.error('❌ Salesforce token revocation error:', err);
+      }
+    }
 
-  delete tokenStore[userId];
-  Object.keys(sessionStore).forEach(state => {
-    if (sessionStore[state].userId === userId) delete sessionStore[state];
-  });
+    await clearTokenData(orgId);
+    await clearCategoryStructure(orgId);
+    await clearApiUsage(orgId);
+    await deleteOrgConnection(orgId);
 
-  res.status(200).json({ message: 'Disconnected from Salesforce' });
+    res.status(200).json({
+      message: revoked || !tokens
+        ? 'Disconnected from Salesforce'
+        : 'Disconnected locally, but Salesforce did not confirm the token was revoked',
+      orgId,
+      revoked,
+    });
+  } catch (err) {
+    console.error('❌ /disconnect error:', err);
+    res.status(503).json({ error: 'Failed to disconnect from Salesforce' });
+  }
 });
 
 export default router;
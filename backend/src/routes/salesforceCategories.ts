@@ -0,0 +1,233 @@
+import express, { Request, Response } from 'express';
+import { findOrgId, makeSalesforceApiCall, requireOrgId, SF_API_VERSION } from '../services/salesforceApi';
+import {
+  getCategoryStructure,
+  setCategoryStructure,
+  clearCategoryStructure,
+  countGroupCategories,
+  CategoryStructure,
+  DataCategory,
+  DataCategoryGroup
+} from '../services/categoryStore';
+import { toCategoryId } from '../services/knowledgeMapping';
+import { sendSalesforceError } from './salesforceKnowledge';
+import { requireAuth, requirePermission } from '../middleware/auth';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const KNOWLEDGE_SOBJECT = 'KnowledgeArticleVersion';
+const CATEGORY_GROUPS_PATH = `/services/data/${SF_API_VERSION}/support/dataCategoryGroups`;
+const CATEGORY_SYNC_MAX_AGE = parseInt(process.env.CATEGORY_SYNC_MAX_AGE_HOURS || '24', 10) * 60 * 60 * 1000;
+
+interface SalesforceCategoryGroup {
+  name: string;
+  label: string;
+  description?: string;
+  topCategories: SalesforceCategory[];
+}
+
+interface SalesforceCategory {
+  name: string;
+  label: string;
+  childCategories?: SalesforceCategory[];
+}
+
+interface CategoryGroupsResponse {
+  categoryGroups?: SalesforceCategoryGroup[];
+}
+
+/**
+ * REST counterpart of describeDataCategoryGroups: the groups visible to
+ * Knowledge, without their hierarchies
+ */
+const describeDataCategoryGroups = async (orgId: string): Promise<SalesforceCategoryGroup[]> => {
+  const response = await makeSalesforceApiCall<CategoryGroupsResponse>(
+    orgId,
+    `${CATEGORY_GROUPS_PATH}?sObjectName=${KNOWLEDGE_SOBJECT}&topCategoriesOnly=true`
+  );
+  return response.data.categoryGroups || [];
+};
+
+/**
+ * REST counterpart of describeDataCategoryGroupStructures: the full category
+ * tree for each of the given groups
+ */
+const describeDataCategoryGroupStructures = async (
+  orgId: string,
+  groupNames: string[]
+): Promise<SalesforceCategoryGroup[]> => {
+  const response = await makeSalesforceApiCall<CategoryGroupsResponse>(
+    orgId,
+    `${CATEGORY_GROUPS_PATH}?sObjectName=${KNOWLEDGE_SOBJECT}&topCategoriesOnly=false`
+  );
+  const structures = response.data.categoryGroups || [];
+  return structures.filter(group => groupNames.includes(group.name));
+};
+
+const toDataCategories = (
+  groupName: string,
+  categories: SalesforceCategory[],
+  level: number,
+  parentCategoryId?: string
+): DataCategory[] =>
+  categories.map((category, index) => {
+    const id = toCategoryId(groupName, category.name);
+    const children = toDataCategories(groupName, category.childCategories || [], level + 1, id);
+    return {
+      id,
+      name: category.name,
+      label: category.label,
+      parentCategoryId,
+      level,
+      sortOrder: index,
+      isActive: true,
+      ...(children.length > 0 ? { children } : {})
+    };
+  });
+
+/**
+ * Every group has a single implicit "All" root; its children become the
+ * top-level categories in Kublish
+ */
+const toDataCategoryGroup = (
+  group: SalesforceCategoryGroup,
+  structure: SalesforceCategoryGroup | undefined,
+  syncedAt: string
+): DataCategoryGroup => {
+  const topCategories = structure?.topCategories || [];
+  const roots = topCategories.length === 1 && topCategories[0].name === 'All'
+    ? topCategories[0].childCategories || []
+    : topCategories;
+
+  return {
+    id: group.name,
+    name: group.name,
+    label: group.label,
+    description: group.description,
+    isActive: true,
+    lastSyncedAt: syncedAt,
+    categories: toDataCategories(group.name, roots, 0)
+  };
+};
+
+const isStale = (lastSyncedAt?: string): boolean =>
+  !lastSyncedAt || Date.now() - new Date(lastSyncedAt).getTime() > CATEGORY_SYNC_MAX_AGE;
+
+const syncCategoryStructure = async (orgId: string): Promise<CategoryStructure> => {
+  const syncedAt = new Date().toISOString();
+  const groups = await describeDataCategoryGroups(orgId);
+  const structures = await describeDataCategoryGroupStructures(orgId, groups.map(group => group.name));
+
+  const structure: CategoryStructure = {
+    categoryGroups: groups.map(group =>
+      toDataCategoryGroup(group, structures.find(s => s.name === group.name), syncedAt)
+    ),
+    articleTypeMappings: [{
+      articleType: 'Knowledge',
+      dataCategoryObjectName: 'Knowledge__DataCategorySelection',
+      isActive: true,
+      lastSyncedAt: syncedAt
+    }],
+    lastSyncedAt: syncedAt
+  };
+
+  await setCategoryStructure(orgId, structure);
+  return structure;
+};
+
+/**
+ * GET /salesforce/categories?orgId=
+ * Reads the default org's cache when no orgId is given
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const orgId = await findOrgId(req.query.orgId as string | undefined);
+    const structure = orgId ? await getCategoryStructure(orgId) : null;
+    res.status(200).json({
+      orgId,
+      categoryGroups: structure?.categoryGroups || [],
+      articleTypeMappings: structure?.articleTypeMappings || [],
+      lastSyncedAt: structure?.lastSyncedAt
+    });
+  } catch (error) {
+    console.error('❌ /categories error:', error);
+    res.status(500).json({ error: 'Failed to fetch category structure' });
+  }
+});
+
+/**
+ * GET /salesforce/categories/status?orgId=
+ */
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    const orgId = await findOrgId(req.query.orgId as string | undefined);
+    const structure = orgId ? await getCategoryStructure(orgId) : null;
+    const lastSyncedAt = structure?.lastSyncedAt;
+
+    res.status(200).json({
+      orgId,
+      isConfigured: !!structure,
+      articleTypeCount: structure?.articleTypeMappings.length || 0,
+      categoryGroupCount: structure?.categoryGroups.length || 0,
+      totalCategoryCount: countGroupCategories(structure?.categoryGroups || []),
+      lastSyncedAt,
+      needsSync: isStale(lastSyncedAt)
+    });
+  } catch (error) {
+    console.error('❌ /categories/status error:', error);
+    res.status(500).json({ error: 'Failed to fetch category sync status' });
+  }
+});
+
+/**
+ * POST /salesforce/categories/sync?orgId=
+ * Re-reads the org's data category groups and caches the mapped trees.
+ * A fresh cache is returned as-is unless force is set.
+ */
+router.post('/sync', requirePermission('salesforce:manage'), async (req: Request, res: Response) => {
+  const force = req.body?.force === true;
+
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const cached = await getCategoryStructure(orgId);
+    const structure = cached && !isStale(cached.lastSyncedAt) && !force ? cached : await syncCategoryStructure(orgId);
+
+    res.status(200).json({
+      success: true,
+      orgId,
+      articleTypes: structure.articleTypeMappings.length,
+      categoryGroups: structure.categoryGroups.length,
+      categories: countGroupCategories(structure.categoryGroups),
+      syncedAt: structure.lastSyncedAt
+    });
+  } catch (error) {
+    sendSalesforceError(res, error, 'sync category structure');
+  }
+});
+
+/**
+ * DELETE /salesforce/categories?orgId=
+ */
+router.delete('/', requirePermission('salesforce:manage'), async (req: Request, res: Response) => {
+  try {
+    const orgId = await findOrgId(req.query.orgId as string | undefined);
+    if (!orgId) return res.status(404).json({ error: 'Salesforce org not found' });
+
+    const structure = await getCategoryStructure(orgId);
+    await clearCategoryStructure(orgId);
+
+    res.status(200).json({
+      success: true,
+      categories: countGroupCategories(structure?.categoryGroups || []),
+      categoryGroups: structure?.categoryGroups.length || 0,
+      articleTypeMappings: structure?.articleTypeMappings.length || 0
+    });
+  } catch (error) {
+    console.error('❌ /categories delete error:', error);
+    res.status(500).json({ error: 'Failed to delete category structure' });
+  }
+});
+
+export default router;
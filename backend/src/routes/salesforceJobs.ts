@@ -0,0 +1,214 @@
+import express, { Request, Response } from 'express';
+import { getArticle } from '../services/articleStore';
+import {
+  createPublishJob,
+  getPublishJob,
+  isJobFinished,
+  listPublishJobs,
+  PublishJob,
+  PublishJobItem,
+  requestJobCancel
+} from '../services/publishJobStore';
+import { requireOrgId } from '../services/salesforceApi';
+import { ensurePublishApproved } from '../services/reviewWorkflow';
+import { canEditArticle, canViewArticle } from '../../../shared/permissions';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { sendSalesforceError } from './salesforceKnowledge';
+
+const router = express.Router();
+
+router.use(requireAuth, requirePermission('articles:publish'));
+
+const EVENT_POLL_INTERVAL = 1000; // ms
+
+// Load a job the session user started, or any job for an Admin; otherwise answer 404
+const findJob = async (req: Request, res: Response): Promise<PublishJob | null> => {
+  const user = getSessionUser(res);
+  const job = await getPublishJob(req.params.id);
+  if (!job || (job.createdBy !== user.id && user.role !== 'Admin')) {
+    res.status(404).json({ error: 'Job not found' });
+    return null;
+  }
+  return job;
+};
+
+// A pending item for an article the session user can see, edit and publish
+// now; null after answering 404 or 403
+const toPendingItem = async (
+  res: Response,
+  articleId: string,
+  knowledgeArticleId?: string
+): Promise<PublishJobItem | null> => {
+  const user = getSessionUser(res);
+  const article = await getArticle(articleId);
+  if (!article || article.deletedAt || !canViewArticle(user, article)) {
+    res.status(404).json({ error: `Article ${articleId} not found` });
+    return null;
+  }
+  if (!canEditArticle(user, article)) {
+    res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn', articleId });
+    return null;
+  }
+  await ensurePublishApproved(article);
+  return { articleId, title: article.title, status: 'pending', attempts: 0, knowledgeArticleId };
+};
+
+/**
+ * POST /salesforce/jobs
+ * Queues a bulk publish of the given articles to an org connection. Every
+ * article must be one the session user can see and edit.
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const { articleIds, orgId } = req.body as { articleIds?: string[]; orgId?: string };
+  if (!Array.isArray(articleIds) || articleIds.length === 0) {
+    return res.status(400).json({ error: 'Missing articleIds' });
+  }
+
+  try {
+    const user = getSessionUser(res);
+    const targetOrgId = await requireOrgId(orgId);
+    const items: PublishJobItem[] = [];
+    for (const articleId of new Set(articleIds)) {
+      const item = await toPendingItem(res, articleId);
+      if (!item) return;
+      items.push(item);
+    }
+
+    const job = await createPublishJob({
+      orgId: targetOrgId,
+      createdBy: user.id,
+      createdByName: user.name,
+      items
+    });
+    res.status(202).json({ job });
+  } catch (error) {
+    sendSalesforceError(res, error, 'queue publish job');
+  }
+});
+
+/**
+ * GET /salesforce/jobs
+ * The session user's bulk jobs, newest first; ?active=true for unfinished
+ * ones only. Jobs queued by the scheduler are left out.
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const jobs = (await listPublishJobs(user.id))
+      .filter(job => job.trigger !== 'schedule')
+      .filter(job => req.query.active !== 'true' || !isJobFinished(job));
+    res.status(200).json({ jobs });
+  } catch (error) {
+    sendSalesforceError(res, error, 'list publish jobs');
+  }
+});
+
+/**
+ * GET /salesforce/jobs/:id
+ * Only the user who started a job, or an Admin, can follow or change it
+ */
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+    res.status(200).json({ job });
+  } catch (error) {
+    sendSalesforceError(res, error, 'get publish job');
+  }
+});
+
+/**
+ * GET /salesforce/jobs/:id/events
+ * Server-sent events: the full job on every change, until it finishes
+ */
+router.get('/:id/events', async (req: Request, res: Response) => {
+  try {
+    if (!(await findJob(req, res))) return;
+  } catch (error) {
+    return sendSalesforceError(res, error, 'get publish job');
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+
+  let lastUpdate = '';
+  const poll = async () => {
+    try {
+      const job = await getPublishJob(req.params.id);
+      if (!job) return close();
+      if (job.updatedAt !== lastUpdate) {
+        lastUpdate = job.updatedAt;
+        res.write(`data: ${JSON.stringify(job)}\n\n`);
+      }
+      if (isJobFinished(job)) close();
+    } catch (error) {
+      console.error('❌ publish job events error:', error);
+      close();
+    }
+  };
+
+  const timer = setInterval(poll, EVENT_POLL_INTERVAL);
+  const close = () => {
+    clearInterval(timer);
+    res.end();
+  };
+  req.on('close', () => clearInterval(timer));
+  poll();
+});
+
+/**
+ * POST /salesforce/jobs/:id/retry
+ * Queues a new job for the items that failed in a finished one. Each
+ * article must still be one the session user can see and may publish.
+ */
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+    if (!isJobFinished(job)) return res.status(409).json({ error: 'Job is still running' });
+
+    const failed = job.items.filter(item => item.status === 'failed');
+    if (failed.length === 0) return res.status(409).json({ error: 'Job has no failed items' });
+
+    const items: PublishJobItem[] = [];
+    for (const item of failed) {
+      // Keep the Salesforce id of a draft created before the failure
+      const pending = await toPendingItem(res, item.articleId, item.knowledgeArticleId);
+      if (!pending) return;
+      items.push(pending);
+    }
+
+    const user = getSessionUser(res);
+    const retry = await createPublishJob({
+      orgId: job.orgId,
+      createdBy: user.id,
+      createdByName: user.name,
+      items
+    });
+    res.status(202).json({ job: retry });
+  } catch (error) {
+    sendSalesforceError(res, error, 'retry publish job');
+  }
+});
+
+/**
+ * POST /salesforce/jobs/:id/cancel
+ * Items already published stay published; the rest are skipped
+ */
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const job = await findJob(req, res);
+    if (!job) return;
+    if (isJobFinished(job)) return res.status(409).json({ error: `Job already ${job.status}` });
+
+    await requestJobCancel(job.id);
+    res.status(202).json({ message: 'Cancellation requested' });
+  } catch (error) {
+    sendSalesforceError(res, error, 'cancel publish job');
+  }
+});
+
+export default router;
@@ -0,0 +1,241 @@
+import express, { Request, Response } from 'express';
+import { makeSalesforceApiCall, requireOrgId, SalesforceNotConnectedError } from '../services/salesforceApi';
+import { SalesforceApiError } from '../services/salesforceErrors';
+import {
+  getKnowledgeArticleId,
+  KNOWLEDGE_SOBJECT_PATH,
+  KnowledgeDraftInput,
+  publishKnowledgeVersion,
+  saveKnowledgeDraft,
+  toKnowledgeFields
+} from '../services/knowledgePublisher';
+import { StoreUnavailableError } from '../services/articleStore';
+import { findSyncedArticle, promoteArticle } from '../services/articleSync';
+import { promoteKnowledgeArticle, PromotionError } from '../services/knowledgePromotion';
+import { getFieldMapping } from '../services/orgStore';
+import { ensurePublishApproved, ReviewWorkflowError } from '../services/reviewWorkflow';
+import { createImportJob, getImportJob } from '../services/importJobStore';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { canViewArticle } from '../../../shared/permissions';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+export const sendSalesforceError = (res: Response, error: unknown, context: string) => {
+  if (error instanceof StoreUnavailableError) {
+    return res.status(503).json({ error: error.message });
+  }
+  if (error instanceof SalesforceNotConnectedError) {
+    return res.status(403).json({
+      error: `Failed to ${context}`,
+      message: error.message,
+      errorCode: 'SALESFORCE_NOT_CONNECTED'
+    });
+  }
+  if (error instanceof ReviewWorkflowError) {
+    return res.status(error.status).json({
+      error: `Failed to ${context}`,
+      message: error.message,
+      errorCode: error.code
+    });
+  }
+  if (error instanceof PromotionError) {
+    return res.status(error.status).json({
+      error: error.summary,
+      message: error.message,
+      missingCategories: error.missingCategories
+    });
+  }
+  if (error instanceof SalesforceApiError) {
+    if (error.status >= 500) console.error(`❌ ${context} error:`, error);
+    return res.status(error.status).json({
+      error: `Failed to ${context}`,
+      message: error.message,
+      errorCode: error.code,
+      salesforceErrorCode: error.salesforceErrorCode,
+      fieldErrors: error.fieldErrors
+    });
+  }
+
+  console.error(`❌ ${context} error:`, error);
+
+  res.status(500).json({ error: `Failed to ${context}`, message: (error as Error).message });
+};
+
+/**
+ * POST /salesforce/knowledge/drafts
+ * Creates a Knowledge__kav draft, or a new draft of an existing article when
+ * knowledgeArticleId is supplied
+ */
+router.post('/drafts', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { knowledgeArticleId, ...input } = req.body as KnowledgeDraftInput & { knowledgeArticleId?: string };
+  if (!input.title) return res.status(400).json({ error: 'Missing title' });
+
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const versionId = await saveKnowledgeDraft(orgId, input, knowledgeArticleId);
+
+    res.status(201).json({
+      success: true,
+      orgId,
+      knowledgeArticleId: knowledgeArticleId || await getKnowledgeArticleId(orgId, versionId),
+      versionId,
+      publishStatus: 'Draft'
+    });
+  } catch (error) {
+    sendSalesforceError(res, error, 'create knowledge draft');
+  }
+});
+
+/**
+ * PATCH /salesforce/knowledge/drafts/:versionId
+ */
+router.patch('/drafts/:versionId', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    await makeSalesforceApiCall(
+      orgId,
+      `${KNOWLEDGE_SOBJECT_PATH}/${req.params.versionId}`,
+      'PATCH',
+      toKnowledgeFields(req.body as Partial<KnowledgeDraftInput>, await getFieldMapping(orgId))
+    );
+
+    res.status(200).json({
+      success: true,
+      orgId,
+      versionId: req.params.versionId,
+      publishStatus: 'Draft'
+    });
+  } catch (error) {
+    sendSalesforceError(res, error, 'update knowledge draft');
+  }
+});
+
+/**
+ * POST /salesforce/knowledge/drafts/:versionId/publish
+ * With the review workflow on, the draft must belong to an approved Kublish
+ * article the session user can see
+ */
+router.post('/drafts/:versionId/publish', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { versionId } = req.params;
+
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const knowledgeArticleId = await getKnowledgeArticleId(orgId, versionId);
+    const article = await findSyncedArticle(orgId, knowledgeArticleId);
+    if (article && (article.deletedAt || !canViewArticle(getSessionUser(res), article))) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    await ensurePublishApproved(article);
+
+    await publishKnowledgeVersion(orgId, versionId);
+
+    res.status(200).json({
+      success: true,
+      orgId,
+      knowledgeArticleId,
+      versionId,
+      publishStatus: 'Online',
+      publishedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSalesforceError(res, error, 'publish knowledge article');
+  }
+});
+
+/**
+ * POST /salesforce/knowledge/promote
+ * Copies the version currently published in the source (staging) org to the
+ * target (production) org and publishes it there. Every data category on the
+ * source version must exist in the target's synced category tree first. A
+ * Kublish article's promotion goes through the article, which only promotes
+ * a version Kublish published; with the review workflow on, nothing else
+ * can be promoted.
+ */
+router.post('/promote', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { sourceOrgId, targetOrgId, knowledgeArticleId, targetKnowledgeArticleId } = req.body as {
+    sourceOrgId?: string;
+    targetOrgId?: string;
+    knowledgeArticleId?: string;
+    targetKnowledgeArticleId?: string;
+  };
+  if (!sourceOrgId || !targetOrgId || !knowledgeArticleId) {
+    return res.status(400).json({ error: 'Missing sourceOrgId, targetOrgId or knowledgeArticleId' });
+  }
+  if (sourceOrgId === targetOrgId) {
+    return res.status(400).json({ error: 'Source and target org must differ' });
+  }
+
+  try {
+    const user = getSessionUser(res);
+    const sourceId = await requireOrgId(sourceOrgId);
+    const targetId = await requireOrgId(targetOrgId);
+
+    const article = await findSyncedArticle(sourceId, knowledgeArticleId);
+    if (article) {
+      if (article.deletedAt || !canViewArticle(user, article)) return res.status(404).json({ error: 'Article not found' });
+      const version = await promoteArticle(article, user.name, sourceId, targetId);
+      return res.status(200).json({
+        success: true,
+        sourceOrgId: sourceId,
+        sourceVersionId: version.salesforceVersionId,
+        orgId: targetId,
+        knowledgeArticleId: version.promotedSalesforceId,
+        versionId: version.promotedVersionId,
+        publishStatus: 'Online',
+        promotedAt: version.promotedAt
+      });
+    }
+
+    await ensurePublishApproved(null);
+    const result = await promoteKnowledgeArticle(sourceId, targetId, knowledgeArticleId, targetKnowledgeArticleId);
+
+    res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    sendSalesforceError(res, error, 'promote knowledge article');
+  }
+});
+
+/**
+ * POST /salesforce/knowledge/import
+ * Queues an import of every published and draft Knowledge__kav in the org.
+ * Articles that already exist locally are skipped unless overwrite is set,
+ * and only overwritten where the session user may edit them.
+ */
+router.post('/import', requirePermission('articles:create'), async (req: Request, res: Response) => {
+  const { overwrite = false } = req.body as { overwrite?: boolean };
+
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const user = getSessionUser(res);
+    const job = await createImportJob({
+      orgId,
+      overwrite: overwrite === true,
+      createdBy: user.id,
+      createdByName: user.name
+    });
+    res.status(202).json({ job });
+  } catch (error) {
+    sendSalesforceError(res, error, 'queue knowledge import');
+  }
+});
+
+/**
+ * GET /salesforce/knowledge/import/:jobId
+ * Progress of an import, for whoever started it and Admins
+ */
+router.get('/import/:jobId', requirePermission('articles:create'), async (req: Request, res: Response) => {
+  try {
+    const job = await getImportJob(req.params.jobId);
+    const user = getSessionUser(res);
+    if (!job || (job.createdBy !== user.id && user.role !== 'Admin')) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    res.status(200).json({ job });
+  } catch (error) {
+    sendSalesforceError(res, error, 'get knowledge import');
+  }
+});
+
+export default router;
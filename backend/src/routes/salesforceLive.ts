@@ -1,110 +1,50 @@
 import express, { Request, Response } from 'express';
-import axios from 'axios';
+import { requireAuth } from '../middleware/auth';
+import { getTokenData } from '../services/tokenStore';
 import {
-  getTokenData,
-  setTokenData,
-  clearTokenData,
-  TokenData
-} from '../services/tokenStore';
+  API_USAGE_THRESHOLD,
+  makeSalesforceApiCall,
+  QueryResult,
+  recordApiUsage,
+  requireOrgId,
+  SF_API_VERSION
+} from '../services/salesforceApi';
+import { sendSalesforceError } from './salesforceKnowledge';
 
 const router = express.Router();
 
-/**
- * Refresh access token using refresh token
- */
-const refreshAccessToken = async (userId: string): Promise<TokenData | null> => {
-  const tokenData = await getTokenData(userId);
-  if (!tokenData?.refreshToken) {
-    console.error(`❌ No refresh token found for user: ${userId}`);
-    return null;
-  }
-
-  try {
-    console.log(`🔄 Refreshing access token for user: ${userId}`);
-
-    const response = await axios.post(
-      'https://login.salesforce.com/services/oauth2/token',
-      new URLSearchParams({
-        grant_type: 'refresh_token',
-        client_id: process.env.SF_CLIENT_ID!,
-        client_secret: process.env.SF_CLIENT_SECRET!,
-        refresh_token: tokenData.refreshToken
-      }),
-      {
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-          'Accept': 'application/json'
-        },
-        timeout: 10000
-      }
-    );
-
-    const {
-      access_token,
-      refresh_token,
-      instance_url,
-      issued_at,
-      expires_in
-    } = response.data;
-
-    const expiresAt = Date.now() + (parseInt(expires_in || '3600') * 1000); // Fallback 1h
-
-    const updatedToken: TokenData = {
-      accessToken: access_token,
-      refreshToken: refresh_token || tokenData.refreshToken,
-      instanceUrl: instance_url || tokenData.instanceUrl,
-      expiresAt
-    };
-
-    await setTokenData(userId, updatedToken);
-    console.log(`✅ Access token refreshed for ${userId}`);
-    return updatedToken;
-
-  } catch (err) {
-    console.error(`❌ Failed to refresh token for ${userId}:`, err);
-    return null;
-  }
-};
-
-const makeSalesforceApiCall = async (
-  userId: string,
-  endpoint: string,
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE' = 'GET',
-  data?: any
-): Promise<any> => {
-  let tokenData = await getTokenData(userId);
-  if (!tokenData) throw new Error('User is not authenticated with Salesforce.');
-
-  const now = Date.now();
-  if (tokenData.expiresAt < now + 30000) { // refresh if < 30s left
-    tokenData = await refreshAccessToken(userId);
-    if (!tokenData) throw new Error('Unable to refresh token.');
-  }
-
-  const url = `${tokenData.instanceUrl}${endpoint}`;
-
-  return axios({
-    method,
-    url,
-    data,
-    headers: {
-      Authorization: `Bearer ${tokenData.accessToken}`,
-      'Content-Type': 'application/json',
-      Accept: 'application/json'
-    },
-    timeout: 15000
-  });
-};
+// The OpenID Connect userinfo fields shown for the connected user
+interface SalesforceUserInfo {
+  user_id: string;
+  name?: string;
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+  preferred_username?: string;
+  organization_id?: string;
+  is_active?: boolean;
+  last_modified_date?: string;
+  timezone?: string;
+  locale?: string;
+  language?: string;
+}
+
+interface SalesforceOrganization {
+  Id: string;
+  Name: string;
+  OrganizationType: string;
+  IsSandbox: boolean;
+  InstanceName: string;
+  NamespacePrefix: string | null;
+}
 
 /**
- * GET /salesforce/me
+ * GET /salesforce/me?orgId=
  */
-router.get('/me', async (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
-  if (!userId) return res.status(400).json({ error: 'Missing userId' });
-
+router.get('/me', requireAuth, async (req: Request, res: Response) => {
   try {
-    const userResp = await makeSalesforceApiCall(userId, '/services/oauth2/userinfo');
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const userResp = await makeSalesforceApiCall<SalesforceUserInfo>(orgId, '/services/oauth2/userinfo');
     const userData = userResp.data;
 
     res.status(200).json({
@@ -121,27 +61,24 @@ router.get('/me', async (req: Request, res: Response) => {
         locale: userData.locale,
         language: userData.language
       },
-      instanceUrl: (await getTokenData(userId))?.instanceUrl,
+      instanceUrl: (await getTokenData(orgId))?.instanceUrl,
       retrievedAt: new Date().toISOString()
     });
 
   } catch (error) {
-    console.error('❌ /me error:', error);
-    res.status(500).json({ error: 'Failed to fetch user info' });
+    sendSalesforceError(res, error, 'fetch user info');
   }
 });
 
 /**
- * GET /salesforce/org
+ * GET /salesforce/org?orgId=
  */
-router.get('/org', async (req: Request, res: Response) => {
-  const userId = req.query.userId as string;
-  if (!userId) return res.status(400).json({ error: 'Missing userId' });
-
+router.get('/org', requireAuth, async (req: Request, res: Response) => {
   try {
-    const orgResp = await makeSalesforceApiCall(
-      userId,
-      '/services/data/v58.0/query/?q=SELECT+Id,Name,OrganizationType,IsSandbox,InstanceName,NamespacePrefix+FROM+Organization+LIMIT+1'
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const orgResp = await makeSalesforceApiCall<QueryResult<SalesforceOrganization>>(
+      orgId,
+      `/services/data/${SF_API_VERSION}/query/?q=SELECT+Id,Name,OrganizationType,IsSandbox,InstanceName,NamespacePrefix+FROM+Organization+LIMIT+1`
     );
 
     const org = orgResp.data.records?.[0];
@@ -157,13 +94,60 @@ router.get('/org', async (req: Request, res: Response) => {
         instanceName: org.InstanceName,
         namespacePrefix: org.NamespacePrefix
       },
-      instanceUrl: (await getTokenData(userId))?.instanceUrl,
+      instanceUrl: (await getTokenData(orgId))?.instanceUrl,
       retrievedAt: new Date().toISOString()
     });
 
   } catch (error) {
-    console.error('❌ /org error:', error);
-    res.status(500).json({ error: 'Failed to fetch org info' });
+    sendSalesforceError(res, error, 'fetch org info');
+  }
+});
+
+interface SalesforceLimit {
+  Max: number;
+  Remaining: number;
+}
+
+// The /limits entries worth showing next to the daily request allowance
+const REPORTED_LIMITS = ['DailyApiRequests', 'DailyBulkApiBatches', 'DailyAsyncApexExecutions', 'DataStorageMB', 'FileStorageMB'];
+
+/**
+ * GET /salesforce/limits?orgId=
+ * Current org limits; also refreshes the recorded daily API usage that
+ * throttling is based on
+ */
+router.get('/limits', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const orgId = await requireOrgId(req.query.orgId as string | undefined);
+    const limitsResp = await makeSalesforceApiCall<Record<string, SalesforceLimit>>(
+      orgId,
+      `/services/data/${SF_API_VERSION}/limits`
+    );
+    const limits = limitsResp.data;
+
+    const daily = limits.DailyApiRequests;
+    if (!daily) return res.status(502).json({ error: 'Salesforce did not report DailyApiRequests' });
+    const usage = await recordApiUsage(orgId, daily.Max - daily.Remaining, daily.Max);
+
+    res.status(200).json({
+      success: true,
+      orgId,
+      dailyApiRequests: {
+        used: usage.used,
+        max: usage.max,
+        remaining: daily.Remaining
+      },
+      throttleThreshold: API_USAGE_THRESHOLD,
+      throttled: usage.max > 0 && usage.used / usage.max >= API_USAGE_THRESHOLD,
+      limits: Object.fromEntries(
+        REPORTED_LIMITS
+          .filter(name => limits[name])
+          .map(name => [name, { max: limits[name].Max, remaining: limits[name].Remaining }])
+      ),
+      retrievedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    sendSalesforceError(res, error, 'fetch org limits');
   }
 });
 
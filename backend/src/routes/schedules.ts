@@ -0,0 +1,131 @@
+import express, { Request, Response } from 'express';
+import { getArticle, listArticles } from '../services/articleStore';
+import {
+  cancelScheduledAction,
+  createScheduledAction,
+  getScheduledAction,
+  listScheduledActions,
+  ScheduledActionStatus,
+  ScheduledActionType
+} from '../services/scheduleStore';
+import { isValidTimeZone, zonedTimeToUtc } from '../services/scheduler';
+import { findOrgId, requireOrgId } from '../services/salesforceApi';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { canEditArticle, canViewArticle } from '../../../shared/permissions';
+import { sendSalesforceError } from './salesforceKnowledge';
+import { handleStoreError } from './articles';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+const ACTIONS: ScheduledActionType[] = ['publish', 'archive', 'visibility'];
+
+/**
+ * GET /api/schedules?articleId=&from=&to=&status=
+ * Scheduled actions on articles the session user can see, in run order
+ */
+router.get('/', async (req: Request, res: Response) => {
+  const { articleId, from, to, status } = req.query as Record<string, string | undefined>;
+
+  try {
+    const user = getSessionUser(res);
+    const visible = new Set((await listArticles())
+      .filter(article => canViewArticle(user, article))
+      .map(article => article.id));
+    const schedules = (await listScheduledActions({ articleId, from, to, status: status as ScheduledActionStatus | undefined }))
+      .filter(schedule => visible.has(schedule.articleId));
+    res.status(200).json({ schedules });
+  } catch (error) {
+    handleStoreError(res, error, 'list scheduled actions');
+  }
+});
+
+/**
+ * POST /api/schedules
+ * Schedule a publish, archive or visibility change on an article the session
+ * user may edit. localTime is a wall-clock time ("2026-11-02T09:00") in
+ * timeZone; orgId defaults to the default org.
+ */
+router.post('/', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  const { articleId, action, visibility, localTime, timeZone, orgId } = req.body as {
+    articleId?: string;
+    action?: ScheduledActionType;
+    visibility?: 'internal' | 'public';
+    localTime?: string;
+    timeZone?: string;
+    orgId?: string;
+  };
+  if (!articleId || !action || !ACTIONS.includes(action) || !localTime || !timeZone) {
+    return res.status(400).json({ error: 'Missing articleId, action, localTime or timeZone' });
+  }
+  if (action === 'visibility' && visibility !== 'internal' && visibility !== 'public') {
+    return res.status(400).json({ error: 'Visibility changes need visibility set to internal or public' });
+  }
+  if (!isValidTimeZone(timeZone)) {
+    return res.status(400).json({ error: `Unknown time zone: ${timeZone}` });
+  }
+
+  const runAt = zonedTimeToUtc(localTime, timeZone);
+  if (!runAt) return res.status(400).json({ error: 'localTime must look like 2026-11-02T09:00' });
+  if (runAt.getTime() <= Date.now()) {
+    return res.status(400).json({ error: 'Scheduled time must be in the future' });
+  }
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(articleId);
+    if (!article || article.deletedAt || !canViewArticle(user, article)) {
+      return res.status(404).json({ error: 'Article not found' });
+    }
+    if (!canEditArticle(user, article)) return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+
+    // Only publishing needs an org up front; archive and visibility changes
+    // reach Salesforce wherever the article is already synced
+    const targetOrgId = action === 'publish' ? await requireOrgId(orgId) : await findOrgId(orgId);
+
+    const schedule = await createScheduledAction({
+      articleId,
+      articleTitle: article.title,
+      action,
+      visibility: action === 'visibility' ? visibility : undefined,
+      orgId: targetOrgId || undefined,
+      runAt: runAt.toISOString(),
+      localTime,
+      timeZone,
+      createdBy: user.id,
+      createdByName: user.name
+    });
+    res.status(201).json({ schedule });
+  } catch (error) {
+    sendSalesforceError(res, error, 'schedule article action');
+  }
+});
+
+/**
+ * DELETE /api/schedules/:id
+ * Cancel an action that has not run yet. Whoever scheduled it and those who
+ * may edit the article can.
+ */
+router.delete('/:id', requirePermission('articles:publish'), async (req: Request, res: Response) => {
+  try {
+    const user = getSessionUser(res);
+    const schedule = await getScheduledAction(req.params.id);
+    const article = schedule && await getArticle(schedule.articleId);
+    if (!schedule || (article && !canViewArticle(user, article))) {
+      return res.status(404).json({ error: 'Scheduled action not found' });
+    }
+    if (schedule.createdBy !== user.id && user.role !== 'Admin' && !(article && canEditArticle(user, article))) {
+      return res.status(403).json({ error: 'Forbidden', action: 'articles:editOwn' });
+    }
+    if (schedule.status !== 'pending') {
+      return res.status(409).json({ error: `Scheduled action already ${schedule.status}` });
+    }
+
+    res.status(200).json({ schedule: await cancelScheduledAction(schedule) });
+  } catch (error) {
+    handleStoreError(res, error, 'cancel scheduled action');
+  }
+});
+
+export default router;
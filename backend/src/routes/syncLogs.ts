@@ -0,0 +1,89 @@
+import express, { Request, Response } from 'express';
+import { listSyncLogs, addSyncLog, deleteSyncLog, getArticle, listArticles, SyncLog } from '../services/articleStore';
+import { handleStoreError } from './articles';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { canViewArticle } from '../../../shared/permissions';
+
+const router = express.Router();
+
+router.use(requireAuth);
+
+// What the app records itself. The server writes sync, publish, lifecycle,
+// review and schedule entries; of those the app may only add lifecycle
+// failures it saw before the request got through.
+const CLIENT_ACTIONS: SyncLog['action'][] = ['draft_save'];
+const CLIENT_FAILURE_ACTIONS: SyncLog['action'][] = ['archive', 'unarchive', 'delete'];
+const STATUSES: SyncLog['status'][] = ['success', 'error'];
+
+/**
+ * GET /api/sync-logs?user=&articleId=&dateFrom=&dateTo=
+ * Entries for articles the session user can see; Admins also see those of
+ * deleted articles
+ */
+router.get('/', async (req: Request, res: Response) => {
+  const { user: author, articleId, dateFrom, dateTo } = req.query as Record<string, string | undefined>;
+
+  try {
+    const user = getSessionUser(res);
+    const visible = new Set((await listArticles())
+      .filter(article => canViewArticle(user, article))
+      .map(article => article.id));
+    const syncLogs = (await listSyncLogs({ user: author, articleId, dateFrom, dateTo }))
+      .filter(log => visible.has(log.articleId) || user.role === 'Admin');
+    res.status(200).json({ syncLogs });
+  } catch (error) {
+    handleStoreError(res, error, 'list sync logs');
+  }
+});
+
+/**
+ * POST /api/sync-logs
+ * Record a draft save by the session user, or a lifecycle action that
+ * failed before reaching the server
+ */
+router.post('/', requirePermission('syncLogs:write'), async (req: Request, res: Response) => {
+  const { articleId, articleTitle, action, status, message } = req.body as Partial<SyncLog>;
+  if (!articleId || !action || !status) {
+    return res.status(400).json({ error: 'Missing articleId, action or status' });
+  }
+  if (!STATUSES.includes(status)) {
+    return res.status(400).json({ error: 'status must be success or error' });
+  }
+  if (!CLIENT_ACTIONS.includes(action) && !(status === 'error' && CLIENT_FAILURE_ACTIONS.includes(action))) {
+    return res.status(400).json({ error: `Cannot record a ${status} ${action} entry` });
+  }
+
+  try {
+    const user = getSessionUser(res);
+    const article = await getArticle(articleId);
+    if (!article || !canViewArticle(user, article)) return res.status(404).json({ error: 'Article not found' });
+
+    const syncLog = await addSyncLog({
+      articleId,
+      articleTitle: articleTitle || article.title,
+      action,
+      user: user.name,
+      status,
+      message: message || ''
+    });
+    res.status(201).json({ syncLog });
+  } catch (error) {
+    handleStoreError(res, error, 'create sync log');
+  }
+});
+
+/**
+ * DELETE /api/sync-logs/:id
+ */
+router.delete('/:id', requirePermission('syncLogs:delete'), async (req: Request, res: Response) => {
+  try {
+    const removed = await deleteSyncLog(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'Sync log not found' });
+
+    res.status(200).json({ message: 'Sync log deleted' });
+  } catch (error) {
+    handleStoreError(res, error, 'delete sync log');
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import { handleStoreError } from './articles';
+import { createResetToken, hashPassword } from '../services/authService';
+import {
+  createUser,
+  deleteUser,
+  getUserById,
+  listUsers,
+  saveUser,
+  toPublicUser,
+  UserExistsError,
+  UserRole
+} from '../services/userStore';
+import { getSessionUser, requireAuth, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../../../shared/permissions';
+
+const router = express.Router();
+
+const ROLES: UserRole[] = ['Admin', 'Editor', 'Viewer'];
+
+router.use(requireAuth);
+
+const toDisplayName = (email: string) =>
+  email.split('@')[0].replace(/[._]/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+
+/**
+ * GET /api/users
+ * Everyone signed in can list users to @mention them; only user managers
+ * see email addresses and login times
+ */
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const users = await listUsers();
+    res.status(200).json({
+      users: hasPermission(getSessionUser(res), 'users:manage')
+        ? users.map(toPublicUser)
+        : users.map(({ id, name, role }) => ({ id, name, role }))
+    });
+  } catch (error) {
+    handleStoreError(res, error, 'list users');
+  }
+});
+
+router.use(requirePermission('users:manage'));
+
+/**
+ * POST /api/users
+ * Invites a user: the account gets an unusable random password and a
+ * reset link the invitee uses to choose their own
+ */
+router.post('/', async (req: Request, res: Response) => {
+  const { email, role, name } = req.body as { email?: string; role?: UserRole; name?: string };
+  if (!email || !email.includes('@')) return res.status(400).json({ error: 'Please enter a valid email address.' });
+  if (!role || !ROLES.includes(role)) return res.status(400).json({ error: 'Invalid role' });
+
+  try {
+    const user = await createUser({
+      email,
+      name: name?.trim() || toDisplayName(email),
+      role,
+      passwordHash: await hashPassword(crypto.randomBytes(32).toString('hex'))
+    });
+
+    const token = await createResetToken(user.id);
+    if (process.env.NODE_ENV !== 'production') {
+      const inviteUrl = `${process.env.FRONTEND_URL || 'http://localhost:5173'}/forgot-password?token=${token}`;
+      console.log(`✉️ Invitation link for ${user.email}: ${inviteUrl}`);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `User created successfully. Invitation sent to ${user.email}`,
+      user: toPublicUser(user)
+    });
+  } catch (error) {
+    if (error instanceof UserExistsError) {
+      return res.status(409).json({ error: 'User with this email already exists' });
+    }
+    handleStoreError(res, error, 'create user');
+  }
+});
+
+/**
+ * PATCH /api/users/:id
+ */
+router.patch('/:id', async (req: Request, res: Response) => {
+  const { role } = req.body as { role?: UserRole };
+  if (!role || !ROLES.includes(role)) return res.status(400).json({ error: 'Invalid role' });
+  if (req.params.id === getSessionUser(res).id) {
+    return res.status(400).json({ error: 'You cannot change your own role' });
+  }
+
+  try {
+    const user = await getUserById(req.params.id);
+    if (!user) return res.status(404).json({ error: 'User not found' });
+
+    const updated = await saveUser({ ...user, role });
+    res.status(200).json({
+      success: true,
+      message: `User role updated to ${role} successfully`,
+      user: toPublicUser(updated)
+    });
+  } catch (error) {
+    handleStoreError(res, error, 'update user role');
+  }
+});
+
+/**
+ * DELETE /api/users/:id
+ */
+router.delete('/:id', async (req: Request, res: Response) => {
+  if (req.params.id === getSessionUser(res).id) {
+    return res.status(400).json({ error: 'You cannot delete your own account' });
+  }
+
+  try {
+    const removed = await deleteUser(req.params.id);
+    if (!removed) return res.status(404).json({ error: 'User not found' });
+
+    res.status(200).json({ success: true, message: 'User deleted successfully' });
+  } catch (error) {
+    handleStoreError(res, error, 'delete user');
+  }
+});
+
+export default router;
@@ -0,0 +1,37 @@
+import redis from '../config/redis';
+
+export interface ApiUsage {
+  used: number;
+  max: number;
+  updatedAt: string;
+}
+
+const REDIS_PREFIX = 'kublish:apiusage';
+
+const isRedisConnected = () => redis.status === 'ready';
+
+/**
+ * Latest daily API usage seen for an org, from the Sforce-Limit-Info header
+ * or the /limits resource
+ */
+export const setApiUsage = async (orgId: string, usage: ApiUsage): Promise<void> => {
+  if (isRedisConnected()) {
+    await redis.set(`${REDIS_PREFIX}:${orgId}`, JSON.stringify(usage));
+  }
+};
+
+export const getApiUsage = async (orgId: string): Promise<ApiUsage | null> => {
+  if (isRedisConnected()) {
+    const data = await redis.get(`${REDIS_PREFIX}:${orgId}`);
+    if (data) {
+      return JSON.parse(data);
+    }
+  }
+  return null;
+};
+
+export const clearApiUsage = async (orgId: string): Promise<void> => {
+  if (isRedisConnected()) {
+    await redis.del(`${REDIS_PREFIX}:${orgId}`);
+  }
+};
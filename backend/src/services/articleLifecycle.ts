@@ -0,0 +1,250 @@
+import {
+  addSyncLog,
+  Article,
+  deleteArticle,
+  listVersions,
+  newVersionId,
+  saveArticle,
+  saveVersion,
+  Version
+} from './articleStore';
+import { archiveKnowledgeArticle, getOrCreateDraftVersion } from './knowledgePublisher';
+import { deleteThreads } from './commentStore';
+import { deleteReviewRequest } from './reviewStore';
+import { cancelScheduledAction, listScheduledActions } from './scheduleStore';
+
+/**
+ * Where a version reached Salesforce: the org it was synced to and the org
+ * it was promoted to, if any. A promotion reads as a published version in
+ * the target org, as of the time it was promoted.
+ */
+const salesforceCopiesOf = (version: Version): Version[] => {
+  const copies: Version[] = [];
+  if (version.syncedToSalesforce && version.salesforceId && version.salesforceOrgId) copies.push(version);
+  if (version.promotedOrgId && version.promotedSalesforceId) {
+    copies.push({
+      ...version,
+      status: 'Published',
+      syncTimestamp: version.promotedAt,
+      salesforceId: version.promotedSalesforceId,
+      salesforceVersionId: version.promotedVersionId,
+      salesforceOrgId: version.promotedOrgId
+    });
+  }
+  return copies;
+};
+
+const reachedAt = (copy: Version) => new Date(copy.syncTimestamp || copy.createdAt).getTime();
+
+// Every Salesforce copy of the article, newest first
+const salesforceCopies = (versions: Version[]): Version[] =>
+  versions.flatMap(salesforceCopiesOf).sort((a, b) => reachedAt(b) - reachedAt(a));
+
+/**
+ * The newest version synced or promoted to each org the article has
+ * reached. An article promoted to other orgs has one entry per org, with
+ * the Salesforce ids of its copy there.
+ */
+export const latestSyncedByOrg = (versions: Version[]): Version[] => {
+  const latest = new Map<string, Version>();
+  for (const copy of salesforceCopies(versions)) {
+    if (!latest.has(copy.salesforceOrgId!)) latest.set(copy.salesforceOrgId!, copy);
+  }
+  return [...latest.values()];
+};
+
+/**
+ * Whether a version of the article is online in some org: one was published
+ * or promoted there and none archived since. A draft synced after
+ * publishing leaves the published version online.
+ */
+const isOnlineInSalesforce = (versions: Version[]): boolean => {
+  const settled = new Map<string, boolean>();
+  for (const copy of salesforceCopies(versions)) {
+    const orgId = copy.salesforceOrgId!;
+    if (settled.has(orgId) || copy.status === 'Draft') continue;
+    settled.set(orgId, copy.status === 'Published');
+  }
+  return [...settled.values()].some(Boolean);
+};
+
+const recordVersion = (
+  article: Article,
+  status: Version['status'],
+  user: string,
+  notes: string,
+  synced?: { orgId: string; salesforceId: string; salesforceVersionId: string; dataCategories?: string[] }
+): Promise<Version> => {
+  const now = new Date().toISOString();
+  return saveVersion({
+    versionId: newVersionId(),
+    articleId: article.id,
+    title: article.title,
+    body: article.body,
+    status,
+    createdBy: user,
+    createdAt: now,
+    notes,
+    syncedToSalesforce: !!synced,
+    syncTimestamp: synced ? now : undefined,
+    syncUser: synced ? user : undefined,
+    salesforceId: synced?.salesforceId,
+    salesforceVersionId: synced?.salesforceVersionId,
+    salesforceOrgId: synced?.orgId,
+    dataCategories: synced?.dataCategories
+  });
+};
+
+/**
+ * Archive an article, and its online version in every org it was published
+ * to. Orgs with nothing online are left alone.
+ */
+export const archiveArticle = async (
+  article: Article,
+  user: string,
+  options: { scheduled?: boolean } = {}
+): Promise<Article> => {
+  const notes = options.scheduled ? 'Archived by schedule' : 'Archived';
+  const archived: Version[] = [];
+
+  for (const synced of latestSyncedByOrg(await listVersions(article.id))) {
+    if (synced.status === 'Archived') continue;
+    const versionId = await archiveKnowledgeArticle(synced.salesforceOrgId!, synced.salesforceId!);
+    if (!versionId) continue;
+    archived.push(await recordVersion(article, 'Archived', user, notes, {
+      orgId: synced.salesforceOrgId!,
+      salesforceId: synced.salesforceId!,
+      salesforceVersionId: versionId,
+      dataCategories: synced.dataCategories
+    }));
+  }
+  if (archived.length === 0) await recordVersion(article, 'Archived', user, notes);
+
+  const saved = await saveArticle({
+    ...article,
+    status: 'archived',
+    lastModified: new Date().toISOString(),
+    lastSyncedVersionId: archived[0]?.versionId || article.lastSyncedVersionId
+  });
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'archive',
+    user,
+    status: 'success',
+    message: archived.length > 0
+      ? `${notes} in ${archived.length} Salesforce org${archived.length === 1 ? '' : 's'}`
+      : `${notes}; nothing was online in Salesforce`
+  });
+  return saved;
+};
+
+/**
+ * Bring an archived article back as a draft. Orgs where it was archived get
+ * a new draft restored from the archived version.
+ */
+export const unarchiveArticle = async (article: Article, user: string): Promise<Article> => {
+  const restored: Version[] = [];
+
+  for (const synced of latestSyncedByOrg(await listVersions(article.id))) {
+    if (synced.status !== 'Archived') continue;
+    const versionId = await getOrCreateDraftVersion(synced.salesforceOrgId!, synced.salesforceId!);
+    restored.push(await recordVersion(article, 'Draft', user, 'Unarchived', {
+      orgId: synced.salesforceOrgId!,
+      salesforceId: synced.salesforceId!,
+      salesforceVersionId: versionId,
+      dataCategories: synced.dataCategories
+    }));
+  }
+
+  const saved = await saveArticle({
+    ...article,
+    status: 'draft',
+    lastModified: new Date().toISOString(),
+    lastSyncedVersionId: restored[0]?.versionId || article.lastSyncedVersionId
+  });
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'unarchive',
+    user,
+    status: 'success',
+    message: restored.length > 0
+      ? `Unarchived as a draft in ${restored.length} Salesforce org${restored.length === 1 ? '' : 's'}`
+      : 'Unarchived as a draft'
+  });
+  return saved;
+};
+
+/**
+ * Move an article to the trash. An article online in Salesforce is archived
+ * first so it does not stay online there, whatever its status in Kublish,
+ * and pending scheduled actions are cancelled.
+ */
+export const trashArticle = async (article: Article, user: string): Promise<Article> => {
+  const online = article.status === 'published' || isOnlineInSalesforce(await listVersions(article.id));
+  const current = online ? await archiveArticle(article, user) : article;
+
+  for (const action of await listScheduledActions({ articleId: article.id, status: 'pending' })) {
+    await cancelScheduledAction(action);
+  }
+
+  const saved = await saveArticle({
+    ...current,
+    deletedAt: new Date().toISOString(),
+    deletedBy: user
+  });
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'delete',
+    user,
+    status: 'success',
+    message: 'Moved to trash'
+  });
+  return saved;
+};
+
+/**
+ * Take an article out of the trash in the state it was trashed in
+ */
+export const restoreArticle = async (article: Article, user: string): Promise<Article> => {
+  const saved = await saveArticle({
+    ...article,
+    deletedAt: undefined,
+    deletedBy: undefined,
+    lastModified: new Date().toISOString()
+  });
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'restore',
+    user,
+    status: 'success',
+    message: 'Restored from trash'
+  });
+  return saved;
+};
+
+/**
+ * Delete a trashed article, its versions and its comments for good. Its
+ * sync logs stay.
+ */
+export const purgeArticle = async (article: Article, user: string): Promise<void> => {
+  await deleteArticle(article.id);
+  await deleteReviewRequest(article.id);
+  await deleteThreads(article.id);
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'delete',
+    user,
+    status: 'success',
+    message: 'Permanently deleted'
+  });
+};
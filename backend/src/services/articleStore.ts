@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+
+export interface Article {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  visibility: 'internal' | 'public';
+  status: 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'published' | 'archived';
+  owner: string; // display name
+  ownerId?: string; // unset until a Kublish user owns it, e.g. after an import
+  lastModified: string;
+  createdAt: string;
+  lastSyncedVersionId?: string;
+  dataCategories?: string[];
+  deletedAt?: string; // set while the article is in the trash
+  deletedBy?: string;
+  reviewers?: string[]; // names of the users reviewing the current submission
+  reviewerIds?: string[]; // their ids, which is what permissions check
+  statusBeforeReview?: 'draft' | 'published'; // what withdrawing from review goes back to
+}
+
+export interface Version {
+  versionId: string;
+  articleId: string;
+  title: string;
+  body: string;
+  status: 'Draft' | 'Published' | 'Archived';
+  createdBy: string;
+  createdAt: string;
+  versionLabel?: string;
+  notes?: string;
+  syncedToSalesforce: boolean;
+  syncTimestamp?: string;
+  syncUser?: string;
+  salesforceId?: string;
+  salesforceVersionId?: string;
+  salesforceOrgId?: string; // org connection the sync went to
+  dataCategories?: string[]; // categories on the Salesforce version; syncs leave them as they were
+  promotedOrgId?: string; // org this version was promoted to from salesforceOrgId
+  promotedSalesforceId?: string; // KnowledgeArticleId in the promoted org
+  promotedVersionId?: string;
+  promotedAt?: string;
+}
+
+export interface SyncLog {
+  id: string;
+  articleId: string;
+  articleTitle: string;
+  action:
+    | 'sync'
+    | 'publish'
+    | 'draft_save'
+    | 'promote'
+    | 'archive'
+    | 'unarchive'
+    | 'delete'
+    | 'restore'
+    | 'visibility'
+    | 'submit_review'
+    | 'approve'
+    | 'request_changes'
+    | 'withdraw_review';
+  user: string;
+  timestamp: string;
+  status: 'success' | 'error';
+  message: string;
+}
+
+export interface SyncLogFilters {
+  user?: string;
+  articleId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+const ARTICLES_KEY = 'kublish:articles';
+const VERSIONS_PREFIX = 'kublish:versions';
+const SYNC_LOGS_KEY = 'kublish:synclogs';
+
+export class StoreUnavailableError extends Error {
+  constructor() {
+    super('Article store unavailable');
+    this.name = 'StoreUnavailableError';
+  }
+}
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+const parseAll = <T>(hash: Record<string, string>): T[] =>
+  Object.values(hash).map(value => JSON.parse(value) as T);
+
+const byNewest = <T>(getDate: (item: T) => string) => (a: T, b: T) =>
+  new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime();
+
+/**
+ * Articles
+ */
+export const listArticles = async (): Promise<Article[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(ARTICLES_KEY);
+  return parseAll<Article>(hash).sort(byNewest(article => article.lastModified));
+};
+
+export const getArticle = async (id: string): Promise<Article | null> => {
+  ensureConnected();
+  const data = await redis.hget(ARTICLES_KEY, id);
+  return data ? JSON.parse(data) : null;
+};
+
+export const saveArticle = async (article: Article): Promise<Article> => {
+  ensureConnected();
+  await redis.hset(ARTICLES_KEY, article.id, JSON.stringify(article));
+  return article;
+};
+
+/**
+ * Delete an article together with its version history
+ */
+export const deleteArticle = async (id: string): Promise<boolean> => {
+  ensureConnected();
+  const removed = await redis.hdel(ARTICLES_KEY, id);
+  await redis.del(`${VERSIONS_PREFIX}:${id}`);
+  return removed > 0;
+};
+
+/**
+ * Versions
+ */
+export const listVersions = async (articleId: string): Promise<Version[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(`${VERSIONS_PREFIX}:${articleId}`);
+  return parseAll<Version>(hash).sort(byNewest(version => version.createdAt));
+};
+
+/**
+ * Versions of several articles in one round trip, newest first
+ */
+export const listVersionsOf = async (articleIds: string[]): Promise<Version[]> => {
+  ensureConnected();
+  const pipeline = redis.pipeline();
+  articleIds.forEach(articleId => pipeline.hgetall(`${VERSIONS_PREFIX}:${articleId}`));
+  const results = (await pipeline.exec()) || [];
+
+  return results
+    .flatMap(([error, hash]) => {
+      if (error) throw error;
+      return parseAll<Version>(hash as Record<string, string>);
+    })
+    .sort(byNewest(version => version.createdAt));
+};
+
+export const getVersion = async (articleId: string, versionId: string): Promise<Version | null> => {
+  ensureConnected();
+  const data = await redis.hget(`${VERSIONS_PREFIX}:${articleId}`, versionId);
+  return data ? JSON.parse(data) : null;
+};
+
+// Versions can be written in the same millisecond, e.g. one per org
+export const newVersionId = (): string => crypto.randomUUID();
+
+export const saveVersion = async (version: Version): Promise<Version> => {
+  ensureConnected();
+  await redis.hset(`${VERSIONS_PREFIX}:${version.articleId}`, version.versionId, JSON.stringify(version));
+  return version;
+};
+
+export const deleteVersion = async (articleId: string, versionId: string): Promise<boolean> => {
+  ensureConnected();
+  const removed = await redis.hdel(`${VERSIONS_PREFIX}:${articleId}`, versionId);
+  return removed > 0;
+};
+
+/**
+ * Sync logs
+ */
+export const listSyncLogs = async (filters: SyncLogFilters = {}): Promise<SyncLog[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(SYNC_LOGS_KEY);
+  const from = filters.dateFrom ? new Date(filters.dateFrom).getTime() : -Infinity;
+  const to = filters.dateTo ? new Date(filters.dateTo).getTime() : Infinity;
+
+  return parseAll<SyncLog>(hash)
+    .filter(log => !filters.user || log.user === filters.user)
+    .filter(log => !filters.articleId || log.articleId === filters.articleId)
+    .filter(log => {
+      const time = new Date(log.timestamp).getTime();
+      return time >= from && time <= to;
+    })
+    .sort(byNewest(log => log.timestamp));
+};
+
+export const addSyncLog = async (log: Omit<SyncLog, 'id' | 'timestamp'>): Promise<SyncLog> => {
+  ensureConnected();
+  const newLog: SyncLog = {
+    ...log,
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString()
+  };
+  await redis.hset(SYNC_LOGS_KEY, newLog.id, JSON.stringify(newLog));
+  return newLog;
+};
+
+export const deleteSyncLog = async (id: string): Promise<boolean> => {
+  ensureConnected();
+  const removed = await redis.hdel(SYNC_LOGS_KEY, id);
+  return removed > 0;
+};
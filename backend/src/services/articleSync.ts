@@ -0,0 +1,179 @@
+import {
+  addSyncLog,
+  Article,
+  listArticles,
+  listVersions,
+  listVersionsOf,
+  newVersionId,
+  saveArticle,
+  saveVersion,
+  Version
+} from './articleStore';
+import { getKnowledgeArticleId, publishKnowledgeVersion, saveKnowledgeDraft } from './knowledgePublisher';
+import { promoteKnowledgeArticle, PromotionError } from './knowledgePromotion';
+import { latestSyncedByOrg } from './articleLifecycle';
+import { clearDriftReport } from './driftStore';
+import { getOrgConnection } from './orgStore';
+import { ensurePublishApproved } from './reviewWorkflow';
+
+export interface SyncedArticle {
+  article: Article;
+  version: Version;
+}
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const logFailure = (article: Article, action: 'sync' | 'publish' | 'promote', user: string, message: string) =>
+  addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action,
+    user,
+    status: 'error',
+    message
+  });
+
+/**
+ * The newest version synced or promoted to orgId; its Salesforce id is the
+ * article to update there
+ */
+const lastSyncedTo = (versions: Version[], orgId: string) =>
+  latestSyncedByOrg(versions).find(version => version.salesforceOrgId === orgId);
+
+/**
+ * The Kublish article that knowledgeArticleId in orgId belongs to, whether
+ * it got there by a sync, an import or a promotion
+ */
+export const findSyncedArticle = async (orgId: string, knowledgeArticleId: string): Promise<Article | null> => {
+  const articles = await listArticles();
+  const owner = (await listVersionsOf(articles.map(article => article.id))).find(version =>
+    (version.salesforceOrgId === orgId && version.salesforceId === knowledgeArticleId) ||
+    (version.promotedOrgId === orgId && version.promotedSalesforceId === knowledgeArticleId)
+  );
+  return owner ? articles.find(article => article.id === owner.articleId) || null : null;
+};
+
+/**
+ * Write the article to a Salesforce draft in orgId and, when publishing, put
+ * it online. The synced version is recorded and becomes the article's last
+ * synced version, and drift found in orgId before is cleared. With recreate,
+ * a new Salesforce article replaces the one last synced, which was deleted
+ * there. Failures are logged and rethrown.
+ */
+export const syncArticle = async (
+  article: Article,
+  user: string,
+  orgId: string,
+  publish = false,
+  options: { recreate?: boolean } = {}
+): Promise<SyncedArticle> => {
+  const action = publish ? 'publish' : 'sync';
+
+  try {
+    if (publish) await ensurePublishApproved(article);
+
+    const versions = await listVersions(article.id);
+    const previous = options.recreate ? undefined : lastSyncedTo(versions, orgId);
+    const versionId = await saveKnowledgeDraft(orgId, {
+      title: article.title,
+      body: article.body,
+      tags: article.tags,
+      visibility: article.visibility
+    }, previous?.salesforceId);
+    if (publish) await publishKnowledgeVersion(orgId, versionId);
+
+    const now = new Date().toISOString();
+    const version = await saveVersion({
+      versionId: newVersionId(),
+      articleId: article.id,
+      title: article.title,
+      body: article.body,
+      status: publish ? 'Published' : 'Draft',
+      createdBy: user,
+      createdAt: now,
+      versionLabel: `v${(publish ? versions.filter(v => v.status === 'Published') : versions).length + 1}.0`,
+      notes: publish ? 'Published to Salesforce' : 'Synced to Salesforce',
+      syncedToSalesforce: true,
+      syncTimestamp: now,
+      syncUser: user,
+      salesforceId: previous?.salesforceId || await getKnowledgeArticleId(orgId, versionId),
+      salesforceVersionId: versionId,
+      salesforceOrgId: orgId,
+      dataCategories: previous ? previous.dataCategories : [] // a new Salesforce article has none
+    });
+
+    const saved = await saveArticle({
+      ...article,
+      status: publish ? 'published' : article.status,
+      lastModified: now,
+      lastSyncedVersionId: version.versionId
+    });
+    await clearDriftReport(article.id, orgId);
+
+    await addSyncLog({
+      articleId: article.id,
+      articleTitle: article.title,
+      action,
+      user,
+      status: 'success',
+      message: publish ? 'Article published and synced to Salesforce' : 'Article synced to Salesforce successfully'
+    });
+    return { article: saved, version };
+  } catch (error) {
+    await logFailure(article, action, user, `Failed to ${action}: ${describeError(error)}`);
+    throw error;
+  }
+};
+
+/**
+ * Promote the newest version published to sourceOrgId, unchanged, to
+ * targetOrgId. An earlier promotion or direct sync to the target is updated
+ * rather than duplicated. The promotion is recorded on the version.
+ */
+export const promoteArticle = async (
+  article: Article,
+  user: string,
+  sourceOrgId: string,
+  targetOrgId: string
+): Promise<Version> => {
+  const targetName = (await getOrgConnection(targetOrgId))?.name || 'target org';
+
+  try {
+    const versions = await listVersions(article.id);
+    const promotable = versions.find(version =>
+      version.status === 'Published' && version.syncedToSalesforce && version.salesforceId &&
+      version.salesforceOrgId === sourceOrgId
+    );
+    if (!promotable) {
+      throw new PromotionError(
+        'Article not published in source org',
+        'Publish the article to the source org before promoting it',
+        409
+      );
+    }
+
+    const previous = lastSyncedTo(versions, targetOrgId)?.salesforceId;
+    const result = await promoteKnowledgeArticle(sourceOrgId, targetOrgId, promotable.salesforceId!, previous);
+
+    const version = await saveVersion({
+      ...promotable,
+      promotedOrgId: result.orgId,
+      promotedSalesforceId: result.knowledgeArticleId,
+      promotedVersionId: result.versionId,
+      promotedAt: result.promotedAt
+    });
+
+    await addSyncLog({
+      articleId: article.id,
+      articleTitle: article.title,
+      action: 'promote',
+      user,
+      status: 'success',
+      message: `Promoted ${promotable.versionLabel || 'published version'} to ${targetName}`
+    });
+    return version;
+  } catch (error) {
+    await logFailure(article, 'promote', user, `Failed to promote to ${targetName}: ${describeError(error)}`);
+    throw error;
+  }
+};
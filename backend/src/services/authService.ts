@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { CookieOptions, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+import { StoredUser } from './userStore';
+
+if (!process.env.JWT_SECRET) {
+  throw new Error('Missing required environment variable: JWT_SECRET');
+}
+
+const JWT_SECRET = process.env.JWT_SECRET;
+const ACCESS_TOKEN_TTL = 15 * 60; // seconds
+const REFRESH_TOKEN_TTL = 7 * 24 * 60 * 60; // seconds
+const RESET_TOKEN_TTL = 60 * 60; // seconds
+
+export const ACCESS_COOKIE = 'kublish_access';
+export const REFRESH_COOKIE = 'kublish_refresh';
+
+const REFRESH_PREFIX = 'kublish:refresh';
+const USER_REFRESH_PREFIX = 'kublish:refresh:user'; // set of a user's live refresh tokens
+const RESET_PREFIX = 'kublish:reset';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+export interface AccessTokenPayload {
+  sub: string;
+}
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+/**
+ * Passwords are stored as scrypt$<salt>$<hash>
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+};
+
+// Stands in for the hash of an email nobody has; no password matches it
+const DUMMY_PASSWORD_HASH = `scrypt$${'0'.repeat(32)}$${'0'.repeat(KEY_LENGTH * 2)}`;
+
+/**
+ * Check a login. Unknown emails still cost a hash, so how long a failed
+ * login takes does not tell which accounts exist.
+ */
+export const verifyCredentials = async (user: StoredUser | null, password: string): Promise<boolean> => {
+  const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+  return !!user && valid;
+};
+
+/**
+ * Access tokens carry only the user id; role is re-read from the user store
+ * on every request so role changes apply immediately
+ */
+export const signAccessToken = (user: StoredUser): string =>
+  jwt.sign({ sub: user.id }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL });
+
+export const verifyAccessToken = (token: string): AccessTokenPayload | null => {
+  try {
+    return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Refresh tokens are opaque and single-use; each refresh rotates them.
+ * Every user's tokens are also indexed so they can all be revoked at once.
+ */
+export const issueRefreshToken = async (userId: string): Promise<string> => {
+  ensureConnected();
+  const token = crypto.randomBytes(32).toString('hex');
+  const userKey = `${USER_REFRESH_PREFIX}:${userId}`;
+  await redis.set(`${REFRESH_PREFIX}:${token}`, userId, 'EX', REFRESH_TOKEN_TTL);
+  await redis.sadd(userKey, token);
+  await redis.expire(userKey, REFRESH_TOKEN_TTL);
+  return token;
+};
+
+export const consumeRefreshToken = async (token: string): Promise<string | null> => {
+  ensureConnected();
+  // GETDEL, so two requests racing with the same token cannot both use it
+  const userId = await redis.getdel(`${REFRESH_PREFIX}:${token}`);
+  if (userId) await redis.srem(`${USER_REFRESH_PREFIX}:${userId}`, token);
+  return userId;
+};
+
+export const revokeRefreshToken = async (token: string): Promise<void> => {
+  await consumeRefreshToken(token);
+};
+
+/**
+ * Sign a user out everywhere, e.g. after their password changes. Access
+ * tokens already issued run out within ACCESS_TOKEN_TTL.
+ */
+export const revokeUserRefreshTokens = async (userId: string): Promise<void> => {
+  ensureConnected();
+  const userKey = `${USER_REFRESH_PREFIX}:${userId}`;
+  const tokens = await redis.smembers(userKey);
+  if (tokens.length > 0) await redis.del(...tokens.map(token => `${REFRESH_PREFIX}:${token}`));
+  await redis.del(userKey);
+};
+
+export const createResetToken = async (userId: string): Promise<string> => {
+  ensureConnected();
+  const token = crypto.randomBytes(32).toString('hex');
+  await redis.set(`${RESET_PREFIX}:${token}`, userId, 'EX', RESET_TOKEN_TTL);
+  return token;
+};
+
+export const consumeResetToken = async (token: string): Promise<string | null> => {
+  ensureConnected();
+  return redis.getdel(`${RESET_PREFIX}:${token}`);
+};
+
+const cookieOptions = (maxAgeSeconds: number, path = '/'): CookieOptions => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path,
+  maxAge: maxAgeSeconds * 1000
+});
+
+export const setAuthCookies = async (res: Response, user: StoredUser): Promise<void> => {
+  res.cookie(ACCESS_COOKIE, signAccessToken(user), cookieOptions(ACCESS_TOKEN_TTL));
+  res.cookie(REFRESH_COOKIE, await issueRefreshToken(user.id), cookieOptions(REFRESH_TOKEN_TTL, '/auth'));
+};
+
+export const clearAuthCookies = (res: Response): void => {
+  res.clearCookie(ACCESS_COOKIE, { path: '/' });
+  res.clearCookie(REFRESH_COOKIE, { path: '/auth' });
+};
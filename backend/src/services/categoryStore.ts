@@ -0,0 +1,96 @@
+import redis from '../config/redis';
+
+export interface DataCategory {
+  id: string;
+  name: string;
+  label: string;
+  parentCategoryId?: string;
+  level: number;
+  sortOrder: number;
+  isActive: boolean;
+  children?: DataCategory[];
+}
+
+export interface DataCategoryGroup {
+  id: string;
+  name: string;
+  label: string;
+  description?: string;
+  isActive: boolean;
+  selectionType?: 'single' | 'multi';
+  isRequired?: boolean;
+  lastSyncedAt?: string;
+  categories: DataCategory[];
+}
+
+export interface ArticleTypeMapping {
+  articleType: string;
+  dataCategoryObjectName: string;
+  isActive: boolean;
+  lastSyncedAt?: string;
+}
+
+export interface CategoryStructure {
+  categoryGroups: DataCategoryGroup[];
+  articleTypeMappings: ArticleTypeMapping[];
+  lastSyncedAt: string;
+}
+
+const REDIS_PREFIX = 'kublish:categories';
+
+const isRedisConnected = () => redis.status === 'ready';
+
+/**
+ * Save the synced category structure for an org connection
+ */
+export const setCategoryStructure = async (orgId: string, structure: CategoryStructure): Promise<void> => {
+  if (isRedisConnected()) {
+    await redis.set(`${REDIS_PREFIX}:${orgId}`, JSON.stringify(structure));
+  } else {
+    console.warn('⚠️ Redis unavailable, category structure not cached.');
+  }
+};
+
+/**
+ * Get the cached category structure, or null if it was never synced
+ */
+export const getCategoryStructure = async (orgId: string): Promise<CategoryStructure | null> => {
+  if (isRedisConnected()) {
+    const data = await redis.get(`${REDIS_PREFIX}:${orgId}`);
+    if (data) {
+      return JSON.parse(data);
+    }
+  }
+  return null;
+};
+
+/**
+ * Clear the cached category structure
+ */
+export const clearCategoryStructure = async (orgId: string): Promise<void> => {
+  if (isRedisConnected()) {
+    await redis.del(`${REDIS_PREFIX}:${orgId}`);
+  }
+};
+
+/**
+ * Count every category in a group tree, including nested children
+ */
+export const countCategories = (categories: DataCategory[]): number =>
+  categories.reduce((total, category) => total + 1 + countCategories(category.children || []), 0);
+
+export const countGroupCategories = (groups: DataCategoryGroup[]): number =>
+  groups.reduce((total, group) => total + countCategories(group.categories), 0);
+
+/**
+ * Ids of every category in the given groups, including nested children
+ */
+export const collectCategoryIds = (groups: DataCategoryGroup[]): Set<string> => {
+  const ids = new Set<string>();
+  const visit = (categories: DataCategory[]) => categories.forEach(category => {
+    ids.add(category.id);
+    visit(category.children || []);
+  });
+  groups.forEach(group => visit(group.categories));
+  return ids;
+};
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+
+export interface ArticleComment {
+  id: string;
+  author: string; // display name
+  authorId: string;
+  body: string;
+  mentions: string[]; // names of the users @mentioned in the body
+  createdAt: string;
+}
+
+/**
+ * A discussion anchored to a range of the article body. The body carries
+ * the anchor as a span with data-comment-id set to the thread id, so the
+ * range moves with the text around it.
+ */
+export interface CommentThread {
+  id: string;
+  articleId: string;
+  quote: string; // anchored text when the thread was started
+  comments: ArticleComment[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdBy: string; // display name
+  createdById: string;
+  createdAt: string;
+}
+
+const commentsKey = (articleId: string) => `kublish:comments:${articleId}`;
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+export interface CommentAuthor {
+  id: string;
+  name: string;
+}
+
+export const newComment = (author: CommentAuthor, body: string, mentions: string[]): ArticleComment => ({
+  id: `comment-${crypto.randomUUID()}`,
+  author: author.name,
+  authorId: author.id,
+  body,
+  mentions,
+  createdAt: new Date().toISOString()
+});
+
+export const listThreads = async (articleId: string): Promise<CommentThread[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(commentsKey(articleId));
+  return Object.values(hash)
+    .map(value => JSON.parse(value) as CommentThread)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+export const getThread = async (articleId: string, threadId: string): Promise<CommentThread | null> => {
+  ensureConnected();
+  const data = await redis.hget(commentsKey(articleId), threadId);
+  return data ? JSON.parse(data) : null;
+};
+
+export const createThread = async (
+  articleId: string,
+  createdBy: CommentAuthor,
+  quote: string,
+  comment: ArticleComment
+): Promise<CommentThread> => {
+  ensureConnected();
+  const thread: CommentThread = {
+    id: `thread-${crypto.randomUUID()}`,
+    articleId,
+    quote,
+    comments: [comment],
+    resolved: false,
+    createdBy: createdBy.name,
+    createdById: createdBy.id,
+    createdAt: comment.createdAt
+  };
+  await redis.hset(commentsKey(articleId), thread.id, JSON.stringify(thread));
+  return thread;
+};
+
+export const saveThread = async (thread: CommentThread): Promise<CommentThread> => {
+  ensureConnected();
+  await redis.hset(commentsKey(thread.articleId), thread.id, JSON.stringify(thread));
+  return thread;
+};
+
+export const deleteThread = async (articleId: string, threadId: string): Promise<boolean> => {
+  ensureConnected();
+  return (await redis.hdel(commentsKey(articleId), threadId)) > 0;
+};
+
+export const deleteThreads = async (articleId: string): Promise<void> => {
+  ensureConnected();
+  await redis.del(commentsKey(articleId));
+};
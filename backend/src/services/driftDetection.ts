@@ -0,0 +1,279 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import {
+  addSyncLog,
+  Article,
+  listArticles,
+  listVersionsOf,
+  newVersionId,
+  saveArticle,
+  saveVersion,
+  Version
+} from './articleStore';
+import { latestSyncedByOrg, trashArticle } from './articleLifecycle';
+import { syncArticle } from './articleSync';
+import { clearDriftReport, DriftContent, DriftField, DriftReport, listDriftReports, saveDriftReport } from './driftStore';
+import { copyCategorySelections } from './knowledgePromotion';
+import { KnowledgeFieldMapping, KnowledgeRecord, toImportFields, toSyncedContent } from './knowledgeMapping';
+import { getFieldMapping, getOrgConnection } from './orgStore';
+import { isReviewState, withdrawReview } from './reviewWorkflow';
+import { queryWhereIn } from './salesforceBatch';
+import { stripEditorialMarkup } from '../../../shared/articleMarkup';
+
+const SCAN_INTERVAL = 15 * 60 * 1000; // ms
+
+let busy = false;
+
+/**
+ * Salesforce re-serializes the rich text it stores: void tags lose their
+ * slash, entities are decoded or swapped and whitespace between tags moves.
+ * Bodies are hashed in one form so that only real edits count as drift.
+ */
+const normalizeBody = (body: string) =>
+  body
+    .replace(/&nbsp;|&#160;|\u00a0/g, ' ')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/<(\/?)([a-zA-Z][\w-]*)([^>]*?)\s*\/?>/g, (_, close: string, name: string, attributes: string) =>
+      `<${close}${name.toLowerCase()}${attributes.replace(/='([^']*)'/g, '="$1"')}>`)
+    .replace(/>\s+</g, '><')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const hashBody = (body: string) => crypto.createHash('sha256').update(normalizeBody(body)).digest('hex');
+
+const toPublishStatus = (status: Version['status']): DriftContent['publishStatus'] =>
+  status === 'Published' ? 'Online' : status;
+
+const sameCategories = (a: string[], b: string[]) =>
+  JSON.stringify([...a].sort()) === JSON.stringify([...b].sort());
+
+/**
+ * The version each article is at in the org: its open draft, else its online
+ * version, else its latest archived one. Salesforce only answers
+ * Knowledge__kav queries filtered on a publish status, so that is one query
+ * per status.
+ */
+const fetchLiveVersions = async (
+  orgId: string,
+  mapping: KnowledgeFieldMapping,
+  knowledgeArticleIds: string[]
+): Promise<Map<string, KnowledgeRecord>> => {
+  const live = new Map<string, KnowledgeRecord>();
+  const select = `SELECT ${toImportFields(mapping).join(', ')} FROM Knowledge__kav WHERE`;
+
+  for (const filter of ["PublishStatus = 'Draft'", "PublishStatus = 'Online'", "PublishStatus = 'Archived' AND IsLatestVersion = true"]) {
+    const remaining = knowledgeArticleIds.filter(id => !live.has(id));
+    if (remaining.length === 0) break;
+    const records = await queryWhereIn<KnowledgeRecord>(orgId, `${select} ${filter} AND`, 'KnowledgeArticleId', remaining);
+    records.forEach(record => live.set(record.KnowledgeArticleId, record));
+  }
+  return live;
+};
+
+/**
+ * Compare what Kublish last synced with what is live; no live record means
+ * the article was deleted in Salesforce. Comments and suggestions never
+ * reach Salesforce, so they are left out of the body. Categories are only
+ * compared when the synced version recorded them.
+ */
+const findDrift = (
+  article: Article,
+  synced: Version,
+  record: KnowledgeRecord | undefined,
+  mapping: KnowledgeFieldMapping
+): DriftReport | null => {
+  const syncedBody = stripEditorialMarkup(synced.body);
+  const local: DriftContent = {
+    title: synced.title,
+    body: syncedBody,
+    bodyHash: hashBody(syncedBody),
+    dataCategories: synced.dataCategories,
+    publishStatus: toPublishStatus(synced.status)
+  };
+  const remoteContent = record && toSyncedContent(record, mapping);
+  const remote: DriftContent | undefined = remoteContent && { ...remoteContent, bodyHash: hashBody(remoteContent.body) };
+
+  const fields: DriftField[] = [];
+  if (!remote) fields.push('deleted');
+  else {
+    if (local.title !== remote.title) fields.push('title');
+    if (local.bodyHash !== remote.bodyHash) fields.push('body');
+    if (local.dataCategories && !sameCategories(local.dataCategories, remote.dataCategories!)) fields.push('categories');
+    if (local.publishStatus !== remote.publishStatus) fields.push('publishStatus');
+  }
+  if (fields.length === 0) return null;
+
+  return {
+    articleId: article.id,
+    articleTitle: article.title,
+    orgId: synced.salesforceOrgId!,
+    versionId: synced.versionId,
+    salesforceId: synced.salesforceId!,
+    salesforceVersionId: record?.Id,
+    fields,
+    local,
+    remote,
+    detectedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Check every article against each org it was last synced to and record
+ * which ones were changed or deleted in Salesforce since. Reports from earlier scans
+ * are cleared once an article matches again. An org that cannot be reached
+ * keeps its reports until the next scan. Returns the number of drifted
+ * articles.
+ */
+export const scanForDrift = async (): Promise<number> => {
+  const articles = (await listArticles()).filter(article => !article.deletedAt);
+  const byId = new Map(articles.map(article => [article.id, article]));
+  const versionsByArticle = new Map<string, Version[]>();
+  for (const version of await listVersionsOf([...byId.keys()])) {
+    versionsByArticle.set(version.articleId, [...(versionsByArticle.get(version.articleId) || []), version]);
+  }
+
+  const syncedByOrg = new Map<string, Version[]>();
+  for (const versions of versionsByArticle.values()) {
+    for (const synced of latestSyncedByOrg(versions)) {
+      syncedByOrg.set(synced.salesforceOrgId!, [...(syncedByOrg.get(synced.salesforceOrgId!) || []), synced]);
+    }
+  }
+
+  const found = new Map<string, DriftReport>();
+  const scannedOrgs = new Set<string>();
+  for (const [orgId, synced] of syncedByOrg) {
+    if (!(await getOrgConnection(orgId))) continue;
+
+    try {
+      const mapping = await getFieldMapping(orgId);
+      const live = await fetchLiveVersions(orgId, mapping, synced.map(version => version.salesforceId!));
+      for (const version of synced) {
+        const report = findDrift(byId.get(version.articleId)!, version, live.get(version.salesforceId!), mapping);
+        if (report) found.set(`${report.articleId}:${orgId}`, report);
+      }
+      scannedOrgs.add(orgId);
+    } catch (error) {
+      console.error(`❌ Drift scan of org ${orgId} failed:`, error);
+    }
+  }
+
+  for (const report of await listDriftReports()) {
+    if (scannedOrgs.has(report.orgId) && !found.has(`${report.articleId}:${report.orgId}`)) {
+      await clearDriftReport(report.articleId, report.orgId);
+    }
+  }
+  for (const report of found.values()) {
+    await saveDriftReport(report);
+  }
+  return found.size;
+};
+
+const toArticleStatus = (article: Article, publishStatus: DriftContent['publishStatus']): Article['status'] => {
+  if (publishStatus === 'Online') return 'published';
+  if (publishStatus === 'Archived') return 'archived';
+  return article.status === 'published' || article.status === 'archived' ? 'draft' : article.status;
+};
+
+/**
+ * Take the Salesforce version into Kublish: the article gets its title,
+ * body, categories and publish status, and a version recording it becomes
+ * the last synced one. Edits not yet synced are replaced. An article in
+ * review whose content changes loses its review. An article deleted in
+ * Salesforce goes to the trash, which archives it in any other org.
+ */
+export const acceptRemoteChanges = async (article: Article, report: DriftReport, user: string): Promise<Article> => {
+  const { remote } = report;
+  if (!remote) {
+    const trashed = await trashArticle(article, user);
+    await clearDriftReport(article.id, report.orgId);
+    return trashed;
+  }
+
+  const now = new Date().toISOString();
+  const version = await saveVersion({
+    versionId: newVersionId(),
+    articleId: article.id,
+    title: remote.title,
+    body: remote.body,
+    status: remote.publishStatus === 'Online' ? 'Published' : remote.publishStatus,
+    createdBy: user,
+    createdAt: now,
+    notes: 'Accepted changes made in Salesforce',
+    syncedToSalesforce: true,
+    syncTimestamp: now,
+    syncUser: user,
+    salesforceId: report.salesforceId,
+    salesforceVersionId: report.salesforceVersionId,
+    salesforceOrgId: report.orgId,
+    dataCategories: remote.dataCategories
+  });
+
+  const contentChanged = report.fields.some(field => field !== 'publishStatus');
+  let saved = await saveArticle({
+    ...article,
+    title: remote.title,
+    body: remote.body,
+    dataCategories: remote.dataCategories,
+    status: toArticleStatus(article, remote.publishStatus),
+    lastModified: now,
+    lastSyncedVersionId: version.versionId
+  });
+  if (contentChanged && isReviewState(saved.status)) {
+    saved = await withdrawReview(saved, user, 'Review withdrawn because changes made in Salesforce were accepted');
+  }
+
+  await clearDriftReport(article.id, report.orgId);
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: remote.title,
+    action: 'sync',
+    user,
+    status: 'success',
+    message: 'Accepted changes made in Salesforce'
+  });
+  return saved;
+};
+
+/**
+ * Replace the Salesforce version with the article as it is in Kublish, as a
+ * draft; putting it online goes through publishing as usual. An article
+ * deleted in Salesforce is created there again. Syncs leave data categories
+ * alone, so changed or lost ones are set back to those last synced.
+ */
+export const overwriteRemoteChanges = async (article: Article, report: DriftReport, user: string): Promise<Version> => {
+  const deleted = report.fields.includes('deleted');
+  let { version } = await syncArticle(article, user, report.orgId, false, { recreate: deleted });
+
+  const categories = report.local.dataCategories;
+  if (categories && (report.fields.includes('categories') || (deleted && categories.length > 0))) {
+    await copyCategorySelections(report.orgId, version.salesforceVersionId!, categories.map(categoryId => {
+      const [group, ...name] = categoryId.split('.');
+      return { DataCategoryGroupName: group, DataCategoryName: name.join('.') };
+    }));
+    version = await saveVersion({ ...version, dataCategories: categories });
+  }
+  return version;
+};
+
+const runScan = async () => {
+  if (busy || redis.status !== 'ready') return;
+  busy = true;
+
+  try {
+    const drifted = await scanForDrift();
+    if (drifted > 0) console.log(`🔍 ${drifted} articles changed in Salesforce since their last sync`);
+  } catch (error) {
+    console.error('❌ Drift scan error:', error);
+  } finally {
+    busy = false;
+  }
+};
+
+/**
+ * Look for articles changed directly in Salesforce every SCAN_INTERVAL
+ */
+export const startDriftScanner = () => {
+  runScan();
+  setInterval(runScan, SCAN_INTERVAL);
+};
@@ -0,0 +1,68 @@
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+
+export type DriftField = 'title' | 'body' | 'categories' | 'publishStatus' | 'deleted';
+
+/**
+ * One side of a drift: the version Kublish last synced, or the Knowledge
+ * version live in Salesforce now
+ */
+export interface DriftContent {
+  title: string;
+  body: string;
+  bodyHash: string;
+  dataCategories?: string[]; // unknown for versions synced before categories were recorded
+  publishStatus: 'Online' | 'Draft' | 'Archived';
+}
+
+/**
+ * An article whose Salesforce version in orgId was changed or deleted
+ * outside Kublish since it was last synced there
+ */
+export interface DriftReport {
+  articleId: string;
+  articleTitle: string;
+  orgId: string;
+  versionId: string; // the Kublish version last synced to the org
+  salesforceId: string; // KnowledgeArticleId
+  salesforceVersionId?: string; // Knowledge__kav Id of the live version; none once deleted
+  fields: DriftField[]; // just 'deleted' for an article deleted in Salesforce
+  local: DriftContent;
+  remote?: DriftContent;
+  detectedAt: string;
+}
+
+const DRIFT_KEY = 'kublish:drift';
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+const reportKey = (articleId: string, orgId: string) => `${articleId}:${orgId}`;
+
+export const listDriftReports = async (): Promise<DriftReport[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(DRIFT_KEY);
+  return Object.values(hash)
+    .map(value => JSON.parse(value) as DriftReport)
+    .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime());
+};
+
+export const getDriftReport = async (articleId: string, orgId: string): Promise<DriftReport | null> => {
+  ensureConnected();
+  const data = await redis.hget(DRIFT_KEY, reportKey(articleId, orgId));
+  return data ? JSON.parse(data) : null;
+};
+
+export const saveDriftReport = async (report: DriftReport): Promise<DriftReport> => {
+  ensureConnected();
+  await redis.hset(DRIFT_KEY, reportKey(report.articleId, report.orgId), JSON.stringify(report));
+  return report;
+};
+
+export const clearDriftReport = async (articleId: string, orgId: string): Promise<void> => {
+  ensureConnected();
+  await redis.hdel(DRIFT_KEY, reportKey(articleId, orgId));
+};
@@ -0,0 +1,78 @@
+import crypto from 'crypto';
+import { createJobStore } from './jobStore';
+
+export type ImportJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ImportSummary {
+  imported: number;
+  updated: number;
+  skipped: number; // already in Kublish and overwrite was off
+  denied: number; // already in Kublish and not editable by whoever started the import
+  total: number;
+}
+
+export interface ImportJob extends ImportSummary {
+  id: string;
+  orgId: string;
+  status: ImportJobStatus;
+  overwrite: boolean;
+  createdBy: string; // user id
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+export const isImportJobFinished = (job: ImportJob): boolean =>
+  job.status === 'completed' || job.status === 'failed';
+
+const jobs = createJobStore<ImportJob>('kublish:importjobs', isImportJobFinished);
+
+export const createImportJob = async (
+  job: Pick<ImportJob, 'orgId' | 'overwrite' | 'createdBy' | 'createdByName'>
+): Promise<ImportJob> => {
+  const now = new Date().toISOString();
+  return jobs.create({
+    ...job,
+    id: `import-${crypto.randomUUID()}`,
+    status: 'queued',
+    imported: 0,
+    updated: 0,
+    skipped: 0,
+    denied: 0,
+    total: 0,
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+export const getImportJob = jobs.get;
+
+export const saveImportJob = jobs.save;
+
+/**
+ * Take the next queued import, if any, under a lease; run it inside
+ * holdImportJobLease so the lease lasts while it runs
+ */
+export const claimNextImportJob = jobs.claimNext;
+
+export const holdImportJobLease = jobs.holdLease;
+
+/**
+ * Imports whose worker stopped start over. Articles they already stored
+ * count as existing the second time round.
+ */
+export const requeueInterruptedImportJobs = () => jobs.requeueAbandoned(job => ({
+  ...job,
+  status: 'queued',
+  imported: 0,
+  updated: 0,
+  skipped: 0,
+  denied: 0,
+  total: 0
+}));
+
+export const adoptLegacyImportJobs = jobs.adoptLegacy;
@@ -0,0 +1,175 @@
+import redis from '../config/redis';
+import { Article, getArticle, saveArticle, saveVersion } from './articleStore';
+import {
+  adoptLegacyImportJobs,
+  claimNextImportJob,
+  holdImportJobLease,
+  ImportJob,
+  requeueInterruptedImportJobs,
+  saveImportJob
+} from './importJobStore';
+import { JOB_RECOVERY_INTERVAL } from './jobStore';
+import { KnowledgeRecord, toArticle, toImportedVersion, toImportFields } from './knowledgeMapping';
+import { getFieldMapping } from './orgStore';
+import { makeSalesforceApiCall, QueryResult, querySalesforce, SalesforceNotConnectedError } from './salesforceApi';
+import { SalesforceApiError } from './salesforceErrors';
+import { withdrawReview } from './reviewWorkflow';
+import { getUserById, toPublicUser } from './userStore';
+import { canEditArticle } from '../../../shared/permissions';
+
+const POLL_INTERVAL = 1000; // ms
+
+let busy = false;
+
+// What an overwrite takes from Salesforce
+const IMPORTED_FIELDS = ['title', 'body', 'tags', 'visibility', 'dataCategories'] as const;
+
+/**
+ * Replace a local article's content with the imported one. Ownership, the
+ * review state and the trash stay as they are; approved text that changes
+ * has to be approved again.
+ */
+const overwriteContent = async (existing: Article, imported: Article, user: string) => {
+  const article: Article = {
+    ...existing,
+    title: imported.title,
+    body: imported.body,
+    tags: imported.tags,
+    visibility: imported.visibility,
+    dataCategories: imported.dataCategories,
+    lastModified: imported.lastModified,
+    lastSyncedVersionId: imported.lastSyncedVersionId
+  };
+
+  const changed = IMPORTED_FIELDS.some(field => JSON.stringify(imported[field]) !== JSON.stringify(existing[field]));
+  if (existing.status === 'approved' && changed) {
+    await withdrawReview(article, user, 'Approval withdrawn because an import overwrote the article');
+  } else {
+    await saveArticle(article);
+  }
+};
+
+/**
+ * Page through every published and draft Knowledge__kav in the org and
+ * store each as a Kublish article with an initial synced version. Articles
+ * that already exist locally are skipped unless the job overwrites, and
+ * only overwritten where its creator may edit them.
+ */
+const runImport = async (claimed: ImportJob) => {
+  let job = await saveImportJob({
+    ...claimed,
+    status: 'running',
+    startedAt: claimed.startedAt || new Date().toISOString()
+  });
+  const persist = async () => {
+    job = await saveImportJob(job);
+  };
+  const seen = new Set<string>();
+
+  try {
+    const stored = await getUserById(job.createdBy);
+    const user = stored ? toPublicUser(stored) : null;
+    const mapping = await getFieldMapping(job.orgId);
+
+    // Online first, so an article with a pending draft imports as published
+    for (const publishStatus of ['Online', 'Draft']) {
+      let page = await querySalesforce<KnowledgeRecord>(
+        job.orgId,
+        `SELECT ${toImportFields(mapping).join(', ')} FROM Knowledge__kav WHERE PublishStatus = '${publishStatus}'`
+      );
+
+      for (;;) {
+        for (const record of page.records) {
+          if (seen.has(record.KnowledgeArticleId)) continue;
+          seen.add(record.KnowledgeArticleId);
+          job.total++;
+
+          const article = toArticle(record, mapping, { owner: job.createdByName, ownerId: job.createdBy });
+          const existing = await getArticle(article.id);
+          if (existing && !job.overwrite) {
+            job.skipped++;
+            continue;
+          }
+          if (existing && !canEditArticle(user, existing)) {
+            job.denied++;
+            continue;
+          }
+
+          if (existing) {
+            await overwriteContent(existing, article, job.createdByName);
+          } else {
+            await saveArticle(article);
+          }
+          await saveVersion(toImportedVersion(record, job.createdByName, job.orgId, mapping));
+          if (existing) {
+            job.updated++;
+          } else {
+            job.imported++;
+          }
+        }
+        await persist();
+
+        if (page.done || !page.nextRecordsUrl) break;
+        page = (await makeSalesforceApiCall<QueryResult<KnowledgeRecord>>(job.orgId, page.nextRecordsUrl)).data;
+      }
+    }
+
+    job.status = 'completed';
+  } catch (error) {
+    console.error(`❌ Import job ${job.id} failed:`, error);
+    job.status = 'failed';
+    job.error = (error as Error).message;
+    if (error instanceof SalesforceApiError) job.errorCode = error.code;
+    if (error instanceof SalesforceNotConnectedError) job.errorCode = 'SALESFORCE_NOT_CONNECTED';
+  }
+
+  job.finishedAt = new Date().toISOString();
+  await persist();
+};
+
+const drainQueue = async () => {
+  if (busy || redis.status !== 'ready') return;
+  busy = true;
+
+  try {
+    let job = await claimNextImportJob();
+    while (job) {
+      const claimed = job;
+      await holdImportJobLease(claimed.id, () => runImport(claimed));
+      job = await claimNextImportJob();
+    }
+  } catch (error) {
+    console.error('❌ Import worker error:', error);
+  } finally {
+    busy = false;
+  }
+};
+
+const recoverJobs = () => requeueInterruptedImportJobs()
+  .then(requeued => {
+    if (requeued > 0) console.log(`📦 Requeued ${requeued} interrupted imports`);
+  })
+  .catch(error => console.error('❌ Import job recovery error:', error));
+
+/**
+ * Run Salesforce imports in this process, one at a time, in queue order.
+ * Imports another process stopped working on are picked up once their
+ * lease runs out.
+ */
+export const startImportWorker = () => {
+  adoptLegacyImportJobs()
+    .then(adopted => {
+      if (adopted > 0) console.log(`📦 Moved ${adopted} import jobs to per-job keys`);
+    })
+    .catch(error => console.error('❌ Import job migration error:', error))
+    .then(recoverJobs)
+    .finally(() => {
+      setInterval(drainQueue, POLL_INTERVAL);
+      setInterval(recoverJobs, JOB_RECOVERY_INTERVAL);
+    });
+};
+
+/**
+ * Work through the queue now rather than on the next poll; tests use this
+ */
+export const drainImportQueue = drainQueue;
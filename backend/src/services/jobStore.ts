@@ -0,0 +1,171 @@
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+
+/**
+ * What every background job record carries; the stores built here keep
+ * anything else as is
+ */
+export interface StoredJob {
+  id: string;
+  status: string;
+  createdBy: string; // user id
+  createdAt: string;
+  updatedAt: string;
+}
+
+const LEASE_TTL = 60; // seconds a worker holds a job without renewing its lease
+const FINISHED_JOB_TTL = 7 * 24 * 60 * 60; // seconds a finished job stays listed
+const LIST_LIMIT = 100; // newest jobs listed per user
+
+// Leases are renewed well inside their TTL; workers look for abandoned jobs once a lease could have run out
+const JOB_LEASE_RENEW_INTERVAL = (LEASE_TTL * 1000) / 3; // ms
+export const JOB_RECOVERY_INTERVAL = LEASE_TTL * 1000; // ms
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+/**
+ * A queue of jobs under prefix. Each job is its own key, which expires a
+ * week after the job finishes. A worker holds a lease on the jobs it runs
+ * and renews it while running, so a job is only handed out again once the
+ * worker running it has stopped.
+ */
+export const createJobStore = <T extends StoredJob>(prefix: string, isFinished: (job: T) => boolean) => {
+  const jobKey = (id: string) => `${prefix}:job:${id}`;
+  const userKey = (userId: string) => `${prefix}:user:${userId}`;
+  const leaseKey = (id: string) => `${prefix}:lease:${id}`;
+  const queueKey = `${prefix}:queue`;
+  const runningKey = `${prefix}:running`;
+
+  const write = async (job: T) => {
+    if (isFinished(job)) {
+      await redis.set(jobKey(job.id), JSON.stringify(job), 'EX', FINISHED_JOB_TTL);
+      await redis.srem(runningKey, job.id);
+      await redis.del(leaseKey(job.id));
+    } else {
+      await redis.set(jobKey(job.id), JSON.stringify(job));
+    }
+  };
+
+  // Newest first; a user's older jobs drop out of their list
+  const index = async (job: T) => {
+    await redis.lpush(userKey(job.createdBy), job.id);
+    await redis.ltrim(userKey(job.createdBy), 0, LIST_LIMIT - 1);
+  };
+
+  const get = async (id: string): Promise<T | null> => {
+    ensureConnected();
+    const data = await redis.get(jobKey(id));
+    return data ? JSON.parse(data) : null;
+  };
+
+  const save = async (job: T): Promise<T> => {
+    ensureConnected();
+    const saved = { ...job, updatedAt: new Date().toISOString() };
+    await write(saved);
+    return saved;
+  };
+
+  const create = async (job: T): Promise<T> => {
+    ensureConnected();
+    await write(job);
+    await index(job);
+    await redis.rpush(queueKey, job.id);
+    return job;
+  };
+
+  /**
+   * The user's newest jobs, newest first. Jobs that have expired drop out
+   * of the index here.
+   */
+  const listFor = async (userId: string): Promise<T[]> => {
+    ensureConnected();
+    const ids = await redis.lrange(userKey(userId), 0, LIST_LIMIT - 1);
+    if (ids.length === 0) return [];
+
+    const values = await redis.mget(ids.map(jobKey));
+    for (const id of ids.filter((_id, position) => !values[position])) {
+      await redis.lrem(userKey(userId), 0, id);
+    }
+    return values.filter((value): value is string => !!value).map(value => JSON.parse(value) as T);
+  };
+
+  /**
+   * Take the next queued job, if any, and lease it to this worker. LPOP
+   * hands each job to one worker.
+   */
+  const claimNext = async (): Promise<T | null> => {
+    ensureConnected();
+    for (;;) {
+      const id = await redis.lpop(queueKey);
+      if (!id) return null;
+
+      const job = await get(id);
+      if (!job) continue; // expired while queued
+      await redis.set(leaseKey(id), '1', 'EX', LEASE_TTL);
+      await redis.sadd(runningKey, id);
+      return job;
+    }
+  };
+
+  /**
+   * Run work on a claimed job, renewing its lease until the work settles
+   */
+  const holdLease = async (id: string, work: () => Promise<void>): Promise<void> => {
+    const heartbeat = setInterval(() => {
+      redis.set(leaseKey(id), '1', 'EX', LEASE_TTL).catch(error => console.error(`❌ Job lease ${id} error:`, error));
+    }, JOB_LEASE_RENEW_INTERVAL);
+    try {
+      await work();
+    } finally {
+      clearInterval(heartbeat);
+    }
+  };
+
+  /**
+   * Put jobs whose worker stopped without finishing them back at the front
+   * of the queue, after reset. Taking the lease first means only one
+   * process requeues each job.
+   */
+  const requeueAbandoned = async (reset: (job: T) => T): Promise<number> => {
+    ensureConnected();
+    let requeued = 0;
+    for (const id of await redis.smembers(runningKey)) {
+      const claimed = await redis.set(leaseKey(id), '1', 'EX', LEASE_TTL, 'NX');
+      if (!claimed) continue;
+
+      await redis.srem(runningKey, id);
+      const job = await get(id);
+      if (!job || isFinished(job)) continue;
+      await save(reset(job));
+      await redis.lpush(queueKey, id);
+      requeued++;
+    }
+    return requeued;
+  };
+
+  /**
+   * Jobs used to share one hash, which nothing trimmed. Move them to their
+   * own keys; running ones are requeued by the next recovery.
+   */
+  const adoptLegacy = async (): Promise<number> => {
+    ensureConnected();
+    if ((await redis.type(prefix)) !== 'hash') return 0;
+
+    const jobs = Object.values(await redis.hgetall(prefix))
+      .map(value => JSON.parse(value) as T)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of jobs) {
+      await write(job);
+      await index(job);
+      if (!isFinished(job) && job.status !== 'queued') await redis.sadd(runningKey, job.id);
+    }
+    await redis.del(prefix);
+    return jobs.length;
+  };
+
+  return { get, save, create, listFor, claimNext, holdLease, requeueAbandoned, adoptLegacy };
+};
@@ -0,0 +1,106 @@
+import { makeSalesforceApiCall } from './salesforceApi';
+import { KNOWLEDGE_CHANNELS, KnowledgeChannel, KnowledgeFieldMapping } from './knowledgeMapping';
+
+export interface KnowledgeFieldInfo {
+  name: string;
+  label: string;
+  type: string;
+  length: number;
+  createable: boolean;
+  updateable: boolean;
+}
+
+export interface SettingsProblem {
+  field: string; // settings key the problem is about, e.g. "body" or "publicChannels"
+  message: string;
+}
+
+// Describe types that can hold article text
+const TEXT_FIELD_TYPES = ['string', 'textarea', 'html'];
+
+const MAPPED_TEXT_FIELDS: { key: 'title' | 'body' | 'summary' | 'tags'; required: boolean }[] = [
+  { key: 'title', required: true },
+  { key: 'body', required: true },
+  { key: 'summary', required: false },
+  { key: 'tags', required: false }
+];
+
+/**
+ * API versions the org's instance serves, newest last, e.g. "v60.0"
+ */
+export const listApiVersions = async (orgId: string): Promise<string[]> => {
+  const response = await makeSalesforceApiCall<{ version: string }[]>(orgId, '/services/data/');
+  return response.data.map(entry => `v${entry.version}`);
+};
+
+/**
+ * Knowledge__kav fields as the org describes them at the given API version
+ */
+export const describeKnowledgeFields = async (orgId: string, apiVersion: string): Promise<KnowledgeFieldInfo[]> => {
+  const response = await makeSalesforceApiCall<{ fields: KnowledgeFieldInfo[] }>(
+    orgId,
+    `/services/data/${apiVersion}/sobjects/Knowledge__kav/describe`
+  );
+  return response.data.fields.map(field => ({
+    name: field.name,
+    label: field.label,
+    type: field.type,
+    length: field.length,
+    createable: field.createable,
+    updateable: field.updateable
+  }));
+};
+
+/**
+ * Check an API version and field mapping against the org before saving
+ * them. Returns every problem found, or an empty list when both are usable.
+ */
+export const validateOrgSettings = async (
+  orgId: string,
+  apiVersion: string,
+  mapping: KnowledgeFieldMapping
+): Promise<SettingsProblem[]> => {
+  const versions = await listApiVersions(orgId);
+  if (!versions.includes(apiVersion)) {
+    return [{ field: 'apiVersion', message: `${apiVersion} is not available in this org` }];
+  }
+
+  const problems: SettingsProblem[] = [];
+  const fields = new Map((await describeKnowledgeFields(orgId, apiVersion)).map(field => [field.name, field]));
+  const used = new Map<string, string>();
+
+  for (const { key, required } of MAPPED_TEXT_FIELDS) {
+    const name = mapping[key];
+    if (!name) {
+      if (required) problems.push({ field: key, message: 'A Knowledge field is required' });
+      continue;
+    }
+
+    const field = fields.get(name);
+    if (!field) {
+      problems.push({ field: key, message: `${name} does not exist on Knowledge__kav` });
+    } else if (!TEXT_FIELD_TYPES.includes(field.type)) {
+      problems.push({ field: key, message: `${name} is a ${field.type} field and cannot hold text` });
+    } else if (!field.createable || !field.updateable) {
+      problems.push({ field: key, message: `${name} is read-only` });
+    }
+
+    if (used.has(name)) {
+      problems.push({ field: key, message: `${name} is already mapped to ${used.get(name)}` });
+    }
+    used.set(name, key);
+  }
+
+  const checkChannels = (key: 'publicChannels' | 'internalChannels', channels: KnowledgeChannel[]) => {
+    if (channels.length === 0) {
+      problems.push({ field: key, message: 'At least one channel is required' });
+    }
+    channels
+      .filter(channel => !KNOWLEDGE_CHANNELS.includes(channel) || fields.get(channel)?.type !== 'boolean')
+      .forEach(channel => problems.push({ field: key, message: `${channel} is not a channel flag in this org` }));
+  };
+  checkChannels('publicChannels', mapping.publicChannels);
+  checkChannels('internalChannels', mapping.internalChannels);
+
+  return problems;
+};
@@ -0,0 +1,211 @@
+import { Article, Version } from './articleStore';
+
+export const KNOWLEDGE_BODY_FIELD = process.env.SF_KNOWLEDGE_BODY_FIELD || 'Body__c';
+
+export type KnowledgeChannel = 'IsVisibleInApp' | 'IsVisibleInPkb' | 'IsVisibleInCsp' | 'IsVisibleInPrm';
+
+export const KNOWLEDGE_CHANNELS: KnowledgeChannel[] = ['IsVisibleInApp', 'IsVisibleInPkb', 'IsVisibleInCsp', 'IsVisibleInPrm'];
+
+/**
+ * Which Knowledge__kav field each Article field is written to, and which
+ * channel flags each visibility turns on. Every org names its custom fields
+ * differently, so this is kept per org connection.
+ */
+export interface KnowledgeFieldMapping {
+  title: string;
+  body: string;
+  summary: string | null;
+  tags: string | null; // a text field receiving the tags comma separated
+  publicChannels: KnowledgeChannel[];
+  internalChannels: KnowledgeChannel[];
+}
+
+export const DEFAULT_FIELD_MAPPING: KnowledgeFieldMapping = {
+  title: 'Title',
+  body: KNOWLEDGE_BODY_FIELD,
+  summary: 'Summary',
+  tags: null,
+  publicChannels: ['IsVisibleInApp', 'IsVisibleInPkb', 'IsVisibleInCsp'],
+  internalChannels: ['IsVisibleInApp']
+};
+
+export interface KnowledgeRecord {
+  Id: string;
+  KnowledgeArticleId: string;
+  Title: string;
+  UrlName: string;
+  Summary?: string | null;
+  PublishStatus: 'Online' | 'Draft' | 'Archived';
+  IsVisibleInPkb?: boolean;
+  VersionNumber?: number;
+  CreatedDate: string;
+  LastModifiedDate: string;
+  LastPublishedDate?: string | null;
+  CreatedBy?: { Name: string } | null;
+  DataCategorySelections?: {
+    records: { DataCategoryGroupName: string; DataCategoryName: string }[];
+  } | null;
+  [field: string]: unknown;
+}
+
+const KNOWLEDGE_IMPORT_BASE_FIELDS = [
+  'Id',
+  'KnowledgeArticleId',
+  'Title',
+  'UrlName',
+  'PublishStatus',
+  'VersionNumber',
+  'CreatedDate',
+  'LastModifiedDate',
+  'LastPublishedDate',
+  'CreatedBy.Name'
+];
+
+/**
+ * Fields to SELECT when importing, including whatever the mapping points at
+ */
+export const toImportFields = (mapping: KnowledgeFieldMapping): string[] => [
+  ...new Set([
+    ...KNOWLEDGE_IMPORT_BASE_FIELDS,
+    ...mappedFields(mapping),
+    ...mappedChannels(mapping)
+  ]),
+  '(SELECT DataCategoryGroupName, DataCategoryName FROM DataCategorySelections)'
+];
+
+export const mappedFields = (mapping: KnowledgeFieldMapping): string[] =>
+  [mapping.title, mapping.body, mapping.summary, mapping.tags].filter((field): field is string => !!field);
+
+export const mappedChannels = (mapping: KnowledgeFieldMapping): KnowledgeChannel[] =>
+  KNOWLEDGE_CHANNELS.filter(channel =>
+    mapping.publicChannels.includes(channel) || mapping.internalChannels.includes(channel)
+  );
+
+/**
+ * The Article field a Knowledge__kav field is mapped from, if any
+ */
+export const toKublishField = (
+  mapping: KnowledgeFieldMapping,
+  field: string
+): 'title' | 'body' | 'summary' | 'urlName' | 'visibility' | 'tags' | undefined => {
+  if (field === mapping.title) return 'title';
+  if (field === mapping.body) return 'body';
+  if (field === mapping.summary) return 'summary';
+  if (field === mapping.tags) return 'tags';
+  if (field === 'UrlName') return 'urlName';
+  if ((KNOWLEDGE_CHANNELS as string[]).includes(field)) return 'visibility';
+  return undefined;
+};
+
+const readBody = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping): string =>
+  (record[mapping.body] as string | null) || (mapping.summary ? record[mapping.summary] as string | null : null) || '';
+
+const readTitle = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping): string =>
+  (record[mapping.title] as string | null) || record.Title;
+
+/**
+ * An article is public when a channel only public articles are shown in is on
+ */
+const readVisibility = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping): 'internal' | 'public' => {
+  const publicOnly = mapping.publicChannels.filter(channel => !mapping.internalChannels.includes(channel));
+  return publicOnly.some(channel => record[channel]) ? 'public' : 'internal';
+};
+
+const readTags = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping): string[] => {
+  const value = mapping.tags ? record[mapping.tags] : null;
+  return typeof value === 'string'
+    ? value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean)
+    : [];
+};
+
+/**
+ * The mapped content of a Knowledge version, for copying it to another org
+ * whose mapping may differ
+ */
+export const toKnowledgeContent = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping) => ({
+  title: readTitle(record, mapping),
+  body: (record[mapping.body] as string | null) || '',
+  summary: mapping.summary ? (record[mapping.summary] as string | null) || undefined : undefined,
+  tags: readTags(record, mapping),
+  visibility: readVisibility(record, mapping)
+});
+
+/**
+ * Kublish identifies a data category by its group and unique API name
+ */
+export const toCategoryId = (groupName: string, categoryName: string): string =>
+  `${groupName}.${categoryName}`;
+
+export const toCategoryGroupName = (categoryId: string): string => categoryId.split('.')[0];
+
+const readCategories = (record: KnowledgeRecord): string[] =>
+  (record.DataCategorySelections?.records || []).map(selection =>
+    toCategoryId(selection.DataCategoryGroupName, selection.DataCategoryName)
+  );
+
+export const toArticleId = (knowledgeArticleId: string): string => `sf-${knowledgeArticleId}`;
+
+const ARTICLE_STATUSES: Record<KnowledgeRecord['PublishStatus'], Article['status']> = {
+  Online: 'published',
+  Draft: 'draft',
+  Archived: 'archived'
+};
+
+/**
+ * A new Kublish article for the Knowledge version, owned by whoever imports it
+ */
+export const toArticle = (
+  record: KnowledgeRecord,
+  mapping: KnowledgeFieldMapping,
+  ownership: Pick<Article, 'owner' | 'ownerId'>
+): Article => ({
+  id: toArticleId(record.KnowledgeArticleId),
+  title: readTitle(record, mapping),
+  body: readBody(record, mapping),
+  tags: readTags(record, mapping),
+  visibility: readVisibility(record, mapping),
+  status: ARTICLE_STATUSES[record.PublishStatus],
+  ...ownership,
+  lastModified: record.LastModifiedDate,
+  createdAt: record.CreatedDate,
+  lastSyncedVersionId: `sf-${record.Id}`,
+  dataCategories: readCategories(record)
+});
+
+/**
+ * What a Kublish version synced to this Knowledge version would hold, read
+ * the way an import reads it
+ */
+export const toSyncedContent = (record: KnowledgeRecord, mapping: KnowledgeFieldMapping) => ({
+  title: readTitle(record, mapping),
+  body: readBody(record, mapping),
+  dataCategories: readCategories(record),
+  publishStatus: record.PublishStatus
+});
+
+/**
+ * The initial Kublish version mirrors the Salesforce version it was imported from
+ */
+export const toImportedVersion = (
+  record: KnowledgeRecord,
+  importedBy: string,
+  orgId: string,
+  mapping: KnowledgeFieldMapping
+): Version => ({
+  versionId: `sf-${record.Id}`,
+  articleId: toArticleId(record.KnowledgeArticleId),
+  title: readTitle(record, mapping),
+  body: readBody(record, mapping),
+  status: record.PublishStatus === 'Online' ? 'Published' : record.PublishStatus,
+  createdBy: record.CreatedBy?.Name || 'Salesforce',
+  createdAt: record.LastPublishedDate || record.LastModifiedDate,
+  versionLabel: `v${record.VersionNumber || 1}.0`,
+  notes: 'Imported from Salesforce',
+  syncedToSalesforce: true,
+  syncTimestamp: new Date().toISOString(),
+  syncUser: importedBy,
+  salesforceId: record.KnowledgeArticleId,
+  salesforceVersionId: record.Id,
+  salesforceOrgId: orgId,
+  dataCategories: readCategories(record)
+});
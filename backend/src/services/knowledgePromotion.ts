@@ -0,0 +1,169 @@
+import { escapeSoql, makeSalesforceApiCall, querySalesforce, SF_API_VERSION } from './salesforceApi';
+import {
+  getKnowledgeArticleId,
+  getOrCreateDraftVersion,
+  KNOWLEDGE_SOBJECT_PATH,
+  publishKnowledgeVersion,
+  toKnowledgeFields
+} from './knowledgePublisher';
+import { collectCategoryIds, getCategoryStructure } from './categoryStore';
+import { KnowledgeRecord, mappedChannels, mappedFields, toCategoryId, toKnowledgeContent } from './knowledgeMapping';
+import { getFieldMapping } from './orgStore';
+
+const CATEGORY_SELECTION_PATH = `/services/data/${SF_API_VERSION}/sobjects/Knowledge__DataCategorySelection`;
+
+// Everything a promotion copies from the published source version, besides
+// the fields the source org's mapping points at
+const KNOWLEDGE_PROMOTE_FIELDS = [
+  'Id',
+  'KnowledgeArticleId',
+  'Title',
+  'UrlName',
+  '(SELECT DataCategoryGroupName, DataCategoryName FROM DataCategorySelections)'
+];
+
+/**
+ * The source or target org is not in a state the promotion can proceed from
+ */
+export class PromotionError extends Error {
+  constructor(
+    public readonly summary: string,
+    message: string,
+    public readonly status: number,
+    public readonly missingCategories?: string[]
+  ) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+export interface PromotionResult {
+  sourceOrgId: string;
+  sourceVersionId: string;
+  orgId: string;
+  knowledgeArticleId: string;
+  versionId: string;
+  publishStatus: 'Online';
+  promotedAt: string;
+}
+
+export interface CategorySelection {
+  Id?: string;
+  DataCategoryGroupName: string;
+  DataCategoryName: string;
+}
+
+/**
+ * Make the draft's data category selections match the source exactly
+ */
+export const copyCategorySelections = async (orgId: string, versionId: string, selections: CategorySelection[]) => {
+  const existing = await querySalesforce<CategorySelection>(
+    orgId,
+    `SELECT Id, DataCategoryGroupName, DataCategoryName FROM Knowledge__DataCategorySelection WHERE ParentId = '${escapeSoql(versionId)}'`
+  );
+  const key = (selection: CategorySelection) => toCategoryId(selection.DataCategoryGroupName, selection.DataCategoryName);
+  const wanted = new Set(selections.map(key));
+  const present = new Set(existing.records.map(key));
+
+  for (const selection of existing.records) {
+    if (!wanted.has(key(selection))) {
+      await makeSalesforceApiCall(orgId, `${CATEGORY_SELECTION_PATH}/${selection.Id}`, 'DELETE');
+    }
+  }
+  for (const selection of selections) {
+    if (!present.has(key(selection))) {
+      await makeSalesforceApiCall(orgId, CATEGORY_SELECTION_PATH, 'POST', {
+        ParentId: versionId,
+        DataCategoryGroupName: selection.DataCategoryGroupName,
+        DataCategoryName: selection.DataCategoryName
+      });
+    }
+  }
+};
+
+/**
+ * Copy the version of knowledgeArticleId currently published in the source
+ * (staging) org to the target (production) org and publish it there. Every
+ * data category on the source version must exist in the target's synced
+ * category tree first. Pass targetKnowledgeArticleId when the article was
+ * promoted before.
+ */
+export const promoteKnowledgeArticle = async (
+  sourceOrgId: string,
+  targetOrgId: string,
+  knowledgeArticleId: string,
+  targetKnowledgeArticleId?: string
+): Promise<PromotionResult> => {
+  const sourceMapping = await getFieldMapping(sourceOrgId);
+  const selectFields = [...new Set([
+    ...KNOWLEDGE_PROMOTE_FIELDS,
+    ...mappedFields(sourceMapping),
+    ...mappedChannels(sourceMapping)
+  ])];
+  const published = await querySalesforce<KnowledgeRecord>(
+    sourceOrgId,
+    `SELECT ${selectFields.join(', ')} FROM Knowledge__kav WHERE KnowledgeArticleId = '${escapeSoql(knowledgeArticleId)}' AND PublishStatus = 'Online' LIMIT 1`
+  );
+  const source = published.records[0];
+  if (!source) {
+    throw new PromotionError(
+      'Article not published in source org',
+      'Article has no published version in the source org',
+      404
+    );
+  }
+
+  const structure = await getCategoryStructure(targetOrgId);
+  if (!structure) {
+    throw new PromotionError(
+      'Target org categories not synced',
+      'Sync the data category structure of the target org before promoting',
+      409
+    );
+  }
+
+  const selections = source.DataCategorySelections?.records || [];
+  const groupNames = new Set(structure.categoryGroups.map(group => group.name));
+  const categoryIds = collectCategoryIds(structure.categoryGroups);
+  const missingCategories = selections
+    .filter(selection => selection.DataCategoryName === 'All'
+      ? !groupNames.has(selection.DataCategoryGroupName)
+      : !categoryIds.has(toCategoryId(selection.DataCategoryGroupName, selection.DataCategoryName)))
+    .map(selection => toCategoryId(selection.DataCategoryGroupName, selection.DataCategoryName));
+  if (missingCategories.length > 0) {
+    throw new PromotionError(
+      'Data categories missing in target org',
+      `Not found in the target org: ${missingCategories.join(', ')}`,
+      422,
+      missingCategories
+    );
+  }
+
+  // Read through the source mapping and write through the target's, as the orgs may name fields differently
+  const fields = toKnowledgeFields(toKnowledgeContent(source, sourceMapping), await getFieldMapping(targetOrgId));
+
+  let versionId: string;
+  if (targetKnowledgeArticleId) {
+    versionId = await getOrCreateDraftVersion(targetOrgId, targetKnowledgeArticleId);
+    await makeSalesforceApiCall(targetOrgId, `${KNOWLEDGE_SOBJECT_PATH}/${versionId}`, 'PATCH', fields);
+  } else {
+    const createResp = await makeSalesforceApiCall<{ id: string }>(targetOrgId, KNOWLEDGE_SOBJECT_PATH, 'POST', {
+      ...fields,
+      UrlName: source.UrlName
+    });
+    versionId = createResp.data.id;
+  }
+
+  await copyCategorySelections(targetOrgId, versionId, selections);
+  await publishKnowledgeVersion(targetOrgId, versionId);
+
+  return {
+    sourceOrgId,
+    sourceVersionId: source.Id,
+    orgId: targetOrgId,
+    knowledgeArticleId: targetKnowledgeArticleId || await getKnowledgeArticleId(targetOrgId, versionId),
+    versionId,
+    publishStatus: 'Online',
+    promotedAt: new Date().toISOString()
+  };
+};
@@ -0,0 +1,259 @@
+import { escapeSoql, makeSalesforceApiCall, querySalesforce, SF_API_VERSION } from './salesforceApi';
+import { KnowledgeFieldMapping, mappedChannels } from './knowledgeMapping';
+import { getFieldMapping } from './orgStore';
+import { stripEditorialMarkup } from '../../../shared/articleMarkup';
+import {
+  createRecords,
+  invokeStandardAction,
+  isRetryableRecordError,
+  queryWhereIn,
+  SalesforceRecordError,
+  updateRecords
+} from './salesforceBatch';
+
+export const KNOWLEDGE_SOBJECT_PATH = `/services/data/${SF_API_VERSION}/sobjects/Knowledge__kav`;
+export const MASTER_VERSIONS_PATH = `/services/data/${SF_API_VERSION}/knowledgeManagement/articleVersions/masterVersions`;
+
+export interface KnowledgeDraftInput {
+  title: string;
+  body: string;
+  summary?: string;
+  urlName?: string;
+  tags?: string[];
+  visibility?: 'internal' | 'public';
+}
+
+/**
+ * Salesforce URL names must be unique, alphanumeric and hyphen separated
+ */
+export const toUrlName = (title: string): string =>
+  title
+    .normalize('NFKD')
+    .replace(/[^a-zA-Z0-9\s-]/g, '')
+    .trim()
+    .replace(/[\s-]+/g, '-')
+    .slice(0, 200) || `article-${Date.now()}`;
+
+/**
+ * Knowledge__kav field values for an input, named as the org's mapping says.
+ * Fields the org has nowhere to put (no summary or tags field) are dropped,
+ * and editorial comments and unaccepted suggestions never leave Kublish.
+ */
+export const toKnowledgeFields = (input: Partial<KnowledgeDraftInput>, mapping: KnowledgeFieldMapping) => {
+  const fields: Record<string, unknown> = {};
+  if (input.title !== undefined) fields[mapping.title] = input.title;
+  if (input.body !== undefined) fields[mapping.body] = stripEditorialMarkup(input.body);
+  if (input.summary !== undefined && mapping.summary) fields[mapping.summary] = input.summary;
+  if (input.tags !== undefined && mapping.tags) fields[mapping.tags] = input.tags.join(', ');
+  if (input.urlName !== undefined) fields.UrlName = input.urlName;
+  if (input.visibility !== undefined) {
+    const enabled = input.visibility === 'public' ? mapping.publicChannels : mapping.internalChannels;
+    mappedChannels(mapping).forEach(channel => {
+      fields[channel] = enabled.includes(channel);
+    });
+  }
+  return fields;
+};
+
+export const getKnowledgeArticleId = async (orgId: string, versionId: string): Promise<string> => {
+  const result = await querySalesforce<{ KnowledgeArticleId: string }>(
+    orgId,
+    `SELECT KnowledgeArticleId FROM Knowledge__kav WHERE Id = '${escapeSoql(versionId)}'`
+  );
+  const record = result.records[0];
+  if (!record) throw new Error(`Knowledge article version ${versionId} not found`);
+  return record.KnowledgeArticleId;
+};
+
+/**
+ * Return the open draft of an existing article, creating one from the
+ * published master version when none exists yet
+ */
+export const getOrCreateDraftVersion = async (orgId: string, knowledgeArticleId: string): Promise<string> => {
+  const existing = await querySalesforce<{ Id: string }>(
+    orgId,
+    `SELECT Id FROM Knowledge__kav WHERE KnowledgeArticleId = '${escapeSoql(knowledgeArticleId)}' AND PublishStatus = 'Draft' LIMIT 1`
+  );
+  if (existing.records[0]) return existing.records[0].Id;
+
+  const draftResp = await makeSalesforceApiCall<{ id: string }>(orgId, MASTER_VERSIONS_PATH, 'POST', {
+    articleId: knowledgeArticleId
+  });
+  return draftResp.data.id;
+};
+
+/**
+ * Write a draft (a new article, or a new draft of knowledgeArticleId) and
+ * return its version id
+ */
+export const saveKnowledgeDraft = async (
+  orgId: string,
+  input: KnowledgeDraftInput,
+  knowledgeArticleId?: string
+): Promise<string> => {
+  const mapping = await getFieldMapping(orgId);
+  if (knowledgeArticleId) {
+    const versionId = await getOrCreateDraftVersion(orgId, knowledgeArticleId);
+    await makeSalesforceApiCall(orgId, `${KNOWLEDGE_SOBJECT_PATH}/${versionId}`, 'PATCH', toKnowledgeFields(input, mapping));
+    return versionId;
+  }
+
+  const createResp = await makeSalesforceApiCall<{ id: string }>(orgId, KNOWLEDGE_SOBJECT_PATH, 'POST', toKnowledgeFields({
+    ...input,
+    urlName: input.urlName || toUrlName(input.title)
+  }, mapping));
+  return createResp.data.id;
+};
+
+export const publishKnowledgeVersion = async (orgId: string, versionId: string): Promise<void> => {
+  await makeSalesforceApiCall(orgId, `${MASTER_VERSIONS_PATH}/${versionId}`, 'PATCH', {
+    publishStatus: 'Online'
+  });
+};
+
+export interface BatchPublishEntry {
+  key: string;
+  input: KnowledgeDraftInput;
+  knowledgeArticleId?: string; // set to publish a new version of an existing article
+}
+
+export type BatchPublishOutcome =
+  | { success: true; knowledgeArticleId: string; versionId: string }
+  | { success: false; error: SalesforceRecordError; retryable: boolean };
+
+interface SavedDraft {
+  key: string;
+  knowledgeArticleId: string;
+  versionId: string;
+}
+
+/**
+ * Draft and publish many articles with batched calls: drafts of existing
+ * articles through the createDraftFromOnlineKnowledgeArticle action, field
+ * writes through sObject Collections, and publishing through the
+ * publishKnowledgeArticles action. Returns an outcome per entry key.
+ *
+ * onDraftSaved fires as soon as an entry's Salesforce article exists, so a
+ * caller can keep the id even if a later step fails and avoid creating a
+ * duplicate article on retry. A failed request (rather than a failed
+ * record) throws and leaves the whole batch to the caller.
+ */
+export const publishKnowledgeBatch = async (
+  orgId: string,
+  entries: BatchPublishEntry[],
+  onDraftSaved: (key: string, knowledgeArticleId: string, versionId: string) => void = () => {}
+): Promise<Map<string, BatchPublishOutcome>> => {
+  const mapping = await getFieldMapping(orgId);
+  const outcomes = new Map<string, BatchPublishOutcome>();
+  const fail = (key: string, error: SalesforceRecordError) =>
+    outcomes.set(key, { success: false, error, retryable: isRetryableRecordError(error) });
+  const saved: SavedDraft[] = [];
+
+  // Existing articles: reuse an open draft, or open one from the online version
+  const existing = entries.filter(entry => entry.knowledgeArticleId);
+  const draftIds = new Map<string, string>();
+  const findDrafts = async (knowledgeArticleIds: string[]) => {
+    if (knowledgeArticleIds.length === 0) return;
+    const drafts = await queryWhereIn<{ Id: string; KnowledgeArticleId: string }>(
+      orgId,
+      "SELECT Id, KnowledgeArticleId FROM Knowledge__kav WHERE PublishStatus = 'Draft' AND",
+      'KnowledgeArticleId',
+      knowledgeArticleIds
+    );
+    drafts.forEach(draft => draftIds.set(draft.KnowledgeArticleId, draft.Id));
+  };
+
+  await findDrafts(existing.map(entry => entry.knowledgeArticleId!));
+  const withoutDraft = existing.filter(entry => !draftIds.has(entry.knowledgeArticleId!));
+  if (withoutDraft.length > 0) {
+    const results = await invokeStandardAction(orgId, 'createDraftFromOnlineKnowledgeArticle', withoutDraft.map(entry => ({
+      action: 'EDIT_AS_DRAFT_ARTICLE',
+      articleId: entry.knowledgeArticleId,
+      unpublish: false
+    })));
+    results.forEach((result, index) => {
+      if (!result.success) fail(withoutDraft[index].key, result.error);
+    });
+    await findDrafts(withoutDraft.filter(entry => !outcomes.has(entry.key)).map(entry => entry.knowledgeArticleId!));
+  }
+
+  const toUpdate = existing.filter(entry => !outcomes.has(entry.key));
+  toUpdate
+    .filter(entry => !draftIds.has(entry.knowledgeArticleId!))
+    .forEach(entry => fail(entry.key, { statusCode: 'DRAFT_NOT_FOUND', message: 'No draft could be opened for this article' }));
+  const drafts = toUpdate.filter(entry => draftIds.has(entry.knowledgeArticleId!));
+
+  if (drafts.length > 0) {
+    const results = await updateRecords(orgId, 'Knowledge__kav', drafts.map(entry => ({
+      Id: draftIds.get(entry.knowledgeArticleId!)!,
+      ...toKnowledgeFields(entry.input, mapping)
+    })));
+    results.forEach((result, index) => {
+      const entry = drafts[index];
+      if (!result.success) return fail(entry.key, result.error);
+      saved.push({ key: entry.key, knowledgeArticleId: entry.knowledgeArticleId!, versionId: result.value });
+    });
+  }
+
+  // New articles
+  const created = entries.filter(entry => !entry.knowledgeArticleId);
+  if (created.length > 0) {
+    const results = await createRecords(orgId, 'Knowledge__kav', created.map(entry => toKnowledgeFields({
+      ...entry.input,
+      urlName: entry.input.urlName || toUrlName(entry.input.title)
+    }, mapping)));
+    const versionIds = new Map<string, string>();
+    results.forEach((result, index) => {
+      if (result.success) {
+        versionIds.set(created[index].key, result.value);
+      } else {
+        fail(created[index].key, result.error);
+      }
+    });
+
+    const rows = await queryWhereIn<{ Id: string; KnowledgeArticleId: string }>(
+      orgId,
+      'SELECT Id, KnowledgeArticleId FROM Knowledge__kav WHERE',
+      'Id',
+      [...versionIds.values()]
+    );
+    const articleIds = new Map(rows.map(row => [row.Id, row.KnowledgeArticleId]));
+    versionIds.forEach((versionId, key) => {
+      saved.push({ key, knowledgeArticleId: articleIds.get(versionId)!, versionId });
+    });
+  }
+
+  saved.forEach(draft => onDraftSaved(draft.key, draft.knowledgeArticleId, draft.versionId));
+
+  if (saved.length > 0) {
+    const results = await invokeStandardAction(orgId, 'publishKnowledgeArticles', saved.map(draft => ({
+      articleVersionIdList: [draft.versionId],
+      pubAction: 'PUBLISH_ARTICLE'
+    })));
+    results.forEach((result, index) => {
+      const draft = saved[index];
+      if (!result.success) return fail(draft.key, result.error);
+      outcomes.set(draft.key, { success: true, knowledgeArticleId: draft.knowledgeArticleId, versionId: draft.versionId });
+    });
+  }
+
+  return outcomes;
+};
+
+/**
+ * Archive the online version of an article. Returns the archived version id,
+ * or null when nothing is online to archive.
+ */
+export const archiveKnowledgeArticle = async (orgId: string, knowledgeArticleId: string): Promise<string | null> => {
+  const online = await querySalesforce<{ Id: string }>(
+    orgId,
+    `SELECT Id FROM Knowledge__kav WHERE KnowledgeArticleId = '${escapeSoql(knowledgeArticleId)}' AND PublishStatus = 'Online' LIMIT 1`
+  );
+  const versionId = online.records[0]?.Id;
+  if (!versionId) return null;
+
+  await makeSalesforceApiCall(orgId, `${MASTER_VERSIONS_PATH}/${versionId}`, 'PATCH', {
+    publishStatus: 'Archived'
+  });
+  return versionId;
+};
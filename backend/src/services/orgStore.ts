@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import { listArticles, listVersions, saveVersion, StoreUnavailableError } from './articleStore';
+import { DEFAULT_LOGIN_URL, getTokenData, listTokenIds, SalesforceEnvironment } from './tokenStore';
+import { DEFAULT_FIELD_MAPPING, KnowledgeFieldMapping } from './knowledgeMapping';
+
+/**
+ * A named Salesforce org the workspace publishes to. Tokens and the category
+ * cache are stored under the connection id; this record holds what is safe
+ * to show in the UI.
+ */
+export interface OrgConnection {
+  id: string;
+  name: string;
+  environment: SalesforceEnvironment;
+  loginUrl: string;
+  instanceUrl: string;
+  connectedAt: string;
+  connectedBy: string;
+  apiVersion?: string; // e.g. "v60.0"; the built-in version when unset
+  fieldMapping?: KnowledgeFieldMapping;
+}
+
+const ORGS_KEY = 'kublish:orgs';
+const DEFAULT_ORG_KEY = 'kublish:orgs:default';
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+export const createOrgId = () => `org-${crypto.randomUUID()}`;
+
+export const listOrgConnections = async (): Promise<OrgConnection[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(ORGS_KEY);
+  return Object.values(hash)
+    .map(value => JSON.parse(value) as OrgConnection)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getOrgConnection = async (id: string): Promise<OrgConnection | null> => {
+  ensureConnected();
+  const data = await redis.hget(ORGS_KEY, id);
+  return data ? JSON.parse(data) : null;
+};
+
+/**
+ * Save a connection; the first one saved becomes the default target
+ */
+export const saveOrgConnection = async (org: OrgConnection): Promise<OrgConnection> => {
+  ensureConnected();
+  await redis.hset(ORGS_KEY, org.id, JSON.stringify(org));
+  await redis.setnx(DEFAULT_ORG_KEY, org.id);
+  return org;
+};
+
+export const deleteOrgConnection = async (id: string): Promise<boolean> => {
+  ensureConnected();
+  const removed = await redis.hdel(ORGS_KEY, id);
+  if (!removed) return false;
+
+  // Hand the default over to any remaining org
+  if ((await redis.get(DEFAULT_ORG_KEY)) === id) {
+    const [next] = await redis.hkeys(ORGS_KEY);
+    if (next) {
+      await redis.set(DEFAULT_ORG_KEY, next);
+    } else {
+      await redis.del(DEFAULT_ORG_KEY);
+    }
+  }
+  return true;
+};
+
+/**
+ * The org's Knowledge field mapping, or the built-in one when none is saved
+ */
+export const getFieldMapping = async (id: string): Promise<KnowledgeFieldMapping> =>
+  (await getOrgConnection(id))?.fieldMapping || DEFAULT_FIELD_MAPPING;
+
+export const getDefaultOrgId = async (): Promise<string | null> => {
+  ensureConnected();
+  return redis.get(DEFAULT_ORG_KEY);
+};
+
+export const setDefaultOrgId = async (id: string): Promise<void> => {
+  ensureConnected();
+  await redis.set(DEFAULT_ORG_KEY, id);
+};
+
+/**
+ * Point synced versions that predate named connections at the given org
+ */
+const backfillVersionOrg = async (orgId: string) => {
+  for (const article of await listArticles()) {
+    for (const version of await listVersions(article.id)) {
+      if (version.syncedToSalesforce && !version.salesforceOrgId) {
+        await saveVersion({ ...version, salesforceOrgId: orgId });
+      }
+    }
+  }
+};
+
+/**
+ * Tokens stored before named connections existed are keyed by the user who
+ * connected them. Register each as a connection under that same id so its
+ * encrypted tokens and category cache stay valid. When that yields a single
+ * org, earlier syncs can only have gone there, so versions are tagged too.
+ */
+export const adoptLegacyConnections = async (): Promise<number> => {
+  ensureConnected();
+  const known = new Set(await redis.hkeys(ORGS_KEY));
+  const adoptedIds: string[] = [];
+
+  for (const id of await listTokenIds()) {
+    if (known.has(id)) continue;
+    const tokens = await getTokenData(id);
+    if (!tokens) continue;
+
+    await saveOrgConnection({
+      id,
+      name: tokens.environment === 'sandbox' ? 'Sandbox' : 'Salesforce',
+      environment: tokens.environment || 'production',
+      loginUrl: tokens.loginUrl || DEFAULT_LOGIN_URL,
+      instanceUrl: tokens.instanceUrl,
+      connectedAt: tokens.connectedAt || new Date().toISOString(),
+      connectedBy: 'Unknown'
+    });
+    adoptedIds.push(id);
+  }
+
+  if (known.size === 0 && adoptedIds.length === 1) {
+    await backfillVersionOrg(adoptedIds[0]);
+  }
+
+  return adoptedIds.length;
+};
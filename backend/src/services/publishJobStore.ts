@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+import { createJobStore } from './jobStore';
+
+export type PublishJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+export type PublishItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type PublishJobTrigger = 'bulk' | 'schedule';
+
+export interface PublishJobItem {
+  articleId: string;
+  title: string;
+  status: PublishItemStatus;
+  attempts: number;
+  error?: string;
+  errorCode?: string; // Salesforce statusCode/errorCode of the last failure
+  nextAttemptAt?: string; // set while waiting out a retry backoff
+  knowledgeArticleId?: string;
+  versionId?: string;
+}
+
+export interface PublishJob {
+  id: string;
+  orgId: string;
+  status: PublishJobStatus;
+  trigger?: PublishJobTrigger; // bulk when unset
+  createdBy: string; // user id
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  items: PublishJobItem[];
+}
+
+const CANCEL_PREFIX = 'kublish:publishjobs:cancel';
+const CANCEL_TTL = 24 * 60 * 60; // seconds
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+export const isJobFinished = (job: PublishJob): boolean =>
+  job.status === 'completed' || job.status === 'cancelled';
+
+const jobs = createJobStore<PublishJob>('kublish:publishjobs', isJobFinished);
+
+export const createPublishJob = async (
+  job: Pick<PublishJob, 'orgId' | 'createdBy' | 'createdByName' | 'items' | 'trigger'>
+): Promise<PublishJob> => {
+  const now = new Date().toISOString();
+  return jobs.create({
+    ...job,
+    id: `job-${crypto.randomUUID()}`,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now
+  });
+};
+
+export const getPublishJob = jobs.get;
+
+/**
+ * The user's newest jobs, newest first
+ */
+export const listPublishJobs = jobs.listFor;
+
+export const savePublishJob = jobs.save;
+
+/**
+ * Take the next queued job, if any, under a lease; run it inside
+ * holdPublishJobLease so the lease lasts while it runs
+ */
+export const claimNextJob = jobs.claimNext;
+
+export const holdPublishJobLease = jobs.holdLease;
+
+/**
+ * Jobs whose worker stopped go back to the front of the queue; their
+ * in-flight items are retried
+ */
+export const requeueInterruptedJobs = () => jobs.requeueAbandoned(job => ({
+  ...job,
+  status: 'queued',
+  items: job.items.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item)
+}));
+
+export const adoptLegacyPublishJobs = jobs.adoptLegacy;
+
+/**
+ * Cancellation is a separate flag so it never races the worker's job writes
+ */
+export const requestJobCancel = async (id: string): Promise<void> => {
+  ensureConnected();
+  await redis.set(`${CANCEL_PREFIX}:${id}`, '1', 'EX', CANCEL_TTL);
+};
+
+export const isJobCancelRequested = async (id: string): Promise<boolean> => {
+  ensureConnected();
+  return (await redis.exists(`${CANCEL_PREFIX}:${id}`)) > 0;
+};
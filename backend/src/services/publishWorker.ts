@@ -0,0 +1,290 @@
+import redis from '../config/redis';
+import {
+  addSyncLog,
+  Article,
+  getArticle,
+  listVersions,
+  newVersionId,
+  saveArticle,
+  saveVersion,
+  Version
+} from './articleStore';
+import { clearDriftReport } from './driftStore';
+import { BatchPublishEntry, BatchPublishOutcome, publishKnowledgeBatch } from './knowledgePublisher';
+import {
+  adoptLegacyPublishJobs,
+  claimNextJob,
+  holdPublishJobLease,
+  isJobCancelRequested,
+  PublishJob,
+  PublishJobItem,
+  requeueInterruptedJobs,
+  savePublishJob
+} from './publishJobStore';
+import { JOB_RECOVERY_INTERVAL } from './jobStore';
+import { ensurePublishApproved, ReviewWorkflowError } from './reviewWorkflow';
+import { SalesforceNotConnectedError } from './salesforceApi';
+import { COLLECTION_LIMIT, SalesforceRecordError } from './salesforceBatch';
+import { SalesforceApiError } from './salesforceErrors';
+
+const POLL_INTERVAL = 1000; // ms
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 2000; // ms, doubled on every retry
+
+let busy = false;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const describeTrigger = (job: PublishJob) =>
+  job.trigger === 'schedule' ? 'scheduled publish' : 'bulk operation';
+
+/**
+ * Rate limits, Salesforce outages and network errors are worth another try;
+ * validation errors and a missing connection are not
+ */
+const isRetryable = (error: unknown): boolean =>
+  error instanceof SalesforceApiError && (error.retryable || error.code === 'REQUEST_LIMIT_EXCEEDED');
+
+const toRecordError = (error: unknown): SalesforceRecordError => {
+  if (error instanceof SalesforceNotConnectedError) {
+    return { statusCode: 'SALESFORCE_NOT_CONNECTED', message: error.message };
+  }
+  if (error instanceof SalesforceApiError) {
+    return {
+      statusCode: error.salesforceErrorCode || error.code,
+      message: error.message,
+      fields: error.fieldErrors.map(fieldError => fieldError.field)
+    };
+  }
+  return { statusCode: 'UNKNOWN_ERROR', message: (error as Error).message };
+};
+
+/**
+ * Record a failed attempt: back off and retry while attempts remain,
+ * otherwise fail the item for good
+ */
+const settleFailure = async (job: PublishJob, item: PublishJobItem, error: SalesforceRecordError, retryable: boolean) => {
+  item.error = error.message;
+  item.errorCode = error.statusCode;
+
+  if (retryable && item.attempts < MAX_ATTEMPTS) {
+    item.status = 'pending';
+    item.nextAttemptAt = new Date(Date.now() + RETRY_BASE_DELAY * 2 ** (item.attempts - 1)).toISOString();
+    return;
+  }
+
+  item.status = 'failed';
+  await addSyncLog({
+    articleId: item.articleId,
+    articleTitle: item.title,
+    action: 'publish',
+    user: job.createdByName,
+    status: 'error',
+    message: `Failed to publish: ${item.error}`
+  });
+};
+
+/**
+ * Record the synced version locally, as publishing from the editor does,
+ * drift included. The article is read again, as it may have changed while
+ * publishing.
+ */
+const recordPublished = async (job: PublishJob, item: PublishJobItem, article: Article, versions: Version[]) => {
+  const now = new Date().toISOString();
+  const previous = versions.find(version =>
+    version.syncedToSalesforce && version.salesforceId && version.salesforceOrgId === job.orgId
+  );
+  const version = await saveVersion({
+    versionId: newVersionId(),
+    articleId: article.id,
+    title: article.title,
+    body: article.body,
+    status: 'Published',
+    createdBy: job.createdByName,
+    createdAt: now,
+    versionLabel: `v${versions.filter(v => v.status === 'Published').length + 1}.0`,
+    notes: `Published via ${describeTrigger(job)}`,
+    syncedToSalesforce: true,
+    syncTimestamp: now,
+    syncUser: job.createdByName,
+    salesforceId: item.knowledgeArticleId,
+    salesforceVersionId: item.versionId,
+    salesforceOrgId: job.orgId,
+    dataCategories: previous ? previous.dataCategories : []
+  });
+
+  await saveArticle({
+    ...(await getArticle(article.id) || article),
+    status: 'published',
+    lastModified: now,
+    lastSyncedVersionId: version.versionId
+  });
+  await clearDriftReport(article.id, job.orgId);
+
+  await addSyncLog({
+    articleId: item.articleId,
+    articleTitle: item.title,
+    action: 'publish',
+    user: job.createdByName,
+    status: 'success',
+    message: `Article published via ${describeTrigger(job)}`
+  });
+};
+
+/**
+ * Publish a batch of items through the batched Salesforce calls. The
+ * Salesforce article id is kept on the item as soon as it exists, so a retry
+ * updates that article instead of creating another one.
+ */
+const publishBatch = async (job: PublishJob, items: PublishJobItem[], persist: () => Promise<void>) => {
+  items.forEach(item => {
+    item.status = 'running';
+    item.attempts++;
+    item.nextAttemptAt = undefined;
+  });
+  await persist();
+
+  const loaded = new Map<string, { article: Article; versions: Version[] }>();
+  const entries: BatchPublishEntry[] = [];
+  for (const item of items) {
+    const article = await getArticle(item.articleId);
+    if (!article || article.deletedAt) {
+      const message = article ? 'Article is in the trash' : 'Article not found';
+      await settleFailure(job, item, { statusCode: 'NOT_FOUND', message }, false);
+      continue;
+    }
+
+    // Approval is checked again here: it may have been withdrawn since the job was queued
+    try {
+      await ensurePublishApproved(article);
+    } catch (error) {
+      if (!(error instanceof ReviewWorkflowError)) throw error;
+      await settleFailure(job, item, { statusCode: error.code, message: error.message }, false);
+      continue;
+    }
+
+    const versions = await listVersions(article.id);
+    const previous = versions.find(version =>
+      version.syncedToSalesforce && version.salesforceId && version.salesforceOrgId === job.orgId
+    );
+    loaded.set(item.articleId, { article, versions });
+    entries.push({
+      key: item.articleId,
+      input: { title: article.title, body: article.body, tags: article.tags, visibility: article.visibility },
+      knowledgeArticleId: item.knowledgeArticleId || previous?.salesforceId
+    });
+  }
+
+  const byArticle = new Map(items.map(item => [item.articleId, item]));
+  let outcomes: Map<string, BatchPublishOutcome>;
+  try {
+    outcomes = await publishKnowledgeBatch(job.orgId, entries, (key, knowledgeArticleId, versionId) => {
+      const item = byArticle.get(key)!;
+      item.knowledgeArticleId = knowledgeArticleId;
+      item.versionId = versionId;
+    });
+  } catch (error) {
+    // The request itself failed, so every item in it shares the error
+    for (const entry of entries) {
+      await settleFailure(job, byArticle.get(entry.key)!, toRecordError(error), isRetryable(error));
+    }
+    await persist();
+    return;
+  }
+
+  for (const entry of entries) {
+    const item = byArticle.get(entry.key)!;
+    const outcome = outcomes.get(entry.key);
+    if (!outcome) {
+      await settleFailure(job, item, { statusCode: 'UNKNOWN_ERROR', message: 'No result returned for this article' }, true);
+    } else if (outcome.success) {
+      item.status = 'succeeded';
+      item.error = undefined;
+      item.errorCode = undefined;
+      const { article, versions } = loaded.get(entry.key)!;
+      await recordPublished(job, item, article, versions);
+    } else {
+      await settleFailure(job, item, outcome.error, outcome.retryable);
+    }
+  }
+  await persist();
+};
+
+const runJob = async (claimed: PublishJob) => {
+  let job = await savePublishJob({
+    ...claimed,
+    status: 'running',
+    startedAt: claimed.startedAt || new Date().toISOString()
+  });
+  const persist = async () => {
+    job = await savePublishJob(job);
+  };
+
+  for (;;) {
+    if (await isJobCancelRequested(job.id)) break;
+
+    const pending = job.items.filter(item => item.status === 'pending');
+    if (pending.length === 0) break;
+
+    // Items backing off after a failure wait; the rest go out together
+    const now = Date.now();
+    const ready = pending.filter(item => !item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now);
+    if (ready.length === 0) {
+      const nextAttempt = Math.min(...pending.map(item => new Date(item.nextAttemptAt!).getTime()));
+      await sleep(nextAttempt - now);
+      continue;
+    }
+
+    await publishBatch(job, ready.slice(0, COLLECTION_LIMIT), persist);
+  }
+
+  const cancelled = job.items.some(item => item.status === 'pending');
+  job.items.forEach(item => {
+    if (item.status === 'pending') item.status = 'cancelled';
+  });
+  job.status = cancelled ? 'cancelled' : 'completed';
+  job.finishedAt = new Date().toISOString();
+  await persist();
+};
+
+const drainQueue = async () => {
+  if (busy || redis.status !== 'ready') return;
+  busy = true;
+
+  try {
+    let job = await claimNextJob();
+    while (job) {
+      const claimed = job;
+      await holdPublishJobLease(claimed.id, () => runJob(claimed));
+      job = await claimNextJob();
+    }
+  } catch (error) {
+    console.error('❌ Publish worker error:', error);
+  } finally {
+    busy = false;
+  }
+};
+
+const recoverJobs = () => requeueInterruptedJobs()
+  .then(requeued => {
+    if (requeued > 0) console.log(`📦 Requeued ${requeued} interrupted publish jobs`);
+  })
+  .catch(error => console.error('❌ Publish job recovery error:', error));
+
+/**
+ * Process bulk publish jobs in this process, one at a time, in queue order.
+ * Jobs another process stopped working on are picked up once their lease
+ * runs out.
+ */
+export const startPublishWorker = () => {
+  adoptLegacyPublishJobs()
+    .then(adopted => {
+      if (adopted > 0) console.log(`📦 Moved ${adopted} publish jobs to per-job keys`);
+    })
+    .catch(error => console.error('❌ Publish job migration error:', error))
+    .then(recoverJobs)
+    .finally(() => {
+      setInterval(drainQueue, POLL_INTERVAL);
+      setInterval(recoverJobs, JOB_RECOVERY_INTERVAL);
+    });
+};
@@ -0,0 +1,110 @@
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+import { toCategoryGroupName } from './knowledgeMapping';
+
+export interface WorkflowSettings {
+  enabled: boolean; // when false, publishers publish directly
+  requiredApprovals: number;
+  reviewersByGroup: Record<string, string[]>; // data category group name -> reviewer user ids
+  defaultReviewers: string[]; // user ids, for articles without a category in a configured group
+}
+
+export type ReviewDecisionType = 'approved' | 'changes_requested';
+
+export interface ReviewDecision {
+  reviewer: string; // display name
+  reviewerId: string;
+  decision: ReviewDecisionType;
+  comment: string;
+  createdAt: string;
+}
+
+/**
+ * The current submission of an article. A new submission replaces the
+ * previous one; the sync log keeps the history.
+ */
+export interface ReviewRequest {
+  articleId: string;
+  articleTitle: string;
+  submittedBy: string; // display name
+  submittedById: string;
+  submittedAt: string;
+  comment?: string;
+  reviewers: string[]; // display names, in the same order as reviewerIds
+  reviewerIds: string[];
+  requiredApprovals: number;
+  decisions: ReviewDecision[];
+}
+
+const SETTINGS_KEY = 'kublish:workflow';
+const REVIEWS_KEY = 'kublish:reviews';
+
+export const DEFAULT_WORKFLOW_SETTINGS: WorkflowSettings = {
+  enabled: false,
+  requiredApprovals: 1,
+  reviewersByGroup: {},
+  defaultReviewers: []
+};
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+export const getWorkflowSettings = async (): Promise<WorkflowSettings> => {
+  ensureConnected();
+  const data = await redis.get(SETTINGS_KEY);
+  return data ? { ...DEFAULT_WORKFLOW_SETTINGS, ...JSON.parse(data) } : DEFAULT_WORKFLOW_SETTINGS;
+};
+
+export const saveWorkflowSettings = async (settings: WorkflowSettings): Promise<WorkflowSettings> => {
+  ensureConnected();
+  await redis.set(SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+};
+
+/**
+ * Reviewers for an article: everyone assigned to a group one of its data
+ * categories belongs to, or the default reviewers when none match
+ */
+export const reviewersFor = (settings: WorkflowSettings, dataCategories: string[] = []): string[] => {
+  const groups = new Set(dataCategories.map(toCategoryGroupName));
+  const assigned = new Set<string>();
+  groups.forEach(group => (settings.reviewersByGroup[group] || []).forEach(id => assigned.add(id)));
+  return assigned.size > 0 ? [...assigned] : [...settings.defaultReviewers];
+};
+
+/**
+ * Reviewers whose latest decision on the submission is an approval
+ */
+export const countApprovals = (request: ReviewRequest): number => {
+  const latest = new Map<string, ReviewDecisionType>();
+  request.decisions.forEach(decision => latest.set(decision.reviewerId, decision.decision));
+  return [...latest.values()].filter(decision => decision === 'approved').length;
+};
+
+export const getReviewRequest = async (articleId: string): Promise<ReviewRequest | null> => {
+  ensureConnected();
+  const data = await redis.hget(REVIEWS_KEY, articleId);
+  return data ? JSON.parse(data) : null;
+};
+
+export const listReviewRequests = async (): Promise<ReviewRequest[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(REVIEWS_KEY);
+  return Object.values(hash)
+    .map(value => JSON.parse(value) as ReviewRequest)
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+};
+
+export const saveReviewRequest = async (request: ReviewRequest): Promise<ReviewRequest> => {
+  ensureConnected();
+  await redis.hset(REVIEWS_KEY, request.articleId, JSON.stringify(request));
+  return request;
+};
+
+export const deleteReviewRequest = async (articleId: string): Promise<void> => {
+  ensureConnected();
+  await redis.hdel(REVIEWS_KEY, articleId);
+};
@@ -0,0 +1,189 @@
+import { addSyncLog, Article, saveArticle } from './articleStore';
+import {
+  countApprovals,
+  deleteReviewRequest,
+  getReviewRequest,
+  getWorkflowSettings,
+  ReviewDecisionType,
+  ReviewRequest,
+  reviewersFor,
+  saveReviewRequest
+} from './reviewStore';
+import { listUsers } from './userStore';
+import { hasPermission } from '../../../shared/permissions';
+
+export const REVIEW_STATES: Article['status'][] = ['in_review', 'changes_requested', 'approved'];
+
+export const isReviewState = (status: Article['status']): boolean => REVIEW_STATES.includes(status);
+
+// Who submits or decides; the id is what counts, the name is for display
+export interface ReviewParticipant {
+  id: string;
+  name: string;
+}
+
+/**
+ * A review transition the article's current state does not allow
+ */
+export class ReviewWorkflowError extends Error {
+  constructor(
+    message: string,
+    public readonly code = 'REVIEW_NOT_ALLOWED',
+    public readonly status = 409
+  ) {
+    super(message);
+    this.name = 'ReviewWorkflowError';
+  }
+}
+
+export class ApprovalRequiredError extends ReviewWorkflowError {
+  constructor(title?: string) {
+    super(
+      title ? `"${title}" needs approval before it can be published` : 'Articles need approval before they can be published',
+      'APPROVAL_REQUIRED'
+    );
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+/**
+ * Throw unless the article may be published: the workflow is off, or the
+ * article has collected its approvals. Without an article only a disabled
+ * workflow lets the publish through.
+ */
+export const ensurePublishApproved = async (article: Pick<Article, 'title' | 'status'> | null): Promise<void> => {
+  if (article?.status === 'approved') return;
+  if ((await getWorkflowSettings()).enabled) throw new ApprovalRequiredError(article?.title);
+};
+
+const logTransition = (
+  article: Article,
+  action: 'submit_review' | 'approve' | 'request_changes' | 'withdraw_review',
+  user: string,
+  message: string,
+  comment?: string
+) => addSyncLog({
+  articleId: article.id,
+  articleTitle: article.title,
+  action,
+  user,
+  status: 'success',
+  message: comment ? `${message}: "${comment}"` : message
+});
+
+/**
+ * Send an article to the reviewers of its data category groups. Any earlier
+ * submission and its decisions are replaced.
+ */
+export const submitForReview = async (
+  article: Article,
+  user: ReviewParticipant,
+  comment?: string
+): Promise<ReviewRequest> => {
+  const settings = await getWorkflowSettings();
+  if (!settings.enabled) throw new ReviewWorkflowError('The review workflow is turned off');
+  if (!['draft', 'changes_requested', 'published'].includes(article.status)) {
+    throw new ReviewWorkflowError(`A ${article.status.replace('_', ' ')} article cannot be submitted for review`);
+  }
+
+  // Nobody approves their own article, and users who can no longer review drop out
+  const candidates = new Map((await listUsers())
+    .filter(candidate => hasPermission(candidate, 'articles:review'))
+    .map(candidate => [candidate.id, candidate.name]));
+  const reviewerIds = reviewersFor(settings, article.dataCategories).filter(id => id !== user.id && candidates.has(id));
+  const reviewers = reviewerIds.map(id => candidates.get(id)!);
+  if (reviewers.length < settings.requiredApprovals) {
+    throw new ReviewWorkflowError(
+      `${settings.requiredApprovals} approval${settings.requiredApprovals === 1 ? ' is' : 's are'} required, ` +
+      `but only ${reviewers.length} reviewer${reviewers.length === 1 ? ' is' : 's are'} assigned to this article's data categories`,
+      'NO_REVIEWERS'
+    );
+  }
+
+  const request = await saveReviewRequest({
+    articleId: article.id,
+    articleTitle: article.title,
+    submittedBy: user.name,
+    submittedById: user.id,
+    submittedAt: new Date().toISOString(),
+    comment,
+    reviewers,
+    reviewerIds,
+    requiredApprovals: settings.requiredApprovals,
+    decisions: []
+  });
+  await saveArticle({
+    ...article,
+    status: 'in_review',
+    // A resubmission after requested changes keeps the status from before the first submission
+    statusBeforeReview: isReviewState(article.status) ? article.statusBeforeReview : article.status as 'draft' | 'published',
+    reviewers,
+    reviewerIds,
+    lastModified: new Date().toISOString()
+  });
+  await logTransition(article, 'submit_review', user.name, `Submitted for review to ${reviewers.join(', ')}`, comment);
+  return request;
+};
+
+/**
+ * Record a reviewer's decision. A request for changes sends the article
+ * back to its author; it is approved once enough reviewers approve.
+ */
+export const decideReview = async (
+  article: Article,
+  reviewer: ReviewParticipant,
+  decision: ReviewDecisionType,
+  comment: string
+): Promise<ReviewRequest> => {
+  const request = await getReviewRequest(article.id);
+  if (!request || article.status !== 'in_review') throw new ReviewWorkflowError('Article is not in review');
+  if (!request.reviewerIds.includes(reviewer.id)) {
+    throw new ReviewWorkflowError('You are not a reviewer of this article', 'NOT_A_REVIEWER', 403);
+  }
+
+  const updated = await saveReviewRequest({
+    ...request,
+    decisions: [...request.decisions, {
+      reviewer: reviewer.name,
+      reviewerId: reviewer.id,
+      decision,
+      comment,
+      createdAt: new Date().toISOString()
+    }]
+  });
+
+  if (decision === 'changes_requested') {
+    await saveArticle({ ...article, status: 'changes_requested' });
+    await logTransition(article, 'request_changes', reviewer.name, 'Changes requested', comment);
+    return updated;
+  }
+
+  const approvals = countApprovals(updated);
+  if (approvals >= updated.requiredApprovals) await saveArticle({ ...article, status: 'approved' });
+  await logTransition(
+    article,
+    'approve',
+    reviewer.name,
+    `Approved (${approvals} of ${updated.requiredApprovals} approvals)`,
+    comment
+  );
+  return updated;
+};
+
+/**
+ * Take an article out of review, either on the author's request or because
+ * approved content was edited. It goes back to the status it was submitted
+ * from, so a published article stays published.
+ */
+export const withdrawReview = async (article: Article, user: string, reason: string): Promise<Article> => {
+  await deleteReviewRequest(article.id);
+  const saved = await saveArticle({
+    ...article,
+    status: article.statusBeforeReview || 'draft',
+    statusBeforeReview: undefined,
+    reviewers: undefined,
+    reviewerIds: undefined
+  });
+  await logTransition(article, 'withdraw_review', user, reason);
+  return saved;
+};
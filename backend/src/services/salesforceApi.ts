@@ -0,0 +1,304 @@
+import axios, { AxiosResponse } from 'axios';
+import {
+  DEFAULT_LOGIN_URL,
+  getTokenData,
+  SalesforceEnvironment,
+  setTokenData,
+  TokenData
+} from './tokenStore';
+import { getDefaultOrgId, getOrgConnection } from './orgStore';
+import { ApiUsage, getApiUsage, setApiUsage } from './apiUsageStore';
+import { SalesforceApiError, translateSalesforceError } from './salesforceErrors';
+import { DEFAULT_FIELD_MAPPING } from './knowledgeMapping';
+
+// Endpoints are written against this version; makeSalesforceApiCall swaps
+// in the org's configured version when it has one
+export const SF_API_VERSION = 'v58.0';
+const VERSIONED_PATH_PREFIX = `/services/data/${SF_API_VERSION}/`;
+
+// Share of the daily API allowance after which calls to an org are spaced out
+export const API_USAGE_THRESHOLD = parseFloat(process.env.SF_API_USAGE_THRESHOLD || '0.9');
+const API_THROTTLE_DELAY = parseInt(process.env.SF_API_THROTTLE_DELAY_MS || '1000', 10);
+// How long an exhausted allowance is trusted before letting a call through to recheck
+const LIMIT_RECHECK_INTERVAL = 5 * 60 * 1000;
+
+const LOGIN_URLS: Record<Exclude<SalesforceEnvironment, 'custom'>, string> = {
+  production: DEFAULT_LOGIN_URL,
+  sandbox: 'https://test.salesforce.com'
+};
+
+/**
+ * Resolve the OAuth host for an environment. Custom (My Domain) hosts must
+ * be https Salesforce domains, since the client secret is posted to them.
+ * Returns null when the input is not acceptable.
+ */
+export const resolveLoginUrl = (environment: SalesforceEnvironment, customUrl?: string): string | null => {
+  if (environment !== 'custom') return LOGIN_URLS[environment] ?? null;
+  if (!customUrl) return null;
+
+  try {
+    const url = new URL(customUrl.includes('://') ? customUrl : `https://${customUrl}`);
+    if (url.protocol !== 'https:' || !url.hostname.endsWith('.salesforce.com')) return null;
+    return url.origin;
+  } catch {
+    return null;
+  }
+};
+
+export class SalesforceNotConnectedError extends Error {
+  constructor(message = 'User is not authenticated with Salesforce.') {
+    super(message);
+    this.name = 'SalesforceNotConnectedError';
+  }
+}
+
+export class SalesforceLimitError extends SalesforceApiError {
+  constructor(message = 'Salesforce API request limit exceeded.') {
+    super(message, 'REQUEST_LIMIT_EXCEEDED', 429, 'REQUEST_LIMIT_EXCEEDED');
+    this.name = 'SalesforceLimitError';
+  }
+}
+
+const usageCache = new Map<string, ApiUsage>();
+const throttleQueues = new Map<string, Promise<void>>();
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sforce-Limit-Info reads like "api-usage=25/15000"
+ */
+export const parseLimitInfo = (header?: string): { used: number; max: number } | null => {
+  const match = header?.match(/api-usage=(\d+)\/(\d+)/);
+  return match ? { used: parseInt(match[1], 10), max: parseInt(match[2], 10) } : null;
+};
+
+export const recordApiUsage = async (orgId: string, used: number, max: number): Promise<ApiUsage> => {
+  const usage = { used, max, updatedAt: new Date().toISOString() };
+  usageCache.set(orgId, usage);
+  await setApiUsage(orgId, usage);
+  return usage;
+};
+
+export const getKnownApiUsage = async (orgId: string): Promise<ApiUsage | null> => {
+  if (!usageCache.has(orgId)) {
+    const stored = await getApiUsage(orgId);
+    if (stored) usageCache.set(orgId, stored);
+  }
+  return usageCache.get(orgId) || null;
+};
+
+/**
+ * Past the usage threshold, calls to an org go out one at a time with a
+ * delay between them. Once the allowance is used up they are refused
+ * without calling Salesforce, apart from an occasional recheck.
+ */
+const throttle = async (orgId: string) => {
+  const usage = await getKnownApiUsage(orgId);
+  if (!usage || usage.max === 0 || usage.used / usage.max < API_USAGE_THRESHOLD) return;
+
+  if (usage.used >= usage.max && Date.now() - new Date(usage.updatedAt).getTime() < LIMIT_RECHECK_INTERVAL) {
+    throw new SalesforceLimitError(`Daily API request limit reached (${usage.used}/${usage.max}).`);
+  }
+
+  const turn = (throttleQueues.get(orgId) || Promise.resolve()).then(() => sleep(API_THROTTLE_DELAY));
+  throttleQueues.set(orgId, turn);
+  await turn;
+};
+
+const trackUsage = async (orgId: string, limitInfo?: string) => {
+  const usage = parseLimitInfo(limitInfo);
+  if (usage) await recordApiUsage(orgId, usage.used, usage.max);
+};
+
+/**
+ * The org a request targets: the requested connection, or the workspace
+ * default. Null when nothing matching is connected.
+ */
+export const findOrgId = async (requested?: string): Promise<string | null> => {
+  if (requested) return (await getOrgConnection(requested)) ? requested : null;
+  return getDefaultOrgId();
+};
+
+export const requireOrgId = async (requested?: string): Promise<string> => {
+  const orgId = await findOrgId(requested);
+  if (!orgId) {
+    throw new SalesforceNotConnectedError(
+      requested ? `Salesforce org ${requested} is not connected.` : 'No Salesforce org is connected.'
+    );
+  }
+  return orgId;
+};
+
+/**
+ * Salesforce reports issued_at as a millisecond timestamp string
+ */
+export const parseIssuedAt = (issuedAt?: string): number => {
+  const parsed = parseInt(issuedAt || '', 10);
+  return Number.isNaN(parsed) ? Date.now() : parsed;
+};
+
+/**
+ * Revoke a token at Salesforce. Revoking the refresh token also invalidates
+ * every access token issued from it.
+ */
+export const revokeSalesforceToken = async (tokenData: TokenData): Promise<void> => {
+  await axios.post(
+    `${tokenData.loginUrl || DEFAULT_LOGIN_URL}/services/oauth2/revoke`,
+    new URLSearchParams({ token: tokenData.refreshToken || tokenData.accessToken }),
+    {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000
+    }
+  );
+};
+
+/**
+ * Refresh access token using refresh token
+ */
+export const refreshAccessToken = async (orgId: string): Promise<TokenData | null> => {
+  const tokenData = await getTokenData(orgId);
+  if (!tokenData?.refreshToken) {
+    console.error(`❌ No refresh token found for org: ${orgId}`);
+    return null;
+  }
+
+  try {
+    console.log(`🔄 Refreshing access token for org: ${orgId}`);
+
+    const response = await axios.post(
+      `${tokenData.loginUrl || DEFAULT_LOGIN_URL}/services/oauth2/token`,
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: process.env.SF_CLIENT_ID!,
+        client_secret: process.env.SF_CLIENT_SECRET!,
+        refresh_token: tokenData.refreshToken
+      }),
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json'
+        },
+        timeout: 10000
+      }
+    );
+
+    const {
+      access_token,
+      refresh_token,
+      instance_url,
+      issued_at,
+      expires_in
+    } = response.data;
+
+    const issuedAt = parseIssuedAt(issued_at);
+    const expiresAt = issuedAt + (parseInt(expires_in || '3600') * 1000); // Fallback 1h
+
+    const updatedToken: TokenData = {
+      ...tokenData,
+      accessToken: access_token,
+      refreshToken: refresh_token || tokenData.refreshToken,
+      instanceUrl: instance_url || tokenData.instanceUrl,
+      expiresAt,
+      issuedAt
+    };
+
+    await setTokenData(orgId, updatedToken);
+    console.log(`✅ Access token refreshed for ${orgId}`);
+    return updatedToken;
+
+  } catch (err) {
+    console.error(`❌ Failed to refresh token for ${orgId}:`, err);
+    return null;
+  }
+};
+
+export const makeSalesforceApiCall = async <T = unknown>(
+  orgId: string,
+  endpoint: string,
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' = 'GET',
+  data?: unknown
+): Promise<AxiosResponse<T>> => {
+  let tokenData = await getTokenData(orgId);
+  if (!tokenData) throw new SalesforceNotConnectedError();
+
+  const now = Date.now();
+  if (tokenData.expiresAt < now + 30000) { // refresh if < 30s left
+    tokenData = await refreshAccessToken(orgId);
+    if (!tokenData) throw new SalesforceNotConnectedError('Unable to refresh token.');
+  }
+
+  await throttle(orgId);
+
+  const org = await getOrgConnection(orgId);
+  const path = org?.apiVersion && endpoint.startsWith(VERSIONED_PATH_PREFIX)
+    ? `/services/data/${org.apiVersion}/${endpoint.slice(VERSIONED_PATH_PREFIX.length)}`
+    : endpoint;
+
+  const send = (accessToken: string, instanceUrl: string) => axios<T>({
+    method,
+    url: `${instanceUrl}${path}`,
+    data,
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    },
+    timeout: 15000
+  });
+
+  try {
+    let response: AxiosResponse<T>;
+    try {
+      response = await send(tokenData.accessToken, tokenData.instanceUrl);
+    } catch (error) {
+      // The session can be revoked or expire before expiresAt; refresh once and replay
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) throw error;
+      tokenData = await refreshAccessToken(orgId);
+      if (!tokenData) throw new SalesforceNotConnectedError('Salesforce session expired and could not be refreshed.');
+      response = await send(tokenData.accessToken, tokenData.instanceUrl);
+    }
+    await trackUsage(orgId, response.headers['sforce-limit-info']);
+    return response;
+  } catch (error) {
+    if (!axios.isAxiosError(error)) throw error;
+    if (error.response) {
+      await trackUsage(orgId, error.response.headers['sforce-limit-info']);
+    }
+
+    const translated = translateSalesforceError(error, org?.fieldMapping || DEFAULT_FIELD_MAPPING);
+    if (translated.code === 'REQUEST_LIMIT_EXCEEDED') {
+      // TotalRequests is the daily allowance; other limits are concurrency and pass quickly
+      const usage = await getKnownApiUsage(orgId);
+      if (usage && /TotalRequests/i.test(translated.message)) {
+        await recordApiUsage(orgId, usage.max, usage.max);
+      }
+      throw new SalesforceLimitError(translated.message);
+    }
+    throw translated;
+  }
+};
+
+// One page of SOQL results; nextRecordsUrl fetches the next one
+export interface QueryResult<T> {
+  totalSize: number;
+  done: boolean;
+  nextRecordsUrl?: string;
+  records: T[];
+}
+
+/**
+ * Run a SOQL query against a connected org
+ */
+export const querySalesforce = async <T>(orgId: string, soql: string): Promise<QueryResult<T>> => {
+  const response = await makeSalesforceApiCall<QueryResult<T>>(
+    orgId,
+    `/services/data/${SF_API_VERSION}/query/?q=${encodeURIComponent(soql)}`
+  );
+  return response.data;
+};
+
+/**
+ * Escape a value for use inside a single-quoted SOQL string literal
+ */
+export const escapeSoql = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
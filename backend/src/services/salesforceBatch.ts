@@ -0,0 +1,127 @@
+import { escapeSoql, makeSalesforceApiCall, querySalesforce, SF_API_VERSION } from './salesforceApi';
+
+/**
+ * Batched Salesforce calls for bulk operations. Each helper splits its input
+ * into requests no larger than the platform allows and returns one result per
+ * input, in input order, so partial failures can be traced back to the item
+ * that caused them.
+ */
+
+const COLLECTIONS_PATH = `/services/data/${SF_API_VERSION}/composite/sobjects`;
+const STANDARD_ACTIONS_PATH = `/services/data/${SF_API_VERSION}/actions/standard`;
+
+// sObject Collections accept at most 200 records per request
+export const COLLECTION_LIMIT = 200;
+// Keep IN lists well under the SOQL statement length limit
+const QUERY_IN_LIMIT = 200;
+
+// Record-level failures that are likely to succeed on another attempt
+const RETRYABLE_STATUS_CODES = new Set([
+  'UNABLE_TO_LOCK_ROW',
+  'REQUEST_LIMIT_EXCEEDED',
+  'SERVER_UNAVAILABLE',
+  'REQUEST_RUNNING_TOO_LONG'
+]);
+
+export interface SalesforceRecordError {
+  statusCode: string;
+  message: string;
+  fields?: string[];
+}
+
+export type BatchResult<T> =
+  | { success: true; value: T }
+  | { success: false; error: SalesforceRecordError };
+
+interface CollectionResult {
+  id?: string;
+  success: boolean;
+  errors: SalesforceRecordError[];
+}
+
+interface ActionResult {
+  isSuccess: boolean;
+  outputValues: Record<string, unknown> | null;
+  errors: SalesforceRecordError[] | null;
+}
+
+const UNKNOWN_ERROR: SalesforceRecordError = { statusCode: 'UNKNOWN_ERROR', message: 'Salesforce returned no error details' };
+
+export const isRetryableRecordError = (error: SalesforceRecordError): boolean =>
+  RETRYABLE_STATUS_CODES.has(error.statusCode);
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const toRecordResult = (result: CollectionResult): BatchResult<string> =>
+  result.success && result.id
+    ? { success: true, value: result.id }
+    : { success: false, error: result.errors[0] || UNKNOWN_ERROR };
+
+const sendCollection = async (
+  orgId: string,
+  method: 'POST' | 'PATCH',
+  sobjectType: string,
+  records: Record<string, unknown>[]
+): Promise<BatchResult<string>[]> => {
+  const results: BatchResult<string>[] = [];
+  for (const batch of chunk(records, COLLECTION_LIMIT)) {
+    const response = await makeSalesforceApiCall(orgId, COLLECTIONS_PATH, method, {
+      allOrNone: false,
+      records: batch.map(record => ({ attributes: { type: sobjectType }, ...record }))
+    });
+    results.push(...(response.data as CollectionResult[]).map(toRecordResult));
+  }
+  return results;
+};
+
+/**
+ * Insert records; each successful result carries the new record id
+ */
+export const createRecords = (orgId: string, sobjectType: string, records: Record<string, unknown>[]) =>
+  sendCollection(orgId, 'POST', sobjectType, records);
+
+/**
+ * Update records by their Id field
+ */
+export const updateRecords = (orgId: string, sobjectType: string, records: ({ Id: string } & Record<string, unknown>)[]) =>
+  sendCollection(orgId, 'PATCH', sobjectType, records);
+
+/**
+ * Run a standard invocable action once per input
+ */
+export const invokeStandardAction = async (
+  orgId: string,
+  action: string,
+  inputs: Record<string, unknown>[]
+): Promise<BatchResult<Record<string, unknown>>[]> => {
+  const results: BatchResult<Record<string, unknown>>[] = [];
+  for (const batch of chunk(inputs, COLLECTION_LIMIT)) {
+    const response = await makeSalesforceApiCall(orgId, `${STANDARD_ACTIONS_PATH}/${action}`, 'POST', { inputs: batch });
+    results.push(...(response.data as ActionResult[]).map((result): BatchResult<Record<string, unknown>> =>
+      result.isSuccess
+        ? { success: true, value: result.outputValues || {} }
+        : { success: false, error: result.errors?.[0] || UNKNOWN_ERROR }
+    ));
+  }
+  return results;
+};
+
+/**
+ * SELECT rows whose `field` is one of `values`, a chunk of values per query.
+ * `select` is everything before the IN condition, ending in WHERE or AND.
+ */
+export const queryWhereIn = async <T>(orgId: string, select: string, field: string, values: string[]): Promise<T[]> => {
+  const rows: T[] = [];
+  for (const batch of chunk([...new Set(values)], QUERY_IN_LIMIT)) {
+    const list = batch.map(value => `'${escapeSoql(value)}'`).join(', ');
+    const result = await querySalesforce<T>(orgId, `${select} ${field} IN (${list})`);
+    rows.push(...result.records);
+  }
+  return rows;
+};
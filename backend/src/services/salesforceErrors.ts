@@ -0,0 +1,128 @@
+import { AxiosError } from 'axios';
+import { DEFAULT_FIELD_MAPPING, KnowledgeFieldMapping, toKublishField } from './knowledgeMapping';
+
+/**
+ * Kublish's own codes for Salesforce failures; clients switch on these
+ * rather than on Salesforce's much longer list
+ */
+export type SalesforceErrorCode =
+  | 'SESSION_EXPIRED'
+  | 'VALIDATION_FAILED'
+  | 'DUPLICATE_VALUE'
+  | 'INVALID_REFERENCE'
+  | 'NOT_FOUND'
+  | 'INSUFFICIENT_ACCESS'
+  | 'RECORD_LOCKED'
+  | 'INVALID_REQUEST'
+  | 'REQUEST_LIMIT_EXCEEDED'
+  | 'SALESFORCE_UNAVAILABLE'
+  | 'SALESFORCE_ERROR';
+
+export interface SalesforceFieldError {
+  field: string; // Salesforce API name
+  kublishField?: ReturnType<typeof toKublishField>;
+  message: string;
+}
+
+interface SalesforceErrorBody {
+  message?: string;
+  errorCode?: string;
+  fields?: string[];
+}
+
+// A dead Salesforce session is a 403 here: 401 means the Kublish session
+// expired, and the client would try to renew the wrong thing
+const ERROR_MAP: Record<string, { code: SalesforceErrorCode; status: number }> = {
+  INVALID_SESSION_ID: { code: 'SESSION_EXPIRED', status: 403 },
+  FIELD_CUSTOM_VALIDATION_EXCEPTION: { code: 'VALIDATION_FAILED', status: 422 },
+  REQUIRED_FIELD_MISSING: { code: 'VALIDATION_FAILED', status: 422 },
+  STRING_TOO_LONG: { code: 'VALIDATION_FAILED', status: 422 },
+  FIELD_INTEGRITY_EXCEPTION: { code: 'VALIDATION_FAILED', status: 422 },
+  INVALID_FIELD_FOR_INSERT_UPDATE: { code: 'VALIDATION_FAILED', status: 422 },
+  INVALID_TYPE_ON_FIELD_IN_RECORD: { code: 'VALIDATION_FAILED', status: 422 },
+  DUPLICATE_VALUE: { code: 'DUPLICATE_VALUE', status: 409 },
+  INVALID_CROSS_REFERENCE_KEY: { code: 'INVALID_REFERENCE', status: 422 },
+  INVALID_ID_FIELD: { code: 'INVALID_REFERENCE', status: 422 },
+  NOT_FOUND: { code: 'NOT_FOUND', status: 404 },
+  ENTITY_IS_DELETED: { code: 'NOT_FOUND', status: 404 },
+  INSUFFICIENT_ACCESS_OR_READONLY: { code: 'INSUFFICIENT_ACCESS', status: 403 },
+  INSUFFICIENT_ACCESS_ON_CROSS_REFERENCE_ENTITY: { code: 'INSUFFICIENT_ACCESS', status: 403 },
+  API_DISABLED_FOR_ORG: { code: 'INSUFFICIENT_ACCESS', status: 403 },
+  UNABLE_TO_LOCK_ROW: { code: 'RECORD_LOCKED', status: 409 },
+  MALFORMED_QUERY: { code: 'INVALID_REQUEST', status: 400 },
+  INVALID_FIELD: { code: 'INVALID_REQUEST', status: 400 },
+  JSON_PARSER_ERROR: { code: 'INVALID_REQUEST', status: 400 },
+  REQUEST_LIMIT_EXCEEDED: { code: 'REQUEST_LIMIT_EXCEEDED', status: 429 },
+  SERVER_UNAVAILABLE: { code: 'SALESFORCE_UNAVAILABLE', status: 503 }
+};
+
+// Codes where the same request may well succeed a little later
+const RETRYABLE_CODES: SalesforceErrorCode[] = ['RECORD_LOCKED', 'SALESFORCE_UNAVAILABLE'];
+
+export class SalesforceApiError extends Error {
+  constructor(
+    message: string,
+    public readonly code: SalesforceErrorCode,
+    public readonly status: number,
+    public readonly salesforceErrorCode?: string,
+    public readonly fieldErrors: SalesforceFieldError[] = []
+  ) {
+    super(message);
+    this.name = 'SalesforceApiError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE_CODES.includes(this.code);
+  }
+}
+
+/**
+ * Salesforce answers with an array of errors for most REST calls and a
+ * single object for OAuth endpoints
+ */
+const readErrorBodies = (data: unknown): SalesforceErrorBody[] => {
+  if (Array.isArray(data)) return data;
+  if (data && typeof data === 'object') {
+    const body = data as SalesforceErrorBody & { error_description?: string; error?: string };
+    return [{ ...body, message: body.message || body.error_description, errorCode: body.errorCode || body.error }];
+  }
+  return [];
+};
+
+const statusFallback = (status: number): { code: SalesforceErrorCode; status: number } => {
+  if (status === 401) return { code: 'SESSION_EXPIRED', status: 403 };
+  if (status === 404) return { code: 'NOT_FOUND', status };
+  if (status >= 500) return { code: 'SALESFORCE_UNAVAILABLE', status: 502 };
+  return { code: 'SALESFORCE_ERROR', status };
+};
+
+/**
+ * Turn a failed Salesforce HTTP call into a typed error, keeping every
+ * field-level message Salesforce returned. The org's field mapping ties
+ * those fields back to the article fields they came from.
+ */
+export const translateSalesforceError = (
+  error: AxiosError,
+  mapping: KnowledgeFieldMapping = DEFAULT_FIELD_MAPPING
+): SalesforceApiError => {
+  if (!error.response) {
+    return new SalesforceApiError(`Salesforce could not be reached: ${error.message}`, 'SALESFORCE_UNAVAILABLE', 504);
+  }
+
+  const bodies = readErrorBodies(error.response.data);
+  const primary = bodies[0];
+  const mapped = (primary?.errorCode && ERROR_MAP[primary.errorCode]) || statusFallback(error.response.status);
+  const fieldErrors = bodies.flatMap(body => (body.fields || []).map(field => ({
+    field,
+    kublishField: toKublishField(mapping, field),
+    message: body.message || 'Invalid value'
+  })));
+
+  return new SalesforceApiError(
+    primary?.message || error.message,
+    mapped.code,
+    mapped.status,
+    primary?.errorCode,
+    fieldErrors
+  );
+};
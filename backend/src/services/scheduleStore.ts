@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+
+export type ScheduledActionType = 'publish' | 'archive' | 'visibility';
+export type ScheduledActionStatus = 'pending' | 'done' | 'failed' | 'cancelled';
+
+export interface ScheduledAction {
+  id: string;
+  articleId: string;
+  articleTitle: string;
+  action: ScheduledActionType;
+  visibility?: 'internal' | 'public'; // target visibility for visibility changes
+  orgId?: string; // org connection a scheduled publish goes to
+  runAt: string; // UTC
+  localTime: string; // wall-clock time as entered, e.g. 2026-11-02T09:00
+  timeZone: string; // IANA zone localTime is in
+  status: ScheduledActionStatus;
+  createdBy: string; // user id
+  createdByName: string;
+  createdAt: string;
+  finishedAt?: string;
+  jobId?: string; // publish job a scheduled publish was handed to
+  error?: string;
+}
+
+export interface ScheduleFilters {
+  articleId?: string;
+  from?: string;
+  to?: string;
+  status?: ScheduledActionStatus;
+}
+
+const SCHEDULES_KEY = 'kublish:schedules';
+// Sorted set of pending action ids, scored by runAt
+const DUE_KEY = 'kublish:schedules:due';
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+export const createScheduledAction = async (
+  action: Omit<ScheduledAction, 'id' | 'status' | 'createdAt'>
+): Promise<ScheduledAction> => {
+  ensureConnected();
+  const scheduled: ScheduledAction = {
+    ...action,
+    id: `schedule-${crypto.randomUUID()}`,
+    status: 'pending',
+    createdAt: new Date().toISOString()
+  };
+  await redis.hset(SCHEDULES_KEY, scheduled.id, JSON.stringify(scheduled));
+  await redis.zadd(DUE_KEY, new Date(scheduled.runAt).getTime(), scheduled.id);
+  return scheduled;
+};
+
+export const getScheduledAction = async (id: string): Promise<ScheduledAction | null> => {
+  ensureConnected();
+  const data = await redis.hget(SCHEDULES_KEY, id);
+  return data ? JSON.parse(data) : null;
+};
+
+/**
+ * Scheduled actions in run order, optionally limited to an article, a
+ * status and a runAt window
+ */
+export const listScheduledActions = async (filters: ScheduleFilters = {}): Promise<ScheduledAction[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(SCHEDULES_KEY);
+  return Object.values(hash)
+    .map(value => JSON.parse(value) as ScheduledAction)
+    .filter(action => !filters.articleId || action.articleId === filters.articleId)
+    .filter(action => !filters.status || action.status === filters.status)
+    .filter(action => !filters.from || new Date(action.runAt) >= new Date(filters.from))
+    .filter(action => !filters.to || new Date(action.runAt) <= new Date(filters.to))
+    .sort((a, b) => new Date(a.runAt).getTime() - new Date(b.runAt).getTime());
+};
+
+export const saveScheduledAction = async (action: ScheduledAction): Promise<ScheduledAction> => {
+  ensureConnected();
+  await redis.hset(SCHEDULES_KEY, action.id, JSON.stringify(action));
+  return action;
+};
+
+export const cancelScheduledAction = async (action: ScheduledAction): Promise<ScheduledAction> => {
+  ensureConnected();
+  await redis.zrem(DUE_KEY, action.id);
+  return saveScheduledAction({ ...action, status: 'cancelled', finishedAt: new Date().toISOString() });
+};
+
+/**
+ * Take every pending action whose time has come. ZREM succeeds for only one
+ * caller, so each action runs at most once.
+ */
+export const claimDueActions = async (now = Date.now()): Promise<ScheduledAction[]> => {
+  ensureConnected();
+  const claimed: ScheduledAction[] = [];
+  for (const id of await redis.zrangebyscore(DUE_KEY, 0, now)) {
+    if (!(await redis.zrem(DUE_KEY, id))) continue;
+    const action = await getScheduledAction(id);
+    if (action?.status === 'pending') claimed.push(action);
+  }
+  return claimed;
+};
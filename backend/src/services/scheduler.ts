@@ -0,0 +1,181 @@
+import redis from '../config/redis';
+import { addSyncLog, Article, getArticle, listVersions, saveArticle } from './articleStore';
+import { archiveArticle } from './articleLifecycle';
+import { ensurePublishApproved, withdrawReview } from './reviewWorkflow';
+import { createPublishJob } from './publishJobStore';
+import { claimDueActions, saveScheduledAction, ScheduledAction } from './scheduleStore';
+import { getUserById } from './userStore';
+import { canEditArticle, hasPermission } from '../../../shared/permissions';
+
+const POLL_INTERVAL = 30 * 1000; // ms
+
+let busy = false;
+
+/**
+ * Whether the runtime knows an IANA time zone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// How far the zone's wall clock is ahead of UTC at the given instant, in ms
+const zoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - date.getTime();
+};
+
+/**
+ * Convert a wall-clock time like "2026-11-02T09:00" in an IANA zone to UTC.
+ * The offset is taken a second time at the first guess so times near a
+ * daylight saving change land on the right side of it. Returns null for
+ * malformed input.
+ */
+export const zonedTimeToUtc = (localTime: string, timeZone: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/.exec(localTime);
+  if (!match || !isValidTimeZone(timeZone)) return null;
+
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  const guess = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - zoneOffset(new Date(guess), timeZone));
+};
+
+const findSyncedVersion = async (article: Article, orgId?: string) =>
+  (await listVersions(article.id)).find(version =>
+    version.syncedToSalesforce && version.salesforceId && version.salesforceOrgId === orgId
+  );
+
+/**
+ * Hand the article to the publish queue, the same path bulk publishing
+ * takes, so retries, versions and sync logs work alike
+ */
+const queuePublish = async (action: ScheduledAction, article: Article): Promise<string> => {
+  const job = await createPublishJob({
+    orgId: action.orgId!,
+    trigger: 'schedule',
+    createdBy: action.createdBy,
+    createdByName: action.createdByName,
+    items: [{ articleId: article.id, title: article.title, status: 'pending', attempts: 0 }]
+  });
+  return job.id;
+};
+
+/**
+ * Change visibility the way an edit does: an approved article loses its
+ * approval, and a published one is published again, once approved, so the
+ * Salesforce channel flags follow. The approval is checked before anything
+ * changes.
+ */
+const runVisibilityChange = async (action: ScheduledAction, article: Article): Promise<string | undefined> => {
+  const republish = article.status === 'published' && !!action.orgId && !!(await findSyncedVersion(article, action.orgId));
+  if (republish) await ensurePublishApproved(article);
+
+  const edited: Article = {
+    ...article,
+    visibility: action.visibility!,
+    lastModified: new Date().toISOString()
+  };
+  const updated = article.status === 'approved' && article.visibility !== action.visibility
+    ? await withdrawReview(edited, action.createdByName, 'Approval withdrawn because the visibility was changed by schedule')
+    : await saveArticle(edited);
+
+  await addSyncLog({
+    articleId: article.id,
+    articleTitle: article.title,
+    action: 'visibility',
+    user: action.createdByName,
+    status: 'success',
+    message: `Visibility changed to ${action.visibility} by schedule`
+  });
+
+  return republish ? queuePublish(action, updated) : undefined;
+};
+
+/**
+ * The user who scheduled the action must still be allowed to take it when
+ * it runs: they may have lost their role or the article since
+ */
+const ensureStillAllowed = async (action: ScheduledAction, article: Article) => {
+  const user = await getUserById(action.createdBy);
+  if (!user) throw new Error(`${action.createdByName} no longer has an account`);
+  if (!hasPermission(user, 'articles:publish') || !canEditArticle(user, article)) {
+    throw new Error(`${user.name} is no longer allowed to change this article`);
+  }
+};
+
+/**
+ * Run a claimed action and record how it went on the action and in the
+ * sync log
+ */
+export const runAction = async (action: ScheduledAction) => {
+  const article = await getArticle(action.articleId);
+
+  try {
+    if (!article) throw new Error('Article not found');
+    if (article.deletedAt) throw new Error('Article is in the trash');
+    await ensureStillAllowed(action, article);
+
+    let jobId: string | undefined;
+    if (action.action === 'publish') {
+      await ensurePublishApproved(article);
+      jobId = await queuePublish(action, article);
+    } else if (action.action === 'archive') {
+      await archiveArticle(article, action.createdByName, { scheduled: true });
+    } else {
+      jobId = await runVisibilityChange(action, article);
+    }
+
+    await saveScheduledAction({ ...action, status: 'done', jobId, finishedAt: new Date().toISOString() });
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`❌ Scheduled ${action.action} of ${action.articleId} failed:`, error);
+    await saveScheduledAction({ ...action, status: 'failed', error: message, finishedAt: new Date().toISOString() });
+    await addSyncLog({
+      articleId: action.articleId,
+      articleTitle: article?.title || action.articleTitle,
+      action: action.action,
+      user: action.createdByName,
+      status: 'error',
+      message: `Scheduled ${action.action} failed: ${message}`
+    });
+  }
+};
+
+const runDueActions = async () => {
+  if (busy || redis.status !== 'ready') return;
+  busy = true;
+
+  try {
+    for (const action of await claimDueActions()) {
+      await runAction(action);
+    }
+  } catch (error) {
+    console.error('❌ Scheduler error:', error);
+  } finally {
+    busy = false;
+  }
+};
+
+/**
+ * Run scheduled article actions in this process once their time has come
+ */
+export const startScheduler = () => {
+  runDueActions();
+  setInterval(runDueActions, POLL_INTERVAL);
+};
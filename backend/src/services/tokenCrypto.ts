@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+
+/**
+ * Envelope encryption for Salesforce credentials at rest.
+ *
+ * Each record gets its own random data key (DEK) that encrypts the token
+ * payload; the DEK itself is wrapped with a key-encryption key (KEK) from
+ * TOKEN_ENCRYPTION_KEYS. Rotating the KEK only re-wraps the DEK.
+ *
+ * TOKEN_ENCRYPTION_KEYS is a comma-separated list of `<keyId>:<base64 key>`
+ * with 32-byte keys. New records use TOKEN_ENCRYPTION_KEY_ID, or the first
+ * key listed; older ids stay listed until their records are migrated.
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+export interface EncryptedRecord {
+  kid: string;
+  dek: string; // wrapped data key: iv | tag | ciphertext, base64
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+const parseKeys = (raw: string | undefined): Map<string, Buffer> => {
+  if (!raw) {
+    throw new Error('Missing required environment variable: TOKEN_ENCRYPTION_KEYS');
+  }
+
+  const keys = new Map<string, Buffer>();
+  raw.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+    if (separator < 1 || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry for "${keyId || entry}": expected <keyId>:<base64 ${KEY_LENGTH}-byte key>`);
+    }
+    keys.set(keyId, key);
+  });
+  return keys;
+};
+
+const KEYS = parseKeys(process.env.TOKEN_ENCRYPTION_KEYS);
+const CURRENT_KEY_ID = process.env.TOKEN_ENCRYPTION_KEY_ID || KEYS.keys().next().value!;
+
+if (!KEYS.has(CURRENT_KEY_ID)) {
+  throw new Error(`TOKEN_ENCRYPTION_KEY_ID "${CURRENT_KEY_ID}" is not listed in TOKEN_ENCRYPTION_KEYS`);
+}
+
+const getKey = (keyId: string): Buffer => {
+  const key = KEYS.get(keyId);
+  if (!key) throw new Error(`Unknown token encryption key id: ${keyId}`);
+  return key;
+};
+
+const seal = (key: Buffer, plaintext: Buffer, aad?: string) => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const open = (key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad?: string): Buffer => {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  if (aad) decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+const wrapDataKey = (dataKey: Buffer, keyId: string): string => {
+  const { iv, tag, ciphertext } = seal(getKey(keyId), dataKey, keyId);
+  return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+};
+
+const unwrapDataKey = (record: EncryptedRecord): Buffer => {
+  const wrapped = Buffer.from(record.dek, 'base64');
+  return open(
+    getKey(record.kid),
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH),
+    wrapped.subarray(IV_LENGTH + TAG_LENGTH),
+    record.kid
+  );
+};
+
+export const isEncryptedRecord = (value: unknown): value is EncryptedRecord =>
+  typeof value === 'object' && value !== null && 'kid' in value && 'dek' in value && 'data' in value;
+
+/**
+ * Records wrapped with a key other than the current one should be rewrapped
+ */
+export const needsRewrap = (record: EncryptedRecord): boolean => record.kid !== CURRENT_KEY_ID;
+
+/**
+ * Encrypt a payload; `context` (the owning connection id) is bound as AAD so
+ * a record copied under another connection's key fails to decrypt
+ */
+export const encryptPayload = (plaintext: string, context: string): EncryptedRecord => {
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'), context);
+
+  return {
+    kid: CURRENT_KEY_ID,
+    dek: wrapDataKey(dataKey, CURRENT_KEY_ID),
+    iv: iv.toString('base64'),
+    tag: tag.toString('base64'),
+    data: ciphertext.toString('base64')
+  };
+};
+
+export const decryptPayload = (record: EncryptedRecord, context: string): string =>
+  open(
+    unwrapDataKey(record),
+    Buffer.from(record.iv, 'base64'),
+    Buffer.from(record.tag, 'base64'),
+    Buffer.from(record.data, 'base64'),
+    context
+  ).toString('utf8');
+
+/**
+ * Re-wrap the record's data key with the current key; the payload is untouched
+ */
+export const rewrapRecord = (record: EncryptedRecord): EncryptedRecord => ({
+  ...record,
+  kid: CURRENT_KEY_ID,
+  dek: wrapDataKey(unwrapDataKey(record), CURRENT_KEY_ID)
+});
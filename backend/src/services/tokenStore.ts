@@ -1,40 +1,87 @@
 import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+import {
+  decryptPayload,
+  encryptPayload,
+  EncryptedRecord,
+  isEncryptedRecord,
+  needsRewrap,
+  rewrapRecord
+} from './tokenCrypto';
+
+export type SalesforceEnvironment = 'production' | 'sandbox' | 'custom';
 
 export interface TokenData {
   accessToken: string;
   refreshToken: string;
   instanceUrl: string;
-  expiresAt: number; // UNIX timestamp in ms
+  expiresAt: number; // UNIX timestamp in ms, access token only
+  issuedAt?: number; // Salesforce issued_at of the current access token, ms
+  connectedAt?: string;
+  environment?: SalesforceEnvironment;
+  loginUrl?: string; // OAuth host the connection was authorized against
+}
+
+export interface OAuthState {
+  userId: string;
+  name: string; // display name for the new org connection
+  environment: SalesforceEnvironment;
+  loginUrl: string;
+  codeVerifier: string; // PKCE verifier for the code exchange
 }
 
+// Entries stored before the login host was recorded all came from here
+export const DEFAULT_LOGIN_URL = 'https://login.salesforce.com';
+
 const REDIS_PREFIX = 'kublish:token';
+const OAUTH_STATE_PREFIX = 'kublish:oauthstate';
+const OAUTH_STATE_TTL = 10 * 60; // seconds
 
 const isRedisConnected = () => redis.status === 'ready';
 
+const ensureConnected = () => {
+  if (!isRedisConnected()) {
+    throw new StoreUnavailableError();
+  }
+};
+
+const writeRecord = (orgId: string, record: EncryptedRecord) =>
+  redis.set(`${REDIS_PREFIX}:${orgId}`, JSON.stringify(record));
+
 /**
- * Save token data to Redis with optional TTL
+ * Bring a stored entry up to date: plaintext entries from before encryption
+ * are encrypted, and records under a retired key are rewrapped.
+ * Returns null when the entry was already current.
  */
-export const setTokenData = async (userId: string, token: TokenData): Promise<void> => {
-  const key = `${REDIS_PREFIX}:${userId}`;
-  const ttl = token.expiresAt - Date.now(); // ms until expiration
+const upgradeRecord = (orgId: string, stored: TokenData | EncryptedRecord): EncryptedRecord | null => {
+  if (!isEncryptedRecord(stored)) return encryptPayload(JSON.stringify(stored), orgId);
+  return needsRewrap(stored) ? rewrapRecord(stored) : null;
+};
 
-  if (isRedisConnected()) {
-    await redis.set(key, JSON.stringify(token), 'PX', ttl);
-  } else {
-    console.warn('⚠️ Redis unavailable, token not persisted.');
-  }
+/**
+ * Save token data to Redis, encrypted. No TTL is set: expiresAt only covers
+ * the access token, and the refresh token has to outlive it to renew the
+ * connection.
+ */
+export const setTokenData = async (orgId: string, token: TokenData): Promise<void> => {
+  ensureConnected();
+  await writeRecord(orgId, encryptPayload(JSON.stringify(token), orgId));
 };
 
 /**
  * Get token data from Redis
  */
-export const getTokenData = async (userId: string): Promise<TokenData | null> => {
-  const key = `${REDIS_PREFIX}:${userId}`;
+export const getTokenData = async (orgId: string): Promise<TokenData | null> => {
+  const key = `${REDIS_PREFIX}:${orgId}`;
 
   if (isRedisConnected()) {
     const data = await redis.get(key);
     if (data) {
-      return JSON.parse(data);
+      const stored = JSON.parse(data) as TokenData | EncryptedRecord;
+      const upgraded = upgradeRecord(orgId, stored);
+      if (upgraded) await writeRecord(orgId, upgraded);
+
+      return isEncryptedRecord(stored) ? JSON.parse(decryptPayload(stored, orgId)) : stored;
     }
   }
   return null;
@@ -43,9 +90,71 @@ export const getTokenData = async (userId: string): Promise<TokenData | null> =>
 /**
  * Clear token data from Redis
  */
-export const clearTokenData = async (userId: string): Promise<void> => {
-  const key = `${REDIS_PREFIX}:${userId}`;
+export const clearTokenData = async (orgId: string): Promise<void> => {
+  const key = `${REDIS_PREFIX}:${orgId}`;
   if (isRedisConnected()) {
     await redis.del(key);
   }
 };
+
+/**
+ * Ids of every stored token entry
+ */
+export const listTokenIds = async (): Promise<string[]> => {
+  ensureConnected();
+  const ids: string[] = [];
+  let cursor = '0';
+
+  do {
+    const [next, keys] = await redis.scan(cursor, 'MATCH', `${REDIS_PREFIX}:*`, 'COUNT', 100);
+    cursor = next;
+    ids.push(...keys.map(key => key.slice(REDIS_PREFIX.length + 1)));
+  } while (cursor !== '0');
+
+  return ids;
+};
+
+/**
+ * Encrypt any plaintext token entries and rewrap those under retired keys,
+ * so old keys can be dropped from TOKEN_ENCRYPTION_KEYS afterwards
+ */
+export const migrateTokenRecords = async (): Promise<{ scanned: number; migrated: number }> => {
+  let scanned = 0;
+  let migrated = 0;
+
+  for (const orgId of await listTokenIds()) {
+    const data = await redis.get(`${REDIS_PREFIX}:${orgId}`);
+    if (!data) continue;
+    scanned++;
+
+    const upgraded = upgradeRecord(orgId, JSON.parse(data));
+    if (upgraded) {
+      await writeRecord(orgId, upgraded);
+      migrated++;
+    }
+  }
+
+  return { scanned, migrated };
+};
+
+/**
+ * Remember who started an OAuth flow, and against which login host, until
+ * the callback arrives
+ */
+export const saveOAuthState = async (state: string, session: OAuthState): Promise<void> => {
+  ensureConnected();
+  await redis.set(`${OAUTH_STATE_PREFIX}:${state}`, JSON.stringify(session), 'EX', OAUTH_STATE_TTL);
+};
+
+/**
+ * States are single-use
+ */
+export const consumeOAuthState = async (state: string): Promise<OAuthState | null> => {
+  ensureConnected();
+  const key = `${OAUTH_STATE_PREFIX}:${state}`;
+  const data = await redis.get(key);
+  if (!data) return null;
+
+  await redis.del(key);
+  return JSON.parse(data);
+};
@@ -0,0 +1,79 @@
+import { listArticles, saveArticle } from './articleStore';
+import { listThreads, saveThread } from './commentStore';
+import { getWorkflowSettings, listReviewRequests, saveReviewRequest, saveWorkflowSettings } from './reviewStore';
+import { listUsers } from './userStore';
+
+/**
+ * Articles, review assignments and comments from before users were
+ * referenced by id only carry names. Fill in the id wherever exactly one
+ * user has that name; a name nobody or several people share is left for an
+ * Admin to reassign. Returns how many records changed.
+ */
+export const migrateUserIds = async (): Promise<number> => {
+  const users = await listUsers();
+  const userIds = new Set(users.map(user => user.id));
+  const idFor = (name?: string): string | undefined => {
+    const matches = users.filter(user => user.name === name);
+    return matches.length === 1 ? matches[0].id : undefined;
+  };
+  let migrated = 0;
+
+  for (const article of await listArticles()) {
+    const ownerId = article.ownerId || idFor(article.owner);
+    const reviewers = article.reviewerIds ? undefined : article.reviewers?.filter(name => idFor(name));
+    if (ownerId !== article.ownerId || reviewers) {
+      await saveArticle({
+        ...article,
+        ownerId,
+        ...(reviewers && { reviewers, reviewerIds: reviewers.map(name => idFor(name)!) })
+      });
+      migrated++;
+    }
+
+    for (const thread of await listThreads(article.id)) {
+      if (thread.createdById && thread.comments.every(comment => comment.authorId)) continue;
+      await saveThread({
+        ...thread,
+        createdById: thread.createdById || idFor(thread.createdBy) || '',
+        comments: thread.comments.map(comment => ({
+          ...comment,
+          authorId: comment.authorId || idFor(comment.author) || ''
+        }))
+      });
+      migrated++;
+    }
+  }
+
+  const settings = await getWorkflowSettings();
+  const toIds = (entries: string[]) => [...new Set(entries
+    .map(entry => (userIds.has(entry) ? entry : idFor(entry)))
+    .filter((id): id is string => !!id))];
+  const reviewersByGroup = Object.fromEntries(
+    Object.entries(settings.reviewersByGroup).map(([group, entries]) => [group, toIds(entries)])
+  );
+  const defaultReviewers = toIds(settings.defaultReviewers);
+  if (JSON.stringify({ reviewersByGroup, defaultReviewers }) !==
+      JSON.stringify({ reviewersByGroup: settings.reviewersByGroup, defaultReviewers: settings.defaultReviewers })) {
+    await saveWorkflowSettings({ ...settings, reviewersByGroup, defaultReviewers });
+    migrated++;
+  }
+
+  for (const request of await listReviewRequests()) {
+    if (request.reviewerIds) continue;
+    const reviewers = request.reviewers.filter(name => idFor(name));
+    await saveReviewRequest({
+      ...request,
+      submittedById: idFor(request.submittedBy) || '',
+      reviewers,
+      reviewerIds: reviewers.map(name => idFor(name)!),
+      // An unmatched name still counts as one reviewer's decision
+      decisions: request.decisions.map(decision => ({
+        ...decision,
+        reviewerId: decision.reviewerId || idFor(decision.reviewer) || decision.reviewer
+      }))
+    });
+    migrated++;
+  }
+
+  return migrated;
+};
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import redis from '../config/redis';
+import { StoreUnavailableError } from './articleStore';
+import { Role } from '../../../shared/permissions';
+
+export type UserRole = Role;
+
+export interface StoredUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  passwordHash: string;
+  createdAt: string;
+  lastLoginAt?: string;
+}
+
+export type PublicUser = Omit<StoredUser, 'passwordHash'>;
+
+const USERS_KEY = 'kublish:users';
+const USER_EMAILS_KEY = 'kublish:users:email';
+const FIRST_ADMIN_KEY = 'kublish:users:first-admin';
+
+export class UserExistsError extends Error {
+  constructor(email: string) {
+    super(`An account with ${email} already exists`);
+    this.name = 'UserExistsError';
+  }
+}
+
+const ensureConnected = () => {
+  if (redis.status !== 'ready') {
+    throw new StoreUnavailableError();
+  }
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export const toPublicUser = (user: StoredUser): PublicUser => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  createdAt: user.createdAt,
+  lastLoginAt: user.lastLoginAt
+});
+
+export const getUserById = async (id: string): Promise<StoredUser | null> => {
+  ensureConnected();
+  const data = await redis.hget(USERS_KEY, id);
+  return data ? JSON.parse(data) : null;
+};
+
+export const getUserByEmail = async (email: string): Promise<StoredUser | null> => {
+  ensureConnected();
+  const id = await redis.hget(USER_EMAILS_KEY, normalizeEmail(email));
+  return id ? getUserById(id) : null;
+};
+
+export const listUsers = async (): Promise<StoredUser[]> => {
+  ensureConnected();
+  const hash = await redis.hgetall(USERS_KEY);
+  return Object.values(hash).map(value => JSON.parse(value) as StoredUser);
+};
+
+/**
+ * Create a user; the email index is claimed first so two concurrent
+ * registrations for the same address cannot both succeed
+ */
+export const createUser = async (input: Pick<StoredUser, 'name' | 'email' | 'role' | 'passwordHash'>): Promise<StoredUser> => {
+  ensureConnected();
+  const user: StoredUser = {
+    ...input,
+    id: `user-${crypto.randomUUID()}`,
+    email: normalizeEmail(input.email),
+    createdAt: new Date().toISOString()
+  };
+
+  const claimed = await redis.hsetnx(USER_EMAILS_KEY, user.email, user.id);
+  if (!claimed) throw new UserExistsError(user.email);
+
+  await redis.hset(USERS_KEY, user.id, JSON.stringify(user));
+  return user;
+};
+
+export const saveUser = async (user: StoredUser): Promise<StoredUser> => {
+  ensureConnected();
+  await redis.hset(USERS_KEY, user.id, JSON.stringify(user));
+  return user;
+};
+
+export const countUsers = async (): Promise<number> => {
+  ensureConnected();
+  return redis.hlen(USERS_KEY);
+};
+
+/**
+ * Whether the caller may make the workspace's first account an Admin.
+ * SETNX lets only one of several concurrent registrations against an empty
+ * store win; stores that already have users never hand it out.
+ */
+export const claimFirstAdmin = async (): Promise<boolean> => {
+  ensureConnected();
+  if ((await countUsers()) > 0) return false;
+  return (await redis.setnx(FIRST_ADMIN_KEY, '1')) === 1;
+};
+
+/**
+ * Give the claim back when creating the first account failed after all
+ */
+export const releaseFirstAdmin = async (): Promise<void> => {
+  ensureConnected();
+  await redis.del(FIRST_ADMIN_KEY);
+};
+
+export const deleteUser = async (id: string): Promise<boolean> => {
+  ensureConnected();
+  const user = await getUserById(id);
+  if (!user) return false;
+
+  await redis.hdel(USER_EMAILS_KEY, user.email);
+  await redis.hdel(USERS_KEY, id);
+  return true;
+};
@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { getArticle, listSyncLogs, saveArticle, saveVersion, Version } from '../src/services/articleStore';
+import { getWorkflowSettings, saveWorkflowSettings } from '../src/services/reviewStore';
+import { articleFixture, signIn, SignedInUser } from './helpers';
+
+const versionOf = (articleId: string, versionId: string): Version => ({
+  versionId,
+  articleId,
+  title: 'Title',
+  body: '<p>Body</p>',
+  status: 'Draft',
+  createdBy: 'Someone',
+  createdAt: new Date().toISOString(),
+  syncedToSalesforce: false
+});
+
+const as = (user: SignedInUser) => ({
+  get: (path: string) => request(app).get(path).set('Cookie', user.cookie),
+  post: (path: string, body: object = {}) => request(app).post(path).set('Cookie', user.cookie).send(body),
+  put: (path: string, body: object) => request(app).put(path).set('Cookie', user.cookie).send(body),
+  delete: (path: string) => request(app).delete(path).set('Cookie', user.cookie)
+});
+
+describe('articles', () => {
+  it('creates articles owned by the session user', async () => {
+    const editor = await signIn('Editor', 'Erin Editor');
+
+    const response = await as(editor).post('/api/articles', { title: 'Hello', owner: 'Someone else', ownerId: 'user-x' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.article).toMatchObject({ title: 'Hello', owner: 'Erin Editor', ownerId: editor.user.id });
+    expect(await getArticle(response.body.article.id)).toMatchObject({ ownerId: editor.user.id });
+  });
+
+  it('lets Admins hand an article to another user by id', async () => {
+    const admin = await signIn('Admin');
+    const editor = await signIn('Editor', 'Erin Editor');
+
+    const created = await as(admin).post('/api/articles', { title: 'Hello', ownerId: editor.user.id });
+    const missing = await as(admin).post('/api/articles', { title: 'Hello', ownerId: 'user-missing' });
+
+    expect(created.body.article).toMatchObject({ owner: 'Erin Editor', ownerId: editor.user.id });
+    expect(missing.status).toBe(422);
+  });
+
+  it('assigns ids itself and keeps only valid content fields', async () => {
+    const editor = await signIn('Editor');
+
+    const created = await as(editor).post('/api/articles', {
+      id: 'drift',
+      title: 'Hello',
+      tags: ['billing'],
+      lastSyncedVersionId: 'v1',
+      reviewerIds: [editor.user.id]
+    });
+    const invalid = await as(editor).post('/api/articles', { title: 'Hello', tags: 'billing' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.article.id).not.toBe('drift');
+    expect(created.body.article).toMatchObject({ title: 'Hello', tags: ['billing'] });
+    expect(created.body.article).not.toHaveProperty('lastSyncedVersionId');
+    expect(created.body.article).not.toHaveProperty('reviewerIds');
+    expect(invalid.status).toBe(400);
+
+    const id = created.body.article.id;
+    const edited = await as(editor).put(`/api/articles/${id}`, { title: 'Edited', deletedAt: 'now', extra: true });
+    expect(edited.body.article).toMatchObject({ id, title: 'Edited', tags: ['billing'] });
+    expect(await getArticle(id)).not.toHaveProperty('extra');
+    expect((await as(editor).put(`/api/articles/${id}`, { visibility: 'everyone' })).status).toBe(400);
+  });
+
+  it('only changes status through review, sync and archiving', async () => {
+    const editor = await signIn('Editor');
+
+    const created = await as(editor).post('/api/articles', { title: 'Hello', status: 'published' });
+    expect(created.body.article.status).toBe('draft');
+
+    const archived = articleFixture({ ownerId: editor.user.id, status: 'archived' });
+    await saveArticle(archived);
+    const edited = await as(editor).put(`/api/articles/${archived.id}`, { ...archived, status: 'published', title: 'Edited' });
+    expect(edited.status).toBe(200);
+    expect(await getArticle(archived.id)).toMatchObject({ status: 'archived', title: 'Edited' });
+
+    const approved = articleFixture({ ownerId: editor.user.id, status: 'approved' });
+    await saveArticle(approved);
+    await as(editor).put(`/api/articles/${approved.id}`, { ...approved, status: 'published', visibility: 'public' });
+    expect((await getArticle(approved.id))!.status).toBe('draft');
+  });
+
+  it('does not let viewers create articles', async () => {
+    const viewer = await signIn('Viewer');
+    expect((await as(viewer).post('/api/articles', { title: 'Hello' })).status).toBe(403);
+  });
+
+  it('hides other users\' drafts', async () => {
+    const editor = await signIn('Editor');
+    const viewer = await signIn('Viewer');
+    const draft = articleFixture({ ownerId: 'someone-else' });
+    const published = articleFixture({ status: 'published', ownerId: 'someone-else' });
+    await saveArticle(draft);
+    await saveArticle(published);
+
+    const listed = await as(viewer).get('/api/articles');
+
+    expect(listed.body.articles.map((article: { id: string }) => article.id)).toEqual([published.id]);
+    expect((await as(editor).get(`/api/articles/${draft.id}`)).status).toBe(404);
+    expect((await as(viewer).get(`/api/articles/${published.id}`)).status).toBe(200);
+  });
+
+  it('lets owners edit their articles and nobody else but Admins', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const admin = await signIn('Admin');
+    const article = articleFixture({ ownerId: owner.user.id, status: 'published' });
+    await saveArticle(article);
+
+    expect((await as(owner).put(`/api/articles/${article.id}`, { ...article, title: 'Mine' })).status).toBe(200);
+    expect((await as(other).put(`/api/articles/${article.id}`, { ...article, title: 'Theirs' })).status).toBe(403);
+    expect((await as(admin).put(`/api/articles/${article.id}`, { ...article, title: 'Admin' })).status).toBe(200);
+    expect((await getArticle(article.id))?.title).toBe('Admin');
+  });
+
+  it('moves articles to the trash and back', async () => {
+    const admin = await signIn('Admin');
+    const editor = await signIn('Editor');
+    const article = articleFixture({ ownerId: editor.user.id });
+    await saveArticle(article);
+
+    expect((await as(editor).delete(`/api/articles/${article.id}`)).status).toBe(403);
+    expect((await as(admin).delete(`/api/articles/${article.id}`)).status).toBe(200);
+    expect((await as(editor).get('/api/articles')).body.articles).toHaveLength(0);
+    expect((await as(admin).get('/api/articles/trash')).body.articles[0].id).toBe(article.id);
+
+    expect((await as(admin).post(`/api/articles/${article.id}/restore`)).status).toBe(200);
+    expect((await getArticle(article.id))?.deletedAt).toBeUndefined();
+    expect((await listSyncLogs({ articleId: article.id })).map(log => log.action).sort()).toEqual(['delete', 'restore']);
+  });
+});
+
+describe('reviews', () => {
+  const enableWorkflow = async (reviewerIds: string[]) => saveWorkflowSettings({
+    ...(await getWorkflowSettings()),
+    enabled: true,
+    requiredApprovals: 1,
+    defaultReviewers: reviewerIds
+  });
+
+  it('takes an article from submission to approval', async () => {
+    const author = await signIn('Editor');
+    const reviewer = await signIn('Editor', 'Rita Reviewer');
+    await enableWorkflow([reviewer.user.id, author.user.id]);
+    const article = articleFixture({ ownerId: author.user.id });
+    await saveArticle(article);
+
+    const submitted = await as(author).post(`/api/reviews/${article.id}/submit`);
+    expect(submitted.body.review.reviewerIds).toEqual([reviewer.user.id]);
+    expect((await as(reviewer).get(`/api/articles/${article.id}`)).status).toBe(200);
+
+    expect((await as(author).post(`/api/reviews/${article.id}/approve`)).status).toBe(403);
+    const approved = await as(reviewer).post(`/api/reviews/${article.id}/approve`);
+
+    expect(approved.status).toBe(200);
+    expect(approved.body.review.approvals).toBe(1);
+    expect((await getArticle(article.id))?.status).toBe('approved');
+  });
+
+  it('keeps a published article published while changes to it are in review', async () => {
+    const author = await signIn('Editor');
+    const reviewer = await signIn('Editor');
+    const viewer = await signIn('Viewer');
+    await enableWorkflow([reviewer.user.id]);
+    const article = articleFixture({ ownerId: author.user.id, status: 'published' });
+    await saveArticle(article);
+
+    await as(author).post(`/api/reviews/${article.id}/submit`);
+    expect((await as(viewer).get(`/api/articles/${article.id}`)).status).toBe(200);
+
+    expect((await as(author).post(`/api/reviews/${article.id}/withdraw`)).status).toBe(200);
+    expect(await getArticle(article.id)).toMatchObject({ status: 'published' });
+    expect(await getArticle(article.id)).not.toHaveProperty('statusBeforeReview');
+
+    await as(author).post(`/api/reviews/${article.id}/submit`);
+    await as(reviewer).post(`/api/reviews/${article.id}/approve`);
+    await as(author).put(`/api/articles/${article.id}`, { title: 'Edited after approval' });
+    expect(await getArticle(article.id)).toMatchObject({ status: 'published', title: 'Edited after approval' });
+  });
+
+  it('lets assigned reviewers add suggestions but not change the text', async () => {
+    const author = await signIn('Editor');
+    const reviewer = await signIn('Editor');
+    await enableWorkflow([reviewer.user.id]);
+    const article = articleFixture({ ownerId: author.user.id, body: '<p>Open settings.</p>' });
+    await saveArticle(article);
+    await as(author).post(`/api/reviews/${article.id}/submit`);
+
+    const suggested = '<p>Open settings.<span data-suggestion="insert" data-suggestion-id="s1"> Then sign in.</span></p>';
+    expect((await as(reviewer).put(`/api/articles/${article.id}`, { body: suggested })).status).toBe(200);
+    expect((await as(reviewer).put(`/api/articles/${article.id}`, { body: '<p>Close settings.</p>' })).status).toBe(403);
+    expect((await as(reviewer).put(`/api/articles/${article.id}`, { body: '<p><strong>Open settings.</strong></p>' })).status).toBe(403);
+    expect((await getArticle(article.id))?.body).toBe(suggested);
+  });
+});
+
+describe('comments', () => {
+  it('keeps threads to the people working on the article', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const article = articleFixture({ ownerId: owner.user.id, status: 'published' });
+    await saveArticle(article);
+
+    const created = await as(owner).post(`/api/comments/${article.id}`, { quote: 'Body', body: 'Reword this' });
+
+    expect(created.status).toBe(201);
+    expect(created.body.thread).toMatchObject({ createdById: owner.user.id });
+    expect(created.body.thread.comments[0]).toMatchObject({ authorId: owner.user.id });
+    expect((await as(other).get(`/api/comments/${article.id}`)).status).toBe(404);
+  });
+
+  it('only records mentions of whole names', async () => {
+    const owner = await signIn('Editor', 'Ann');
+    await signIn('Editor', 'Ann Lee');
+    await signIn('Editor', 'Bo');
+    const article = articleFixture({ ownerId: owner.user.id });
+    await saveArticle(article);
+
+    const { body } = await as(owner).post(`/api/comments/${article.id}`, {
+      quote: 'Body',
+      body: 'Ask @Ann Lee, then mail bob@Bo.com or @Bob'
+    });
+
+    expect(body.thread.comments[0].mentions).toEqual(['Ann Lee']);
+  });
+
+  it('only lets the thread\'s author or an Admin delete it', async () => {
+    const owner = await signIn('Editor');
+    const admin = await signIn('Admin');
+    const article = articleFixture({ ownerId: owner.user.id });
+    await saveArticle(article);
+    const { body } = await as(admin).post(`/api/comments/${article.id}`, { quote: 'Body', body: 'Admin note' });
+
+    expect((await as(owner).delete(`/api/comments/${article.id}/${body.thread.id}`)).status).toBe(403);
+    expect((await as(admin).delete(`/api/comments/${article.id}/${body.thread.id}`)).status).toBe(200);
+  });
+});
+
+describe('versions', () => {
+  it('lists the versions of every visible article in one request', async () => {
+    const editor = await signIn('Editor');
+    const own = articleFixture({ ownerId: editor.user.id });
+    const published = articleFixture({ status: 'published' });
+    const hidden = articleFixture({ ownerId: 'someone-else' });
+    const trashed = articleFixture({ ownerId: editor.user.id, deletedAt: new Date().toISOString() });
+    for (const article of [own, published, hidden, trashed]) {
+      await saveArticle(article);
+      await saveVersion(versionOf(article.id, `v-${article.id}`));
+    }
+
+    const response = await request(app).get('/api/articles/versions').set('Cookie', editor.cookie);
+
+    expect(response.status).toBe(200);
+    expect(response.body.versions.map((version: Version) => version.articleId).sort()).toEqual([own.id, published.id].sort());
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import request from 'supertest';
+import jwt from 'jsonwebtoken';
+import app from '../src/app';
+import { ACCESS_COOKIE, createResetToken, REFRESH_COOKIE } from '../src/services/authService';
+import { getUserByEmail } from '../src/services/userStore';
+
+const register = (email: string) =>
+  request(app).post('/auth/register').send({ email, password: 'correct horse', name: email.split('@')[0] });
+
+const login = async (email: string) => {
+  const response = await request(app).post('/auth/login').send({ email, password: 'correct horse' });
+  const cookies = ([] as string[]).concat(response.headers['set-cookie'] || []);
+  return Object.fromEntries(cookies.map(cookie => cookie.split(';')[0].split('=')));
+};
+
+// Every request here goes through the credential rate limiter, which allows 20 per window
+describe('auth', () => {
+  it('makes exactly one Admin when the first accounts register at once', async () => {
+    const responses = await Promise.all(['a', 'b', 'c', 'd'].map(name => register(`${name}@example.com`)));
+
+    const roles = responses.map(response => response.body.user.role);
+    expect(roles.filter(role => role === 'Admin')).toHaveLength(1);
+    expect(roles.filter(role => role === 'Viewer')).toHaveLength(3);
+  });
+
+  it('puts only the user id in access tokens', async () => {
+    await register('ada@example.com');
+    const cookies = await login('ada@example.com');
+
+    const payload = jwt.decode(cookies[ACCESS_COOKIE]) as Record<string, unknown>;
+    expect(payload.sub).toMatch(/^user-/);
+    expect(payload).not.toHaveProperty('role');
+  });
+
+  it('ends existing sessions when the password is reset', async () => {
+    await register('ada@example.com');
+    const first = await login('ada@example.com');
+    const second = await login('ada@example.com');
+    const user = await getUserByEmail('ada@example.com');
+
+    const reset = await request(app)
+      .post('/auth/password-reset/confirm')
+      .send({ token: await createResetToken(user!.id), password: 'a new password' });
+    expect(reset.status).toBe(200);
+
+    for (const session of [first, second]) {
+      const refreshed = await request(app).post('/auth/refresh').set('Cookie', `${REFRESH_COOKIE}=${session[REFRESH_COOKIE]}`);
+      expect(refreshed.status).toBe(401);
+    }
+  });
+
+  it('accepts each refresh and reset token only once, even when requests race', async () => {
+    await register('ada@example.com');
+    const session = await login('ada@example.com');
+    const user = await getUserByEmail('ada@example.com');
+
+    const refreshes = await Promise.all([1, 2].map(() =>
+      request(app).post('/auth/refresh').set('Cookie', `${REFRESH_COOKIE}=${session[REFRESH_COOKIE]}`)
+    ));
+    expect(refreshes.map(response => response.status).sort()).toEqual([200, 401]);
+
+    const token = await createResetToken(user!.id);
+    const resets = await Promise.all(['first password', 'second password'].map(password =>
+      request(app).post('/auth/password-reset/confirm').send({ token, password })
+    ));
+    expect(resets.filter(response => response.status === 200)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,219 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { getArticle, listVersions, saveArticle } from '../src/services/articleStore';
+import { scanForDrift } from '../src/services/driftDetection';
+import { MockSalesforce } from './mockSalesforce';
+import { articleFixture, connectMockOrg, signIn, SignedInUser, TEST_ORG_ID } from './helpers';
+
+const salesforce = new MockSalesforce();
+let editor: SignedInUser;
+
+beforeAll(() => salesforce.start());
+afterAll(() => salesforce.stop());
+
+beforeEach(async () => {
+  salesforce.reset();
+  editor = await signIn('Editor');
+  await connectMockOrg(salesforce);
+});
+
+// An article of the editor's, synced to the mock org; returns the live Salesforce version
+const syncedArticle = async () => {
+  const article = articleFixture({ ownerId: editor.user.id, owner: editor.user.name, title: 'Resetting a password' });
+  await saveArticle(article);
+  const response = await request(app).post(`/api/articles/${article.id}/sync`).set('Cookie', editor.cookie).send({});
+  expect(response.status).toBe(200);
+  return { article, remote: salesforce.versions.get(response.body.version.salesforceVersionId)! };
+};
+
+const scan = (user: SignedInUser = editor) =>
+  request(app).post('/api/articles/drift/scan').set('Cookie', user.cookie);
+
+describe('drift detection', () => {
+  it('finds nothing while Salesforce matches the last sync', async () => {
+    await syncedArticle();
+
+    const response = await scan();
+
+    expect(response.status).toBe(200);
+    expect(response.body.reports).toEqual([]);
+  });
+
+  it('flags title, body, category and publish status changes made in Salesforce', async () => {
+    const { article, remote } = await syncedArticle();
+    remote.Title = 'Resetting your password';
+    remote.Body__c = '<p>Changed in Salesforce</p>';
+    remote.DataCategorySelections = { records: [{ DataCategoryGroupName: 'Products', DataCategoryName: 'Mobile' }] };
+    remote.PublishStatus = 'Online';
+
+    const response = await scan();
+
+    expect(response.body.reports).toHaveLength(1);
+    expect(response.body.reports[0]).toMatchObject({
+      articleId: article.id,
+      orgId: TEST_ORG_ID,
+      salesforceVersionId: remote.Id,
+      fields: ['title', 'body', 'categories', 'publishStatus'],
+      local: { title: 'Resetting a password', body: '<p>Body</p>', dataCategories: [], publishStatus: 'Draft' },
+      remote: {
+        title: 'Resetting your password',
+        body: '<p>Changed in Salesforce</p>',
+        dataCategories: ['Products.Mobile'],
+        publishStatus: 'Online'
+      }
+    });
+  });
+
+  it('only lists drift on articles the user can see', async () => {
+    const { remote } = await syncedArticle();
+    remote.Title = 'Changed';
+    await scanForDrift();
+    const other = await signIn('Editor');
+
+    const response = await request(app).get('/api/articles/drift').set('Cookie', other.cookie);
+
+    expect(response.status).toBe(200);
+    expect(response.body.reports).toEqual([]);
+  });
+
+  it('ignores bodies Salesforce only re-serialized', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, body: '<p class="intro">Open&nbsp;settings.<br/></p>' });
+    await saveArticle(article);
+    const synced = await request(app).post(`/api/articles/${article.id}/sync`).set('Cookie', editor.cookie).send({});
+    const remote = salesforce.versions.get(synced.body.version.salesforceVersionId)!;
+    remote.Body__c = "<P class='intro'>Open settings.<br></P>\n";
+
+    expect(await scanForDrift()).toBe(0);
+
+    remote.Body__c = "<P class='intro'>Open the settings.<br></P>\n";
+    expect(await scanForDrift()).toBe(1);
+  });
+
+  it('reports articles deleted in Salesforce', async () => {
+    const { article, remote } = await syncedArticle();
+    salesforce.versions.delete(remote.Id);
+
+    const response = await scan();
+
+    expect(response.body.reports).toHaveLength(1);
+    expect(response.body.reports[0]).toMatchObject({ articleId: article.id, orgId: TEST_ORG_ID, fields: ['deleted'] });
+    expect(response.body.reports[0]).not.toHaveProperty('remote');
+  });
+
+  it('moves an article deleted in Salesforce to the trash on accept, for those who may delete', async () => {
+    const admin = await signIn('Admin');
+    const { article, remote } = await syncedArticle();
+    salesforce.versions.delete(remote.Id);
+    await scanForDrift();
+
+    const accept = (user: SignedInUser) => request(app)
+      .post(`/api/articles/${article.id}/drift/accept`)
+      .set('Cookie', user.cookie)
+      .send({ orgId: TEST_ORG_ID });
+
+    expect((await accept(editor)).status).toBe(403);
+    expect((await accept(admin)).status).toBe(200);
+    expect((await getArticle(article.id))!.deletedAt).toBeDefined();
+    expect((await scan(admin)).body.reports).toEqual([]);
+  });
+
+  it('creates an article deleted in Salesforce again on overwrite', async () => {
+    const { article, remote } = await syncedArticle();
+    salesforce.versions.delete(remote.Id);
+    await scanForDrift();
+    salesforce.calls = [];
+
+    const response = await request(app)
+      .post(`/api/articles/${article.id}/drift/overwrite`)
+      .set('Cookie', editor.cookie)
+      .send({ orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(200);
+    expect(salesforce.apiCalls().filter(call => call.method === 'POST').map(call => call.path))
+      .toEqual([expect.stringMatching(/\/sobjects\/Knowledge__kav$/)]);
+    expect(salesforce.versions.get(response.body.version.salesforceVersionId)).toMatchObject({ Title: 'Resetting a password' });
+    expect((await scan()).body.reports).toEqual([]);
+  });
+
+  it('clears a report when the article is synced again', async () => {
+    const { article, remote } = await syncedArticle();
+    remote.Title = 'Changed';
+    await scanForDrift();
+
+    await request(app).post(`/api/articles/${article.id}/sync`).set('Cookie', editor.cookie).send({});
+
+    const response = await request(app).get('/api/articles/drift').set('Cookie', editor.cookie);
+    expect(response.body.reports).toEqual([]);
+  });
+
+  it('clears a report once Salesforce matches again', async () => {
+    const { remote } = await syncedArticle();
+    remote.Title = 'Changed';
+    expect(await scanForDrift()).toBe(1);
+
+    remote.Title = 'Resetting a password';
+
+    expect(await scanForDrift()).toBe(0);
+    expect((await scan()).body.reports).toEqual([]);
+  });
+
+  it('takes the Salesforce version into Kublish on accept', async () => {
+    const { article, remote } = await syncedArticle();
+    remote.Title = 'Resetting your password';
+    remote.Body__c = '<p>Changed in Salesforce</p>';
+    await scanForDrift();
+
+    const response = await request(app)
+      .post(`/api/articles/${article.id}/drift/accept`)
+      .set('Cookie', editor.cookie)
+      .send({ orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(200);
+    const [version] = await listVersions(article.id);
+    expect(version).toMatchObject({
+      title: 'Resetting your password',
+      body: '<p>Changed in Salesforce</p>',
+      syncedToSalesforce: true,
+      salesforceVersionId: remote.Id
+    });
+    expect(await getArticle(article.id)).toMatchObject({
+      title: 'Resetting your password',
+      body: '<p>Changed in Salesforce</p>',
+      status: 'draft',
+      lastSyncedVersionId: version.versionId
+    });
+    expect((await scan()).body.reports).toEqual([]);
+  });
+
+  it('writes the Kublish article over Salesforce on overwrite', async () => {
+    const { article, remote } = await syncedArticle();
+    remote.Title = 'Resetting your password';
+    await scanForDrift();
+
+    const response = await request(app)
+      .post(`/api/articles/${article.id}/drift/overwrite`)
+      .set('Cookie', editor.cookie)
+      .send({ orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(200);
+    expect(remote.Title).toBe('Resetting a password');
+    expect((await scan()).body.reports).toEqual([]);
+  });
+
+  it('lets only those who may edit the article accept remote changes', async () => {
+    const { article, remote } = await syncedArticle();
+    await saveArticle({ ...article, status: 'published' });
+    remote.Title = 'Changed';
+    await scanForDrift();
+    const other = await signIn('Editor');
+
+    const response = await request(app)
+      .post(`/api/articles/${article.id}/drift/accept`)
+      .set('Cookie', other.cookie)
+      .send({ orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(403);
+    expect((await getArticle(article.id))!.title).toBe('Resetting a password');
+  });
+});
@@ -0,0 +1,69 @@
+import { Article } from '../src/services/articleStore';
+import { createUser, StoredUser, UserRole } from '../src/services/userStore';
+import { ACCESS_COOKIE, signAccessToken } from '../src/services/authService';
+import { saveOrgConnection, setDefaultOrgId } from '../src/services/orgStore';
+import { setTokenData } from '../src/services/tokenStore';
+import { recordApiUsage } from '../src/services/salesforceApi';
+import { MockSalesforce } from './mockSalesforce';
+
+export const TEST_ORG_ID = 'org-test';
+
+export interface SignedInUser {
+  user: StoredUser;
+  cookie: string; // Cookie header value carrying an access token
+}
+
+let userCount = 0;
+let articleCount = 0;
+
+export const signIn = async (role: UserRole, name = `${role} ${userCount + 1}`): Promise<SignedInUser> => {
+  const user = await createUser({
+    name,
+    email: `${name.replace(/\W+/g, '.').toLowerCase()}.${++userCount}@example.com`,
+    role,
+    passwordHash: 'unused'
+  });
+  return { user, cookie: `${ACCESS_COOKIE}=${signAccessToken(user)}` };
+};
+
+/**
+ * Connect the mock org as the workspace default, with a session that is
+ * still valid for an hour
+ */
+export const connectMockOrg = async (salesforce: MockSalesforce, expiresAt = Date.now() + 60 * 60 * 1000) => {
+  await saveOrgConnection({
+    id: TEST_ORG_ID,
+    name: 'Mock org',
+    environment: 'custom',
+    loginUrl: salesforce.url,
+    instanceUrl: salesforce.url,
+    connectedAt: new Date().toISOString(),
+    connectedBy: 'test'
+  });
+  await setDefaultOrgId(TEST_ORG_ID);
+  await setTokenData(TEST_ORG_ID, {
+    accessToken: salesforce.accessToken,
+    refreshToken: salesforce.refreshToken,
+    instanceUrl: salesforce.url,
+    loginUrl: salesforce.url,
+    expiresAt
+  });
+  // API usage is cached in memory across tests; start each one from a quiet org
+  await recordApiUsage(TEST_ORG_ID, 0, salesforce.usage.max);
+};
+
+export const articleFixture = (overrides: Partial<Article> = {}): Article => {
+  const now = new Date().toISOString();
+  return {
+    id: `article-${++articleCount}`,
+    title: `Article ${articleCount}`,
+    body: '<p>Body</p>',
+    tags: [],
+    visibility: 'internal',
+    status: 'draft',
+    owner: 'Nobody',
+    lastModified: now,
+    createdAt: now,
+    ...overrides
+  };
+};
@@ -0,0 +1,213 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+
+interface KnowledgeVersion {
+  Id: string;
+  KnowledgeArticleId: string;
+  PublishStatus: 'Draft' | 'Online' | 'Archived';
+  [field: string]: unknown;
+}
+
+interface InjectedFailure {
+  status: number;
+  body: unknown;
+}
+
+export interface RecordedCall {
+  method: string;
+  path: string;
+  at: number;
+  status?: number;
+}
+
+/**
+ * A Salesforce org small enough to reason about: OAuth refresh, the
+ * Knowledge__kav sObject, SOQL equality filters and masterVersions, with a
+ * Sforce-Limit-Info header on every API response. Failures can be queued to
+ * answer the next API call.
+ */
+export class MockSalesforce {
+  url = '';
+  accessToken = 'access-0';
+  refreshToken = 'refresh-0';
+  usage = { used: 0, max: 15000 };
+  versions = new Map<string, KnowledgeVersion>();
+  calls: RecordedCall[] = [];
+  private failures: InjectedFailure[] = [];
+  private issued = 0;
+  private server?: Server;
+
+  async start(): Promise<void> {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: true }));
+    app.use(this.record);
+    app.post('/services/oauth2/token', this.token);
+    app.use('/services/data', this.authorize, this.meter, this.inject);
+    app.get('/services/data/:version/query', this.query);
+    app.post('/services/data/:version/sobjects/Knowledge__kav', this.create);
+    app.patch('/services/data/:version/sobjects/Knowledge__kav/:id', this.update);
+    app.post('/services/data/:version/knowledgeManagement/articleVersions/masterVersions', this.openDraft);
+    app.patch('/services/data/:version/knowledgeManagement/articleVersions/masterVersions/:id', this.setStatus);
+
+    await new Promise<void>(resolve => {
+      this.server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    this.url = `http://127.0.0.1:${(this.server!.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => (this.server ? this.server.close(() => resolve()) : resolve()));
+  }
+
+  reset(): void {
+    this.accessToken = 'access-0';
+    this.refreshToken = 'refresh-0';
+    this.usage = { used: 0, max: 15000 };
+    this.versions.clear();
+    this.calls = [];
+    this.failures = [];
+  }
+
+  /**
+   * Answer the next API call with this status and body instead of handling it
+   */
+  failNext(status: number, body: unknown): void {
+    this.failures.push({ status, body });
+  }
+
+  /**
+   * Invalidate the current session, as an admin revoking it would
+   */
+  expireSession(): void {
+    this.accessToken = `revoked-${this.accessToken}`;
+  }
+
+  /**
+   * Put an article straight into the org, as if authored in Salesforce
+   */
+  seed(fields: Record<string, unknown>, publishStatus: KnowledgeVersion['PublishStatus'] = 'Online'): KnowledgeVersion {
+    const now = new Date().toISOString();
+    const id = this.nextId('ka0');
+    const version: KnowledgeVersion = {
+      UrlName: String(fields.Title).replace(/\W+/g, '-'),
+      CreatedDate: now,
+      LastModifiedDate: now,
+      VersionNumber: 1,
+      ...fields,
+      Id: id,
+      KnowledgeArticleId: this.nextId('kA0'),
+      PublishStatus: publishStatus
+    };
+    this.versions.set(id, version);
+    return version;
+  }
+
+  apiCalls(): RecordedCall[] {
+    return this.calls.filter(call => call.path.startsWith('/services/data'));
+  }
+
+  private record = (req: Request, res: Response, next: NextFunction) => {
+    const call: RecordedCall = { method: req.method, path: req.path, at: Date.now() };
+    this.calls.push(call);
+    res.on('finish', () => {
+      call.status = res.statusCode;
+    });
+    next();
+  };
+
+  private token = (req: Request, res: Response) => {
+    if (req.body.grant_type !== 'refresh_token' || req.body.refresh_token !== this.refreshToken) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'expired access/refresh token' });
+    }
+    this.accessToken = `access-${++this.issued}`;
+    res.json({
+      access_token: this.accessToken,
+      instance_url: this.url,
+      issued_at: String(Date.now()),
+      token_type: 'Bearer'
+    });
+  };
+
+  private authorize = (req: Request, res: Response, next: NextFunction) => {
+    if (req.headers.authorization !== `Bearer ${this.accessToken}`) {
+      return res.status(401).json([{ errorCode: 'INVALID_SESSION_ID', message: 'Session expired or invalid' }]);
+    }
+    next();
+  };
+
+  private meter = (_req: Request, res: Response, next: NextFunction) => {
+    this.usage.used += 1;
+    res.setHeader('Sforce-Limit-Info', `api-usage=${this.usage.used}/${this.usage.max}`);
+    next();
+  };
+
+  private inject = (_req: Request, res: Response, next: NextFunction) => {
+    const failure = this.failures.shift();
+    if (!failure) return next();
+    res.status(failure.status).json(failure.body);
+  };
+
+  private nextId = (prefix: string) => `${prefix}${String(this.versions.size + 1).padStart(15, '0')}`;
+
+  /**
+   * Only what the publisher asks: SELECT ... FROM Knowledge__kav WHERE a = 'x' AND b IN ('y', 'z')
+   */
+  private query = (req: Request, res: Response) => {
+    const soql = String(req.query.q);
+    const filters = [...soql.matchAll(/(\w+) = '((?:[^'\\]|\\.)*)'/g)].map(match => [match[1], match[2]]);
+    const inFilters = [...soql.matchAll(/(\w+) IN \(([^)]*)\)/g)].map(match =>
+      [match[1], [...match[2].matchAll(/'((?:[^'\\]|\\.)*)'/g)].map(value => value[1])] as const
+    );
+    const records = [...this.versions.values()].filter(version =>
+      filters.every(([field, value]) => version[field] === value) &&
+      inFilters.every(([field, values]) => values.includes(String(version[field])))
+    );
+    res.json({ totalSize: records.length, done: true, records });
+  };
+
+  private create = (req: Request, res: Response) => {
+    if (!req.body.Title) {
+      return res.status(400).json([{
+        errorCode: 'REQUIRED_FIELD_MISSING',
+        message: 'Required fields are missing: [Title]',
+        fields: ['Title']
+      }]);
+    }
+    const id = this.nextId('ka0');
+    this.versions.set(id, { ...req.body, Id: id, KnowledgeArticleId: this.nextId('kA0'), PublishStatus: 'Draft' });
+    res.status(201).json({ id, success: true, errors: [] });
+  };
+
+  private update = (req: Request, res: Response) => {
+    const version = this.versions.get(req.params.id);
+    if (!version) return res.status(404).json([{ errorCode: 'NOT_FOUND', message: 'The requested resource does not exist' }]);
+    Object.assign(version, req.body);
+    res.status(204).end();
+  };
+
+  private openDraft = (req: Request, res: Response) => {
+    const online = [...this.versions.values()].find(version =>
+      version.KnowledgeArticleId === req.body.articleId && version.PublishStatus === 'Online'
+    );
+    if (!online) return res.status(400).json([{ errorCode: 'INVALID_ID_FIELD', message: 'Article is not published' }]);
+    const id = this.nextId('ka0');
+    this.versions.set(id, { ...online, Id: id, PublishStatus: 'Draft' });
+    res.status(201).json({ id });
+  };
+
+  private setStatus = (req: Request, res: Response) => {
+    const version = this.versions.get(req.params.id);
+    if (!version) return res.status(404).json([{ errorCode: 'NOT_FOUND', message: 'The requested resource does not exist' }]);
+    if (req.body.publishStatus === 'Online') {
+      this.versions.forEach(other => {
+        if (other.KnowledgeArticleId === version.KnowledgeArticleId && other.PublishStatus === 'Online') {
+          other.PublishStatus = 'Archived';
+        }
+      });
+    }
+    version.PublishStatus = req.body.publishStatus;
+    res.status(204).end();
+  };
+}
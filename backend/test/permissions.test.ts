@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import express from 'express';
+import cookieParser from 'cookie-parser';
+import request from 'supertest';
+import { requireAuth, requirePermission } from '../src/middleware/auth';
+import {
+  canCommentOnArticle,
+  canEditArticle,
+  canViewArticle,
+  hasPermission,
+  PERMISSION_RULES,
+  PermissionAction,
+  Role
+} from '../../shared/permissions';
+import { signIn } from './helpers';
+
+const ROLES: Role[] = ['Admin', 'Editor', 'Viewer'];
+
+// Written out rather than derived from PERMISSION_RULES, so a change to the table has to change this too
+const EXPECTED: Record<PermissionAction, Role[]> = {
+  'articles:viewAll': ['Admin', 'Editor'],
+  'articles:viewDrafts': ['Admin', 'Editor'],
+  'articles:create': ['Admin', 'Editor'],
+  'articles:editOwn': ['Admin', 'Editor'],
+  'articles:editAll': ['Admin'],
+  'articles:delete': ['Admin'],
+  'articles:publish': ['Admin', 'Editor'],
+  'articles:review': ['Admin', 'Editor'],
+  'syncLogs:write': ['Admin', 'Editor'],
+  'syncLogs:delete': ['Admin'],
+  'users:manage': ['Admin'],
+  'salesforce:manage': ['Admin'],
+  'workflow:manage': ['Admin']
+};
+
+const ACTIONS = Object.keys(EXPECTED) as PermissionAction[];
+const PAIRS = ACTIONS.flatMap(action => ROLES.map(role => [role, action] as const));
+
+// Express would read "articles:create" as a path parameter
+const pathFor = (action: PermissionAction) => `/${action.replace(':', '/')}`;
+
+// One route per action, behind the real middleware
+const app = express();
+app.use(cookieParser());
+app.use(requireAuth);
+ACTIONS.forEach(action => app.get(pathFor(action), requirePermission(action), (_req, res) => {
+  res.status(204).end();
+}));
+
+describe('permissions', () => {
+  it('covers every action', () => {
+    expect(Object.keys(PERMISSION_RULES).sort()).toEqual([...ACTIONS].sort());
+  });
+
+  it.each(PAIRS)('%s may %s only where the table allows', (role, action) => {
+    expect(hasPermission({ id: 'user-1', role }, action)).toBe(EXPECTED[action].includes(role));
+  });
+
+  it('grants nothing without a user', () => {
+    ACTIONS.forEach(action => expect(hasPermission(null, action)).toBe(false));
+  });
+
+  it.each(PAIRS)('requirePermission lets %s through %s only where the table allows', async (role, action) => {
+    const { cookie } = await signIn(role);
+
+    const response = await request(app).get(pathFor(action)).set('Cookie', cookie);
+
+    expect(response.status).toBe(EXPECTED[action].includes(role) ? 204 : 403);
+  });
+
+  it('requirePermission rejects requests without a session', async () => {
+    expect((await request(app).get('/articles/viewAll')).status).toBe(401);
+  });
+});
+
+describe('article permissions', () => {
+  const OWNER = 'user-owner';
+  const REVIEWER = 'user-reviewer';
+  const draft = { ownerId: OWNER, status: 'draft', reviewerIds: [REVIEWER] };
+  const published = { ...draft, status: 'published' };
+  const publishedInReview = { ...draft, status: 'in_review', statusBeforeReview: 'published' };
+
+  // [role, user id, view draft, edit, comment]
+  const CASES: [Role, string, boolean, boolean, boolean][] = [
+    ['Admin', 'user-other', true, true, true],
+    ['Editor', OWNER, true, true, true],
+    ['Editor', REVIEWER, true, false, true],
+    ['Editor', 'user-other', false, false, false],
+    ['Viewer', OWNER, false, false, false],
+    ['Viewer', REVIEWER, false, false, false],
+    ['Viewer', 'user-other', false, false, false]
+  ];
+
+  it.each(CASES)('%s %s: view %s, edit %s, comment %s', (role, id, view, edit, comment) => {
+    const user = { id, role };
+    expect(canViewArticle(user, draft)).toBe(view);
+    expect(canViewArticle(user, published)).toBe(true);
+    expect(canViewArticle(user, publishedInReview)).toBe(true);
+    expect(canViewArticle(user, { ...draft, status: 'in_review', statusBeforeReview: 'draft' })).toBe(view);
+    expect(canEditArticle(user, draft)).toBe(edit);
+    expect(canCommentOnArticle(user, draft)).toBe(comment);
+  });
+
+  it('gives nobody but Admins an article without an owner', () => {
+    const unowned = { status: 'draft' };
+    expect(canEditArticle({ id: 'user-1', role: 'Editor' }, unowned)).toBe(false);
+    expect(canViewArticle({ id: 'user-1', role: 'Editor' }, unowned)).toBe(false);
+    expect(canEditArticle({ id: 'user-1', role: 'Admin' }, unowned)).toBe(true);
+  });
+});
@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import redis from '../src/config/redis';
+import { saveArticle } from '../src/services/articleStore';
+import { getWorkflowSettings, saveWorkflowSettings } from '../src/services/reviewStore';
+import {
+  adoptLegacyPublishJobs,
+  claimNextJob,
+  createPublishJob,
+  getPublishJob,
+  listPublishJobs,
+  PublishJob,
+  requeueInterruptedJobs,
+  savePublishJob
+} from '../src/services/publishJobStore';
+import { MockSalesforce } from './mockSalesforce';
+import { articleFixture, connectMockOrg, signIn, SignedInUser, TEST_ORG_ID } from './helpers';
+
+const queueJob = (owner: SignedInUser) => createPublishJob({
+  orgId: TEST_ORG_ID,
+  createdBy: owner.user.id,
+  createdByName: owner.user.name,
+  items: [{ articleId: 'article-x', title: 'X', status: 'pending', attempts: 0 }]
+});
+
+describe('publish job store', () => {
+  it('leaves running jobs alone until their lease runs out', async () => {
+    const editor = await signIn('Editor');
+    const queued = await queueJob(editor);
+    const claimed = (await claimNextJob())!;
+    await savePublishJob({
+      ...claimed,
+      status: 'running',
+      items: claimed.items.map(item => ({ ...item, status: 'running' }))
+    });
+
+    expect(await requeueInterruptedJobs()).toBe(0);
+
+    await redis.del(`kublish:publishjobs:lease:${queued.id}`);
+    expect(await requeueInterruptedJobs()).toBe(1);
+    expect(await requeueInterruptedJobs()).toBe(0);
+
+    const requeued = (await claimNextJob())!;
+    expect(requeued).toMatchObject({ id: queued.id, status: 'queued' });
+    expect(requeued.items[0].status).toBe('pending');
+  });
+
+  it('expires finished jobs', async () => {
+    const editor = await signIn('Editor');
+    const job = await queueJob(editor);
+
+    expect(await redis.ttl(`kublish:publishjobs:job:${job.id}`)).toBe(-1);
+    await savePublishJob({ ...job, status: 'completed' });
+    expect(await redis.ttl(`kublish:publishjobs:job:${job.id}`)).toBeGreaterThan(0);
+
+    await redis.del(`kublish:publishjobs:job:${job.id}`);
+    expect(await listPublishJobs(editor.user.id)).toEqual([]);
+  });
+
+  it('moves jobs out of the old shared hash', async () => {
+    const editor = await signIn('Editor');
+    const now = new Date().toISOString();
+    const legacy: PublishJob = {
+      id: 'job-legacy',
+      orgId: TEST_ORG_ID,
+      status: 'running',
+      createdBy: editor.user.id,
+      createdByName: editor.user.name,
+      createdAt: now,
+      updatedAt: now,
+      items: []
+    };
+    await redis.hset('kublish:publishjobs', legacy.id, JSON.stringify(legacy));
+
+    expect(await adoptLegacyPublishJobs()).toBe(1);
+
+    expect(await redis.exists('kublish:publishjobs')).toBe(0);
+    expect(await getPublishJob(legacy.id)).toMatchObject({ id: legacy.id });
+    expect((await listPublishJobs(editor.user.id)).map(job => job.id)).toEqual([legacy.id]);
+    expect(await requeueInterruptedJobs()).toBe(1);
+  });
+});
+
+describe('publish job routes', () => {
+  const salesforce = new MockSalesforce();
+
+  beforeAll(() => salesforce.start());
+  afterAll(() => salesforce.stop());
+
+  it('only shows a job to whoever started it and Admins', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const admin = await signIn('Admin');
+    const job = await queueJob(owner);
+    const get = (user: SignedInUser, path = '') =>
+      request(app).get(`/salesforce/jobs/${job.id}${path}`).set('Cookie', user.cookie);
+
+    expect((await get(owner)).status).toBe(200);
+    expect((await get(admin)).status).toBe(200);
+    expect((await get(other)).status).toBe(404);
+    expect((await get(other, '/events')).status).toBe(404);
+    expect((await request(app).post(`/salesforce/jobs/${job.id}/cancel`).set('Cookie', other.cookie)).status).toBe(404);
+    expect((await request(app).post(`/salesforce/jobs/${job.id}/retry`).set('Cookie', other.cookie)).status).toBe(404);
+  });
+
+  it('refuses to queue articles the user cannot see', async () => {
+    const editor = await signIn('Editor');
+    await connectMockOrg(salesforce);
+    const hidden = articleFixture({ ownerId: 'someone-else' });
+    await saveArticle(hidden);
+
+    const response = await request(app)
+      .post('/salesforce/jobs')
+      .set('Cookie', editor.cookie)
+      .send({ articleIds: [hidden.id], orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('refuses to queue published articles the user cannot edit', async () => {
+    const editor = await signIn('Editor');
+    await connectMockOrg(salesforce);
+    const published = articleFixture({ ownerId: 'someone-else', status: 'published' });
+    await saveArticle(published);
+
+    const response = await request(app)
+      .post('/salesforce/jobs')
+      .set('Cookie', editor.cookie)
+      .send({ articleIds: [published.id], orgId: TEST_ORG_ID });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('checks approval again when failed items are retried', async () => {
+    const editor = await signIn('Editor');
+    await connectMockOrg(salesforce);
+    const article = articleFixture({ ownerId: editor.user.id });
+    await saveArticle(article);
+    const job = await createPublishJob({
+      orgId: TEST_ORG_ID,
+      createdBy: editor.user.id,
+      createdByName: editor.user.name,
+      items: [{ articleId: article.id, title: article.title, status: 'failed', attempts: 3 }]
+    });
+    await savePublishJob({ ...job, status: 'completed' });
+    await saveWorkflowSettings({ ...(await getWorkflowSettings()), enabled: true });
+
+    const response = await request(app).post(`/salesforce/jobs/${job.id}/retry`).set('Cookie', editor.cookie);
+
+    expect(response.status).toBe(409);
+    expect(response.body.errorCode).toBe('APPROVAL_REQUIRED');
+  });
+});
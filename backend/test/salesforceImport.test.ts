@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { getArticle, listVersions, saveArticle } from '../src/services/articleStore';
+import { drainImportQueue } from '../src/services/importWorker';
+import { toArticleId } from '../src/services/knowledgeMapping';
+import { MockSalesforce } from './mockSalesforce';
+import { articleFixture, connectMockOrg, signIn, SignedInUser } from './helpers';
+
+const salesforce = new MockSalesforce();
+let editor: SignedInUser;
+
+beforeAll(() => salesforce.start());
+afterAll(() => salesforce.stop());
+
+beforeEach(async () => {
+  salesforce.reset();
+  editor = await signIn('Editor', 'Erin Editor');
+  await connectMockOrg(salesforce);
+});
+
+const runImport = async (as: SignedInUser, body: Record<string, unknown> = {}) => {
+  const queued = await request(app).post('/salesforce/knowledge/import').set('Cookie', as.cookie).send(body);
+  expect(queued.status).toBe(202);
+  await drainImportQueue();
+  const progress = await request(app).get(`/salesforce/knowledge/import/${queued.body.job.id}`).set('Cookie', as.cookie);
+  return progress.body.job;
+};
+
+describe('Salesforce import', () => {
+  it('imports in the background as the session user', async () => {
+    const record = salesforce.seed({ Title: 'Resetting a password', Body__c: '<p>Open settings.</p>' });
+    salesforce.seed({ Title: 'Closing an account', Body__c: '<p>Contact support.</p>' }, 'Draft');
+
+    const job = await runImport(editor, { importedBy: 'Someone Else' });
+
+    expect(job).toMatchObject({ status: 'completed', imported: 2, total: 2, createdByName: 'Erin Editor' });
+    const article = await getArticle(toArticleId(record.KnowledgeArticleId));
+    expect(article).toMatchObject({
+      title: 'Resetting a password',
+      status: 'published',
+      owner: 'Erin Editor',
+      ownerId: editor.user.id
+    });
+    const [version] = await listVersions(article!.id);
+    expect(version.syncUser).toBe('Erin Editor');
+  });
+
+  it('skips existing articles unless asked to overwrite', async () => {
+    const record = salesforce.seed({ Title: 'Resetting a password', Body__c: '<p>New text.</p>' });
+    await saveArticle(articleFixture({ id: toArticleId(record.KnowledgeArticleId), owner: 'Erin Editor', ownerId: editor.user.id }));
+
+    expect(await runImport(editor)).toMatchObject({ skipped: 1, updated: 0 });
+    expect(await runImport(editor, { overwrite: true })).toMatchObject({ skipped: 0, updated: 1 });
+    expect((await getArticle(toArticleId(record.KnowledgeArticleId)))!.body).toBe('<p>New text.</p>');
+  });
+
+  it('overwrites only the content of an existing article', async () => {
+    const trashedRecord = salesforce.seed({ Title: 'Resetting a password', Body__c: '<p>New text.</p>' });
+    const approvedRecord = salesforce.seed({ Title: 'Closing an account', Body__c: '<p>New text.</p>' });
+    const trashed = articleFixture({
+      id: toArticleId(trashedRecord.KnowledgeArticleId),
+      ownerId: editor.user.id,
+      status: 'in_review',
+      reviewerIds: ['user-rita'],
+      deletedAt: new Date().toISOString()
+    });
+    const approved = articleFixture({ id: toArticleId(approvedRecord.KnowledgeArticleId), ownerId: editor.user.id, status: 'approved' });
+    await saveArticle(trashed);
+    await saveArticle(approved);
+
+    expect(await runImport(editor, { overwrite: true })).toMatchObject({ updated: 2 });
+
+    expect(await getArticle(trashed.id)).toMatchObject({
+      body: '<p>New text.</p>',
+      status: 'in_review',
+      reviewerIds: ['user-rita'],
+      deletedAt: trashed.deletedAt
+    });
+    expect(await getArticle(approved.id)).toMatchObject({ body: '<p>New text.</p>', status: 'draft' });
+  });
+
+  it('only overwrites articles the importer may edit', async () => {
+    const record = salesforce.seed({ Title: 'Resetting a password', Body__c: '<p>New text.</p>' });
+    const id = toArticleId(record.KnowledgeArticleId);
+    await saveArticle(articleFixture({ id, owner: 'Olive Owner', ownerId: 'user-olive', body: '<p>Local text.</p>' }));
+
+    expect(await runImport(editor, { overwrite: true })).toMatchObject({ denied: 1, updated: 0 });
+    expect((await getArticle(id))!.body).toBe('<p>Local text.</p>');
+
+    const admin = await signIn('Admin');
+    expect(await runImport(admin, { overwrite: true })).toMatchObject({ denied: 0, updated: 1 });
+    expect(await getArticle(id)).toMatchObject({ body: '<p>New text.</p>', owner: 'Olive Owner', ownerId: 'user-olive' });
+  });
+
+  it('shows an import only to whoever started it and Admins', async () => {
+    const queued = await request(app).post('/salesforce/knowledge/import').set('Cookie', editor.cookie).send({});
+    const path = `/salesforce/knowledge/import/${queued.body.job.id}`;
+
+    const other = await signIn('Editor');
+    expect((await request(app).get(path).set('Cookie', other.cookie)).status).toBe(404);
+    const admin = await signIn('Admin');
+    expect((await request(app).get(path).set('Cookie', admin.cookie)).status).toBe(200);
+  });
+
+  it('records a Salesforce failure on the job', async () => {
+    salesforce.failNext(400, [{ errorCode: 'INVALID_FIELD', message: "No such column 'Body__c'" }]);
+
+    const job = await runImport(editor);
+
+    expect(job).toMatchObject({ status: 'failed', errorCode: 'INVALID_REQUEST', error: "No such column 'Body__c'" });
+  });
+});
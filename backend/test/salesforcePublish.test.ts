@@ -0,0 +1,410 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { getTokenData, setTokenData } from '../src/services/tokenStore';
+import { getKnownApiUsage, makeSalesforceApiCall, recordApiUsage } from '../src/services/salesforceApi';
+import { KNOWLEDGE_SOBJECT_PATH } from '../src/services/knowledgePublisher';
+import { MockSalesforce } from './mockSalesforce';
+import { getArticle, listSyncLogs, listVersions, saveArticle, saveVersion } from '../src/services/articleStore';
+import { saveOrgConnection } from '../src/services/orgStore';
+import { getWorkflowSettings, saveWorkflowSettings } from '../src/services/reviewStore';
+import { articleFixture, connectMockOrg, signIn, SignedInUser, TEST_ORG_ID } from './helpers';
+
+const salesforce = new MockSalesforce();
+let editor: SignedInUser;
+
+beforeAll(() => salesforce.start());
+afterAll(() => salesforce.stop());
+
+beforeEach(async () => {
+  salesforce.reset();
+  editor = await signIn('Editor');
+  await connectMockOrg(salesforce);
+});
+
+const createDraft = (body: Record<string, unknown> = { title: 'Resetting a password', body: '<p>Open settings.</p>' }) =>
+  request(app).post('/salesforce/knowledge/drafts').set('Cookie', editor.cookie).send(body);
+
+describe('authentication', () => {
+  it('requires a Kublish session', async () => {
+    const response = await request(app).post('/salesforce/knowledge/drafts').send({ title: 'Anything' });
+    expect(response.status).toBe(401);
+    expect(salesforce.calls).toHaveLength(0);
+  });
+
+  it('does not let viewers publish', async () => {
+    const viewer = await signIn('Viewer');
+    const response = await request(app)
+      .post('/salesforce/knowledge/drafts')
+      .set('Cookie', viewer.cookie)
+      .send({ title: 'Anything' });
+    expect(response.status).toBe(403);
+  });
+
+  it('reports a missing org connection', async () => {
+    const response = await request(app)
+      .post('/salesforce/knowledge/drafts?orgId=org-missing')
+      .set('Cookie', editor.cookie)
+      .send({ title: 'Anything' });
+    expect(response.status).toBe(403);
+    expect(response.body.errorCode).toBe('SALESFORCE_NOT_CONNECTED');
+  });
+
+  it('refreshes an access token that is about to expire before calling Salesforce', async () => {
+    await connectMockOrg(salesforce, Date.now() + 5000);
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(201);
+    expect(salesforce.calls[0].path).toBe('/services/oauth2/token');
+    expect((await getTokenData(TEST_ORG_ID))?.accessToken).toBe(salesforce.accessToken);
+  });
+
+  it('refreshes once and replays a call Salesforce rejects with 401', async () => {
+    salesforce.expireSession();
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(201);
+    const statuses = salesforce.calls.map(call => `${call.path.endsWith('token') ? 'token' : 'api'} ${call.status}`);
+    expect(statuses.slice(0, 3)).toEqual(['api 401', 'token 200', 'api 201']);
+  });
+
+  it('reports a session that cannot be refreshed as a lost connection', async () => {
+    salesforce.expireSession();
+    salesforce.refreshToken = 'refresh-revoked';
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(403);
+    expect(response.body.errorCode).toBe('SALESFORCE_NOT_CONNECTED');
+  });
+});
+
+describe('publishing', () => {
+  it('creates a draft and publishes it', async () => {
+    const draft = await createDraft({ title: 'Resetting a password', body: '<p>Open settings.</p>', visibility: 'public' });
+
+    expect(draft.status).toBe(201);
+    const version = salesforce.versions.get(draft.body.versionId)!;
+    expect(draft.body.knowledgeArticleId).toBe(version.KnowledgeArticleId);
+    expect(version).toMatchObject({
+      Title: 'Resetting a password',
+      UrlName: 'Resetting-a-password',
+      Body__c: '<p>Open settings.</p>',
+      IsVisibleInPkb: true,
+      PublishStatus: 'Draft'
+    });
+
+    const published = await request(app)
+      .post(`/salesforce/knowledge/drafts/${draft.body.versionId}/publish`)
+      .set('Cookie', editor.cookie);
+
+    expect(published.status).toBe(200);
+    expect(published.body.publishStatus).toBe('Online');
+    expect(version.PublishStatus).toBe('Online');
+  });
+
+  it('keeps comments and suggestions out of Salesforce', async () => {
+    const body = '<p>Open <span data-comment-id="c1">settings</span>.'
+      + '<span data-suggestion="insert" data-suggestion-id="s1"> Then sign in.</span></p>';
+
+    const draft = await createDraft({ title: 'Resetting a password', body });
+
+    expect(salesforce.versions.get(draft.body.versionId)!.Body__c).toBe('<p>Open settings.</p>');
+  });
+
+  it('writes a new version of an existing article to a fresh draft', async () => {
+    const first = await createDraft();
+    await request(app).post(`/salesforce/knowledge/drafts/${first.body.versionId}/publish`).set('Cookie', editor.cookie);
+
+    const second = await createDraft({
+      title: 'Resetting a password',
+      body: '<p>Open account settings.</p>',
+      knowledgeArticleId: first.body.knowledgeArticleId
+    });
+
+    expect(second.status).toBe(201);
+    expect(second.body.versionId).not.toBe(first.body.versionId);
+    expect(second.body.knowledgeArticleId).toBe(first.body.knowledgeArticleId);
+    expect(salesforce.versions.get(second.body.versionId)).toMatchObject({
+      Body__c: '<p>Open account settings.</p>',
+      PublishStatus: 'Draft'
+    });
+    expect(salesforce.versions.get(first.body.versionId)!.PublishStatus).toBe('Online');
+  });
+});
+
+describe('article sync', () => {
+  const syncArticle = (articleId: string, body: Record<string, unknown> = {}) =>
+    request(app).post(`/api/articles/${articleId}/sync`).set('Cookie', editor.cookie).send(body);
+
+  it('records the synced version and logs the sync', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+
+    const response = await syncArticle(article.id);
+
+    expect(response.status).toBe(200);
+    const [version] = await listVersions(article.id);
+    expect(version).toMatchObject({
+      status: 'Draft',
+      syncedToSalesforce: true,
+      salesforceOrgId: TEST_ORG_ID,
+      salesforceVersionId: response.body.version.salesforceVersionId,
+      createdBy: editor.user.name
+    });
+    expect(salesforce.versions.get(version.salesforceVersionId!)!.KnowledgeArticleId).toBe(version.salesforceId);
+    expect(await getArticle(article.id)).toMatchObject({ status: 'draft', lastSyncedVersionId: version.versionId });
+    expect((await listSyncLogs({ articleId: article.id }))[0]).toMatchObject({ action: 'sync', status: 'success' });
+  });
+
+  it('publishes to the Salesforce article synced before', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+    const synced = await syncArticle(article.id);
+
+    const response = await syncArticle(article.id, { publish: true });
+
+    expect(response.status).toBe(200);
+    expect(response.body.article.status).toBe('published');
+    expect(response.body.version).toMatchObject({
+      status: 'Published',
+      versionLabel: 'v1.0',
+      salesforceId: synced.body.version.salesforceId
+    });
+    expect(salesforce.versions.get(response.body.version.salesforceVersionId)!.PublishStatus).toBe('Online');
+  });
+
+  it('only publishes the draft of an approved article through the Knowledge routes', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+    await saveWorkflowSettings({ ...(await getWorkflowSettings()), enabled: true });
+    const synced = await syncArticle(article.id);
+    const publish = () => request(app)
+      .post(`/salesforce/knowledge/drafts/${synced.body.version.salesforceVersionId}/publish`)
+      .set('Cookie', editor.cookie);
+
+    const refused = await publish();
+    expect(refused.status).toBe(409);
+    expect(salesforce.versions.get(synced.body.version.salesforceVersionId)!.PublishStatus).toBe('Draft');
+
+    await saveArticle({ ...(await getArticle(article.id))!, status: 'approved' });
+    expect((await publish()).status).toBe(200);
+  });
+
+  it('only syncs articles the user may edit', async () => {
+    const article = articleFixture({ ownerId: 'someone-else', status: 'published' });
+    await saveArticle(article);
+
+    expect((await syncArticle(article.id)).status).toBe(403);
+    expect(await listVersions(article.id)).toHaveLength(0);
+  });
+
+  it('logs a failed sync', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: '' });
+    await saveArticle(article);
+
+    const response = await syncArticle(article.id);
+
+    expect(response.status).toBe(422);
+    expect(await listVersions(article.id)).toHaveLength(0);
+    expect((await listSyncLogs({ articleId: article.id }))[0]).toMatchObject({ action: 'sync', status: 'error' });
+  });
+
+  it('keeps sync details out of client-written versions', async () => {
+    const article = articleFixture({ ownerId: editor.user.id });
+    await saveArticle(article);
+
+    const response = await request(app)
+      .post(`/api/articles/${article.id}/versions`)
+      .set('Cookie', editor.cookie)
+      .send({ title: 'T', body: '<p>B</p>', status: 'Published', syncedToSalesforce: true, salesforceId: 'kA0forged', createdBy: 'Admin' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.version).toMatchObject({ status: 'Draft', syncedToSalesforce: false, createdBy: editor.user.name });
+    expect(response.body.version).not.toHaveProperty('salesforceId');
+  });
+});
+
+describe('trash', () => {
+  const trash = async (articleId: string) => {
+    const admin = await signIn('Admin');
+    return request(app).delete(`/api/articles/${articleId}`).set('Cookie', admin.cookie);
+  };
+
+  it('archives an article online in Salesforce whatever its status here', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+    const published = await request(app)
+      .post(`/api/articles/${article.id}/sync`)
+      .set('Cookie', editor.cookie)
+      .send({ publish: true });
+    // Edited and synced again as a draft, which leaves the published version online
+    await saveArticle({ ...published.body.article, status: 'draft', body: '<p>Edited</p>' });
+    await request(app).post(`/api/articles/${article.id}/sync`).set('Cookie', editor.cookie).send({});
+
+    expect((await trash(article.id)).status).toBe(200);
+
+    expect(salesforce.versions.get(published.body.version.salesforceVersionId)!.PublishStatus).toBe('Archived');
+    expect(await getArticle(article.id)).toMatchObject({ status: 'archived' });
+  });
+
+  it('leaves articles that were never online alone', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+    await request(app).post(`/api/articles/${article.id}/sync`).set('Cookie', editor.cookie).send({});
+
+    expect((await trash(article.id)).status).toBe(200);
+
+    expect(await getArticle(article.id)).toMatchObject({ status: 'draft' });
+    expect((await listVersions(article.id)).map(version => version.status)).toEqual(['Draft']);
+  });
+});
+
+describe('archiving', () => {
+  const production = new MockSalesforce();
+  const PRODUCTION_ORG_ID = 'org-production';
+
+  beforeAll(() => production.start());
+  afterAll(() => production.stop());
+
+  beforeEach(async () => {
+    production.reset();
+    await saveOrgConnection({
+      id: PRODUCTION_ORG_ID,
+      name: 'Production',
+      environment: 'custom',
+      loginUrl: production.url,
+      instanceUrl: production.url,
+      connectedAt: new Date().toISOString(),
+      connectedBy: 'test'
+    });
+    await setTokenData(PRODUCTION_ORG_ID, {
+      accessToken: production.accessToken,
+      refreshToken: production.refreshToken,
+      instanceUrl: production.url,
+      loginUrl: production.url,
+      expiresAt: Date.now() + 60 * 60 * 1000
+    });
+    await recordApiUsage(PRODUCTION_ORG_ID, 0, production.usage.max);
+  });
+
+  it('archives the copies an article was promoted to as well', async () => {
+    const article = articleFixture({ ownerId: editor.user.id, title: 'Resetting a password' });
+    await saveArticle(article);
+    const published = await request(app)
+      .post(`/api/articles/${article.id}/sync`)
+      .set('Cookie', editor.cookie)
+      .send({ publish: true });
+    // Promoted to production, as promoteArticle records it
+    const promoted = production.seed({ Title: 'Resetting a password', Body__c: '<p>Body</p>' });
+    await saveVersion({
+      ...published.body.version,
+      promotedOrgId: PRODUCTION_ORG_ID,
+      promotedSalesforceId: promoted.KnowledgeArticleId,
+      promotedVersionId: promoted.Id,
+      promotedAt: new Date().toISOString()
+    });
+
+    const response = await request(app).post(`/api/articles/${article.id}/archive`).set('Cookie', editor.cookie);
+
+    expect(response.status).toBe(200);
+    expect(salesforce.versions.get(published.body.version.salesforceVersionId)!.PublishStatus).toBe('Archived');
+    expect(promoted.PublishStatus).toBe('Archived');
+    expect((await listVersions(article.id)).filter(version => version.status === 'Archived').map(version => version.salesforceOrgId).sort())
+      .toEqual([TEST_ORG_ID, PRODUCTION_ORG_ID].sort());
+  });
+});
+
+describe('throttling', () => {
+  it('records API usage from Sforce-Limit-Info', async () => {
+    salesforce.usage.used = 1200;
+
+    await createDraft();
+
+    const usage = await getKnownApiUsage(TEST_ORG_ID);
+    expect(usage).toMatchObject({ used: salesforce.usage.used, max: 15000 });
+  });
+
+  it('spaces calls out once usage passes the threshold', async () => {
+    salesforce.usage.used = 14000;
+    await recordApiUsage(TEST_ORG_ID, 14000, 15000);
+
+    await Promise.all([1, 2, 3].map(() => makeSalesforceApiCall(TEST_ORG_ID, `${KNOWLEDGE_SOBJECT_PATH}/missing`, 'PATCH', {})
+      .catch(() => undefined)));
+
+    const times = salesforce.apiCalls().map(call => call.at);
+    expect(times).toHaveLength(3);
+    expect(times[1] - times[0]).toBeGreaterThanOrEqual(40);
+    expect(times[2] - times[1]).toBeGreaterThanOrEqual(40);
+  });
+
+  it('refuses calls without reaching Salesforce once the allowance is used up', async () => {
+    await recordApiUsage(TEST_ORG_ID, 15000, 15000);
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(429);
+    expect(response.body.errorCode).toBe('REQUEST_LIMIT_EXCEEDED');
+    expect(salesforce.calls).toHaveLength(0);
+  });
+
+  it('treats a TotalRequests limit error as an exhausted allowance', async () => {
+    salesforce.failNext(403, [{ errorCode: 'REQUEST_LIMIT_EXCEEDED', message: 'TotalRequests Limit exceeded.' }]);
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(429);
+    const usage = await getKnownApiUsage(TEST_ORG_ID);
+    expect(usage!.used).toBe(usage!.max);
+  });
+});
+
+describe('error translation', () => {
+  it('maps field errors back to article fields', async () => {
+    salesforce.failNext(400, [{ errorCode: 'STRING_TOO_LONG', message: 'Title: data value too large', fields: ['Title'] }]);
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(422);
+    expect(response.body).toMatchObject({
+      errorCode: 'VALIDATION_FAILED',
+      salesforceErrorCode: 'STRING_TOO_LONG',
+      fieldErrors: [{ field: 'Title', kublishField: 'title', message: 'Title: data value too large' }]
+    });
+  });
+
+  it('passes validation rule messages through', async () => {
+    salesforce.failNext(400, [{
+      errorCode: 'FIELD_CUSTOM_VALIDATION_EXCEPTION',
+      message: 'Summary is required for public articles',
+      fields: []
+    }]);
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(422);
+    expect(response.body.message).toBe('Summary is required for public articles');
+  });
+
+  it('reports Salesforce outages as unavailable', async () => {
+    salesforce.failNext(503, [{ errorCode: 'SERVER_UNAVAILABLE', message: 'Server temporarily unavailable' }]);
+    expect((await createDraft()).body.errorCode).toBe('SALESFORCE_UNAVAILABLE');
+
+    salesforce.failNext(500, 'Internal Server Error');
+    const response = await createDraft();
+    expect(response.status).toBe(502);
+    expect(response.body.errorCode).toBe('SALESFORCE_UNAVAILABLE');
+  });
+
+  it('reports an unreachable instance as unavailable', async () => {
+    const token = await getTokenData(TEST_ORG_ID);
+    await setTokenData(TEST_ORG_ID, { ...token!, instanceUrl: 'http://127.0.0.1:9' });
+
+    const response = await createDraft();
+
+    expect(response.status).toBe(504);
+    expect(response.body.errorCode).toBe('SALESFORCE_UNAVAILABLE');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { getArticle, saveArticle } from '../src/services/articleStore';
+import { getScheduledAction } from '../src/services/scheduleStore';
+import { runAction } from '../src/services/scheduler';
+import { saveUser } from '../src/services/userStore';
+import { articleFixture, signIn, SignedInUser } from './helpers';
+
+const scheduleVisibility = (user: SignedInUser, articleId: string) =>
+  request(app)
+    .post('/api/schedules')
+    .set('Cookie', user.cookie)
+    .send({ articleId, action: 'visibility', visibility: 'public', localTime: '2099-01-01T09:00', timeZone: 'UTC' });
+
+describe('scheduled actions', () => {
+  it('schedules changes only to articles the user may edit', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const draft = articleFixture({ ownerId: owner.user.id });
+    const published = articleFixture({ ownerId: owner.user.id, status: 'published' });
+    await saveArticle(draft);
+    await saveArticle(published);
+
+    expect((await scheduleVisibility(other, draft.id)).status).toBe(404);
+    expect((await scheduleVisibility(other, published.id)).status).toBe(403);
+    expect((await scheduleVisibility(owner, draft.id)).status).toBe(201);
+  });
+
+  it('lets only the scheduler and article editors cancel', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const admin = await signIn('Admin');
+    const article = articleFixture({ ownerId: owner.user.id, status: 'published' });
+    await saveArticle(article);
+    const { schedule } = (await scheduleVisibility(owner, article.id)).body;
+    const cancel = (user: SignedInUser) =>
+      request(app).delete(`/api/schedules/${schedule.id}`).set('Cookie', user.cookie);
+
+    expect((await cancel(other)).status).toBe(403);
+    expect((await getScheduledAction(schedule.id))!.status).toBe('pending');
+    expect((await cancel(admin)).status).toBe(200);
+    expect((await getScheduledAction(schedule.id))!.status).toBe('cancelled');
+  });
+
+  it('hides schedules on articles the user cannot see', async () => {
+    const owner = await signIn('Editor');
+    const other = await signIn('Editor');
+    const article = articleFixture({ ownerId: owner.user.id });
+    await saveArticle(article);
+    const { schedule } = (await scheduleVisibility(owner, article.id)).body;
+
+    const response = await request(app).delete(`/api/schedules/${schedule.id}`).set('Cookie', other.cookie);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('runs an action only while its scheduler may still change the article', async () => {
+    const owner = await signIn('Editor');
+    const demoted = await signIn('Editor');
+    const owned = articleFixture({ ownerId: owner.user.id, status: 'published' });
+    const handedOver = articleFixture({ ownerId: demoted.user.id, status: 'published' });
+    const kept = articleFixture({ ownerId: owner.user.id });
+    await saveArticle(owned);
+    await saveArticle(handedOver);
+    await saveArticle(kept);
+    const allowed = (await scheduleVisibility(owner, kept.id)).body.schedule;
+    const lostArticle = (await scheduleVisibility(owner, owned.id)).body.schedule;
+    const lostRole = (await scheduleVisibility(demoted, handedOver.id)).body.schedule;
+    await saveArticle({ ...owned, ownerId: 'someone-else' });
+    await saveUser({ ...demoted.user, role: 'Viewer' });
+
+    await runAction(allowed);
+    await runAction(lostArticle);
+    await runAction(lostRole);
+
+    expect(await getScheduledAction(allowed.id)).toMatchObject({ status: 'done' });
+    expect((await getArticle(kept.id))!.visibility).toBe('public');
+
+    expect(await getScheduledAction(lostArticle.id)).toMatchObject({ status: 'failed' });
+    expect(await getScheduledAction(lostRole.id)).toMatchObject({ status: 'failed' });
+    expect((await getArticle(owned.id))!.visibility).toBe('internal');
+    expect((await getArticle(handedOver.id))!.visibility).toBe('internal');
+  });
+});
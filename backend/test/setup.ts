@@ -0,0 +1,15 @@
+import { beforeEach, vi } from 'vitest';
+
+// Stores talk to an in-memory Redis; every test starts from an empty one
+vi.mock('../src/config/redis', async () => {
+  const { default: RedisMock } = await import('ioredis-mock');
+  const redis = new RedisMock();
+  // ioredis-mock never reports a connection status, and the stores refuse to run without one
+  Object.defineProperty(redis, 'status', { value: 'ready' });
+  return { default: redis };
+});
+
+beforeEach(async () => {
+  const { default: redis } = await import('../src/config/redis');
+  await redis.flushall();
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import request from 'supertest';
+import app from '../src/app';
+import { addSyncLog, saveArticle } from '../src/services/articleStore';
+import { articleFixture, signIn } from './helpers';
+
+const logFor = (articleId: string) => addSyncLog({
+  articleId,
+  articleTitle: 'Logged',
+  action: 'sync',
+  user: 'Someone',
+  status: 'success',
+  message: ''
+});
+
+describe('sync logs', () => {
+  it('records entries as the session user', async () => {
+    const editor = await signIn('Editor', 'Erin Editor');
+    const article = articleFixture({ ownerId: editor.user.id });
+    await saveArticle(article);
+
+    const response = await request(app)
+      .post('/api/sync-logs')
+      .set('Cookie', editor.cookie)
+      .send({ articleId: article.id, action: 'draft_save', status: 'success', user: 'Admin' });
+
+    expect(response.status).toBe(201);
+    expect(response.body.syncLog).toMatchObject({ user: 'Erin Editor', articleTitle: article.title });
+  });
+
+  it('only accepts the actions the app performs itself', async () => {
+    const editor = await signIn('Editor');
+    const article = articleFixture({ ownerId: editor.user.id });
+    await saveArticle(article);
+    const post = (action: string, status: string) => request(app)
+      .post('/api/sync-logs')
+      .set('Cookie', editor.cookie)
+      .send({ articleId: article.id, action, status });
+
+    expect((await post('approve', 'success')).status).toBe(400);
+    expect((await post('publish', 'success')).status).toBe(400);
+    expect((await post('archive', 'success')).status).toBe(400);
+    expect((await post('archive', 'error')).status).toBe(201);
+  });
+
+  it('refuses entries for articles the user cannot see', async () => {
+    const editor = await signIn('Editor');
+    const article = articleFixture({ ownerId: 'someone-else' });
+    await saveArticle(article);
+
+    const response = await request(app)
+      .post('/api/sync-logs')
+      .set('Cookie', editor.cookie)
+      .send({ articleId: article.id, action: 'draft_save', status: 'success' });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('lists only entries for visible articles', async () => {
+    const viewer = await signIn('Viewer');
+    const admin = await signIn('Admin');
+    const published = articleFixture({ status: 'published' });
+    const draft = articleFixture();
+    await saveArticle(published);
+    await saveArticle(draft);
+    await logFor(published.id);
+    await logFor(draft.id);
+    await logFor('article-purged');
+
+    const list = async (cookie: string) =>
+      (await request(app).get('/api/sync-logs').set('Cookie', cookie)).body.syncLogs.map((log: { articleId: string }) => log.articleId);
+
+    expect(await list(viewer.cookie)).toEqual([published.id]);
+    expect((await list(admin.cookie)).sort()).toEqual([published.id, draft.id, 'article-purged'].sort());
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { getArticle, saveArticle } from '../src/services/articleStore';
+import { getWorkflowSettings, saveWorkflowSettings } from '../src/services/reviewStore';
+import { migrateUserIds } from '../src/services/userIdMigration';
+import { articleFixture, signIn } from './helpers';
+
+describe('migrateUserIds', () => {
+  it('fills in ids for names exactly one user has', async () => {
+    const erin = await signIn('Editor', 'Erin Editor');
+    const rita = await signIn('Editor', 'Rita Reviewer');
+    await signIn('Editor', 'Sam Twin');
+    await signIn('Editor', 'Sam Twin');
+    const article = articleFixture({ owner: 'Erin Editor', reviewers: ['Rita Reviewer', 'Sam Twin'] });
+    await saveArticle(article);
+    await saveWorkflowSettings({
+      ...(await getWorkflowSettings()),
+      defaultReviewers: ['Rita Reviewer', 'Sam Twin', rita.user.id]
+    });
+
+    await migrateUserIds();
+
+    expect(await getArticle(article.id)).toMatchObject({
+      ownerId: erin.user.id,
+      reviewers: ['Rita Reviewer'],
+      reviewerIds: [rita.user.id]
+    });
+    expect((await getWorkflowSettings()).defaultReviewers).toEqual([rita.user.id]);
+    expect(await migrateUserIds()).toBe(0);
+  });
+});
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    setupFiles: ['test/setup.ts'],
+    env: {
+      JWT_SECRET: 'test-jwt-secret',
+      TOKEN_ENCRYPTION_KEYS: `test:${Buffer.alloc(32, 7).toString('base64')}`,
+      SF_CLIENT_ID: 'test-client-id',
+      SF_CLIENT_SECRET: 'test-client-secret',
+      SF_REDIRECT_URI: 'http://localhost:3000/salesforce/auth/callback',
+      SF_API_THROTTLE_DELAY_MS: '50'
+    }
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * Editorial markup the article editor keeps in bodies: comment anchors and
+ * suggested edits. Shared by the frontend and the backend so what gets sent
+ * to Salesforce is stripped the same way on both sides.
+ */
+export const COMMENT_ID_ATTRIBUTE = 'data-comment-id';
+export const SUGGESTION_ATTRIBUTE = 'data-suggestion'; // "insert" or "delete"
+
+type OpenSpan = 'comment' | 'insert' | 'delete' | 'other';
+
+const classifySpan = (tag: string): OpenSpan => {
+  if (tag.includes(COMMENT_ID_ATTRIBUTE)) return 'comment';
+  const suggestion = new RegExp(`${SUGGESTION_ATTRIBUTE}="(insert|delete)"`).exec(tag);
+  return suggestion ? suggestion[1] as OpenSpan : 'other';
+};
+
+/**
+ * The body as the author last accepted it. Comment anchors are unwrapped,
+ * suggested insertions are dropped with their text and suggested deletions
+ * keep theirs. Other spans are left alone and may nest around or inside
+ * the markup.
+ */
+export const stripEditorialMarkup = (html: string): string => {
+  const opened: OpenSpan[] = [];
+  return html
+    .split(/(<span\b[^>]*>|<\/span\s*>)/i)
+    .map(part => {
+      const insideInsertion = opened.includes('insert');
+      if (/^<span\b/i.test(part)) {
+        const kind = classifySpan(part);
+        opened.push(kind);
+        return kind === 'other' && !insideInsertion ? part : '';
+      }
+      if (/^<\/span/i.test(part)) {
+        const kind = opened.pop();
+        return (kind === 'other' || kind === undefined) && !opened.includes('insert') ? part : '';
+      }
+      return insideInsertion ? '' : part;
+    })
+    .join('');
+};
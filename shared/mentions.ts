@@ -0,0 +1,30 @@
+/**
+ * @mentions in comment bodies. Shared by the frontend and the backend so the
+ * names highlighted in a comment are the ones that were notified.
+ */
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Matches "@Name" for any of the names, only as a whole word: not inside an
+ * email address and not as the start of a longer name. Where names share a
+ * prefix, like "Ann" and "Ann Lee", the longest one present wins. The name
+ * is in the first group.
+ */
+export const mentionPattern = (names: string[]): RegExp | null => {
+  if (names.length === 0) return null;
+  const alternatives = [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}_.@])@(${alternatives})(?![\\p{L}\\p{N}_])`, 'gu');
+};
+
+/**
+ * The names mentioned in the body, in the order given
+ */
+export const findMentions = (body: string, names: string[]): string[] => {
+  const pattern = mentionPattern(names);
+  if (!pattern) return [];
+  const mentioned = new Set([...body.matchAll(pattern)].map(match => match[1]));
+  return names.filter(name => mentioned.has(name));
+};
@@ -0,0 +1,88 @@
+/**
+ * Role rules shared by the frontend (src/utils/permissions.ts) and the
+ * backend authorization middleware, so the two cannot drift apart
+ */
+export type Role = 'Admin' | 'Editor' | 'Viewer';
+
+export type PermissionAction =
+  | 'articles:viewAll'
+  | 'articles:viewDrafts'
+  | 'articles:create'
+  | 'articles:editOwn'
+  | 'articles:editAll'
+  | 'articles:delete'
+  | 'articles:publish'
+  | 'articles:review'
+  | 'syncLogs:write'
+  | 'syncLogs:delete'
+  | 'users:manage'
+  | 'salesforce:manage'
+  | 'workflow:manage';
+
+export const PERMISSION_RULES: Record<PermissionAction, readonly Role[]> = {
+  'articles:viewAll': ['Admin', 'Editor'],
+  'articles:viewDrafts': ['Admin', 'Editor'],
+  'articles:create': ['Admin', 'Editor'],
+  'articles:editOwn': ['Admin', 'Editor'],
+  'articles:editAll': ['Admin'],
+  'articles:delete': ['Admin'],
+  'articles:publish': ['Admin', 'Editor'],
+  'articles:review': ['Admin', 'Editor'],
+  'syncLogs:write': ['Admin', 'Editor'],
+  'syncLogs:delete': ['Admin'],
+  'users:manage': ['Admin'],
+  'salesforce:manage': ['Admin'],
+  'workflow:manage': ['Admin']
+};
+
+export interface PermissionSubject {
+  id: string;
+  role: Role;
+}
+
+// Ownership and review assignments are by user id; names are only for display
+export interface OwnedResource {
+  ownerId?: string; // unset while no Kublish user owns it, e.g. after an import
+  status?: string;
+  statusBeforeReview?: string; // set while in review
+  reviewerIds?: string[]; // ids of the users assigned to review it
+}
+
+export const hasPermission = (user: PermissionSubject | null | undefined, action: PermissionAction): boolean =>
+  !!user && PERMISSION_RULES[action].includes(user.role);
+
+export const isOwnerOrAdmin = (user: PermissionSubject | null | undefined, ownerId?: string): boolean => {
+  if (!user) return false;
+  return user.role === 'Admin' || (!!ownerId && user.id === ownerId);
+};
+
+export const isAssignedReviewer = (user: PermissionSubject | null | undefined, article: OwnedResource): boolean =>
+  hasPermission(user, 'articles:review') && !!user && !!article.reviewerIds?.includes(user.id);
+
+const REVIEW_STATUSES = ['in_review', 'changes_requested', 'approved'];
+
+// Published, or published and back in review with changes
+const isPublished = (article: OwnedResource): boolean =>
+  article.status === 'published' ||
+  (REVIEW_STATUSES.includes(article.status!) && article.statusBeforeReview === 'published');
+
+/**
+ * Published articles are visible to everyone, also while changes to them
+ * are in review; drafts only to their owner, their assigned reviewers and
+ * Admins
+ */
+export const canViewArticle = (user: PermissionSubject | null | undefined, article: OwnedResource): boolean =>
+  isPublished(article) ||
+  (hasPermission(user, 'articles:viewDrafts') && isOwnerOrAdmin(user, article.ownerId)) ||
+  isAssignedReviewer(user, article);
+
+export const canEditArticle = (user: PermissionSubject | null | undefined, article: OwnedResource): boolean =>
+  hasPermission(user, 'articles:editAll') ||
+  (hasPermission(user, 'articles:editOwn') && isOwnerOrAdmin(user, article.ownerId));
+
+/**
+ * Editorial comments are for the people working on the article: whoever
+ * may edit it and its assigned reviewers
+ */
+export const canCommentOnArticle = (user: PermissionSubject | null | undefined, article: OwnedResource): boolean =>
+  canEditArticle(user, article) || isAssignedReviewer(user, article);
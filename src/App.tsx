@@ -3,6 +3,8 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AppProvider, useAppContext } from './context/AppContext';
 import Layout from './components/Layout';
 import Login from './pages/Login';
+import CreateAccount from './pages/CreateAccount';
+import ForgotPassword from './pages/ForgotPassword';
 import Dashboard from './pages/Dashboard';
 import Editor from './pages/Editor';
 import BulkPublish from './pages/BulkPublish';
@@ -12,9 +14,12 @@ import UserProfile from './pages/UserProfile';
 import ImportExport from './pages/ImportExport';
 import Home from './pages/Home';
 import AdminPanel from './pages/AdminPanel';
+import Schedule from './pages/Schedule';
+import Reviews from './pages/Reviews';
 
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const { user } = useAppContext();
+  const { user, isAuthLoading } = useAppContext();
+  if (isAuthLoading) return null;
   return user ? <>{children}</> : <Navigate to="/login" />;
 };
 
@@ -24,6 +29,8 @@ const AppRoutes: React.FC = () => {
   return (
     <Routes>
       <Route path="/login" element={user ? <Navigate to="/dashboard" /> : <Login />} />
+      <Route path="/create-account" element={user ? <Navigate to="/dashboard" /> : <CreateAccount />} />
+      <Route path="/forgot-password" element={<ForgotPassword />} />
       <Route path="/" element={<Home />} />
       <Route
         path="/dashboard"
@@ -75,6 +82,26 @@ const AppRoutes: React.FC = () => {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/schedule"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Schedule />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/reviews"
+        element={
+          <ProtectedRoute>
+            <Layout>
+              <Reviews />
+            </Layout>
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/import-export"
         element={
@@ -0,0 +1,77 @@
+// Shared fetch wrapper for the Kublish backend
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/refresh', '/auth/logout'];
+
+export interface ApiFieldError {
+  field: string; // Salesforce field API name
+  kublishField?: 'title' | 'body' | 'summary' | 'urlName' | 'visibility' | 'tags';
+  message: string;
+}
+
+/**
+ * A non-2xx response; errorCode and fieldErrors are set for Salesforce failures
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly errorCode?: string,
+    public readonly fieldErrors: ApiFieldError[] = []
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Concurrent 401s share a single refresh so the rotated cookie is only consumed once
+const refreshSession = (): Promise<boolean> => {
+  if (!refreshInFlight) {
+    refreshInFlight = fetch(`${API_BASE_URL}/auth/refresh`, { method: 'POST', credentials: 'include' })
+      .then(response => response.ok)
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+};
+
+export const apiRequest = async <T>(path: string, options: RequestInit = {}, retryOnUnauthorized = true): Promise<T> => {
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...options,
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json',
+      ...options.headers
+    }
+  });
+
+  // The access cookie is short-lived; renew it once and replay the request
+  if (response.status === 401 && retryOnUnauthorized && !NO_REFRESH_PATHS.includes(path) && await refreshSession()) {
+    return apiRequest<T>(path, options, false);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(
+      data.message || data.error || `Request failed with status ${response.status}`,
+      response.status,
+      data.errorCode,
+      data.fieldErrors
+    );
+  }
+
+  return data as T;
+};
+
+/**
+ * Header for routes guarded by CSRF checks; each call issues a fresh token
+ */
+export const csrfHeaders = async (): Promise<Record<string, string>> => {
+  const { csrfToken } = await apiRequest<{ csrfToken: string }>('/auth/csrf');
+  return { 'X-CSRF-Token': csrfToken };
+};
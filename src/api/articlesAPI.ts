@@ -0,0 +1,99 @@
+import { Article, SyncLog, Version } from '../types';
+import { apiRequest } from './apiClient';
+
+// Article, version and sync log persistence backed by the Kublish backend
+export const fetchArticles = async (): Promise<Article[]> => {
+  const { articles } = await apiRequest<{ articles: Article[] }>('/api/articles');
+  return articles;
+};
+
+export const createArticle = async (article: Article): Promise<Article> => {
+  const { article: created } = await apiRequest<{ article: Article }>('/api/articles', {
+    method: 'POST',
+    body: JSON.stringify(article)
+  });
+  return created;
+};
+
+export const saveArticle = async (article: Article): Promise<Article> => {
+  const { article: saved } = await apiRequest<{ article: Article }>(`/api/articles/${article.id}`, {
+    method: 'PUT',
+    body: JSON.stringify(article)
+  });
+  return saved;
+};
+
+// Moves the article to the trash; published articles are archived in Salesforce first
+export const deleteArticle = async (articleId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/articles/${articleId}`, { method: 'DELETE' });
+  return article;
+};
+
+export const fetchTrash = async (): Promise<Article[]> => {
+  const { articles } = await apiRequest<{ articles: Article[] }>('/api/articles/trash');
+  return articles;
+};
+
+export const restoreArticle = async (articleId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/articles/${articleId}/restore`, { method: 'POST' });
+  return article;
+};
+
+export const purgeArticle = async (articleId: string): Promise<void> => {
+  await apiRequest(`/api/articles/trash/${articleId}`, { method: 'DELETE' });
+};
+
+export const archiveArticle = async (articleId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/articles/${articleId}/archive`, { method: 'POST' });
+  return article;
+};
+
+export const unarchiveArticle = async (articleId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/articles/${articleId}/unarchive`, { method: 'POST' });
+  return article;
+};
+
+export const fetchAllVersions = async (): Promise<Version[]> => {
+  const { versions } = await apiRequest<{ versions: Version[] }>('/api/articles/versions');
+  return versions;
+};
+
+export const fetchVersions = async (articleId: string): Promise<Version[]> => {
+  const { versions } = await apiRequest<{ versions: Version[] }>(`/api/articles/${articleId}/versions`);
+  return versions;
+};
+
+// The server sets the rest of a version: who made it, when, and any sync details
+export type VersionInput = Pick<Version, 'articleId' | 'title' | 'body' | 'versionLabel' | 'notes'>;
+
+export const createVersion = async (version: VersionInput): Promise<Version> => {
+  const { version: created } = await apiRequest<{ version: Version }>(`/api/articles/${version.articleId}/versions`, {
+    method: 'POST',
+    body: JSON.stringify(version)
+  });
+  return created;
+};
+
+export const fetchSyncLogs = async (filters: {
+  user?: string;
+  articleId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+} = {}): Promise<SyncLog[]> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.append(key, value);
+  });
+  const query = params.toString();
+
+  const { syncLogs } = await apiRequest<{ syncLogs: SyncLog[] }>(`/api/sync-logs${query ? `?${query}` : ''}`);
+  return syncLogs;
+};
+
+export const createSyncLog = async (log: Omit<SyncLog, 'id' | 'timestamp' | 'user'>): Promise<SyncLog> => {
+  const { syncLog } = await apiRequest<{ syncLog: SyncLog }>('/api/sync-logs', {
+    method: 'POST',
+    body: JSON.stringify(log)
+  });
+  return syncLog;
+};
@@ -0,0 +1,36 @@
+import { CommentThread } from '../types';
+import { apiRequest } from './apiClient';
+
+// Editorial comment threads; they stay in Kublish and are never published
+export const fetchCommentThreads = async (articleId: string): Promise<CommentThread[]> => {
+  const { threads } = await apiRequest<{ threads: CommentThread[] }>(`/api/comments/${articleId}`);
+  return threads;
+};
+
+export const createCommentThread = async (articleId: string, quote: string, body: string): Promise<CommentThread> => {
+  const { thread } = await apiRequest<{ thread: CommentThread }>(`/api/comments/${articleId}`, {
+    method: 'POST',
+    body: JSON.stringify({ quote, body })
+  });
+  return thread;
+};
+
+export const replyToThread = async (articleId: string, threadId: string, body: string): Promise<CommentThread> => {
+  const { thread } = await apiRequest<{ thread: CommentThread }>(`/api/comments/${articleId}/${threadId}/replies`, {
+    method: 'POST',
+    body: JSON.stringify({ body })
+  });
+  return thread;
+};
+
+export const setThreadResolved = async (articleId: string, threadId: string, resolved: boolean): Promise<CommentThread> => {
+  const { thread } = await apiRequest<{ thread: CommentThread }>(
+    `/api/comments/${articleId}/${threadId}/${resolved ? 'resolve' : 'reopen'}`,
+    { method: 'POST' }
+  );
+  return thread;
+};
+
+export const deleteCommentThread = async (articleId: string, threadId: string): Promise<void> => {
+  await apiRequest(`/api/comments/${articleId}/${threadId}`, { method: 'DELETE' });
+};
@@ -0,0 +1,57 @@
+import { Article, ReviewRequest, WorkflowSettings } from '../types';
+import { apiRequest } from './apiClient';
+
+// Editorial review workflow: settings, the review queue and transitions
+export const getWorkflowSettings = async (): Promise<WorkflowSettings> => {
+  const { settings } = await apiRequest<{ settings: WorkflowSettings }>('/api/reviews/settings');
+  return settings;
+};
+
+export const saveWorkflowSettings = async (settings: WorkflowSettings): Promise<WorkflowSettings> => {
+  const { settings: saved } = await apiRequest<{ settings: WorkflowSettings }>('/api/reviews/settings', {
+    method: 'PUT',
+    body: JSON.stringify(settings)
+  });
+  return saved;
+};
+
+export const fetchReviewQueue = async (): Promise<ReviewRequest[]> => {
+  const { reviews } = await apiRequest<{ reviews: ReviewRequest[] }>('/api/reviews');
+  return reviews;
+};
+
+export const fetchReview = async (articleId: string): Promise<ReviewRequest | null> => {
+  const { review } = await apiRequest<{ review: ReviewRequest | null }>(`/api/reviews/${articleId}`);
+  return review;
+};
+
+export const submitForReview = async (articleId: string, comment?: string): Promise<ReviewRequest> => {
+  const { review } = await apiRequest<{ review: ReviewRequest }>(`/api/reviews/${articleId}/submit`, {
+    method: 'POST',
+    body: JSON.stringify({ comment })
+  });
+  return review;
+};
+
+export const approveArticle = async (articleId: string, comment?: string): Promise<ReviewRequest> => {
+  const { review } = await apiRequest<{ review: ReviewRequest }>(`/api/reviews/${articleId}/approve`, {
+    method: 'POST',
+    body: JSON.stringify({ comment })
+  });
+  return review;
+};
+
+export const requestChanges = async (articleId: string, comment: string): Promise<ReviewRequest> => {
+  const { review } = await apiRequest<{ review: ReviewRequest }>(`/api/reviews/${articleId}/request-changes`, {
+    method: 'POST',
+    body: JSON.stringify({ comment })
+  });
+  return review;
+};
+
+export const withdrawReview = async (articleId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/reviews/${articleId}/withdraw`, {
+    method: 'POST'
+  });
+  return article;
+};
@@ -1,95 +1,285 @@
-import { Article, SyncLog } from '../types';
+import { Article, SyncLog, Version } from '../types';
+import { fetchSyncLogs } from './articlesAPI';
+import { API_BASE_URL, apiRequest } from './apiClient';
 
-// Simulated API functions for Salesforce integration
-export const getArticlesFromSalesforce = async (): Promise<Article[]> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // In a real implementation, this would make a REST API call to Salesforce
-  return [
-    {
-      id: 'sf-1',
-      title: 'Salesforce Knowledge Article 1',
-      body: 'Content from Salesforce Knowledge base...',
-      category: 'Documentation',
-      tags: ['salesforce', 'knowledge'],
-      visibility: 'public',
-      status: 'published',
-      owner: 'SF Admin',
-      lastModified: new Date().toISOString(),
-      createdAt: new Date().toISOString()
-    }
-  ];
+// Knowledge calls go to the given org connection, or the default one
+const orgQuery = (orgId?: string) => (orgId ? `?orgId=${encodeURIComponent(orgId)}` : '');
+
+const JOB_POLL_INTERVAL = 2000; // ms
+
+// Salesforce integration API functions
+export interface ImportJob {
+  id: string;
+  orgId: string;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  overwrite: boolean;
+  imported: number;
+  updated: number;
+  skipped: number;
+  denied: number; // existing articles the importer may not edit
+  total: number;
+  createdAt: string;
+  finishedAt?: string;
+  error?: string;
+  errorCode?: string;
+}
+
+export const isImportJobFinished = (job: ImportJob): boolean =>
+  job.status === 'completed' || job.status === 'failed';
+
+/**
+ * Queue an import of the org's Knowledge articles; it runs on the backend
+ * and keeps going if the page is left
+ */
+export const startSalesforceImport = async (
+  options: { overwrite?: boolean; orgId?: string } = {}
+): Promise<ImportJob> => {
+  const { orgId, ...body } = options;
+  const { job } = await apiRequest<{ job: ImportJob }>(`/salesforce/knowledge/import${orgQuery(orgId)}`, {
+    method: 'POST',
+    body: JSON.stringify(body)
+  });
+  return job;
 };
 
-export const syncArticleToSalesforce = async (article: Article): Promise<{ success: boolean; message: string }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Simulate occasional failures
-  if (Math.random() < 0.2) {
-    throw new Error('Network timeout - please try again');
+export const getImportJob = async (jobId: string): Promise<ImportJob> => {
+  const { job } = await apiRequest<{ job: ImportJob }>(`/salesforce/knowledge/import/${encodeURIComponent(jobId)}`);
+  return job;
+};
+
+/**
+ * Poll an import until it finishes
+ */
+export const waitForImportJob = async (jobId: string, onUpdate?: (job: ImportJob) => void): Promise<ImportJob> => {
+  for (;;) {
+    const job = await getImportJob(jobId);
+    onUpdate?.(job);
+    if (isImportJobFinished(job)) return job;
+    await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL));
   }
-  
-  // In a real implementation, this would POST/PATCH to Salesforce Knowledge API
-  console.log('Syncing article to Salesforce:', article.title);
-  
-  return {
-    success: true,
-    message: `Article "${article.title}" successfully synced to Salesforce`
-  };
 };
 
-export const bulkPublishArticles = async (
+export interface SalesforceSyncResult {
+  article: Article;
+  version: Version; // records the Salesforce article and version ids
+}
+
+/**
+ * Write the article to a Salesforce draft, or a fresh draft of the article
+ * it was synced to before, and publish it when asked. The server records
+ * the synced version and the sync log.
+ */
+export const syncArticleToSalesforce = async (
+  articleId: string,
+  options: { publish?: boolean; orgId?: string } = {}
+): Promise<SalesforceSyncResult> => {
+  return apiRequest(`/api/articles/${articleId}/sync`, {
+    method: 'POST',
+    body: JSON.stringify(options)
+  });
+};
+
+/**
+ * Publish the version currently live in the source org, unchanged, to the
+ * target org. The server picks the version and records the promotion on it.
+ */
+export const promoteArticle = async (
+  articleId: string,
+  options: { sourceOrgId: string; targetOrgId: string }
+): Promise<Version> => {
+  const { version } = await apiRequest<{ version: Version }>(`/api/articles/${articleId}/promote`, {
+    method: 'POST',
+    body: JSON.stringify(options)
+  });
+  return version;
+};
+
+export type DriftField = 'title' | 'body' | 'categories' | 'publishStatus' | 'deleted';
+
+export interface DriftContent {
+  title: string;
+  body: string;
+  bodyHash: string;
+  dataCategories?: string[];
+  publishStatus: 'Online' | 'Draft' | 'Archived';
+}
+
+// An article changed or deleted in Salesforce since it was last synced to orgId
+export interface DriftReport {
+  articleId: string;
+  articleTitle: string;
+  orgId: string;
+  versionId: string; // the version last synced to the org
+  salesforceId: string;
+  salesforceVersionId?: string;
+  fields: DriftField[];
+  local: DriftContent; // as last synced
+  remote?: DriftContent; // as live in Salesforce; none once deleted there
+  detectedAt: string;
+}
+
+export const fetchDriftReports = async (): Promise<DriftReport[]> => {
+  const { reports } = await apiRequest<{ reports: DriftReport[] }>('/api/articles/drift');
+  return reports;
+};
+
+// Compare every synced article with Salesforce now instead of waiting for the next scan
+export const scanForDrift = async (): Promise<DriftReport[]> => {
+  const { reports } = await apiRequest<{ reports: DriftReport[] }>('/api/articles/drift/scan', { method: 'POST' });
+  return reports;
+};
+
+/**
+ * Take the version changed in Salesforce into Kublish, replacing edits not
+ * synced yet
+ */
+export const acceptRemoteChanges = async (articleId: string, orgId: string): Promise<Article> => {
+  const { article } = await apiRequest<{ article: Article }>(`/api/articles/${articleId}/drift/accept`, {
+    method: 'POST',
+    body: JSON.stringify({ orgId })
+  });
+  return article;
+};
+
+// Write the Kublish article over the version changed in Salesforce, as a draft
+export const overwriteRemoteChanges = async (articleId: string, orgId: string): Promise<Version> => {
+  const { version } = await apiRequest<{ version: Version }>(`/api/articles/${articleId}/drift/overwrite`, {
+    method: 'POST',
+    body: JSON.stringify({ orgId })
+  });
+  return version;
+};
+
+export type PublishJobStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+export interface PublishJobItem {
+  articleId: string;
+  title: string;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  attempts: number;
+  error?: string;
+  errorCode?: string;
+  nextAttemptAt?: string;
+  knowledgeArticleId?: string;
+  versionId?: string;
+}
+
+export interface PublishJob {
+  id: string;
+  orgId: string;
+  status: PublishJobStatus;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  items: PublishJobItem[];
+}
+
+export const isPublishJobFinished = (job: PublishJob): boolean =>
+  job.status === 'completed' || job.status === 'cancelled';
+
+/**
+ * Queue a bulk publish on the backend; it keeps running if the page is left
+ */
+export const startBulkPublishJob = async (
   articleIds: string[],
-  articles: Article[],
-  onProgress?: (completed: number, total: number) => void
-): Promise<{ success: number; failed: number; errors: string[] }> => {
-  const results = { success: 0, failed: 0, errors: [] as string[] };
-  
-  for (let i = 0; i < articleIds.length; i++) {
-    const article = articles.find(a => a.id === articleIds[i]);
-    if (!article) continue;
-    
+  options: { orgId?: string } = {}
+): Promise<PublishJob> => {
+  const { job } = await apiRequest<{ job: PublishJob }>('/salesforce/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ articleIds, orgId: options.orgId })
+  });
+  return job;
+};
+
+export const getPublishJob = async (jobId: string): Promise<PublishJob> => {
+  const { job } = await apiRequest<{ job: PublishJob }>(`/salesforce/jobs/${encodeURIComponent(jobId)}`);
+  return job;
+};
+
+export const listPublishJobs = async (options: { active?: boolean } = {}): Promise<PublishJob[]> => {
+  const { jobs } = await apiRequest<{ jobs: PublishJob[] }>(`/salesforce/jobs${options.active ? '?active=true' : ''}`);
+  return jobs;
+};
+
+export const cancelPublishJob = async (jobId: string): Promise<void> => {
+  await apiRequest(`/salesforce/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' });
+};
+
+/**
+ * Queue a new job for just the failed items of a finished one
+ */
+export const retryFailedPublishItems = async (jobId: string): Promise<PublishJob> => {
+  const { job } = await apiRequest<{ job: PublishJob }>(`/salesforce/jobs/${encodeURIComponent(jobId)}/retry`, {
+    method: 'POST'
+  });
+  return job;
+};
+
+/**
+ * Follow a job over server-sent events until it finishes. Returns an
+ * unsubscribe function.
+ */
+export const subscribeToPublishJob = (jobId: string, onUpdate: (job: PublishJob) => void): (() => void) => {
+  let stopped = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  const source = new EventSource(
+    `${API_BASE_URL}/salesforce/jobs/${encodeURIComponent(jobId)}/events`,
+    { withCredentials: true }
+  );
+
+  // EventSource can't renew an expired session cookie; polling goes through apiRequest, which can
+  const poll = async () => {
+    if (stopped) return;
     try {
-      await syncArticleToSalesforce(article);
-      results.success++;
+      const job = await getPublishJob(jobId);
+      onUpdate(job);
+      if (isPublishJobFinished(job)) return;
     } catch (error) {
-      results.failed++;
-      results.errors.push(`Failed to publish "${article.title}": ${error}`);
+      console.error('Failed to poll publish job:', error);
     }
-    
-    onProgress?.(i + 1, articleIds.length);
-  }
-  
-  return results;
-};
+    pollTimer = setTimeout(poll, JOB_POLL_INTERVAL);
+  };
 
-export const saveDraftLocally = async (article: Article): Promise<{ success: boolean; message: string }> => {
-  // Simulate saving to local storage or staging backend
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // In a real implementation, this would save to a local database or staging API
-  console.log('Saving draft locally:', article.title);
-  
-  return {
-    success: true,
-    message: `Draft "${article.title}" saved successfully`
+  source.onmessage = (event) => {
+    const job = JSON.parse(event.data) as PublishJob;
+    onUpdate(job);
+    if (isPublishJobFinished(job)) source.close();
+  };
+  source.onerror = () => {
+    source.close();
+    poll();
+  };
+
+  return () => {
+    stopped = true;
+    source.close();
+    clearTimeout(pollTimer);
   };
 };
 
+export interface SalesforceLimits {
+  orgId: string;
+  dailyApiRequests: { used: number; max: number; remaining: number };
+  throttleThreshold: number; // share of max after which backend calls are throttled
+  throttled: boolean;
+  limits: Record<string, { max: number; remaining: number }>;
+  retrievedAt: string;
+}
+
+export const getSalesforceLimits = async (orgId?: string): Promise<SalesforceLimits> => {
+  return apiRequest(`/salesforce/limits${orgQuery(orgId)}`);
+};
+
 export const getSyncLogs = async (filters?: {
   user?: string;
   articleId?: string;
   dateFrom?: string;
   dateTo?: string;
 }): Promise<SyncLog[]> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  // In a real implementation, this would fetch logs from backend API
-  // For now, return demo data that would be filtered server-side
-  return [];
+  return fetchSyncLogs(filters);
 };
 
 export const loginWithSalesforce = async (): Promise<{ user: any; accessToken: string }> => {
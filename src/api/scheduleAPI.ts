@@ -0,0 +1,65 @@
+import { ScheduledAction } from '../types';
+import { apiRequest } from './apiClient';
+
+export const SCHEDULE_ACTION_LABELS: Record<ScheduledAction['action'], string> = {
+  publish: 'Publish',
+  archive: 'Archive',
+  visibility: 'Change visibility'
+};
+
+// Scheduled publish, archive and visibility changes, run by the backend scheduler
+export const fetchScheduledActions = async (filters: {
+  articleId?: string;
+  from?: string;
+  to?: string;
+  status?: ScheduledAction['status'];
+} = {}): Promise<ScheduledAction[]> => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  const query = params.toString() ? `?${params.toString()}` : '';
+  const { schedules } = await apiRequest<{ schedules: ScheduledAction[] }>(`/api/schedules${query}`);
+  return schedules;
+};
+
+/**
+ * localTime is a wall-clock time like "2026-11-02T09:00" in timeZone
+ */
+export const scheduleArticleAction = async (options: {
+  articleId: string;
+  action: ScheduledAction['action'];
+  visibility?: 'internal' | 'public';
+  localTime: string;
+  timeZone: string;
+  orgId?: string;
+}): Promise<ScheduledAction> => {
+  const { schedule } = await apiRequest<{ schedule: ScheduledAction }>('/api/schedules', {
+    method: 'POST',
+    body: JSON.stringify(options)
+  });
+  return schedule;
+};
+
+export const cancelScheduledAction = async (scheduleId: string): Promise<ScheduledAction> => {
+  const { schedule } = await apiRequest<{ schedule: ScheduledAction }>(`/api/schedules/${scheduleId}`, {
+    method: 'DELETE'
+  });
+  return schedule;
+};
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * When and where an action runs, in the zone it was scheduled in
+ */
+export const formatScheduledTime = (action: ScheduledAction): string =>
+  `${new Date(action.runAt).toLocaleString('en-US', {
+    timeZone: action.timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })} (${action.timeZone})`;
@@ -1,174 +1,195 @@
 import { User } from '../types';
+import { API_BASE_URL, apiRequest, csrfHeaders } from './apiClient';
 
-// Simulated API functions for user management
+// User management, restricted to Admins by the backend
 export const getUsers = async (): Promise<User[]> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  // In a real implementation, this would make a REST API call to fetch users
-  return [
-    {
-      id: 'user-1',
-      name: 'John Salesforce',
-      email: 'john@company.com',
-      accessToken: 'mock-sf-access-token-1',
-      role: 'Admin'
-    },
-    {
-      id: 'user-2',
-      name: 'Jane Editor',
-      email: 'jane@company.com',
-      accessToken: 'mock-sf-access-token-2',
-      role: 'Editor'
-    },
-    {
-      id: 'user-3',
-      name: 'Bob Viewer',
-      email: 'bob@company.com',
-      accessToken: 'mock-sf-access-token-3',
-      role: 'Viewer'
-    },
-    {
-      id: 'user-4',
-      name: 'Alice Writer',
-      email: 'alice@company.com',
-      accessToken: 'mock-sf-access-token-4',
-      role: 'Editor'
-    }
-  ];
+  const { users } = await apiRequest<{ users: User[] }>('/api/users');
+  return users;
 };
 
 export const updateUserRole = async (userId: string, role: 'Admin' | 'Editor' | 'Viewer'): Promise<{ success: boolean; message: string }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Simulate occasional failures
-  if (Math.random() < 0.1) {
-    throw new Error('Network timeout - please try again');
-  }
-  
-  // In a real implementation, this would PUT/PATCH to user management API
-  console.log('Updating user role:', userId, role);
-  
-  return {
-    success: true,
-    message: `User role updated to ${role} successfully`
-  };
+  return apiRequest(`/api/users/${encodeURIComponent(userId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role })
+  });
 };
 
 export const deleteUser = async (userId: string): Promise<{ success: boolean; message: string }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Simulate occasional failures
-  if (Math.random() < 0.1) {
-    throw new Error('Cannot delete user - please try again');
-  }
-  
-  // In a real implementation, this would DELETE to user management API
-  console.log('Deleting user:', userId);
-  
-  return {
-    success: true,
-    message: 'User deleted successfully'
-  };
+  return apiRequest(`/api/users/${encodeURIComponent(userId)}`, { method: 'DELETE' });
 };
 
 export const createUser = async (email: string, role: 'Admin' | 'Editor' | 'Viewer'): Promise<{ success: boolean; message: string; user?: User }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1200));
-  
-  // Simulate occasional failures
-  if (Math.random() < 0.1) {
-    throw new Error('Failed to create user - please try again');
-  }
-  
-  // Check if email already exists (simulate)
-  const existingUsers = await getUsers();
-  if (existingUsers.some(user => user.email === email)) {
-    throw new Error('User with this email already exists');
-  }
-  
-  // In a real implementation, this would POST to user management API
-  const newUser: User = {
-    id: `user-${Date.now()}`,
-    name: email.split('@')[0].replace(/[._]/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-    email,
-    accessToken: `mock-sf-access-token-${Date.now()}`,
-    role
-  };
-  
-  console.log('Creating user:', newUser);
-  
-  return {
-    success: true,
-    message: `User created successfully. Invitation sent to ${email}`,
-    user: newUser
-  };
+  return apiRequest('/api/users', {
+    method: 'POST',
+    body: JSON.stringify({ email, role })
+  });
 };
 
 // Salesforce Organization Integration API
+export type SalesforceEnvironment = 'production' | 'sandbox' | 'custom';
+
 export interface SalesforceConnection {
   isConnected: boolean;
   username?: string;
   lastSyncTime?: string;
   syncTarget?: string;
   connectionId?: string;
+  name?: string;
+  isDefault?: boolean;
+  instanceUrl?: string;
+  environment?: SalesforceEnvironment;
+  loginUrl?: string;
+}
+
+interface ConnectionStatus {
+  id?: string;
+  name?: string;
+  connected: boolean;
+  isDefault?: boolean;
+  instanceUrl?: string;
+  environment?: SalesforceEnvironment;
+  loginUrl?: string;
+  connectedAt?: string;
+  connectedBy?: string;
 }
 
-export const getSalesforceConnection = async (): Promise<SalesforceConnection> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 800));
-  
-  // In a real implementation, this would GET from /api/org/salesforce
+const ENVIRONMENT_LABELS: Record<SalesforceEnvironment, string> = {
+  production: 'Production',
+  sandbox: 'Sandbox',
+  custom: 'My Domain'
+};
+
+const toSalesforceConnection = (status: ConnectionStatus): SalesforceConnection => {
+  if (!status.connected) return { isConnected: false, connectionId: status.id, name: status.name };
+
   return {
     isConnected: true,
-    username: 'admin@company.salesforce.com',
-    lastSyncTime: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-    syncTarget: 'Knowledge Base (Production)',
-    connectionId: 'sf-conn-12345'
+    username: status.connectedBy,
+    lastSyncTime: status.connectedAt,
+    syncTarget: `Knowledge Base (${ENVIRONMENT_LABELS[status.environment || 'production']})`,
+    connectionId: status.id,
+    name: status.name,
+    isDefault: status.isDefault,
+    instanceUrl: status.instanceUrl,
+    environment: status.environment,
+    loginUrl: status.loginUrl
   };
 };
 
-export const connectSalesforce = async (environment: 'production' | 'sandbox' = 'production'): Promise<{ success: boolean; message: string; connection?: SalesforceConnection }> => {
-  // Simulate OAuth flow delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  // Simulate occasional failures
-  if (Math.random() < 0.15) {
-    throw new Error('Salesforce connection failed - please try again');
-  }
-  
-  // In a real implementation, this would:
-  // 1. Use correct OAuth endpoint based on environment
-  // 2. Log the chosen environment
-  // 3. Store environment info with credentials
-  const connection: SalesforceConnection = {
-    isConnected: true,
-    username: `admin@company.${environment === 'sandbox' ? 'sandbox.' : ''}salesforce.com`,
-    lastSyncTime: new Date().toISOString(),
-    syncTarget: `Knowledge Base (${environment === 'production' ? 'Production' : 'Sandbox'})`,
-    connectionId: `sf-conn-${Date.now()}`
-  };
-  
-  console.log(`Connecting to Salesforce ${environment}:`, connection);
-  
-  return {
-    success: true,
-    message: `Successfully connected to Salesforce ${environment}`,
-    connection
-  };
+/**
+ * Every org connected to the workspace; publishing can target any of them
+ */
+export const getSalesforceConnections = async (): Promise<SalesforceConnection[]> => {
+  const { connections } = await apiRequest<{ connections: ConnectionStatus[] }>('/auth/salesforce/connections');
+  return connections.map(toSalesforceConnection);
+};
+
+/**
+ * Status of one org connection, the default one when orgId is omitted
+ */
+export const getSalesforceConnection = async (orgId?: string): Promise<SalesforceConnection> => {
+  const query = orgId ? `?orgId=${encodeURIComponent(orgId)}` : '';
+  return toSalesforceConnection(await apiRequest<ConnectionStatus>(`/auth/salesforce/status${query}`));
+};
+
+/**
+ * Starts the OAuth flow for a new org connection in the browser; the backend
+ * redirects back to /admin?salesforce=connected once the org is linked.
+ * loginUrl is the My Domain host and only used for the custom environment.
+ */
+export const connectSalesforce = (
+  environment: SalesforceEnvironment = 'production',
+  loginUrl?: string,
+  name?: string
+): void => {
+  const params = new URLSearchParams({ environment });
+  if (environment === 'custom' && loginUrl) params.set('loginUrl', loginUrl);
+  if (name) params.set('name', name);
+
+  window.location.assign(`${API_BASE_URL}/auth/salesforce/initiate?${params.toString()}`);
+};
+
+export const setDefaultSalesforceOrg = async (orgId: string): Promise<SalesforceConnection> => {
+  const { connection } = await apiRequest<{ connection: ConnectionStatus }>(
+    `/auth/salesforce/connections/${encodeURIComponent(orgId)}`,
+    {
+      method: 'PATCH',
+      headers: await csrfHeaders(),
+      body: JSON.stringify({ isDefault: true })
+    }
+  );
+  return toSalesforceConnection(connection);
 };
 
-export const disconnectSalesforce = async (): Promise<{ success: boolean; message: string }> => {
-  // Simulate API call delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // In a real implementation, this would revoke tokens and clear connection
-  console.log('Disconnecting from Salesforce');
-  
+export const disconnectSalesforce = async (orgId?: string): Promise<{ success: boolean; message: string }> => {
+  const query = orgId ? `?orgId=${encodeURIComponent(orgId)}` : '';
+  const { message } = await apiRequest<{ message: string }>(`/auth/salesforce/disconnect${query}`, {
+    method: 'POST',
+    headers: await csrfHeaders()
+  });
+
   return {
     success: true,
-    message: 'Successfully disconnected from Salesforce'
+    message
   };
-};
\ No newline at end of file
+};
+
+export type KnowledgeChannel = 'IsVisibleInApp' | 'IsVisibleInPkb' | 'IsVisibleInCsp' | 'IsVisibleInPrm';
+
+/**
+ * Knowledge__kav field each article field is written to, and the channel
+ * flags each visibility turns on
+ */
+export interface KnowledgeFieldMapping {
+  title: string;
+  body: string;
+  summary: string | null;
+  tags: string | null;
+  publicChannels: KnowledgeChannel[];
+  internalChannels: KnowledgeChannel[];
+}
+
+export interface SalesforceOrgSettings {
+  orgId: string;
+  apiVersion: string;
+  defaultApiVersion: string;
+  fieldMapping: KnowledgeFieldMapping;
+  customized: boolean;
+}
+
+export interface KnowledgeFieldInfo {
+  name: string;
+  label: string;
+  type: string;
+  length: number;
+  createable: boolean;
+  updateable: boolean;
+}
+
+export const getSalesforceOrgSettings = (orgId: string): Promise<SalesforceOrgSettings> =>
+  apiRequest<SalesforceOrgSettings>(`/auth/salesforce/connections/${encodeURIComponent(orgId)}/settings`);
+
+/**
+ * API versions the org serves and its Knowledge__kav fields at apiVersion
+ */
+export const describeSalesforceOrg = (
+  orgId: string,
+  apiVersion?: string
+): Promise<{ apiVersions: string[]; fields: KnowledgeFieldInfo[] }> => {
+  const query = apiVersion ? `?apiVersion=${encodeURIComponent(apiVersion)}` : '';
+  return apiRequest(`/auth/salesforce/connections/${encodeURIComponent(orgId)}/describe${query}`);
+};
+
+/**
+ * Save the org's API version and mapping; the backend rejects fields the
+ * org does not have
+ */
+export const saveSalesforceOrgSettings = async (
+  orgId: string,
+  settings: { apiVersion: string; fieldMapping: KnowledgeFieldMapping } | { reset: true }
+): Promise<SalesforceOrgSettings> =>
+  apiRequest<SalesforceOrgSettings>(`/auth/salesforce/connections/${encodeURIComponent(orgId)}/settings`, {
+    method: 'PUT',
+    headers: await csrfHeaders(),
+    body: JSON.stringify(settings)
+  });
@@ -0,0 +1,230 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import Modal from './Modal';
+import { useAppContext } from '../context/AppContext';
+import { approveArticle, fetchReview, requestChanges, submitForReview, withdrawReview } from '../api/reviewAPI';
+import { canEditArticle, canReviewArticles } from '../utils/permissions';
+import { Article, ReviewRequest } from '../types';
+import { Send, ThumbsUp, MessageSquare, Undo2, AlertTriangle, UserCheck } from 'lucide-react';
+
+interface ArticleReviewProps {
+  article: Article;
+  workflowEnabled: boolean;
+}
+
+type ReviewAction = 'submit' | 'approve' | 'request_changes';
+
+const ACTION_TITLES: Record<ReviewAction, string> = {
+  submit: 'Submit for Review',
+  approve: 'Approve Article',
+  request_changes: 'Request Changes'
+};
+
+const ArticleReview: React.FC<ArticleReviewProps> = ({ article, workflowEnabled }) => {
+  const { refreshData, user } = useAppContext();
+  const [review, setReview] = useState<ReviewRequest | null>(null);
+  const [action, setAction] = useState<ReviewAction | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReview(article.id)
+      .then(setReview)
+      .catch(error => console.error('Failed to load review:', error));
+  }, [article.id, article.status]);
+
+  const canEdit = canEditArticle(user, article);
+  const canSubmit = workflowEnabled && canEdit && ['draft', 'changes_requested', 'published'].includes(article.status);
+  const canDecide = article.status === 'in_review' && canReviewArticles(user) &&
+    !!user && !!review?.reviewerIds.includes(user.id);
+  const canWithdraw = canEdit && ['in_review', 'changes_requested', 'approved'].includes(article.status);
+
+  if (!workflowEnabled && !review) return null;
+
+  const openAction = (next: ReviewAction) => {
+    setAction(next);
+    setComment('');
+    setError(null);
+  };
+
+  const handleAction = async () => {
+    if (!action) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      if (action === 'submit') {
+        setReview(await submitForReview(article.id, comment.trim() || undefined));
+      } else if (action === 'approve') {
+        setReview(await approveArticle(article.id, comment.trim() || undefined));
+      } else {
+        setReview(await requestChanges(article.id, comment.trim()));
+      }
+      setAction(null);
+      await refreshData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Review action failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!confirm(`Withdraw "${article.title}" from review? It goes back to ${article.statusBeforeReview === 'published' ? 'published' : 'draft'}.`)) return;
+
+    try {
+      await withdrawReview(article.id);
+      setReview(null);
+      await refreshData();
+    } catch (err) {
+      alert(`Failed to withdraw review: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  // Only the latest decision of each reviewer counts
+  const latestDecisions = review
+    ? review.reviewerIds.map((reviewerId, index) => ({
+        reviewerId,
+        reviewer: review.reviewers[index],
+        decision: [...review.decisions].reverse().find(d => d.reviewerId === reviewerId)
+      }))
+    : [];
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Review</h3>
+        <Link to="/reviews" className="text-xs text-purple-600 hover:text-purple-800">
+          Review queue
+        </Link>
+      </div>
+
+      {review ? (
+        <div className="space-y-3 mb-4 text-sm">
+          <p className="text-gray-600">
+            Submitted by <span className="font-medium text-gray-900">{review.submittedBy}</span> on{' '}
+            {new Date(review.submittedAt).toLocaleDateString()}
+          </p>
+          {review.comment && <p className="text-gray-600 italic">"{review.comment}"</p>}
+          <p className="text-gray-600">
+            {review.approvals} of {review.requiredApprovals} approval{review.requiredApprovals === 1 ? '' : 's'}
+          </p>
+          <ul className="space-y-2">
+            {latestDecisions.map(({ reviewerId, reviewer, decision }) => (
+              <li key={reviewerId} className="flex items-start space-x-2">
+                <span className="mt-0.5">
+                  {decision?.decision === 'approved' ? (
+                    <ThumbsUp className="w-4 h-4 text-emerald-600" />
+                  ) : decision?.decision === 'changes_requested' ? (
+                    <MessageSquare className="w-4 h-4 text-amber-600" />
+                  ) : (
+                    <UserCheck className="w-4 h-4 text-gray-400" />
+                  )}
+                </span>
+                <div>
+                  <div className="text-gray-900">{reviewer}</div>
+                  <div className="text-xs text-gray-500">
+                    {decision
+                      ? `${decision.decision === 'approved' ? 'Approved' : 'Requested changes'}${decision.comment ? `: ${decision.comment}` : ''}`
+                      : 'Waiting for review'}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-4">
+          {article.status === 'published'
+            ? 'Changes to this article need approval before they are published again.'
+            : 'This article needs approval before it can be published.'}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {canDecide && (
+          <>
+            <button
+              onClick={() => openAction('approve')}
+              className="w-full bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <ThumbsUp className="w-4 h-4" />
+              <span>Approve</span>
+            </button>
+            <button
+              onClick={() => openAction('request_changes')}
+              className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+            >
+              <MessageSquare className="w-4 h-4" />
+              <span>Request Changes</span>
+            </button>
+          </>
+        )}
+        {canSubmit && (
+          <button
+            onClick={() => openAction('submit')}
+            className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+          >
+            <Send className="w-4 h-4" />
+            <span>{article.status === 'changes_requested' ? 'Resubmit for Review' : 'Submit for Review'}</span>
+          </button>
+        )}
+        {canWithdraw && (
+          <button
+            onClick={handleWithdraw}
+            className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+          >
+            <Undo2 className="w-4 h-4" />
+            <span>Withdraw from Review</span>
+          </button>
+        )}
+      </div>
+
+      <Modal
+        isOpen={!!action}
+        onClose={() => setAction(null)}
+        title={action ? ACTION_TITLES[action] : ''}
+        description={`"${article.title}"`}
+        size="md"
+      >
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center space-x-2">
+              <AlertTriangle className="w-4 h-4" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {action === 'request_changes' ? 'What needs to change?' : 'Comment (optional)'}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+            />
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setAction(null)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAction}
+              disabled={isSaving || (action === 'request_changes' && !comment.trim())}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white rounded-lg transition-all duration-200"
+            >
+              {isSaving ? 'Saving...' : action ? ACTION_TITLES[action] : ''}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default ArticleReview;
@@ -0,0 +1,233 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import Modal from './Modal';
+import { CalendarClock, Upload, Archive, Eye, X, AlertTriangle } from 'lucide-react';
+import {
+  cancelScheduledAction,
+  fetchScheduledActions,
+  formatScheduledTime,
+  getBrowserTimeZone,
+  SCHEDULE_ACTION_LABELS,
+  scheduleArticleAction
+} from '../api/scheduleAPI';
+import { Article, ScheduledAction } from '../types';
+
+interface ArticleScheduleProps {
+  article: Article;
+  orgId?: string; // org scheduled publishes go to; the default org when unset
+  canSchedule: boolean;
+}
+
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Helsinki',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+export const ScheduleActionIcon: React.FC<{ action: ScheduledAction['action'] }> = ({ action }) => {
+  switch (action) {
+    case 'publish':
+      return <Upload className="w-4 h-4" />;
+    case 'archive':
+      return <Archive className="w-4 h-4" />;
+    default:
+      return <Eye className="w-4 h-4" />;
+  }
+};
+
+const ArticleSchedule: React.FC<ArticleScheduleProps> = ({ article, orgId, canSchedule }) => {
+  const browserTimeZone = getBrowserTimeZone();
+  const [schedules, setSchedules] = useState<ScheduledAction[]>([]);
+  const [showModal, setShowModal] = useState(false);
+  const [action, setAction] = useState<ScheduledAction['action']>('publish');
+  const [visibility, setVisibility] = useState<'internal' | 'public'>(article.visibility === 'public' ? 'internal' : 'public');
+  const [localTime, setLocalTime] = useState('');
+  const [timeZone, setTimeZone] = useState(browserTimeZone);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const timeZones = COMMON_TIME_ZONES.includes(browserTimeZone)
+    ? COMMON_TIME_ZONES
+    : [browserTimeZone, ...COMMON_TIME_ZONES];
+
+  useEffect(() => {
+    fetchScheduledActions({ articleId: article.id, status: 'pending' })
+      .then(setSchedules)
+      .catch(error => console.error('Failed to load scheduled actions:', error));
+  }, [article.id]);
+
+  const handleSchedule = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const schedule = await scheduleArticleAction({
+        articleId: article.id,
+        action,
+        visibility: action === 'visibility' ? visibility : undefined,
+        localTime,
+        timeZone,
+        orgId
+      });
+      setSchedules(prev => [...prev, schedule].sort((a, b) => a.runAt.localeCompare(b.runAt)));
+      setShowModal(false);
+      setLocalTime('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule action');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async (schedule: ScheduledAction) => {
+    try {
+      await cancelScheduledAction(schedule.id);
+      setSchedules(prev => prev.filter(s => s.id !== schedule.id));
+    } catch (err) {
+      alert(`Failed to cancel scheduled action: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Schedule</h3>
+        <Link to="/schedule" className="text-xs text-purple-600 hover:text-purple-800">
+          Calendar
+        </Link>
+      </div>
+
+      {schedules.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">Nothing scheduled for this article.</p>
+      ) : (
+        <ul className="space-y-3 mb-4">
+          {schedules.map(schedule => (
+            <li key={schedule.id} className="flex items-start justify-between text-sm">
+              <div className="flex items-start space-x-2 text-gray-700">
+                <span className="mt-0.5 text-purple-600"><ScheduleActionIcon action={schedule.action} /></span>
+                <div>
+                  <div className="font-medium">
+                    {SCHEDULE_ACTION_LABELS[schedule.action]}
+                    {schedule.action === 'visibility' && ` to ${schedule.visibility}`}
+                  </div>
+                  <div className="text-xs text-gray-500">{formatScheduledTime(schedule)}</div>
+                </div>
+              </div>
+              {canSchedule && (
+                <button
+                  onClick={() => handleCancel(schedule)}
+                  title="Cancel"
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canSchedule && (
+        <button
+          onClick={() => setShowModal(true)}
+          className="w-full bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+        >
+          <CalendarClock className="w-4 h-4" />
+          <span>Schedule Action</span>
+        </button>
+      )}
+
+      <Modal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        title="Schedule Action"
+        description={`Run an action on "${article.title}" at a set time`}
+        size="md"
+      >
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center space-x-2">
+              <AlertTriangle className="w-4 h-4" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Action</label>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as ScheduledAction['action'])}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+            >
+              {(Object.keys(SCHEDULE_ACTION_LABELS) as ScheduledAction['action'][]).map(key => (
+                <option key={key} value={key}>{SCHEDULE_ACTION_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {action === 'visibility' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">New visibility</label>
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as 'internal' | 'public')}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+              >
+                <option value="public">Public</option>
+                <option value="internal">Internal</option>
+              </select>
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Date and time</label>
+              <input
+                type="datetime-local"
+                value={localTime}
+                onChange={(e) => setLocalTime(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Time zone</label>
+              <select
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+              >
+                {timeZones.map(zone => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setShowModal(false)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSchedule}
+              disabled={isSaving || !localTime}
+              className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white rounded-lg transition-all duration-200"
+            >
+              {isSaving ? 'Scheduling...' : 'Schedule'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default ArticleSchedule;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Archive, CheckCircle, Clock, Eye, MessageSquare, ShieldCheck } from 'lucide-react';
+import { Article } from '../types';
+
+interface ArticleStatusBadgeProps {
+  status: Article['status'];
+  size?: 'xs' | 'sm';
+}
+
+const STATUS_STYLES: Record<Article['status'], { label: string; className: string; icon: React.ElementType }> = {
+  draft: {
+    label: 'Draft',
+    className: 'from-orange-100 to-yellow-100 text-orange-700 border-orange-200',
+    icon: Clock
+  },
+  in_review: {
+    label: 'In Review',
+    className: 'from-blue-100 to-indigo-100 text-blue-700 border-blue-200',
+    icon: Eye
+  },
+  changes_requested: {
+    label: 'Changes Requested',
+    className: 'from-rose-100 to-pink-100 text-rose-700 border-rose-200',
+    icon: MessageSquare
+  },
+  approved: {
+    label: 'Approved',
+    className: 'from-violet-100 to-purple-100 text-violet-700 border-violet-200',
+    icon: ShieldCheck
+  },
+  published: {
+    label: 'Published',
+    className: 'from-emerald-100 to-cyan-100 text-emerald-700 border-emerald-200',
+    icon: CheckCircle
+  },
+  archived: {
+    label: 'Archived',
+    className: 'from-gray-100 to-slate-100 text-gray-700 border-gray-200',
+    icon: Archive
+  }
+};
+
+const ArticleStatusBadge: React.FC<ArticleStatusBadgeProps> = ({ status, size = 'xs' }) => {
+  const { label, className, icon: Icon } = STATUS_STYLES[status] || STATUS_STYLES.draft;
+  return (
+    <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full ${size === 'sm' ? 'text-sm' : 'text-xs'} font-medium bg-gradient-to-r border ${className}`}>
+      <Icon className="w-3 h-3" />
+      <span>{label}</span>
+    </span>
+  );
+};
+
+export default ArticleStatusBadge;
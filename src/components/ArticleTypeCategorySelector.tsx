@@ -6,10 +6,10 @@ import {
   getAllowedCategoryGroups, 
   validateCategorySelections,
   getCategoryGroupHelp,
-  formatCategoryPath,
   ArticleType,
   CategoryValidation
 } from '../utils/articleUtils';
+import { formatCategoryPath, getAllCategoryIds } from '../utils/categoryUtils';
 import { 
   ChevronDown, 
   ChevronRight, 
@@ -221,18 +221,6 @@ const ArticleTypeCategorySelector: React.FC<ArticleTypeCategorySelectorProps> =
     return selectedCategories.filter(catId => groupCategoryIds.includes(catId));
   };
 
-  const getAllCategoryIds = (categories: DataCategory[]): string[] => {
-    const ids: string[] = [];
-    const traverse = (cats: DataCategory[]) => {
-      for (const cat of cats) {
-        ids.push(cat.id);
-        if (cat.children) traverse(cat.children);
-      }
-    };
-    traverse(categories);
-    return ids;
-  };
-
   if (loading) {
     return (
       <div className={`bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg ${className}`}>
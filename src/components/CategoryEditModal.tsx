@@ -1,17 +1,12 @@
-// ...imports unchanged...
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import FocusLock from 'react-focus-lock';
-import { useAppContext } from '../context/AppContext';
 import {
   X, FolderOpen, Folder, ChevronRight, ChevronDown, Tag, AlertTriangle, CheckCircle, Save, Loader2
 } from 'lucide-react';
-import {
-  DataCategoryGroup,
-  DataCategory,
-  ArticleCategorySelection,
-  useArticleCategories
-} from '../hooks/useArticleCategories';
+import { DataCategory, ArticleCategorySelection } from '../types';
+import { useArticleCategories } from '../hooks/useArticleCategories';
+import { findCategoryById, getChildCategoryIds, getParentCategoryIds } from '../utils/categoryUtils';
 
 interface CategoryEditModalProps {
   isOpen: boolean;
@@ -20,7 +15,92 @@ interface CategoryEditModalProps {
   onSave: (selections: ArticleCategorySelection[]) => void;
 }
 
-// ...helper functions unchanged...
+interface CategoryTreeProps {
+  categories: DataCategory[];
+  selectedCategories: string[];
+  onToggleCategory: (categoryId: string) => void;
+  selectionType: 'single' | 'multi';
+  level?: number;
+  disabled?: boolean;
+}
+
+const CategoryTree: React.FC<CategoryTreeProps> = ({
+  categories,
+  selectedCategories,
+  onToggleCategory,
+  selectionType,
+  level = 0,
+  disabled = false
+}) => {
+  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (categoryId: string) => {
+    const newExpanded = new Set(expandedCategories);
+    if (newExpanded.has(categoryId)) {
+      newExpanded.delete(categoryId);
+    } else {
+      newExpanded.add(categoryId);
+    }
+    setExpandedCategories(newExpanded);
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {categories.map(category => {
+        const hasChildren = category.children && category.children.length > 0;
+        const isExpanded = expandedCategories.has(category.id);
+        const isSelected = selectedCategories.includes(category.id);
+
+        return (
+          <div key={category.id}>
+            <div
+              className={`flex items-center gap-1 px-1 py-1 rounded-md ${isSelected ? 'bg-purple-50' : 'hover:bg-gray-50'}`}
+              style={{ paddingLeft: `${level * 14 + 4}px` }}
+            >
+              {hasChildren ? (
+                <button
+                  onClick={() => toggleExpanded(category.id)}
+                  className="p-0.5 text-gray-400 hover:text-gray-600"
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </button>
+              ) : (
+                <div className="w-4" />
+              )}
+              {hasChildren ? (
+                isExpanded ? <FolderOpen className="w-4 h-4 text-blue-500" /> : <Folder className="w-4 h-4 text-gray-500" />
+              ) : (
+                <Tag className="w-4 h-4 text-gray-400" />
+              )}
+              <label className="flex items-center gap-2 cursor-pointer flex-1">
+                <input
+                  type={selectionType === 'single' ? 'radio' : 'checkbox'}
+                  checked={isSelected}
+                  onChange={() => onToggleCategory(category.id)}
+                  disabled={disabled}
+                  className="border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span className={`text-sm ${isSelected ? 'font-medium text-purple-700' : 'text-gray-700'}`}>
+                  {category.label}
+                </span>
+              </label>
+            </div>
+            {hasChildren && isExpanded && (
+              <CategoryTree
+                categories={category.children!}
+                selectedCategories={selectedCategories}
+                onToggleCategory={onToggleCategory}
+                selectionType={selectionType}
+                level={level + 1}
+                disabled={disabled}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
 
 const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
   isOpen,
@@ -31,8 +111,6 @@ const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
   const { categoryGroups, articleSelections, loading, saving, saveArticleCategories, validateSelections } = useArticleCategories(articleId);
   const [selectedGroupId, setSelectedGroupId] = useState<string>('');
   const [tempSelections, setTempSelections] = useState<ArticleCategorySelection[]>([]);
-  const { updateArticle, articles } = useAppContext();
-  const article = articles.find(a => a.id === articleId);
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
 
   useEffect(() => {
@@ -115,13 +193,6 @@ const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
     try {
       const result = await saveArticleCategories(tempSelections);
       if (result.success) {
-        const allSelectedCategories = tempSelections.flatMap(s => s.selectedCategories);
-        const updatedArticle = {
-          ...article,
-          dataCategories: allSelectedCategories,
-          lastModified: new Date().toISOString()
-        };
-        updateArticle(updatedArticle);
         showNotification('success', 'Categories updated');
         onSave(tempSelections);
         setTimeout(() => onClose(), 800);
@@ -136,18 +207,6 @@ const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
   const selectedGroup = categoryGroups.find(g => g.id === selectedGroupId);
   const selectedCategoriesForGroup = tempSelections.find(s => s.groupId === selectedGroupId)?.selectedCategories || [];
 
-  // Helper function to find category by ID in nested structure
-  const findCategoryById = (categories: DataCategory[], targetId: string): DataCategory | null => {
-    for (const category of categories) {
-      if (category.id === targetId) return category;
-      if (category.children) {
-        const found = findCategoryById(category.children, targetId);
-        if (found) return found;
-      }
-    }
-    return null;
-  };
-
   if (!isOpen) return null;
 
   return (
@@ -223,14 +282,11 @@ const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
                       categories={selectedGroup.categories}
                       selectedCategories={selectedCategoriesForGroup}
                       onToggleCategory={categoryId =>
-                        handleCategoryToggle(selectedGroup.id, categoryId, selectedGroup.selectionType)
+                        handleCategoryToggle(selectedGroup.id, categoryId, selectedGroup.selectionType || 'multi')
                       }
-                      selectionType={selectedGroup.selectionType}
-                      groupId={selectedGroup.id}
+                      selectionType={selectedGroup.selectionType || 'multi'}
                       level={0}
-                      saving={saving}
-                      loading={loading}
-                      categoryGroups={categoryGroups}
+                      disabled={loading || saving}
                     />
                   )}
                   {!selectedGroup && (
@@ -243,7 +299,7 @@ const CategoryEditModal: React.FC<CategoryEditModalProps> = ({
                     <div className="text-xs font-medium text-gray-500 mb-1">Selected:</div>
                     <div className="flex flex-wrap gap-1">
                       {selectedCategoriesForGroup.map(categoryId => {
-                        const category = selectedGroup && findCategoryById(selectedGroup.categories, categoryId);
+                        const category = selectedGroup && findCategoryById(categoryId, [selectedGroup]);
                         return category ? (
                           <span key={categoryId}
                             className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-purple-100 text-purple-700 border border-purple-200"
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { DataCategoryGroup, DataCategory, ArticleTypeMapping } from '../types';
 import { getCategoryPicklist } from '../api/categoryAPI';
+import { formatCategoryPath } from '../utils/categoryUtils';
 import { 
   Search, 
   ChevronDown, 
@@ -193,34 +194,8 @@ const CategorySelector: React.FC<CategorySelectorProps> = ({
     onCategoryChange([]);
   };
 
-  const getSelectedCategoryLabels = (): string[] => {
-    const labels: string[] = [];
-    
-    const findCategoryLabel = (categories: DataCategory[], targetId: string): string | null => {
-      for (const cat of categories) {
-        if (cat.id === targetId) {
-          return cat.label;
-        }
-        if (cat.children) {
-          const childLabel = findCategoryLabel(cat.children, targetId);
-          if (childLabel) return childLabel;
-        }
-      }
-      return null;
-    };
-
-    selectedCategories.forEach(categoryId => {
-      for (const group of categoryGroups) {
-        const label = findCategoryLabel(group.categories, categoryId);
-        if (label) {
-          labels.push(label);
-          break;
-        }
-      }
-    });
-
-    return labels;
-  };
+  const getSelectedCategoryLabels = (): string[] =>
+    selectedCategories.map(categoryId => formatCategoryPath(categoryId, categoryGroups));
 
   // Check for schema warnings
   const hasSchemaWarnings = () => {
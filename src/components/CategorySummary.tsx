@@ -1,6 +1,6 @@
 import React from 'react';
 import { Edit, Folder, Tag, AlertTriangle } from 'lucide-react';
-import { DataCategoryGroup, ArticleCategorySelection, useArticleCategories } from '../hooks/useArticleCategories';
+import { useArticleCategories } from '../hooks/useArticleCategories';
 import { useAppContext } from '../context/AppContext';
 
 interface CategorySummaryProps {
@@ -15,7 +15,7 @@ const CategorySummary: React.FC<CategorySummaryProps> = ({
   className = ''
 }) => {
   const { articles } = useAppContext();
-  const { categoryGroups, articleSelections, getCategoryById, validateSelections } = useArticleCategories(articleId);
+  const { categoryGroups, articleSelections, getCategoryById, getCategoryDisplayName, validateSelections } = useArticleCategories(articleId);
   
   const validation = validateSelections(articleSelections);
 
@@ -28,25 +28,6 @@ const CategorySummary: React.FC<CategorySummaryProps> = ({
       .filter(Boolean);
   };
 
-  const getCategoryDisplayName = (categoryId: string): string => {
-    // Mock category mapping - in production this would come from synced data
-    const categoryMap: Record<string, string> = {
-      'cat-getting-started': 'Getting Started',
-      'cat-installation': 'Getting Started > Installation',
-      'cat-setup': 'Getting Started > Initial Setup',
-      'cat-advanced': 'Advanced Topics',
-      'cat-api': 'Advanced Topics > API Integration',
-      'cat-customization': 'Advanced Topics > Customization',
-      'cat-troubleshooting': 'Troubleshooting',
-      'cat-common-issues': 'Troubleshooting > Common Issues',
-      'cat-salesforce-platform': 'Salesforce Platform',
-      'cat-lightning': 'Salesforce Platform > Lightning Experience',
-      'cat-classic': 'Salesforce Platform > Salesforce Classic'
-    };
-    
-    return categoryMap[categoryId] || categoryId;
-  };
-
   const hasAnySelections = articleSelections.some(s => s.selectedCategories.length > 0);
 
   // Get article's actual dataCategories for display
@@ -86,8 +67,8 @@ const CategorySummary: React.FC<CategorySummaryProps> = ({
 
       {/* Category Groups Display */}
       <div className="space-y-4">
-        {/* Show actual article dataCategories if available */}
-        {actualDataCategories.length > 0 && (
+        {/* Fall back to the raw dataCategories until the structure is synced */}
+        {actualDataCategories.length > 0 && !hasAnySelections && (
           <div className="space-y-2">
             <div className="flex items-center space-x-2">
               <Tag className="w-4 h-4 text-gray-500" />
@@ -1,12 +1,7 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import Portal from './Portal';
 import { Search, X, ChevronDown } from 'lucide-react';
-
-interface CategoryOption {
-  value: string;
-  label: string;
-  count?: number;
-}
+import { CategoryOption } from '../utils/categoryUtils';
 
 interface CategoryTypeaheadProps {
   value: string;
@@ -0,0 +1,332 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Editor } from '@tiptap/react';
+import { useAppContext } from '../context/AppContext';
+import {
+  createCommentThread,
+  deleteCommentThread,
+  fetchCommentThreads,
+  replyToThread,
+  setThreadResolved
+} from '../api/commentAPI';
+import { getUsers } from '../api/usersAPI';
+import { CommentDraft, findCommentRange, getAnchoredThreadIds } from '../extensions/CommentMark';
+import { canEditAllArticles } from '../utils/permissions';
+import { mentionPattern } from '../../shared/mentions';
+import { CommentThread } from '../types';
+import { MessageSquare, CheckCheck, RotateCcw, Trash2, Unlink } from 'lucide-react';
+
+interface CommentThreadsProps {
+  articleId: string;
+  editor: Editor | null;
+  draft: CommentDraft | null;
+  onDraftDone: () => void;
+  activeThreadId: string | null;
+  onActiveThreadChange: (threadId: string | null) => void;
+}
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  names: string[];
+  placeholder: string;
+}
+
+const MAX_SUGGESTIONS = 5;
+
+/**
+ * A textarea that suggests user names after an @
+ */
+const MentionTextarea: React.FC<MentionTextareaProps> = ({ value, onChange, names, placeholder }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+
+  const suggestions = query === null
+    ? []
+    : names.filter(name => name.toLowerCase().startsWith(query.toLowerCase())).slice(0, MAX_SUGGESTIONS);
+
+  const handleChange = (text: string, caret: number) => {
+    onChange(text);
+    const match = /(?:^|\s)@([^@\n]*)$/.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+  };
+
+  const insertMention = (name: string) => {
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const start = value.slice(0, caret).lastIndexOf('@');
+    onChange(`${value.slice(0, start)}@${name} ${value.slice(caret)}`);
+    setQuery(null);
+    textareaRef.current?.focus();
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        rows={2}
+        placeholder={placeholder}
+        className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+          {suggestions.map(name => (
+            <li key={name}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insertMention(name)}
+                className="w-full text-left px-3 py-1.5 text-sm text-gray-700 hover:bg-purple-50"
+              >
+                @{name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// Mentions are highlighted; everything else is plain text
+const renderCommentBody = (body: string, mentions: string[]) => {
+  const pattern = mentionPattern(mentions);
+  if (!pattern) return body;
+  return body.split(pattern).map((part, index) =>
+    index % 2 === 1
+      ? <span key={index} className="font-medium text-purple-700">@{part}</span>
+      : part
+  );
+};
+
+const CommentThreads: React.FC<CommentThreadsProps> = ({
+  articleId,
+  editor,
+  draft,
+  onDraftDone,
+  activeThreadId,
+  onActiveThreadChange
+}) => {
+  const { user } = useAppContext();
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [names, setNames] = useState<string[]>([]);
+  const [showResolved, setShowResolved] = useState(false);
+  const [draftBody, setDraftBody] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchCommentThreads(articleId)
+      .then(setThreads)
+      .catch(error => console.error('Failed to load comments:', error));
+  }, [articleId]);
+
+  useEffect(() => {
+    getUsers()
+      .then(users => setNames(users.map(u => u.name).filter(name => name !== user?.name)))
+      .catch(error => console.error('Failed to load users:', error));
+  }, [user?.name]);
+
+  const anchored = editor ? getAnchoredThreadIds(editor) : new Set<string>();
+  const openThreads = threads.filter(thread => !thread.resolved);
+  const resolvedThreads = threads.filter(thread => thread.resolved);
+
+  const replaceThread = (updated: CommentThread) => {
+    setThreads(prev => prev.map(thread => (thread.id === updated.id ? updated : thread)));
+  };
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert(`${failure}: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => draft && editor && run(async () => {
+    const thread = await createCommentThread(articleId, draft.quote, draftBody.trim());
+    editor.chain().setTextSelection({ from: draft.from, to: draft.to }).setComment(thread.id).run();
+    setThreads(prev => [...prev, thread]);
+    setDraftBody('');
+    onDraftDone();
+    onActiveThreadChange(thread.id);
+  }, 'Failed to add comment');
+
+  const handleReply = (thread: CommentThread) => run(async () => {
+    replaceThread(await replyToThread(articleId, thread.id, replies[thread.id].trim()));
+    setReplies(prev => ({ ...prev, [thread.id]: '' }));
+  }, 'Failed to reply');
+
+  const handleResolve = (thread: CommentThread, resolved: boolean) => run(async () => {
+    replaceThread(await setThreadResolved(articleId, thread.id, resolved));
+    editor?.commands.setCommentResolved(thread.id, resolved);
+  }, resolved ? 'Failed to resolve thread' : 'Failed to reopen thread');
+
+  const handleDelete = (thread: CommentThread) => {
+    if (!confirm('Delete this thread and all of its replies?')) return;
+    run(async () => {
+      await deleteCommentThread(articleId, thread.id);
+      setThreads(prev => prev.filter(t => t.id !== thread.id));
+      editor?.commands.unsetComment(thread.id);
+    }, 'Failed to delete thread');
+  };
+
+  // Select the anchored text so the editor scrolls to it
+  const focusThread = (thread: CommentThread) => {
+    onActiveThreadChange(thread.id);
+    const range = editor && findCommentRange(editor, thread.id);
+    if (editor && range) editor.chain().focus().setTextSelection(range).scrollIntoView().run();
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const renderThread = (thread: CommentThread) => (
+    <li
+      key={thread.id}
+      className={`rounded-lg border p-3 text-sm ${
+        thread.id === activeThreadId ? 'border-amber-300 bg-amber-50/60' : 'border-gray-200 bg-white/60'
+      }`}
+    >
+      <button onClick={() => focusThread(thread)} className="w-full text-left">
+        <p className="text-xs text-gray-500 italic truncate border-l-2 border-amber-300 pl-2">{thread.quote}</p>
+        {!anchored.has(thread.id) && (
+          <p className="flex items-center space-x-1 text-xs text-gray-400 mt-1">
+            <Unlink className="w-3 h-3" />
+            <span>The commented text was removed</span>
+          </p>
+        )}
+      </button>
+
+      <ul className="mt-2 space-y-2">
+        {thread.comments.map(comment => (
+          <li key={comment.id}>
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">{comment.author}</span>
+              <span className="text-xs text-gray-400">{formatDate(comment.createdAt)}</span>
+            </div>
+            <p className="text-gray-700 whitespace-pre-wrap">{renderCommentBody(comment.body, comment.mentions)}</p>
+          </li>
+        ))}
+      </ul>
+
+      {thread.resolved ? (
+        <p className="mt-2 text-xs text-gray-500">
+          Resolved by {thread.resolvedBy}{thread.resolvedAt && ` on ${formatDate(thread.resolvedAt)}`}
+        </p>
+      ) : thread.id === activeThreadId && (
+        <div className="mt-3 space-y-2">
+          <MentionTextarea
+            value={replies[thread.id] || ''}
+            onChange={(value) => setReplies(prev => ({ ...prev, [thread.id]: value }))}
+            names={names}
+            placeholder="Reply, or @mention someone..."
+          />
+          <div className="flex justify-end">
+            <button
+              onClick={() => handleReply(thread)}
+              disabled={busy || !replies[thread.id]?.trim()}
+              className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white rounded-lg text-xs font-medium"
+            >
+              Reply
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center justify-end space-x-1">
+        <button
+          onClick={() => handleResolve(thread, !thread.resolved)}
+          disabled={busy}
+          title={thread.resolved ? 'Reopen' : 'Resolve'}
+          className="p-1 text-gray-400 hover:text-emerald-600 rounded disabled:opacity-50"
+        >
+          {thread.resolved ? <RotateCcw className="w-4 h-4" /> : <CheckCheck className="w-4 h-4" />}
+        </button>
+        {(thread.createdById === user?.id || canEditAllArticles(user)) && (
+          <button
+            onClick={() => handleDelete(thread)}
+            disabled={busy}
+            title="Delete thread"
+            className="p-1 text-gray-400 hover:text-red-600 rounded disabled:opacity-50"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <MessageSquare className="w-4 h-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-700">Comments</h3>
+          <span className="text-xs text-gray-500">{openThreads.length} open</span>
+        </div>
+        {resolvedThreads.length > 0 && (
+          <button
+            onClick={() => setShowResolved(prev => !prev)}
+            className="text-xs text-purple-600 hover:text-purple-800"
+          >
+            {showResolved ? 'Hide resolved' : `Show resolved (${resolvedThreads.length})`}
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mb-4 space-y-2 rounded-lg border border-purple-200 bg-purple-50/60 p-3">
+          <p className="text-xs text-gray-500 italic truncate border-l-2 border-purple-300 pl-2">{draft.quote}</p>
+          <MentionTextarea
+            value={draftBody}
+            onChange={setDraftBody}
+            names={names}
+            placeholder="Add a comment, or @mention someone..."
+          />
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => { setDraftBody(''); onDraftDone(); }}
+              className="px-3 py-1.5 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg text-xs"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={busy || !draftBody.trim()}
+              className="px-3 py-1.5 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white rounded-lg text-xs font-medium"
+            >
+              Comment
+            </button>
+          </div>
+        </div>
+      )}
+
+      {openThreads.length === 0 && !draft && (
+        <p className="text-sm text-gray-500">
+          Select text in the article and use the comment button to start a discussion.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {openThreads.map(renderThread)}
+        {showResolved && resolvedThreads.map(renderThread)}
+      </ul>
+
+      <p className="mt-4 text-xs text-gray-400">
+        Highlights are saved with the draft. Comments are never published to Salesforce.
+      </p>
+    </div>
+  );
+};
+
+export default CommentThreads;
@@ -10,6 +10,8 @@ import {
   Settings, 
   Upload, 
   LayoutDashboard, 
+  CalendarDays,
+  ClipboardCheck,
   LogOut, 
   User,
   Users
@@ -20,7 +22,7 @@ interface LayoutProps {
 }
 
 const Layout: React.FC<LayoutProps> = ({ children }) => {
-  const { user, setUser } = useAppContext();
+  const { user, logout } = useAppContext();
   const location = useLocation();
   const navigate = useNavigate();
   const { shouldShowGuide, markGuideComplete } = useOnboarding();
@@ -35,9 +37,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
       return () => clearTimeout(timer);
     }
   }, [shouldShowGuide]);
-  const handleLogout = () => {
-    localStorage.removeItem('kublish_user');
-    setUser(null);
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -47,6 +48,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
   };
   const navItems = [
     { path: '/dashboard', icon: LayoutDashboard, label: 'Dashboard' },
+    { path: '/schedule', icon: CalendarDays, label: 'Schedule' },
+    { path: '/reviews', icon: ClipboardCheck, label: 'Reviews' },
     ...(canManageUsers(user) ? [{ path: '/admin', icon: Users, label: 'Admin Panel' }] : []),
   ];
 
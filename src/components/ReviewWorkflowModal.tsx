@@ -0,0 +1,203 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './Modal';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { getWorkflowSettings, saveWorkflowSettings } from '../api/reviewAPI';
+import { getCategoryPicklist } from '../api/categoryAPI';
+import { DataCategoryGroup, User, WorkflowSettings } from '../types';
+
+interface ReviewWorkflowModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  users: User[];
+}
+
+const ReviewWorkflowModal: React.FC<ReviewWorkflowModalProps> = ({ isOpen, onClose, onSaved, users }) => {
+  const [settings, setSettings] = useState<WorkflowSettings | null>(null);
+  const [categoryGroups, setCategoryGroups] = useState<DataCategoryGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Viewers cannot review, so only Admins and Editors are offered
+  const reviewers = users.filter(u => u.role === 'Admin' || u.role === 'Editor');
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [workflow, picklist] = await Promise.all([getWorkflowSettings(), getCategoryPicklist()]);
+        setSettings(workflow);
+        setCategoryGroups(picklist.categoryGroups.filter(group => group.isActive));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load workflow settings');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [isOpen]);
+
+  const updateSettings = (changes: Partial<WorkflowSettings>) => {
+    setSettings(prev => prev && { ...prev, ...changes });
+  };
+
+  const toggle = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id];
+
+  const toggleGroupReviewer = (groupName: string, id: string) => {
+    if (!settings) return;
+    updateSettings({
+      reviewersByGroup: {
+        ...settings.reviewersByGroup,
+        [groupName]: toggle(settings.reviewersByGroup[groupName] || [], id)
+      }
+    });
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveWorkflowSettings(settings);
+      onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save workflow settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderReviewerChoices = (selected: string[], onToggle: (id: string) => void) => (
+    <div className="flex flex-wrap gap-x-4 gap-y-2">
+      {reviewers.map(reviewer => (
+        <label key={reviewer.id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.includes(reviewer.id)}
+            onChange={() => onToggle(reviewer.id)}
+            className="rounded text-purple-600 focus:ring-purple-500"
+          />
+          <span>{reviewer.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Review Workflow"
+      description="Require approval before articles are published"
+      size="2xl"
+    >
+      {loading || !settings ? (
+        <div className="p-12 text-center">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <>
+              <div className="w-8 h-8 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">Loading workflow settings...</p>
+            </>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-start space-x-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span className="text-sm font-medium">{error}</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => updateSettings({ enabled: e.target.checked })}
+                  className="rounded text-purple-600 focus:ring-purple-500"
+                />
+                <span>Articles need approval before publishing</span>
+              </label>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Approvals required</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.requiredApprovals}
+                  onChange={(e) => updateSettings({ requiredApprovals: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Reviewers by data category group</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                An article goes to the reviewers of every group its data categories belong to.
+              </p>
+              <div className="space-y-4">
+                {categoryGroups.map(group => (
+                  <div key={group.id}>
+                    <div className="text-sm font-medium text-gray-700 mb-2">{group.label}</div>
+                    {renderReviewerChoices(
+                      settings.reviewersByGroup[group.name] || [],
+                      id => toggleGroupReviewer(group.name, id)
+                    )}
+                  </div>
+                ))}
+                {categoryGroups.length === 0 && (
+                  <p className="text-sm text-gray-500">No data category groups synced yet.</p>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-1">Default reviewers</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                For articles without a category in a group listed above.
+              </p>
+              {renderReviewerChoices(
+                settings.defaultReviewers,
+                id => updateSettings({ defaultReviewers: toggle(settings.defaultReviewers, id) })
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-end px-6 py-4 border-t border-gray-100 bg-gray-50">
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                disabled={saving}
+                className="px-3 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white rounded-lg font-medium text-sm flex items-center gap-2 disabled:opacity-60"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default ReviewWorkflowModal;
@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import Modal from './Modal';
+import { useAppContext } from '../context/AppContext';
+import { acceptRemoteChanges, DriftContent, DriftField, DriftReport, overwriteRemoteChanges } from '../api/salesforceAPI';
+import { canDeleteArticles, canEditArticle, canPublishArticles } from '../utils/permissions';
+import { AlertTriangle, Download, Upload } from 'lucide-react';
+
+interface SalesforceDriftModalProps {
+  report: DriftReport | null;
+  onClose: () => void;
+  onResolved: (report: DriftReport) => void;
+}
+
+type ContentField = Exclude<DriftField, 'deleted'>;
+
+const FIELD_LABELS: Record<ContentField, string> = {
+  title: 'Title',
+  publishStatus: 'Publish status',
+  categories: 'Data categories',
+  body: 'Body'
+};
+
+const renderValue = (field: ContentField, content?: DriftContent) => {
+  if (!content) return <span className="text-sm text-gray-400">Deleted</span>;
+
+  switch (field) {
+    case 'title':
+      return <span className="font-medium text-gray-900">{content.title}</span>;
+    case 'publishStatus':
+      return <span className="text-sm text-gray-700">{content.publishStatus}</span>;
+    case 'categories':
+      if (!content.dataCategories) return <span className="text-sm text-gray-400">Not recorded</span>;
+      return content.dataCategories.length > 0 ? (
+        <div className="flex flex-wrap gap-1">
+          {content.dataCategories.map(category => (
+            <span key={category} className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">{category}</span>
+          ))}
+        </div>
+      ) : (
+        <span className="text-sm text-gray-400">None</span>
+      );
+    case 'body':
+      return (
+        <div
+          className="prose prose-sm max-w-none tiptap-preview max-h-80 overflow-y-auto"
+          dangerouslySetInnerHTML={{ __html: content.body }}
+        />
+      );
+  }
+};
+
+/**
+ * The version Kublish last synced next to the one live in Salesforce, with
+ * the fields that differ highlighted, and a way to keep either. Keeping the
+ * Salesforce side of a deletion moves the article to the trash.
+ */
+const SalesforceDriftModal: React.FC<SalesforceDriftModalProps> = ({ report, onClose, onResolved }) => {
+  const { articles, refreshData, user } = useAppContext();
+  const [busy, setBusy] = useState<'accept' | 'overwrite' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const article = articles.find(a => a.id === report?.articleId);
+  const deleted = !!report && !report.remote;
+  const unsyncedEdits = !!article && article.lastSyncedVersionId !== report?.versionId;
+  const canAccept = !!article && canEditArticle(user, article) && (!deleted || canDeleteArticles(user));
+
+  const handleResolve = async (action: 'accept' | 'overwrite') => {
+    if (!report) return;
+
+    setBusy(action);
+    setError(null);
+    try {
+      if (action === 'accept') {
+        await acceptRemoteChanges(report.articleId, report.orgId);
+      } else {
+        await overwriteRemoteChanges(report.articleId, report.orgId);
+      }
+      await refreshData();
+      onResolved(report);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve the difference');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!report}
+      onClose={onClose}
+      title="Changed in Salesforce"
+      description={report ? `"${report.articleTitle}" was ${deleted ? 'deleted' : 'edited'} in Salesforce after its last sync` : undefined}
+      size="6xl"
+    >
+      {report && (
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-center space-x-2">
+              <AlertTriangle className="w-4 h-4" />
+              <span className="text-sm font-medium">{error}</span>
+            </div>
+          )}
+
+          <div className="grid grid-cols-[10rem_1fr_1fr] gap-x-4 gap-y-3 items-start">
+            <div />
+            <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Last synced from Kublish</div>
+            <div className="text-xs font-semibold text-gray-600 uppercase tracking-wider">Live in Salesforce</div>
+
+            {(Object.keys(FIELD_LABELS) as ContentField[]).map(field => {
+              const changed = deleted || report.fields.includes(field);
+              const cell = `p-3 rounded-lg border ${changed ? 'bg-amber-50 border-amber-200' : 'bg-white/80 border-gray-200'}`;
+              return (
+                <React.Fragment key={field}>
+                  <div className="pt-3 text-sm font-medium text-gray-700">
+                    {FIELD_LABELS[field]}
+                    {changed && <span className="block text-xs font-normal text-amber-700">Changed</span>}
+                  </div>
+                  <div className={cell}>{renderValue(field, report.local)}</div>
+                  <div className={cell}>{renderValue(field, report.remote)}</div>
+                </React.Fragment>
+              );
+            })}
+          </div>
+
+          {unsyncedEdits && !deleted && (
+            <p className="text-sm text-gray-600">
+              The article has been edited in Kublish since this sync. Accepting the Salesforce version replaces those edits.
+            </p>
+          )}
+          {deleted && (
+            <p className="text-sm text-gray-600">
+              Accepting the deletion moves the article to the trash. Overwriting creates it in Salesforce again as a draft.
+            </p>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200"
+            >
+              Cancel
+            </button>
+            {canAccept && (
+              <button
+                onClick={() => handleResolve('accept')}
+                disabled={!!busy}
+                className="px-4 py-2 bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 rounded-lg transition-all duration-200 flex items-center space-x-2"
+              >
+                <Download className="w-4 h-4" />
+                <span>{busy === 'accept' ? 'Accepting...' : deleted ? 'Accept Deletion' : 'Accept Remote'}</span>
+              </button>
+            )}
+            {canPublishArticles(user) && (
+              <button
+                onClick={() => handleResolve('overwrite')}
+                disabled={!!busy}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:opacity-50 text-white rounded-lg transition-all duration-200 flex items-center space-x-2"
+              >
+                <Upload className="w-4 h-4" />
+                <span>{busy === 'overwrite' ? 'Overwriting...' : 'Overwrite Remote'}</span>
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default SalesforceDriftModal;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect } from 'react';
+import Modal from './Modal';
+import { AlertTriangle, Loader2, RotateCcw, Save } from 'lucide-react';
+import {
+  describeSalesforceOrg,
+  getSalesforceOrgSettings,
+  KnowledgeChannel,
+  KnowledgeFieldInfo,
+  KnowledgeFieldMapping,
+  saveSalesforceOrgSettings
+} from '../api/usersAPI';
+
+interface SalesforceFieldMappingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  orgId: string;
+  orgName?: string;
+}
+
+const CHANNEL_LABELS: Record<KnowledgeChannel, string> = {
+  IsVisibleInApp: 'Internal app',
+  IsVisibleInPkb: 'Public knowledge base',
+  IsVisibleInCsp: 'Customer portal',
+  IsVisibleInPrm: 'Partner portal'
+};
+
+const TEXT_FIELD_TYPES = ['string', 'textarea', 'html'];
+
+const TEXT_MAPPINGS: { key: 'title' | 'body' | 'summary' | 'tags'; label: string; required: boolean }[] = [
+  { key: 'title', label: 'Title', required: true },
+  { key: 'body', label: 'Body', required: true },
+  { key: 'summary', label: 'Summary', required: false },
+  { key: 'tags', label: 'Tags', required: false }
+];
+
+const SalesforceFieldMappingModal: React.FC<SalesforceFieldMappingModalProps> = ({
+  isOpen,
+  onClose,
+  orgId,
+  orgName
+}) => {
+  const [apiVersion, setApiVersion] = useState('');
+  const [defaultApiVersion, setDefaultApiVersion] = useState('');
+  const [mapping, setMapping] = useState<KnowledgeFieldMapping | null>(null);
+  const [apiVersions, setApiVersions] = useState<string[]>([]);
+  const [fields, setFields] = useState<KnowledgeFieldInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !orgId) return;
+
+    const loadSettings = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const settings = await getSalesforceOrgSettings(orgId);
+        setApiVersion(settings.apiVersion);
+        setDefaultApiVersion(settings.defaultApiVersion);
+        setMapping(settings.fieldMapping);
+
+        const describe = await describeSalesforceOrg(orgId, settings.apiVersion);
+        setApiVersions(describe.apiVersions);
+        setFields(describe.fields);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load Salesforce fields');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSettings();
+  }, [isOpen, orgId]);
+
+  const textFields = fields.filter(field => TEXT_FIELD_TYPES.includes(field.type) && field.updateable);
+  const channels = (Object.keys(CHANNEL_LABELS) as KnowledgeChannel[])
+    .filter(channel => fields.some(field => field.name === channel));
+
+  // Knowledge fields can differ between API versions, so list them again
+  const handleApiVersionChange = async (version: string) => {
+    setApiVersion(version);
+    setError(null);
+    try {
+      const describe = await describeSalesforceOrg(orgId, version);
+      setFields(describe.fields);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load Salesforce fields');
+    }
+  };
+
+  const updateMapping = (changes: Partial<KnowledgeFieldMapping>) => {
+    setMapping(prev => prev && { ...prev, ...changes });
+  };
+
+  const toggleChannel = (key: 'publicChannels' | 'internalChannels', channel: KnowledgeChannel) => {
+    if (!mapping) return;
+    const current = mapping[key];
+    updateMapping({
+      [key]: current.includes(channel) ? current.filter(c => c !== channel) : [...current, channel]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!mapping) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveSalesforceOrgSettings(orgId, { apiVersion, fieldMapping: mapping });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const settings = await saveSalesforceOrgSettings(orgId, { reset: true });
+      setMapping(settings.fieldMapping);
+      await handleApiVersionChange(settings.apiVersion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Field Mapping"
+      description={`API version and Knowledge fields used for ${orgName || 'this org'}`}
+      size="2xl"
+    >
+      {loading || !mapping ? (
+        <div className="p-12 text-center">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <>
+              <div className="w-8 h-8 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin mx-auto mb-4" />
+              <p className="text-gray-600">Loading Knowledge fields...</p>
+            </>
+          )}
+        </div>
+      ) : (
+        <>
+          <div className="p-6 space-y-6">
+            {error && (
+              <div className="p-3 rounded-lg border bg-red-50 border-red-200 text-red-700 flex items-start space-x-2">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span className="text-sm font-medium">{error}</span>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">API Version</label>
+              <select
+                value={apiVersion}
+                onChange={(e) => handleApiVersionChange(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white text-sm"
+              >
+                {[...apiVersions].reverse().map(version => (
+                  <option key={version} value={version}>
+                    {version}{version === defaultApiVersion ? ' (default)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {TEXT_MAPPINGS.map(({ key, label, required }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+                  <select
+                    value={mapping[key] || ''}
+                    onChange={(e) => updateMapping({ [key]: e.target.value || null })}
+                    className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white text-sm"
+                  >
+                    {!required && <option value="">Not mapped</option>}
+                    {mapping[key] && !textFields.some(field => field.name === mapping[key]) && (
+                      <option value={mapping[key]!}>{mapping[key]} (not found)</option>
+                    )}
+                    {textFields.map(field => (
+                      <option key={field.name} value={field.name}>
+                        {field.label} ({field.name})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['publicChannels', 'internalChannels'] as const).map(key => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {key === 'publicChannels' ? 'Public articles appear in' : 'Internal articles appear in'}
+                  </label>
+                  <div className="space-y-2">
+                    {channels.map(channel => (
+                      <label key={channel} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={mapping[key].includes(channel)}
+                          onChange={() => toggleChannel(key, channel)}
+                          className="rounded text-purple-600 focus:ring-purple-500"
+                        />
+                        <span>{CHANNEL_LABELS[channel]}</span>
+                        <span className="text-xs text-gray-400 font-mono">{channel}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex items-center justify-between px-6 py-4 border-t border-gray-100 bg-gray-50">
+            <button
+              onClick={handleReset}
+              disabled={saving}
+              className="px-3 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50 flex items-center gap-2"
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset to defaults
+            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={onClose}
+                disabled={saving}
+                className="px-3 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="px-4 py-2 bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white rounded-lg font-medium text-sm flex items-center gap-2 disabled:opacity-60"
+              >
+                {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
+
+export default SalesforceFieldMappingModal;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import Modal from './Modal';
 import ConfirmationModal from './ConfirmationModal';
+import SalesforceFieldMappingModal from './SalesforceFieldMappingModal';
 import { 
   Link as LinkIcon, 
   Unlink, 
@@ -15,19 +16,26 @@ import {
   Tag,
   Info,
   Trash2,
-  Radio
+  Radio,
+  Plus,
+  Star,
+  Activity,
+  SlidersHorizontal
 } from 'lucide-react';
 import { 
-  getSalesforceConnection, 
+  getSalesforceConnections, 
   connectSalesforce, 
   disconnectSalesforce, 
-  SalesforceConnection 
+  setDefaultSalesforceOrg,
+  SalesforceConnection,
+  SalesforceEnvironment
 } from '../api/usersAPI';
 import { 
   syncCategoryStructure, 
   getCategorySyncStatus, 
   deleteCategoryStructure 
 } from '../api/categoryAPI';
+import { getSalesforceLimits, SalesforceLimits } from '../api/salesforceAPI';
 import { CategorySyncStatus } from '../types';
 
 interface SalesforceIntegrationModalProps {
@@ -36,21 +44,25 @@ interface SalesforceIntegrationModalProps {
   onComplete?: () => void;
 }
 
-type SalesforceEnvironment = 'production' | 'sandbox';
 const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
   isOpen,
   onClose,
   onComplete
 }) => {
-  const [salesforceConnection, setSalesforceConnection] = useState<SalesforceConnection | null>(null);
+  const [connections, setConnections] = useState<SalesforceConnection[]>([]);
+  const [selectedOrgId, setSelectedOrgId] = useState('');
   const [syncStatus, setSyncStatus] = useState<CategorySyncStatus | null>(null);
+  const [apiLimits, setApiLimits] = useState<SalesforceLimits | null>(null);
   const [loading, setLoading] = useState(true);
   const [connectingState, setConnectingState] = useState<'idle' | 'connecting' | 'disconnecting'>('idle');
   const [syncingState, setSyncingState] = useState<'idle' | 'syncing' | 'deleting'>('idle');
   const [selectedEnvironment, setSelectedEnvironment] = useState<SalesforceEnvironment>('production');
+  const [customLoginUrl, setCustomLoginUrl] = useState('');
+  const [connectionName, setConnectionName] = useState('');
   const [showEnvironmentSelector, setShowEnvironmentSelector] = useState(false);
   const [showDisconnectConfirm, setShowDisconnectConfirm] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showFieldMapping, setShowFieldMapping] = useState(false);
   const [notifications, setNotifications] = useState<{
     salesforce?: { type: 'success' | 'error'; message: string };
     sync?: { type: 'success' | 'error'; message: string };
@@ -62,15 +74,34 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
     }
   }, [isOpen]);
 
-  const loadData = async () => {
+  const salesforceConnection = connections.find(org => org.connectionId === selectedOrgId) || null;
+  const limitsOrgId = salesforceConnection?.isConnected ? salesforceConnection.connectionId : undefined;
+
+  // API usage is informational; a failure here shouldn't block the modal
+  useEffect(() => {
+    setApiLimits(null);
+    if (!isOpen || !limitsOrgId) return;
+    getSalesforceLimits(limitsOrgId)
+      .then(setApiLimits)
+      .catch(error => console.error('Failed to load Salesforce API limits:', error));
+  }, [isOpen, limitsOrgId]);
+
+  const apiUsageRatio = apiLimits && apiLimits.dailyApiRequests.max > 0
+    ? apiLimits.dailyApiRequests.used / apiLimits.dailyApiRequests.max
+    : 0;
+
+  const loadData = async (preferredOrgId?: string) => {
     try {
       setLoading(true);
-      const [connectionData, statusData] = await Promise.all([
-        getSalesforceConnection(),
-        getCategorySyncStatus()
-      ]);
-      setSalesforceConnection(connectionData);
-      setSyncStatus(statusData);
+      const orgs = await getSalesforceConnections();
+      setConnections(orgs);
+
+      // Keep the current selection if it still exists, else fall back to the default org
+      const selected = orgs.find(org => org.connectionId === preferredOrgId)
+        || orgs.find(org => org.isDefault)
+        || orgs[0];
+      setSelectedOrgId(selected?.connectionId || '');
+      setSyncStatus(selected?.connectionId ? await getCategorySyncStatus(selected.connectionId) : null);
     } catch (error) {
       console.error('Failed to load integration data:', error);
     } finally {
@@ -78,6 +109,26 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
     }
   };
 
+  const handleSelectOrg = async (orgId: string) => {
+    setSelectedOrgId(orgId);
+    setSyncStatus(null);
+    try {
+      setSyncStatus(await getCategorySyncStatus(orgId));
+    } catch (error) {
+      console.error('Failed to load category sync status:', error);
+    }
+  };
+
+  const handleSetDefault = async () => {
+    try {
+      const updated = await setDefaultSalesforceOrg(selectedOrgId);
+      setConnections(prev => prev.map(org => ({ ...org, isDefault: org.connectionId === updated.connectionId })));
+      showNotification('salesforce', 'success', `${updated.name} is now the default publishing target`);
+    } catch (error) {
+      showNotification('salesforce', 'error', `Failed to set default org: ${error}`);
+    }
+  };
+
   const showNotification = (section: 'salesforce' | 'sync', type: 'success' | 'error', message: string) => {
     setNotifications(prev => ({
       ...prev,
@@ -95,23 +146,11 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
     setShowEnvironmentSelector(true);
   };
 
-  const handleConnect = async (environment: SalesforceEnvironment) => {
+  const handleConnect = (environment: SalesforceEnvironment) => {
     setConnectingState('connecting');
     setShowEnvironmentSelector(false);
-    try {
-      const result = await connectSalesforce(environment);
-      if (result.connection) {
-        setSalesforceConnection(result.connection);
-      }
-      showNotification('salesforce', 'success', result.message);
-      // Reload sync status after connection
-      const statusData = await getCategorySyncStatus();
-      setSyncStatus(statusData);
-    } catch (error) {
-      showNotification('salesforce', 'error', `Failed to connect: ${error}`);
-    } finally {
-      setConnectingState('idle');
-    }
+    // Navigates away; the backend sends the browser back here when done
+    connectSalesforce(environment, customLoginUrl.trim(), connectionName.trim());
   };
 
   const handleDisconnectClick = () => {
@@ -122,11 +161,10 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
     setConnectingState('disconnecting');
     setShowDisconnectConfirm(false);
     try {
-      await disconnectSalesforce();
-      setSalesforceConnection({ isConnected: false });
-      showNotification('salesforce', 'success', 'Successfully disconnected from Salesforce');
-      // Reset sync status
-      setSyncStatus(null);
+      const result = await disconnectSalesforce(selectedOrgId);
+      showNotification('salesforce', 'success', result.message);
+      // The org's category cache goes with it; reload whatever remains
+      await loadData(selectedOrgId);
     } catch (error: any) {
       showNotification('salesforce', 'error', `Failed to disconnect: ${error}`);
     } finally {
@@ -137,12 +175,12 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
   const handleSync = async (force: boolean = false) => {
     setSyncingState('syncing');
     try {
-      const result = await syncCategoryStructure(force);
+      const result = await syncCategoryStructure(force, selectedOrgId);
       showNotification('sync', 'success', 
         `Sync completed! ${result.articleTypes} article types, ${result.categoryGroups} groups, ${result.categories} categories`
       );
       // Reload sync status
-      const statusData = await getCategorySyncStatus();
+      const statusData = await getCategorySyncStatus(selectedOrgId);
       setSyncStatus(statusData);
       onComplete?.();
     } catch (error) {
@@ -156,12 +194,12 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
     setSyncingState('deleting');
     setShowDeleteConfirm(false);
     try {
-      const result = await deleteCategoryStructure();
+      const result = await deleteCategoryStructure(selectedOrgId);
       showNotification('sync', 'success', 
         `Deleted ${result.categories} categories, ${result.categoryGroups} groups, ${result.articleTypeMappings} mappings`
       );
       // Reload sync status
-      const statusData = await getCategorySyncStatus();
+      const statusData = await getCategorySyncStatus(selectedOrgId);
       setSyncStatus(statusData);
       onComplete?.();
     } catch (error) {
@@ -225,6 +263,33 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
                 </div>
               )}
 
+              {connections.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                  {connections.map(org => (
+                    <button
+                      key={org.connectionId}
+                      onClick={() => handleSelectOrg(org.connectionId!)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-all duration-200 flex items-center space-x-1 ${
+                        org.connectionId === selectedOrgId
+                          ? 'bg-purple-50 border-purple-300 text-purple-700'
+                          : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {org.isDefault && <Star className="w-3 h-3" />}
+                      <span>{org.name}</span>
+                    </button>
+                  ))}
+                  <button
+                    onClick={handleConnectClick}
+                    disabled={connectingState !== 'idle'}
+                    className="px-3 py-1.5 rounded-lg text-sm font-medium border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50 transition-all duration-200 flex items-center space-x-1"
+                  >
+                    <Plus className="w-3 h-3" />
+                    <span>Add org</span>
+                  </button>
+                </div>
+              )}
+
               <div className="bg-gray-50 rounded-xl p-6">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center space-x-3">
@@ -235,6 +300,15 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
                       {salesforceConnection?.isConnected ? 'Connected' : 'Not Connected'}
                     </span>
                   </div>
+                  {salesforceConnection && !salesforceConnection.isDefault && (
+                    <button
+                      onClick={handleSetDefault}
+                      className="text-sm text-purple-600 hover:text-purple-800 flex items-center space-x-1"
+                    >
+                      <Star className="w-4 h-4" />
+                      <span>Make default</span>
+                    </button>
+                  )}
                 </div>
 
                 {salesforceConnection?.isConnected ? (
@@ -242,7 +316,7 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-gray-600">
                       <div className="flex items-center space-x-2">
                         <Mail className="w-4 h-4" />
-                        <span>{salesforceConnection.username}</span>
+                        <span>{salesforceConnection.username || salesforceConnection.instanceUrl}</span>
                       </div>
                       {salesforceConnection.lastSyncTime && (
                         <div className="flex items-center space-x-2">
@@ -256,18 +330,55 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
                         <strong>Target:</strong> {salesforceConnection.syncTarget}
                       </div>
                     )}
-                    <button
-                      onClick={handleDisconnectClick}
-                      disabled={connectingState !== 'idle'}
-                      className="bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 disabled:from-red-400 disabled:to-pink-400 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
-                    >
-                      {connectingState === 'disconnecting' ? (
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                      ) : (
-                        <Unlink className="w-4 h-4" />
-                      )}
-                      <span>{connectingState === 'disconnecting' ? 'Disconnecting...' : 'Disconnect'}</span>
-                    </button>
+                    {apiLimits && (
+                      <div className="text-sm text-gray-600">
+                        <div className="flex items-center justify-between mb-1">
+                          <span className="flex items-center space-x-2">
+                            <Activity className="w-4 h-4" />
+                            <span>Daily API requests</span>
+                          </span>
+                          <span>
+                            {apiLimits.dailyApiRequests.used.toLocaleString()} / {apiLimits.dailyApiRequests.max.toLocaleString()}
+                          </span>
+                        </div>
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full transition-all duration-300 ${
+                              apiLimits.throttled
+                                ? 'bg-red-500'
+                                : apiUsageRatio >= apiLimits.throttleThreshold * 0.8 ? 'bg-orange-500' : 'bg-emerald-500'
+                            }`}
+                            style={{ width: `${Math.min(apiUsageRatio, 1) * 100}%` }}
+                          />
+                        </div>
+                        {apiLimits.throttled && (
+                          <p className="text-xs text-red-600 mt-1">
+                            Usage is above {Math.round(apiLimits.throttleThreshold * 100)}% of the daily limit, so calls to this org are being slowed down.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    <div className="flex items-center space-x-3">
+                      <button
+                        onClick={() => setShowFieldMapping(true)}
+                        className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-all duration-200 flex items-center space-x-2"
+                      >
+                        <SlidersHorizontal className="w-4 h-4" />
+                        <span>Field Mapping</span>
+                      </button>
+                      <button
+                        onClick={handleDisconnectClick}
+                        disabled={connectingState !== 'idle'}
+                        className="bg-gradient-to-r from-red-500 to-pink-500 hover:from-red-600 hover:to-pink-600 disabled:from-red-400 disabled:to-pink-400 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
+                      >
+                        {connectingState === 'disconnecting' ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Unlink className="w-4 h-4" />
+                        )}
+                        <span>{connectingState === 'disconnecting' ? 'Disconnecting...' : 'Disconnect'}</span>
+                      </button>
+                    </div>
                   </div>
                 ) : (
                   <div className="space-y-4">
@@ -479,6 +590,17 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
       >
         <div className="p-6">
           <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Connection name</label>
+              <input
+                type="text"
+                value={connectionName}
+                onChange={(e) => setConnectionName(e.target.value)}
+                placeholder="e.g. Review Sandbox"
+                className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+              />
+            </div>
+
             <div className="space-y-3">
               <label className="flex items-start space-x-3 p-4 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
                 <input
@@ -521,6 +643,35 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
                   </p>
                 </div>
               </label>
+
+              <label className="flex items-start space-x-3 p-4 border border-gray-200 rounded-lg cursor-pointer hover:bg-gray-50 transition-colors">
+                <input
+                  type="radio"
+                  name="environment"
+                  value="custom"
+                  checked={selectedEnvironment === 'custom'}
+                  onChange={(e) => setSelectedEnvironment(e.target.value as SalesforceEnvironment)}
+                  className="mt-1 text-purple-600 focus:ring-purple-500"
+                />
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2">
+                    <Radio className="w-4 h-4 text-gray-500" />
+                    <span className="font-medium text-gray-900">My Domain</span>
+                  </div>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Sign in through your org's custom login URL, for orgs that restrict login.salesforce.com.
+                  </p>
+                  {selectedEnvironment === 'custom' && (
+                    <input
+                      type="url"
+                      value={customLoginUrl}
+                      onChange={(e) => setCustomLoginUrl(e.target.value)}
+                      placeholder="https://yourcompany.my.salesforce.com"
+                      className="mt-3 w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+                    />
+                  )}
+                </div>
+              </label>
             </div>
           </div>
           
@@ -533,7 +684,7 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
             </button>
             <button
               onClick={() => handleConnect(selectedEnvironment)}
-              disabled={connectingState === 'connecting'}
+              disabled={connectingState === 'connecting' || (selectedEnvironment === 'custom' && !customLoginUrl.trim())}
               className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 disabled:from-emerald-400 disabled:to-cyan-400 text-white px-6 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
             >
               {connectingState === 'connecting' ? (
@@ -541,7 +692,7 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
               ) : (
                 <LinkIcon className="w-4 h-4" />
               )}
-              <span>{connectingState === 'connecting' ? 'Connecting...' : `Connect to ${selectedEnvironment}`}</span>
+              <span>{connectingState === 'connecting' ? 'Connecting...' : `Connect to ${selectedEnvironment === 'custom' ? 'My Domain' : selectedEnvironment}`}</span>
             </button>
           </div>
         </div>
@@ -553,7 +704,7 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
         onClose={() => setShowDisconnectConfirm(false)}
         onConfirm={handleDisconnect}
         title="Disconnect from Salesforce"
-        message="This will disconnect your Salesforce integration and stop all sync operations. You'll need to reconnect to publish articles or sync categories. This action cannot be undone."
+        message={`This will disconnect ${salesforceConnection?.name || 'this org'} and clear its cached categories. You'll need to reconnect to publish articles or sync categories to it. This action cannot be undone.`}
         confirmText="Disconnect"
         type="danger"
         isLoading={connectingState === 'disconnecting'}
@@ -570,6 +721,13 @@ const SalesforceIntegrationModal: React.FC<SalesforceIntegrationModalProps> = ({
         type="danger"
         isLoading={syncingState === 'deleting'}
       />
+
+      <SalesforceFieldMappingModal
+        isOpen={showFieldMapping}
+        onClose={() => setShowFieldMapping(false)}
+        orgId={selectedOrgId}
+        orgName={salesforceConnection?.name}
+      />
     </>
   );
 };
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import { Cloud } from 'lucide-react';
+import { getSalesforceConnections, SalesforceConnection } from '../api/usersAPI';
+
+interface SalesforceOrgSelectProps {
+  value: string;
+  onChange: (orgId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Picks which connected org a publish or sync goes to. Starts on the
+ * workspace default and stays hidden when only one org is connected.
+ */
+const SalesforceOrgSelect: React.FC<SalesforceOrgSelectProps> = ({
+  value,
+  onChange,
+  disabled = false,
+  className = ''
+}) => {
+  const [connections, setConnections] = useState<SalesforceConnection[]>([]);
+
+  useEffect(() => {
+    getSalesforceConnections()
+      .then(orgs => setConnections(orgs.filter(org => org.isConnected)))
+      .catch(error => console.error('Failed to load Salesforce connections:', error));
+  }, []);
+
+  useEffect(() => {
+    if (value) return;
+    const target = connections.find(org => org.isDefault) || connections[0];
+    if (target?.connectionId) onChange(target.connectionId);
+  }, [connections, value, onChange]);
+
+  if (connections.length < 2) return null;
+
+  return (
+    <label className={`flex items-center space-x-2 text-sm text-gray-600 ${className}`}>
+      <Cloud className="w-4 h-4" />
+      <span>Target org</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 backdrop-blur-sm text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {connections.map(org => (
+          <option key={org.connectionId} value={org.connectionId}>
+            {org.name}{org.isDefault ? ' (default)' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default SalesforceOrgSelect;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Editor } from '@tiptap/react';
+import { listSuggestions } from '../extensions/SuggestionMark';
+import { PenLine, Check, X } from 'lucide-react';
+
+interface SuggestionListProps {
+  editor: Editor | null;
+  canResolve: boolean; // whoever can edit the article accepts or rejects; reviewers only suggest
+}
+
+const SuggestionList: React.FC<SuggestionListProps> = ({ editor, canResolve }) => {
+  const suggestions = editor ? listSuggestions(editor) : [];
+  if (!editor || suggestions.length === 0) return null;
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <PenLine className="w-4 h-4 text-gray-500" />
+          <h3 className="text-sm font-medium text-gray-700">Suggestions</h3>
+          <span className="text-xs text-gray-500">{suggestions.length}</span>
+        </div>
+        {canResolve && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => editor.chain().focus().acceptAllSuggestions().run()}
+              className="text-xs text-emerald-600 hover:text-emerald-800"
+            >
+              Accept all
+            </button>
+            <button
+              onClick={() => editor.chain().focus().rejectAllSuggestions().run()}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Reject all
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ul className="space-y-3">
+        {suggestions.map(suggestion => (
+          <li key={suggestion.id} className="flex items-start justify-between text-sm">
+            <div className="min-w-0">
+              <div className="text-gray-900">
+                <span className="font-medium">{suggestion.author}</span>
+                <span className="text-gray-500">{suggestion.kind === 'insert' ? ' suggested adding' : ' suggested removing'}</span>
+              </div>
+              <p className={`truncate ${
+                suggestion.kind === 'insert' ? 'text-emerald-700' : 'text-red-600 line-through'
+              }`}>
+                {suggestion.text}
+              </p>
+              {suggestion.createdAt && (
+                <div className="text-xs text-gray-400">{formatDate(suggestion.createdAt)}</div>
+              )}
+            </div>
+            {canResolve && (
+              <div className="flex items-center space-x-1 ml-2 flex-shrink-0">
+                <button
+                  onClick={() => editor.chain().focus().acceptSuggestion(suggestion.id).run()}
+                  title="Accept"
+                  className="p-1 text-gray-400 hover:text-emerald-600 rounded"
+                >
+                  <Check className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => editor.chain().focus().rejectSuggestion(suggestion.id).run()}
+                  title="Reject"
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <p className="mt-4 text-xs text-gray-400">
+        Suggestions are not published; Salesforce receives the text without them.
+      </p>
+    </div>
+  );
+};
+
+export default SuggestionList;
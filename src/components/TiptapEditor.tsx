@@ -1,11 +1,13 @@
 import React, { useEffect } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useEditor, EditorContent, Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import BulletList from '@tiptap/extension-bullet-list';
 import OrderedList from '@tiptap/extension-ordered-list';
 import ListItem from '@tiptap/extension-list-item';
 import Underline from '@tiptap/extension-underline';
 import Link from '@tiptap/extension-link';
+import { CommentMark } from '../extensions/CommentMark';
+import { SuggestionMark, suggestionPluginKey } from '../extensions/SuggestionMark';
 import { 
   Bold, 
   Italic, 
@@ -15,7 +17,9 @@ import {
   Heading1, 
   Link as LinkIcon,
   Undo,
-  Redo
+  Redo,
+  MessageSquarePlus,
+  PenLine
 } from 'lucide-react';
 
 interface TiptapEditorProps {
@@ -23,13 +27,25 @@ interface TiptapEditorProps {
   onUpdate: (html: string) => void;
   placeholder?: string;
   className?: string;
+  onEditorReady?: (editor: Editor) => void;
+  onAddComment?: () => void; // shows the comment button when set
+  onActiveCommentChange?: (threadId: string | null) => void;
+  suggesting?: boolean; // record edits as suggestions by suggestionAuthor
+  suggestionAuthor?: string;
+  onSuggestingChange?: (suggesting: boolean) => void; // suggesting mode is locked on without it
 }
 
 const TiptapEditor: React.FC<TiptapEditorProps> = ({
   content,
   onUpdate,
   placeholder = "Start writing your article content...",
-  className = ""
+  className = "",
+  onEditorReady,
+  onAddComment,
+  onActiveCommentChange,
+  suggesting = false,
+  suggestionAuthor = '',
+  onSuggestingChange
 }) => {
   const editor = useEditor({
     extensions: [
@@ -72,12 +88,17 @@ const TiptapEditor: React.FC<TiptapEditorProps> = ({
           target: '_blank',
         },
       }),
+      CommentMark,
+      SuggestionMark,
     ],
     content,
     onUpdate: ({ editor }) => {
       const html = editor.getHTML();
       onUpdate(html);
     },
+    onSelectionUpdate: ({ editor }) => {
+      onActiveCommentChange?.(editor.getAttributes('comment').threadId || null);
+    },
     editorProps: {
       attributes: {
         class: 'tiptap-content focus:outline-none min-h-[400px] p-6',
@@ -87,10 +108,21 @@ const TiptapEditor: React.FC<TiptapEditorProps> = ({
     autofocus: true,
   });
 
+  useEffect(() => {
+    if (editor) onEditorReady?.(editor);
+  }, [editor, onEditorReady]);
+
+  useEffect(() => {
+    if (!editor) return;
+    editor.storage.suggestion.enabled = suggesting;
+    editor.storage.suggestion.author = suggestionAuthor;
+  }, [editor, suggesting, suggestionAuthor]);
+
   // Update editor content when prop changes
   useEffect(() => {
     if (editor && content !== editor.getHTML()) {
-      editor.commands.setContent(content, false);
+      // Loaded content is not a suggestion
+      editor.chain().setMeta(suggestionPluginKey, true).setContent(content, false).run();
     }
   }, [content, editor]);
 
@@ -236,6 +268,38 @@ const TiptapEditor: React.FC<TiptapEditorProps> = ({
             </button>
           </div>
 
+          {/* Comments */}
+          {onAddComment && (
+            <div className="flex items-center space-x-1 border-r border-gray-300 pr-3 mr-3">
+              <button
+                onClick={onAddComment}
+                className="p-2 rounded-lg transition-all duration-200 text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+                title="Comment on selection"
+              >
+                <MessageSquarePlus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {/* Suggesting */}
+          {(suggesting || onSuggestingChange) && (
+            <div className="flex items-center space-x-1 border-r border-gray-300 pr-3 mr-3">
+              <button
+                onClick={() => onSuggestingChange?.(!suggesting)}
+                disabled={!onSuggestingChange}
+                className={`px-2 py-2 rounded-lg transition-all duration-200 flex items-center space-x-1 text-sm disabled:cursor-default ${
+                  suggesting
+                    ? 'bg-emerald-100 text-emerald-700 shadow-sm'
+                    : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                }`}
+                title={suggesting ? 'Suggesting: edits are recorded as suggestions' : 'Suggest edits instead of making them'}
+              >
+                <PenLine className="w-4 h-4" />
+                <span>Suggesting</span>
+              </button>
+            </div>
+          )}
+
           {/* Undo/Redo */}
           <div className="flex items-center space-x-1">
             <button
@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { useAppContext } from '../context/AppContext';
+import { fetchTrash, purgeArticle, restoreArticle } from '../api/articlesAPI';
+import { Article } from '../types';
+import { RotateCcw, Trash2, User, Calendar } from 'lucide-react';
+
+interface TrashBinProps {
+  searchTerm: string;
+}
+
+const TrashBin: React.FC<TrashBinProps> = ({ searchTerm }) => {
+  const { refreshData } = useAppContext();
+  const [trash, setTrash] = useState<Article[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTrash()
+      .then(setTrash)
+      .catch(error => console.error('Failed to load trash:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const visible = trash.filter(article =>
+    article.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    article.owner.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const handleRestore = async (article: Article) => {
+    setBusyId(article.id);
+    try {
+      await restoreArticle(article.id);
+      setTrash(prev => prev.filter(a => a.id !== article.id));
+      await refreshData();
+    } catch (error) {
+      alert(`Failed to restore article: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (article: Article) => {
+    if (!confirm(`Delete "${article.title}" and its version history permanently? This cannot be undone.`)) return;
+
+    setBusyId(article.id);
+    try {
+      await purgeArticle(article.id);
+      setTrash(prev => prev.filter(a => a.id !== article.id));
+      await refreshData();
+    } catch (error) {
+      alert(`Failed to delete article: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gradient-to-r from-purple-50 to-blue-50 border-b border-purple-100">
+            <tr>
+              <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                Article Title
+              </th>
+              <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                Deleted
+              </th>
+              <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                Owner
+              </th>
+              <th className="px-6 py-4 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {visible.map(article => (
+              <tr key={article.id} className="hover:bg-white/40 transition-colors duration-150">
+                <td className="px-6 py-4">
+                  <div className="flex flex-col">
+                    <span className="font-medium text-gray-900">{article.title}</span>
+                    <span className="text-sm text-gray-500 capitalize">{article.status}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center space-x-2 text-sm text-gray-600">
+                    <Calendar className="w-4 h-4" />
+                    <span>{formatDate(article.deletedAt!)}{article.deletedBy && ` by ${article.deletedBy}`}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center space-x-2">
+                    <div className="w-6 h-6 bg-gradient-to-br from-emerald-400 to-cyan-400 rounded-full flex items-center justify-center">
+                      <User className="w-3 h-3 text-white" />
+                    </div>
+                    <span className="text-sm text-gray-600">{article.owner}</span>
+                  </div>
+                </td>
+                <td className="px-6 py-4">
+                  <div className="flex items-center justify-end space-x-2">
+                    <button
+                      onClick={() => handleRestore(article)}
+                      disabled={busyId === article.id}
+                      className="px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </button>
+                    <button
+                      onClick={() => handlePurge(article)}
+                      disabled={busyId === article.id}
+                      className="px-3 py-1.5 text-sm text-red-600 bg-white border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 flex items-center space-x-1"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span>Delete Forever</span>
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {!loading && visible.length === 0 && (
+        <div className="text-center py-12">
+          <div className="w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+            <Trash2 className="w-8 h-8 text-gray-400" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+          <p className="text-gray-500">Articles you move to the trash can be restored from here.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,109 @@
+import { Editor, Mark, mergeAttributes } from '@tiptap/react';
+import { COMMENT_ID_ATTRIBUTE } from '../../shared/articleMarkup';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    comment: {
+      setComment: (threadId: string) => ReturnType;
+      unsetComment: (threadId: string) => ReturnType;
+      setCommentResolved: (threadId: string, resolved: boolean) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Anchors a comment thread to a range of text. The anchor is a span in the
+ * article body, so it moves with the text as the article is edited; it is
+ * stripped before anything is sent to Salesforce.
+ */
+export const CommentMark = Mark.create({
+  name: 'comment',
+
+  // Typing at either edge of the anchor should not extend it
+  inclusive: false,
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: element => element.getAttribute(COMMENT_ID_ATTRIBUTE),
+        renderHTML: attributes => ({ [COMMENT_ID_ATTRIBUTE]: attributes.threadId })
+      },
+      resolved: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-comment-resolved'),
+        renderHTML: attributes => (attributes.resolved ? { 'data-comment-resolved': 'true' } : {})
+      }
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${COMMENT_ID_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes({ class: 'tiptap-comment' }, HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      setComment: threadId => ({ commands }) => commands.setMark(this.name, { threadId, resolved: false }),
+
+      unsetComment: threadId => ({ tr }) => {
+        tr.doc.descendants((node, pos) => {
+          node.marks
+            .filter(mark => mark.type === this.type && mark.attrs.threadId === threadId)
+            .forEach(mark => tr.removeMark(pos, pos + node.nodeSize, mark));
+        });
+        return true;
+      },
+
+      setCommentResolved: (threadId, resolved) => ({ tr }) => {
+        tr.doc.descendants((node, pos) => {
+          node.marks
+            .filter(mark => mark.type === this.type && mark.attrs.threadId === threadId)
+            .forEach(mark => {
+              tr.removeMark(pos, pos + node.nodeSize, mark);
+              tr.addMark(pos, pos + node.nodeSize, this.type.create({ threadId, resolved }));
+            });
+        });
+        return true;
+      }
+    };
+  }
+});
+
+/**
+ * Ids of the threads still anchored somewhere in the document
+ */
+export const getAnchoredThreadIds = (editor: Editor): Set<string> => {
+  const ids = new Set<string>();
+  editor.state.doc.descendants(node => {
+    node.marks.forEach(mark => {
+      if (mark.type.name === 'comment' && mark.attrs.threadId) ids.add(mark.attrs.threadId);
+    });
+  });
+  return ids;
+};
+
+/**
+ * The document range a thread is anchored to, from its first to its last
+ * anchored character, or null once that text is gone
+ */
+export const findCommentRange = (editor: Editor, threadId: string): { from: number; to: number } | null => {
+  let range: { from: number; to: number } | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (!node.marks.some(mark => mark.type.name === 'comment' && mark.attrs.threadId === threadId)) return;
+    range = { from: range ? range.from : pos, to: pos + node.nodeSize };
+  });
+  return range;
+};
+
+/**
+ * A selection waiting for the first comment of a new thread
+ */
+export interface CommentDraft {
+  from: number;
+  to: number;
+  quote: string;
+}
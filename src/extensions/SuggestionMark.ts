@@ -0,0 +1,422 @@
+import { Editor, Mark, mergeAttributes } from '@tiptap/react';
+import { Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Mark as ProseMirrorMark, MarkType, Node as ProseMirrorNode, ResolvedPos } from '@tiptap/pm/model';
+import { Transform } from '@tiptap/pm/transform';
+import { SUGGESTION_ATTRIBUTE } from '../../shared/articleMarkup';
+
+export type SuggestionKind = 'insert' | 'delete';
+
+export interface Suggestion {
+  id: string;
+  kind: SuggestionKind;
+  author: string;
+  createdAt: string;
+  text: string;
+}
+
+interface SuggestionStorage {
+  enabled: boolean; // suggesting mode: edits are recorded instead of applied
+  author: string;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    suggestion: {
+      acceptSuggestion: (id: string) => ReturnType;
+      rejectSuggestion: (id: string) => ReturnType;
+      acceptAllSuggestions: () => ReturnType;
+      rejectAllSuggestions: () => ReturnType;
+    };
+  }
+
+  interface Storage {
+    suggestion: SuggestionStorage;
+  }
+}
+
+// Set on transactions the plugin must leave alone: those that already track
+// their changes, and content loaded from outside the editor
+export const suggestionPluginKey = new PluginKey('suggestion');
+
+const WORD_BEFORE = /(?:[\p{L}\p{N}_]+|[^\p{L}\p{N}_\s]+)?\s*$/u;
+const WORD_AFTER = /^\s*(?:[\p{L}\p{N}_]+|[^\p{L}\p{N}_\s]+)?/u;
+
+const findSuggestionMark = (marks: readonly ProseMirrorMark[], type: MarkType) =>
+  marks.find(mark => mark.type === type);
+
+/**
+ * Mark text between from and to as suggested for deletion. Text the author
+ * suggested inserting themselves is removed outright; other authors'
+ * suggestions are left alone. A deletion right next to one of the author's
+ * earlier deletions joins it.
+ */
+const suggestDeletion = (tr: Transaction, type: MarkType, author: string, from: number, to: number) => {
+  const isOwnDeletion = (mark?: ProseMirrorMark) => mark?.attrs.kind === 'delete' && mark.attrs.author === author;
+  const before = findSuggestionMark(tr.doc.resolve(from).nodeBefore?.marks || [], type);
+  const after = findSuggestionMark(tr.doc.resolve(to).nodeAfter?.marks || [], type);
+  const joined = isOwnDeletion(before) ? before : isOwnDeletion(after) ? after : undefined;
+  const deletion = type.create(joined
+    ? joined.attrs
+    : { id: `suggestion-${crypto.randomUUID()}`, kind: 'delete', author, createdAt: new Date().toISOString() });
+
+  const segments: { from: number; to: number; mark?: ProseMirrorMark }[] = [];
+  tr.doc.nodesBetween(from, to, (node, pos) => {
+    if (!node.isText) return;
+    segments.push({
+      from: Math.max(pos, from),
+      to: Math.min(pos + node.nodeSize, to),
+      mark: findSuggestionMark(node.marks, type)
+    });
+  });
+
+  // Last to first, so removing text does not shift the segments still to do
+  segments.reverse().forEach(segment => {
+    if (!segment.mark) {
+      tr.addMark(segment.from, segment.to, deletion);
+    } else if (segment.mark.attrs.kind === 'insert' && segment.mark.attrs.author === author) {
+      tr.delete(segment.from, segment.to);
+    }
+  });
+};
+
+// The author's insertion right before pos, to continue, or a new one
+const insertionAt = (doc: ProseMirrorNode, type: MarkType, author: string, pos: number) => {
+  const previous = findSuggestionMark(doc.resolve(pos).nodeBefore?.marks || [], type);
+  return type.create(previous?.attrs.kind === 'insert' && previous.attrs.author === author
+    ? previous.attrs
+    : { id: `suggestion-${crypto.randomUUID()}`, kind: 'insert', author, createdAt: new Date().toISOString() });
+};
+
+/**
+ * Insert text as a suggestion, continuing the author's insertion right
+ * before it if there is one. Formatting is not suggested, so the text takes
+ * the marks around it rather than any stored ones.
+ */
+const suggestInsertion = (tr: Transaction, type: MarkType, author: string, pos: number, text: string) => {
+  const insertion = insertionAt(tr.doc, type, author, pos);
+  tr.setStoredMarks(null);
+  tr.insertText(text, pos);
+  tr.addMark(pos, pos + text.length, insertion);
+  tr.setSelection(TextSelection.create(tr.doc, pos + text.length));
+};
+
+/**
+ * How many characters Backspace or Delete removes from the cursor: one, or
+ * with Ctrl or Alt the word next to it and the spaces between, or with Cmd
+ * the rest of the paragraph in that direction
+ */
+const deletionLength = ($cursor: ResolvedPos, backwards: boolean, event: KeyboardEvent): number => {
+  const { parent, parentOffset } = $cursor;
+  const text = backwards
+    ? parent.textBetween(0, parentOffset, undefined, '\ufffc')
+    : parent.textBetween(parentOffset, parent.content.size, undefined, '\ufffc');
+  if (event.metaKey) return text.length;
+  if (!event.ctrlKey && !event.altKey) return 1;
+  return Math.max((backwards ? WORD_BEFORE : WORD_AFTER).exec(text)?.[0].length || 0, 1);
+};
+
+/**
+ * The document as the author last accepted it: suggested insertions
+ * dropped and editorial marks removed. Edits that leave it the same, like
+ * comments or undoing a suggestion, need no tracking.
+ */
+const acceptedContent = (doc: ProseMirrorNode, type: MarkType): ProseMirrorNode => {
+  const transform = new Transform(doc);
+  const insertions: { from: number; to: number }[] = [];
+  doc.descendants((node, pos) => {
+    if (node.isText && findSuggestionMark(node.marks, type)?.attrs.kind === 'insert') {
+      insertions.push({ from: pos, to: pos + node.nodeSize });
+    }
+  });
+  insertions.reverse().forEach(({ from, to }) => transform.delete(from, to));
+
+  const comment = doc.type.schema.marks.comment;
+  transform.removeMark(0, transform.doc.content.size, type);
+  if (comment) transform.removeMark(0, transform.doc.content.size, comment);
+  return transform.doc;
+};
+
+const onlyText = (doc: ProseMirrorNode, from: number, to: number) => {
+  let text = true;
+  doc.nodesBetween(from, to, node => {
+    if (node.isInline && !node.isText) text = false;
+  });
+  return text;
+};
+
+/**
+ * The one stretch of text that differs between two documents, if that is
+ * all that differs: the range it covered before and the range it covers
+ * after, both inside the same paragraph. Null for anything else, like a
+ * split paragraph, a line break or new formatting.
+ */
+const findTextChange = (before: ProseMirrorNode, after: ProseMirrorNode) => {
+  const from = before.content.findDiffStart(after.content);
+  if (from == null) return null;
+  let { a: toBefore, b: toAfter } = before.content.findDiffEnd(after.content)!;
+  // Repeated characters can put the end before the start
+  const overlap = from - Math.min(toBefore, toAfter);
+  if (overlap > 0) {
+    toBefore += overlap;
+    toAfter += overlap;
+  }
+
+  const $from = before.resolve(from);
+  const $fromAfter = after.resolve(from);
+  if (
+    !$from.parent.isTextblock || !$from.sameParent(before.resolve(toBefore)) ||
+    !$fromAfter.parent.isTextblock || !$fromAfter.sameParent(after.resolve(toAfter)) ||
+    !onlyText(before, from, toBefore) || !onlyText(after, from, toAfter)
+  ) {
+    return null;
+  }
+  if (toBefore > from && toAfter > from && before.textBetween(from, toBefore) === after.textBetween(from, toAfter)) {
+    return null;
+  }
+  return { from, toBefore, toAfter };
+};
+
+/**
+ * Accept or reject suggestions, all of them or those with one id. Accepting
+ * keeps inserted text and removes deleted text; rejecting does the opposite.
+ */
+const resolveSuggestions = (tr: Transaction, type: MarkType, accept: boolean, id?: string) => {
+  const segments: { from: number; to: number; mark: ProseMirrorMark }[] = [];
+  tr.doc.descendants((node, pos) => {
+    const mark = node.isText ? findSuggestionMark(node.marks, type) : undefined;
+    if (mark && (!id || mark.attrs.id === id)) segments.push({ from: pos, to: pos + node.nodeSize, mark });
+  });
+
+  segments.reverse().forEach(({ from, to, mark }) => {
+    if ((mark.attrs.kind === 'insert') === accept) {
+      tr.removeMark(from, to, mark);
+    } else {
+      tr.delete(from, to);
+    }
+  });
+};
+
+/**
+ * Track changes. While suggesting mode is on, typed and pasted text is
+ * marked as a suggested insertion and deleted text is marked as a suggested
+ * deletion instead of being removed, each attributed to the current user.
+ * Text the browser changes itself, like IME composition, spellcheck fixes
+ * and word deletion, is tracked the same way once it lands. Only text is
+ * tracked: splitting or joining paragraphs, line breaks, formatting and
+ * dropped content are blocked in suggesting mode.
+ */
+export const SuggestionMark = Mark.create<Record<string, never>, SuggestionStorage>({
+  name: 'suggestion',
+
+  inclusive: false,
+
+  addStorage() {
+    return { enabled: false, author: '' };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-suggestion-id'),
+        renderHTML: attributes => ({ 'data-suggestion-id': attributes.id })
+      },
+      kind: {
+        default: 'insert',
+        parseHTML: element => element.getAttribute(SUGGESTION_ATTRIBUTE),
+        renderHTML: attributes => ({
+          [SUGGESTION_ATTRIBUTE]: attributes.kind,
+          class: attributes.kind === 'delete' ? 'tiptap-suggestion-delete' : 'tiptap-suggestion-insert'
+        })
+      },
+      author: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-suggestion-author') || '',
+        renderHTML: attributes => ({ 'data-suggestion-author': attributes.author, title: `Suggested by ${attributes.author}` })
+      },
+      createdAt: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-suggestion-created-at'),
+        renderHTML: attributes => ({ 'data-suggestion-created-at': attributes.createdAt })
+      }
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: `span[${SUGGESTION_ATTRIBUTE}]` }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes), 0];
+  },
+
+  addCommands() {
+    return {
+      acceptSuggestion: id => ({ tr }) => {
+        resolveSuggestions(tr, this.type, true, id);
+        tr.setMeta(suggestionPluginKey, true);
+        return true;
+      },
+      rejectSuggestion: id => ({ tr }) => {
+        resolveSuggestions(tr, this.type, false, id);
+        tr.setMeta(suggestionPluginKey, true);
+        return true;
+      },
+      acceptAllSuggestions: () => ({ tr }) => {
+        resolveSuggestions(tr, this.type, true);
+        tr.setMeta(suggestionPluginKey, true);
+        return true;
+      },
+      rejectAllSuggestions: () => ({ tr }) => {
+        resolveSuggestions(tr, this.type, false);
+        tr.setMeta(suggestionPluginKey, true);
+        return true;
+      }
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage;
+    const type = this.type;
+
+    return [
+      new Plugin({
+        key: suggestionPluginKey,
+        props: {
+          handleTextInput: (view, from, to, text) => {
+            if (!storage.enabled) return false;
+            const tr = view.state.tr.setMeta(suggestionPluginKey, true);
+            if (from < to) suggestDeletion(tr, type, storage.author, from, to);
+            suggestInsertion(tr, type, storage.author, tr.mapping.map(to), text);
+            view.dispatch(tr.scrollIntoView());
+            return true;
+          },
+
+          handleKeyDown: (view, event) => {
+            if (!storage.enabled || (event.key !== 'Backspace' && event.key !== 'Delete')) return false;
+            const { from, to, empty, $from } = view.state.selection;
+            const backwards = event.key === 'Backspace';
+            let range = { from, to };
+            if (empty) {
+              // Joining paragraphs cannot be suggested
+              if (backwards ? $from.parentOffset === 0 : $from.parentOffset === $from.parent.content.size) return true;
+              const length = deletionLength($from, backwards, event);
+              range = backwards ? { from: from - length, to: from } : { from, to: from + length };
+            }
+
+            const tr = view.state.tr.setMeta(suggestionPluginKey, true);
+            suggestDeletion(tr, type, storage.author, range.from, range.to);
+            const cursor = backwards ? tr.mapping.map(range.from, -1) : tr.mapping.map(range.to);
+            tr.setSelection(TextSelection.create(tr.doc, cursor));
+            view.dispatch(tr.scrollIntoView());
+            return true;
+          },
+
+          handlePaste: (view, _event, slice) => {
+            if (!storage.enabled) return false;
+            const text = slice.content.textBetween(0, slice.content.size, ' ');
+            const { from, to } = view.state.selection;
+            const tr = view.state.tr.setMeta(suggestionPluginKey, true);
+            if (from < to) suggestDeletion(tr, type, storage.author, from, to);
+            if (text) suggestInsertion(tr, type, storage.author, tr.mapping.map(to), text);
+            view.dispatch(tr.scrollIntoView());
+            return true;
+          },
+
+          handleDrop: () => storage.enabled,
+
+          handleDOMEvents: {
+            cut: (view, event) => {
+              const { from, to, empty } = view.state.selection;
+              if (!storage.enabled || empty) return false;
+              event.preventDefault();
+              event.clipboardData?.setData('text/plain', view.state.doc.textBetween(from, to, '\n'));
+              const tr = view.state.tr.setMeta(suggestionPluginKey, true);
+              suggestDeletion(tr, type, storage.author, from, to);
+              tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(from, -1)));
+              view.dispatch(tr);
+              return true;
+            },
+
+            // Composed text starts out as a suggested insertion, replacing
+            // any selection the way typing does
+            compositionstart: view => {
+              if (!storage.enabled) return false;
+              const { from, to } = view.state.selection;
+              const tr = view.state.tr.setMeta(suggestionPluginKey, true);
+              if (from < to) {
+                suggestDeletion(tr, type, storage.author, from, to);
+                tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(to)));
+              }
+              const pos = tr.selection.from;
+              const marks = tr.doc.resolve(pos).marks().filter(mark => mark.type !== type);
+              tr.setStoredMarks([...marks, insertionAt(tr.doc, type, storage.author, pos)]);
+              view.dispatch(tr);
+              return false;
+            }
+          }
+        },
+
+        // Changes that did not come through the handlers above go through
+        // only if they change a stretch of text, which appendTransaction
+        // then tracks
+        filterTransaction: (tr, state) => {
+          if (!storage.enabled || !tr.docChanged || tr.getMeta(suggestionPluginKey)) return true;
+          if (acceptedContent(tr.doc, type).eq(acceptedContent(state.doc, type))) return true;
+          return !!findTextChange(state.doc, tr.doc);
+        },
+
+        // Put back text the browser removed as a suggested deletion and
+        // mark text it added as a suggested insertion
+        appendTransaction: (transactions, oldState, newState) => {
+          if (!storage.enabled || transactions.every(tr => !tr.docChanged || tr.getMeta(suggestionPluginKey))) return null;
+          if (acceptedContent(newState.doc, type).eq(acceptedContent(oldState.doc, type))) return null;
+          const change = findTextChange(oldState.doc, newState.doc);
+          if (!change) return null;
+
+          const { from, toBefore, toAfter } = change;
+          const tr = newState.tr.setMeta(suggestionPluginKey, true);
+          if (toAfter > from) {
+            tr.removeMark(from, toAfter, type);
+            tr.addMark(from, toAfter, insertionAt(tr.doc, type, storage.author, from));
+          }
+          if (toBefore > from) {
+            const removed = oldState.doc.slice(from, toBefore).content;
+            tr.insert(from, removed);
+            suggestDeletion(tr, type, storage.author, from, from + removed.size);
+            if (toAfter === from) {
+              // The cursor stays where it was: before the text on Backspace, after it on Delete
+              const backwards = oldState.selection.head >= toBefore;
+              tr.setSelection(TextSelection.create(tr.doc, tr.mapping.map(from, backwards ? -1 : 1)));
+            }
+          }
+          return tr;
+        }
+      })
+    ];
+  }
+});
+
+/**
+ * Suggestions in document order, one entry per suggestion id
+ */
+export const listSuggestions = (editor: Editor): Suggestion[] => {
+  const byId = new Map<string, Suggestion>();
+  editor.state.doc.descendants(node => {
+    const mark = node.isText ? node.marks.find(m => m.type.name === 'suggestion') : undefined;
+    if (!mark) return;
+    const existing = byId.get(mark.attrs.id);
+    if (existing) {
+      existing.text += node.text || '';
+    } else {
+      byId.set(mark.attrs.id, {
+        id: mark.attrs.id,
+        kind: mark.attrs.kind,
+        author: mark.attrs.author,
+        createdAt: mark.attrs.createdAt,
+        text: node.text || ''
+      });
+    }
+  });
+  return [...byId.values()];
+};
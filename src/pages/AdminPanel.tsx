@@ -2,9 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { getUsers, updateUserRole, deleteUser, createUser, getSalesforceConnection, connectSalesforce, disconnectSalesforce, SalesforceConnection } from '../api/usersAPI';
 import { canManageUsers } from '../utils/permissions';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { User } from '../types';
 import SalesforceIntegrationModal from '../components/SalesforceIntegrationModal';
+import ReviewWorkflowModal from '../components/ReviewWorkflowModal';
 import ConfirmationModal from '../components/ConfirmationModal';
 import Modal from '../components/Modal';
 import { 
@@ -22,7 +23,8 @@ import {
   Plus,
   Mail,
   FileText,
-  Database
+  Database,
+  ClipboardCheck
 } from 'lucide-react';
 
 const AdminPanel: React.FC = () => {
@@ -38,6 +40,17 @@ const AdminPanel: React.FC = () => {
   const [createUserData, setCreateUserData] = useState({ email: '', role: 'Viewer' as 'Admin' | 'Editor' | 'Viewer' });
   const [isCreatingUser, setIsCreatingUser] = useState(false);
   const [showSalesforceModal, setShowSalesforceModal] = useState(false);
+  const [showWorkflowModal, setShowWorkflowModal] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // The Salesforce OAuth callback lands here after linking an org
+  useEffect(() => {
+    if (searchParams.get('salesforce') === 'connected') {
+      showNotification('success', 'Salesforce connected successfully');
+      setShowSalesforceModal(true);
+      setSearchParams({}, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
 
   useEffect(() => {
     if (!canManageUsers(user)) {
@@ -220,6 +233,25 @@ const AdminPanel: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {/* Review Workflow */}
+        <div className="mb-8">
+          <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">Review Workflow</h2>
+                <p className="text-sm text-gray-600">Require approval before publishing and assign reviewers</p>
+              </div>
+              <button
+                onClick={() => setShowWorkflowModal(true)}
+                className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 shadow-lg flex items-center space-x-2"
+              >
+                <ClipboardCheck className="w-5 h-5" />
+                <span>Configure Review Workflow</span>
+              </button>
+            </div>
+          </div>
+        </div>
         {/* Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
@@ -533,6 +565,14 @@ const AdminPanel: React.FC = () => {
           showNotification('success', 'Salesforce integration updated successfully');
         }}
       />
+
+      {/* Review Workflow Modal */}
+      <ReviewWorkflowModal
+        isOpen={showWorkflowModal}
+        onClose={() => setShowWorkflowModal(false)}
+        onSaved={() => showNotification('success', 'Review workflow updated successfully')}
+        users={users}
+      />
     </div>
   );
 };
@@ -1,11 +1,23 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useParams, Link, useSearchParams } from 'react-router-dom';
 import { useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { syncArticleToSalesforce } from '../api/salesforceAPI';
+import { useArticleCategories } from '../hooks/useArticleCategories';
+import { promoteArticle, syncArticleToSalesforce } from '../api/salesforceAPI';
+import { getSalesforceConnections, SalesforceConnection } from '../api/usersAPI';
+import { archiveArticle, deleteArticle, unarchiveArticle } from '../api/articlesAPI';
+import { getWorkflowSettings } from '../api/reviewAPI';
+import { ApiError, ApiFieldError } from '../api/apiClient';
+import { stripEditorialMarkup } from '../../shared/articleMarkup';
 import { Article, Version } from '../types';
 import OnboardingTooltip from '../components/OnboardingTooltip';
-import { Edit, ArrowLeft, Calendar, User, Globe, Lock, Tag, CheckCircle, Clock, Archive, Eye, CloudCog as CloudCheck, Upload, FolderSync as Sync } from 'lucide-react';
+import SalesforceOrgSelect from '../components/SalesforceOrgSelect';
+import Modal from '../components/Modal';
+import ArticleSchedule from '../components/ArticleSchedule';
+import ArticleStatusBadge from '../components/ArticleStatusBadge';
+import ArticleReview from '../components/ArticleReview';
+import { canDeleteArticles, canEditArticle, canPublishArticles } from '../utils/permissions';
+import { Edit, ArrowLeft, Calendar, User, Globe, Lock, Tag, CheckCircle, Clock, Archive, Eye, CloudCog as CloudCheck, Upload, FolderSync as Sync, ArrowUpCircle, AlertCircle, ArchiveRestore, Trash2 } from 'lucide-react';
 
 const ArticlePreview: React.FC = () => {
   const { articleId } = useParams<{ articleId: string }>();
@@ -13,15 +25,45 @@ const ArticlePreview: React.FC = () => {
   const versionId = searchParams.get('versionId');
   const navigate = useNavigate();
   
-  const { articles, getVersionsByArticle, updateArticle, addSyncLog, addVersion, user } = useAppContext();
+  const { articles, getVersionsByArticle, addSyncLog, refreshData, user } = useAppContext();
   const [article, setArticle] = useState<Article | null>(null);
   const [currentVersion, setCurrentVersion] = useState<Version | null>(null);
   const [showVersionModal, setShowVersionModal] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<Version | null>(null);
   const [isPublishing, setIsPublishing] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [targetOrgId, setTargetOrgId] = useState('');
+  const [connections, setConnections] = useState<SalesforceConnection[]>([]);
+  const [showPromoteModal, setShowPromoteModal] = useState(false);
+  const [promoteOrgId, setPromoteOrgId] = useState('');
+  const [isPromoting, setIsPromoting] = useState(false);
+  const [syncFieldErrors, setSyncFieldErrors] = useState<ApiFieldError[]>([]);
+  const [lifecycleAction, setLifecycleAction] = useState<'archive' | 'unarchive' | 'delete' | null>(null);
+  const [workflowEnabled, setWorkflowEnabled] = useState(false);
+  const { getCategoryDisplayName } = useArticleCategories(articleId);
+
+  const shownArticleId = article?.id;
+  const versions = useMemo(
+    () => (shownArticleId ? getVersionsByArticle(shownArticleId) : []),
+    [shownArticleId, getVersionsByArticle]
+  );
 
-  const versions = article ? getVersionsByArticle(article.id) : [];
+  // The newest version published to the selected org is what gets promoted
+  const promotableVersion = versions.find(v =>
+    v.status === 'Published' && v.syncedToSalesforce && v.salesforceId && v.salesforceOrgId === targetOrgId
+  );
+  const promoteTargets = connections.filter(org => org.isConnected && org.connectionId !== targetOrgId);
+  // With the review workflow on, only approved articles can be published
+  const awaitingApproval = workflowEnabled && article?.status !== 'approved';
+
+  useEffect(() => {
+    getSalesforceConnections()
+      .then(setConnections)
+      .catch(error => console.error('Failed to load Salesforce connections:', error));
+    getWorkflowSettings()
+      .then(settings => setWorkflowEnabled(settings.enabled))
+      .catch(error => console.error('Failed to load workflow settings:', error));
+  }, []);
 
   useEffect(() => {
     if (articleId) {
@@ -43,11 +85,11 @@ const ArticlePreview: React.FC = () => {
 
   const renderContent = (content: string) => {
     try {
-      // Handle HTML content directly
+      // Handle HTML content directly, as it will be published: without comments or open suggestions
       return (
         <div 
           className="prose prose-lg max-w-none tiptap-preview"
-          dangerouslySetInnerHTML={{ __html: content }}
+          dangerouslySetInnerHTML={{ __html: stripEditorialMarkup(content) }}
         />
       );
     } catch (error) {
@@ -95,146 +137,117 @@ const ArticlePreview: React.FC = () => {
     });
   };
 
-  const getCategoryDisplayName = (categoryId: string): string => {
-    // Mock category mapping - in production this would come from synced data
-    const categoryMap: Record<string, string> = {
-      'cat-getting-started': 'Getting Started',
-      'cat-installation': 'Getting Started > Installation',
-      'cat-setup': 'Getting Started > Initial Setup',
-      'cat-advanced': 'Advanced Topics',
-      'cat-api': 'Advanced Topics > API Integration',
-      'cat-customization': 'Advanced Topics > Customization',
-      'cat-troubleshooting': 'Troubleshooting',
-      'cat-common-issues': 'Troubleshooting > Common Issues',
-      'cat-salesforce-platform': 'Salesforce Platform',
-      'cat-lightning': 'Salesforce Platform > Lightning Experience',
-      'cat-classic': 'Salesforce Platform > Salesforce Classic'
-    };
-    
-    return categoryMap[categoryId] || categoryId;
-  };
-
   const handleViewVersion = (version: Version) => {
     setSelectedVersion(version);
     setShowVersionModal(true);
   };
 
+  // Field-level rejections are listed on the page with a way back to the editor
+  const reportSyncFailure = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.fieldErrors.length > 0) {
+      setSyncFieldErrors(error.fieldErrors);
+      return;
+    }
+    alert(`${fallback} ${error instanceof Error ? error.message : 'Please try again.'}`);
+  };
+
+  // The server records the synced version and the sync log, successful or not
   const handlePublish = async () => {
-    if (!article) return;
+    if (!article || !user || awaitingApproval) return;
     
     setIsPublishing(true);
+    setSyncFieldErrors([]);
     try {
-      const publishedArticle = {
-        ...article,
-        lastModified: new Date().toISOString(),
-        status: 'published' as const
-      };
-
-      // Create version record
-      const newVersion = {
-        articleId: publishedArticle.id,
-        title: publishedArticle.title,
-        body: article.body,
-        status: 'Published',
-        createdBy: user?.name || 'Unknown',
-        versionLabel: `v${versions.filter(v => v.status === 'Published').length + 1}.0`,
-        notes: 'Published to Salesforce',
-        syncedToSalesforce: true,
-        syncTimestamp: new Date().toISOString(),
-        syncUser: user?.name || 'Unknown',
-        salesforceId: `ka0XX0000004C${Math.random().toString(36).substr(2, 3)}`
-      };
-      
-      addVersion(newVersion);
-
-      await syncArticleToSalesforce(publishedArticle);
-
-      // Update article with last synced version
-      publishedArticle.lastSyncedVersionId = newVersion.versionId;
-      updateArticle(publishedArticle);
-      setArticle(publishedArticle);
-
-      addSyncLog({
-        articleId: publishedArticle.id,
-        articleTitle: publishedArticle.title,
-        action: 'publish',
-        user: user?.name || 'Unknown',
-        status: 'success',
-        message: 'Article published and synced to Salesforce'
-      });
+      const result = await syncArticleToSalesforce(article.id, { publish: true, orgId: targetOrgId || undefined });
+      setArticle(result.article);
+      await refreshData();
 
       alert('Article published successfully!');
     } catch (error) {
       console.error('Publish failed:', error);
-      addSyncLog({
-        articleId: article.id,
-        articleTitle: article.title,
-        action: 'publish',
-        user: user?.name || 'Unknown',
-        status: 'error',
-        message: `Failed to publish: ${error}`
-      });
-      alert('Failed to publish article. Please try again.');
+      reportSyncFailure(error, 'Failed to publish article.');
     } finally {
       setIsPublishing(false);
     }
   };
 
   const handleSyncToSalesforce = async () => {
-    if (!article) return;
+    if (!article || !user) return;
     
     setIsSyncing(true);
+    setSyncFieldErrors([]);
     try {
-      await syncArticleToSalesforce(article);
-
-      const updatedArticle = {
-        ...article,
-        lastModified: new Date().toISOString(),
-        lastSyncedVersionId: `v${Date.now()}`
-      };
-
-      // Create version record
-      const newVersion = {
-        articleId: updatedArticle.id,
-        title: updatedArticle.title,
-        body: article.body,
-        status: 'Draft',
-        createdBy: user?.name || 'Unknown',
-        versionLabel: `v${versions.length + 1}.0`,
-        notes: 'Synced to Salesforce',
-        syncedToSalesforce: true,
-        syncTimestamp: new Date().toISOString(),
-        syncUser: user?.name || 'Unknown',
-        salesforceId: `ka0XX0000004C${Math.random().toString(36).substr(2, 3)}`
-      };
-      
-      addVersion(newVersion);
-      updateArticle(updatedArticle);
-      setArticle(updatedArticle);
-
-      addSyncLog({
-        articleId: updatedArticle.id,
-        articleTitle: updatedArticle.title,
-        action: 'sync',
-        user: user?.name || 'Unknown',
-        status: 'success',
-        message: 'Article synced to Salesforce successfully'
-      });
+      const result = await syncArticleToSalesforce(article.id, { orgId: targetOrgId || undefined });
+      setArticle(result.article);
+      await refreshData();
 
       alert('Article synced to Salesforce successfully!');
     } catch (error) {
       console.error('Sync failed:', error);
+      reportSyncFailure(error, 'Failed to sync to Salesforce.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const openPromoteModal = () => {
+    const production = promoteTargets.find(org => org.environment === 'production') || promoteTargets[0];
+    setPromoteOrgId(production?.connectionId || '');
+    setShowPromoteModal(true);
+  };
+
+  const handlePromote = async () => {
+    if (!article || !user || !promotableVersion || !promoteOrgId) return;
+
+    const targetName = connections.find(org => org.connectionId === promoteOrgId)?.name || 'target org';
+    setIsPromoting(true);
+    try {
+      await promoteArticle(article.id, { sourceOrgId: targetOrgId, targetOrgId: promoteOrgId });
+      await refreshData();
+
+      setShowPromoteModal(false);
+      alert(`Article promoted to ${targetName}!`);
+    } catch (error) {
+      console.error('Promotion failed:', error);
+      alert(`Failed to promote article: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsPromoting(false);
+    }
+  };
+
+  // Archive, unarchive and trash run on the server, which mirrors them to
+  // Salesforce and writes the versions and sync logs
+  const handleLifecycle = async (action: 'archive' | 'unarchive' | 'delete') => {
+    if (!article || !user) return;
+    if (action === 'delete' && !confirm(`Move "${article.title}" to the trash?${
+      article.status === 'published' || versions.some(v => v.syncedToSalesforce && v.status === 'Published')
+        ? ' Anything online in Salesforce will be archived first.'
+        : ''
+    }`)) return;
+
+    setLifecycleAction(action);
+    try {
+      if (action === 'archive') {
+        setArticle(await archiveArticle(article.id));
+      } else if (action === 'unarchive') {
+        setArticle(await unarchiveArticle(article.id));
+      } else {
+        await deleteArticle(article.id);
+      }
+      await refreshData();
+      if (action === 'delete') navigate('/dashboard');
+    } catch (error) {
+      console.error(`${action} failed:`, error);
       addSyncLog({
         articleId: article.id,
         articleTitle: article.title,
-        action: 'sync',
-        user: user?.name || 'Unknown',
+        action,
         status: 'error',
-        message: `Failed to sync: ${error}`
+        message: `Failed to ${action}: ${error instanceof Error ? error.message : error}`
       });
-      alert('Failed to sync to Salesforce. Please try again.');
+      alert(`Failed to ${action} article: ${error instanceof Error ? error.message : error}`);
     } finally {
-      setIsSyncing(false);
+      setLifecycleAction(null);
     }
   };
 
@@ -286,6 +299,12 @@ const ArticlePreview: React.FC = () => {
         </div>
 
         <div className="flex items-center space-x-3">
+          <SalesforceOrgSelect
+            value={targetOrgId}
+            onChange={setTargetOrgId}
+            disabled={isSyncing || isPublishing}
+          />
+
           <button
             onClick={handleSyncToSalesforce}
             disabled={isSyncing}
@@ -297,13 +316,25 @@ const ArticlePreview: React.FC = () => {
 
           <button
             onClick={handlePublish}
-            disabled={isPublishing}
+            disabled={isPublishing || awaitingApproval}
+            title={awaitingApproval ? 'Needs approval before it can be published' : undefined}
             className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 disabled:from-emerald-400 disabled:to-cyan-400 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
           >
             <Upload className="w-4 h-4" />
             <span>{isPublishing ? 'Publishing...' : 'Publish'}</span>
           </button>
 
+          {promotableVersion && promoteTargets.length > 0 && (
+            <button
+              onClick={openPromoteModal}
+              disabled={isPromoting}
+              className="bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 disabled:from-amber-400 disabled:to-orange-400 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
+            >
+              <ArrowUpCircle className="w-4 h-4" />
+              <span>{isPromoting ? 'Promoting...' : 'Promote'}</span>
+            </button>
+          )}
+
           <Link
             to={`/editor/${article.id}`}
             className="bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 shadow-lg flex items-center space-x-2"
@@ -314,6 +345,31 @@ const ArticlePreview: React.FC = () => {
         </div>
       </div>
 
+      {syncFieldErrors.length > 0 && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4 flex items-start justify-between">
+          <div>
+            <div className="flex items-center space-x-2 text-red-700 font-medium">
+              <AlertCircle className="w-5 h-5" />
+              <span>Salesforce rejected this article</span>
+            </div>
+            <ul className="mt-2 ml-7 space-y-1 text-sm text-red-600">
+              {syncFieldErrors.map(error => (
+                <li key={`${error.field}-${error.message}`}>
+                  <span className="font-mono">{error.field}</span>: {error.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+          <button
+            onClick={() => navigate(`/editor/${article.id}`, { state: { salesforceFieldErrors: syncFieldErrors } })}
+            className="text-sm font-medium text-red-700 hover:text-red-900 flex items-center space-x-1"
+          >
+            <Edit className="w-4 h-4" />
+            <span>Fix in editor</span>
+          </button>
+        </div>
+      )}
+
       <div className="grid gap-8 grid-cols-1 lg:grid-cols-4">
         {/* Main Content */}
         <div className="lg:col-span-3">
@@ -378,18 +434,7 @@ const ArticlePreview: React.FC = () => {
 
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
-                <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-medium border ${
-                  article.status === 'published'
-                    ? 'bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border-emerald-200'
-                    : 'bg-gradient-to-r from-orange-100 to-yellow-100 text-orange-700 border-orange-200'
-                }`}>
-                  {article.status === 'published' ? (
-                    <CheckCircle className="w-3 h-3" />
-                  ) : (
-                    <Clock className="w-3 h-3" />
-                  )}
-                  <span className="capitalize">{article.status}</span>
-                </span>
+                <ArticleStatusBadge status={article.status} size="sm" />
               </div>
 
               <div>
@@ -428,6 +473,54 @@ const ArticlePreview: React.FC = () => {
               </div>
             </div>
           </div>
+
+          {/* Lifecycle */}
+          {(canPublishArticles(user) || canDeleteArticles(user)) && (
+            <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg space-y-3">
+              <h3 className="text-lg font-semibold text-gray-900">Lifecycle</h3>
+              {canPublishArticles(user) && (
+                article.status === 'archived' ? (
+                  <button
+                    onClick={() => handleLifecycle('unarchive')}
+                    disabled={!!lifecycleAction}
+                    className="w-full bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+                  >
+                    <ArchiveRestore className="w-4 h-4" />
+                    <span>{lifecycleAction === 'unarchive' ? 'Unarchiving...' : 'Unarchive'}</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => handleLifecycle('archive')}
+                    disabled={!!lifecycleAction}
+                    className="w-full bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+                  >
+                    <Archive className="w-4 h-4" />
+                    <span>{lifecycleAction === 'archive' ? 'Archiving...' : 'Archive'}</span>
+                  </button>
+                )
+              )}
+              {canDeleteArticles(user) && (
+                <button
+                  onClick={() => handleLifecycle('delete')}
+                  disabled={!!lifecycleAction}
+                  className="w-full bg-white border border-red-200 hover:bg-red-50 disabled:opacity-50 text-red-600 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center space-x-2"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  <span>{lifecycleAction === 'delete' ? 'Moving to trash...' : 'Move to Trash'}</span>
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Review */}
+          <ArticleReview article={article} workflowEnabled={workflowEnabled} />
+
+          {/* Scheduled Actions */}
+          <ArticleSchedule
+            article={article}
+            orgId={targetOrgId || undefined}
+            canSchedule={canPublishArticles(user) && canEditArticle(user, article)}
+          />
         </div>
       </div>
 
@@ -478,6 +571,13 @@ const ArticlePreview: React.FC = () => {
                             </span>
                           )}
 
+                          {version.promotedOrgId && (
+                            <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-amber-100 to-orange-100 text-amber-700 border border-amber-200">
+                              <ArrowUpCircle className="w-3 h-3" />
+                              <span>Promoted</span>
+                            </span>
+                          )}
+
                           {currentVersion?.versionId === version.versionId && (
                             <span className="px-2 py-1 text-xs font-medium bg-gradient-to-r from-purple-100 to-blue-100 text-purple-700 border border-purple-200 rounded-full">
                               Current
@@ -521,6 +621,49 @@ const ArticlePreview: React.FC = () => {
         </div>
       </div>
 
+      {/* Promote Modal */}
+      <Modal
+        isOpen={showPromoteModal}
+        onClose={() => setShowPromoteModal(false)}
+        title="Promote to Production"
+        description={`Publish ${promotableVersion?.versionLabel || 'the published version'} from ${connections.find(org => org.connectionId === targetOrgId)?.name || 'this org'} unchanged`}
+        size="md"
+      >
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Target org</label>
+            <select
+              value={promoteOrgId}
+              onChange={(e) => setPromoteOrgId(e.target.value)}
+              disabled={isPromoting}
+              className="w-full px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 text-sm"
+            >
+              {promoteTargets.map(org => (
+                <option key={org.connectionId} value={org.connectionId}>{org.name}</option>
+              ))}
+            </select>
+          </div>
+          <p className="text-sm text-gray-600">
+            Its data categories must already exist in the target org's synced category tree.
+          </p>
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setShowPromoteModal(false)}
+              className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handlePromote}
+              disabled={isPromoting || !promoteOrgId}
+              className="px-4 py-2 bg-gradient-to-r from-amber-500 to-orange-500 hover:from-amber-600 hover:to-orange-600 disabled:opacity-50 text-white rounded-lg transition-all duration-200"
+            >
+              {isPromoting ? 'Promoting...' : 'Promote'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Version Preview Modal */}
       {showVersionModal && selectedVersion && (
         <div className="fixed inset-0 z-50 overflow-y-auto">
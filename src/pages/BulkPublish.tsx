@@ -2,8 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
 import { canPublishArticles } from '../utils/permissions';
-import { bulkPublishArticles } from '../api/salesforceAPI';
+import {
+  cancelPublishJob,
+  isPublishJobFinished,
+  listPublishJobs,
+  PublishJob,
+  PublishJobItem,
+  retryFailedPublishItems,
+  startBulkPublishJob,
+  subscribeToPublishJob
+} from '../api/salesforceAPI';
 import ConfirmationModal from '../components/ConfirmationModal';
+import SalesforceOrgSelect from '../components/SalesforceOrgSelect';
 import {
   ArrowLeft,
   Upload,
@@ -11,95 +21,184 @@ import {
   XCircle,
   Clock,
   User,
-  Calendar
+  Calendar,
+  Download,
+  RotateCcw,
+  MinusCircle
 } from 'lucide-react';
 
 const BulkPublish: React.FC = () => {
-  const { articles, selectedArticles, setSelectedArticles, updateArticle, addSyncLog, user } = useAppContext();
+  const { articles, selectedArticles, setSelectedArticles, refreshData, user } = useAppContext();
   const navigate = useNavigate();
   
-  const [isPublishing, setIsPublishing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
-  const [publishProgress, setPublishProgress] = useState({ completed: 0, total: 0 });
-  const [publishResults, setPublishResults] = useState<{
-    success: number;
-    failed: number;
-    errors: string[];
-  } | null>(null);
+  const [targetOrgId, setTargetOrgId] = useState('');
+  const [job, setJob] = useState<PublishJob | null>(null);
+  const [resumeChecked, setResumeChecked] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
 
   const selectedArticlesList = articles.filter(article => selectedArticles.includes(article.id));
+  const jobId = job?.id;
+  const jobFinished = job ? isPublishJobFinished(job) : false;
+  const isPublishing = isStarting || (!!job && !jobFinished);
+
+  const publishProgress = {
+    completed: job?.items.filter(item => ['succeeded', 'failed', 'cancelled'].includes(item.status)).length || 0,
+    total: job?.items.length || selectedArticles.length
+  };
+
+  const publishResults = startError
+    ? { success: 0, failed: selectedArticles.length, errors: [startError] }
+    : job && jobFinished
+      ? {
+        success: job.items.filter(item => item.status === 'succeeded').length,
+        failed: job.items.filter(item => item.status === 'failed').length,
+        errors: job.items
+          .filter(item => item.status === 'failed')
+          .map(item => `Failed to publish "${item.title}": ${item.error}`)
+      }
+      : null;
+
+  // A job started earlier keeps running on the server; pick it back up
+  useEffect(() => {
+    listPublishJobs({ active: true })
+      .then(jobs => {
+        if (jobs[0]) setJob(jobs[0]);
+      })
+      .catch(error => console.error('Failed to load publish jobs:', error))
+      .finally(() => setResumeChecked(true));
+  }, []);
 
   useEffect(() => {
+    if (!jobId) return;
+    return subscribeToPublishJob(jobId, setJob);
+  }, [jobId]);
+
+  useEffect(() => {
+    if (!resumeChecked || job) return;
     if (selectedArticles.length === 0 || !canPublishArticles(user)) {
       navigate('/dashboard');
     }
-  }, [selectedArticles.length, user, navigate]);
+  }, [resumeChecked, job, selectedArticles.length, user, navigate]);
 
   const handleConfirmPublish = async () => {
+    if (!user) return;
+
     setShowConfirmModal(false);
-    setIsPublishing(true);
-    setPublishProgress({ completed: 0, total: selectedArticles.length });
+    setIsStarting(true);
 
     try {
-      const results = await bulkPublishArticles(
-        selectedArticles,
-        articles,
-        (completed, total) => {
-          setPublishProgress({ completed, total });
-        }
-      );
-
-      setPublishResults(results);
-
-      // Update successful articles to published status
-      const successfulArticles = selectedArticlesList.slice(0, results.success);
-      successfulArticles.forEach(article => {
-        const updatedArticle = {
-          ...article,
-          status: 'published' as const,
-          lastModified: new Date().toISOString()
-        };
-        updateArticle(updatedArticle);
-
-        addSyncLog({
-          articleId: article.id,
-          articleTitle: article.title,
-          action: 'publish',
-          user: user?.name || 'Unknown',
-          status: 'success',
-          message: 'Article published via bulk operation'
-        });
-      });
-
-      // Log failed articles
-      results.errors.forEach((error, index) => {
-        const failedArticle = selectedArticlesList[results.success + index];
-        if (failedArticle) {
-          addSyncLog({
-            articleId: failedArticle.id,
-            articleTitle: failedArticle.title,
-            action: 'publish',
-            user: user?.name || 'Unknown',
-            status: 'error',
-            message: error
-          });
-        }
-      });
-
+      setJob(await startBulkPublishJob(selectedArticles, { orgId: targetOrgId || undefined }));
     } catch (error) {
       console.error('Bulk publish failed:', error);
-      setPublishResults({
-        success: 0,
-        failed: selectedArticles.length,
-        errors: [`Bulk publish operation failed: ${error}`]
-      });
+      setStartError(`Bulk publish operation failed: ${error}`);
     } finally {
-      setIsPublishing(false);
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      await cancelPublishJob(job.id);
+    } catch (error) {
+      console.error('Failed to cancel publish job:', error);
+    }
+  };
+
+  const handleRetryFailed = async () => {
+    if (!job) return;
+
+    setIsStarting(true);
+    try {
+      setJob(await retryFailedPublishItems(job.id));
+    } catch (error) {
+      console.error('Failed to retry publish job:', error);
+      alert(`Failed to retry: ${error}`);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const exportResults = () => {
+    if (!job) return;
+
+    // Spreadsheets run cells starting with =, +, - or @ as formulas, so those get a leading quote
+    const escapeCsv = (value: string | number | undefined) => {
+      const text = String(value ?? '');
+      const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+      return `"${safe.replace(/"/g, '""')}"`;
+    };
+    const csvContent = [
+      ['Article ID', 'Article', 'Status', 'Salesforce ID', 'Salesforce Version ID', 'Attempts', 'Error Code', 'Error'].join(','),
+      ...job.items.map(item => [
+        item.articleId,
+        item.title,
+        item.status,
+        item.knowledgeArticleId,
+        item.versionId,
+        item.attempts,
+        item.errorCode,
+        item.error
+      ].map(escapeCsv).join(','))
+    ].join('\n');
+
+    const blob = new Blob([csvContent], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `bulk-publish-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const getItemStatusBadge = (item: PublishJobItem) => {
+    switch (item.status) {
+      case 'succeeded':
+        return (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border border-emerald-200">
+            <CheckCircle className="w-3 h-3" />
+            <span>Published</span>
+          </span>
+        );
+      case 'failed':
+        return (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-red-100 to-pink-100 text-red-700 border border-red-200">
+            <XCircle className="w-3 h-3" />
+            <span>Failed</span>
+          </span>
+        );
+      case 'running':
+        return (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-blue-100 to-indigo-100 text-blue-700 border border-blue-200">
+            <div className="w-3 h-3 border-2 border-blue-300 border-t-blue-700 rounded-full animate-spin" />
+            <span>Publishing</span>
+          </span>
+        );
+      case 'pending':
+        return (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-amber-100 to-yellow-100 text-amber-700 border border-amber-200">
+            <Clock className="w-3 h-3" />
+            <span>Pending</span>
+          </span>
+        );
+      default:
+        return (
+          <span className="inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-gray-100 to-slate-100 text-gray-700 border border-gray-200">
+            <MinusCircle className="w-3 h-3" />
+            <span>Skipped</span>
+          </span>
+        );
     }
   };
 
   const handleComplete = () => {
     setSelectedArticles([]);
+    // The server published these; reload articles, versions and sync logs
+    refreshData();
     navigate('/dashboard');
   };
 
@@ -113,15 +212,19 @@ const BulkPublish: React.FC = () => {
 
   if (publishResults) {
     return (
-      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="text-center mb-8">
           <div className="w-16 h-16 bg-gradient-to-br from-emerald-400 to-cyan-400 rounded-2xl flex items-center justify-center mx-auto mb-4">
             <CheckCircle className="w-8 h-8 text-white" />
           </div>
           <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent mb-2">
-            Bulk Publish Complete
+            {job?.status === 'cancelled' ? 'Bulk Publish Cancelled' : 'Bulk Publish Complete'}
           </h1>
-          <p className="text-gray-600">Here's a summary of the publishing operation</p>
+          <p className="text-gray-600">
+            {job?.status === 'cancelled'
+              ? `Publishing stopped early; ${job.items.filter(item => item.status === 'cancelled').length} articles were skipped`
+              : "Here's a summary of the publishing operation"}
+          </p>
         </div>
 
         <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-8 shadow-lg mb-8">
@@ -146,20 +249,78 @@ const BulkPublish: React.FC = () => {
               <div className="w-12 h-12 bg-gradient-to-br from-blue-400 to-indigo-400 rounded-xl flex items-center justify-center mx-auto mb-3">
                 <Upload className="w-6 h-6 text-white" />
               </div>
-              <div className="text-2xl font-bold text-blue-600">{selectedArticles.length}</div>
+              <div className="text-2xl font-bold text-blue-600">{job?.items.length ?? selectedArticles.length}</div>
               <div className="text-sm text-gray-600">Total Articles</div>
             </div>
           </div>
 
-          {publishResults.errors.length > 0 && (
+          {job && (
+            <div className="border-t border-gray-200 pt-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Results</h3>
+                <div className="flex items-center space-x-2">
+                  {publishResults.failed > 0 && (
+                    <button
+                      onClick={handleRetryFailed}
+                      disabled={isStarting}
+                      className="px-3 py-1.5 text-sm font-medium text-white bg-gradient-to-r from-orange-500 to-red-500 hover:from-orange-600 hover:to-red-600 disabled:opacity-50 rounded-lg transition-all duration-200 flex items-center space-x-1"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>{isStarting ? 'Retrying...' : 'Retry Failed Only'}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={exportResults}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200 flex items-center space-x-1"
+                  >
+                    <Download className="w-4 h-4" />
+                    <span>Export CSV</span>
+                  </button>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50/50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Article</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Salesforce ID</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Error</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {job.items.map(item => (
+                      <tr key={item.articleId}>
+                        <td className="px-4 py-3 text-sm font-medium text-gray-900">{item.title}</td>
+                        <td className="px-4 py-3">{getItemStatusBadge(item)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-600 font-mono">{item.knowledgeArticleId || '—'}</td>
+                        <td className="px-4 py-3 text-sm text-red-700">
+                          {item.status === 'failed' && (
+                            <>
+                              {item.errorCode && <span className="font-mono text-xs mr-1">{item.errorCode}</span>}
+                              {item.error}
+                            </>
+                          )}
+                          {item.attempts > 1 && (
+                            <span className="block text-xs text-gray-500">{item.attempts} attempts</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {!job && publishResults.errors.length > 0 && (
             <div className="border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Errors</h3>
               <div className="space-y-2">
                 {publishResults.errors.map((error, index) => (
                   <div key={index} className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
-                    <span className="text-sm text-gray-500">
-                      {article.dataCategories?.length ? `${article.dataCategories.length} data categories` : 'No data categories'}
-                    </span>
+                    {error}
                   </div>
                 ))}
               </div>
@@ -201,13 +362,16 @@ const BulkPublish: React.FC = () => {
         </div>
 
         {!isPublishing && (
-          <button
-            onClick={() => setShowConfirmModal(true)}
-            className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 shadow-lg flex items-center space-x-2"
-          >
-            <Upload className="w-5 h-5" />
-            <span>Confirm Publish All</span>
-          </button>
+          <div className="flex items-center space-x-3">
+            <SalesforceOrgSelect value={targetOrgId} onChange={setTargetOrgId} />
+            <button
+              onClick={() => setShowConfirmModal(true)}
+              className="bg-gradient-to-r from-emerald-500 to-cyan-500 hover:from-emerald-600 hover:to-cyan-600 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 shadow-lg flex items-center space-x-2"
+            >
+              <Upload className="w-5 h-5" />
+              <span>Confirm Publish All</span>
+            </button>
+          </div>
         )}
       </div>
 
@@ -230,12 +394,21 @@ const BulkPublish: React.FC = () => {
               />
             </div>
             
-            <div className="text-sm text-gray-500">
+            <div className="text-sm text-gray-500 mb-6">
               {publishProgress.completed === publishProgress.total
                 ? 'Finalizing...'
-                : 'Please wait while we publish your articles to Salesforce'
+                : 'Publishing continues in the background if you leave this page'
               }
             </div>
+
+            {job && (
+              <button
+                onClick={handleCancel}
+                className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition-all duration-200"
+              >
+                Cancel Remaining
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -1,10 +1,16 @@
-import React, { useState, useMemo, useRef } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { canCreateArticles, canViewDrafts, isOwnerOrAdmin } from '../utils/permissions';
+import { canCreateArticles, canDeleteArticles, canPublishArticles, canViewDrafts, canViewArticle } from '../utils/permissions';
 import OnboardingTooltip from '../components/OnboardingTooltip';
 import CategoryTypeahead from '../components/CategoryTypeahead';
 import Portal from '../components/Portal';
+import TrashBin from '../components/TrashBin';
+import SalesforceDriftModal from '../components/SalesforceDriftModal';
+import ArticleStatusBadge from '../components/ArticleStatusBadge';
+import { useArticleCategories } from '../hooks/useArticleCategories';
+import { toCategoryOptions } from '../utils/categoryUtils';
+import { DriftReport, fetchDriftReports, scanForDrift } from '../api/salesforceAPI';
 import { 
   Search, 
   Edit, 
@@ -16,7 +22,9 @@ import {
   Clock,
   MoreVertical,
   Trash2,
-  Eye
+  Eye,
+  AlertTriangle,
+  RefreshCw
 } from 'lucide-react';
 
 const Dashboard: React.FC = () => {
@@ -27,25 +35,46 @@ const Dashboard: React.FC = () => {
   const [showActionsMenu, setShowActionsMenu] = useState<string | null>(null);
   const navigate = useNavigate();
   const containerRef = useRef<HTMLDivElement>(null);
+  const { categoryGroups } = useArticleCategories();
+  const [driftReports, setDriftReports] = useState<DriftReport[]>([]);
+  const [shownDrift, setShownDrift] = useState<DriftReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
 
-  const categories = useMemo(() => {
-    // Get all data categories from articles
-    const allDataCategories = articles.flatMap(article => article.dataCategories || []);
-    const uniqueCategories = [...new Set(allDataCategories)];
-    return uniqueCategories.map(cat => ({
-      value: cat,
-      label: cat, // In production, this would be resolved to category label
-      count: articles.filter(a => a.dataCategories?.includes(cat)).length
-    }));
-  }, [articles]);
+  useEffect(() => {
+    fetchDriftReports()
+      .then(setDriftReports)
+      .catch(error => console.error('Failed to load Salesforce drift:', error));
+  }, []);
+
+  const driftByArticle = useMemo(() => {
+    const byArticle = new Map<string, DriftReport[]>();
+    driftReports.forEach(report => byArticle.set(report.articleId, [...(byArticle.get(report.articleId) || []), report]));
+    return byArticle;
+  }, [driftReports]);
+
+  const handleScan = async () => {
+    setIsScanning(true);
+    try {
+      setDriftReports(await scanForDrift());
+    } catch (error) {
+      alert(`Failed to check Salesforce for changes: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleDriftResolved = (resolved: DriftReport) => {
+    setDriftReports(prev => prev.filter(report =>
+      report.articleId !== resolved.articleId || report.orgId !== resolved.orgId
+    ));
+  };
+
+  const categories = useMemo(() => toCategoryOptions(articles, categoryGroups), [articles, categoryGroups]);
 
   const filteredArticles = useMemo(() => {
     return articles.filter(article => {
-      // Role-based filtering
-      if (user?.role === 'Viewer' && article.status !== 'published') {
-        return false;
-      }
-      if (user?.role === 'Editor' && article.status === 'draft' && !isOwnerOrAdmin(user, article.owner)) {
+      // Role-based filtering, mirrored by the backend
+      if (!canViewArticle(user, article)) {
         return false;
       }
       
@@ -126,6 +155,27 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
 
+        {driftReports.length > 0 && (
+          <div className="mb-6 p-4 rounded-xl border bg-amber-50 border-amber-200 text-amber-800 flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertTriangle className="w-5 h-5" />
+              <span className="text-sm font-medium">
+                {driftByArticle.size === 1 ? '1 article was' : `${driftByArticle.size} articles were`} changed in Salesforce since the last sync
+              </span>
+            </div>
+            {canPublishArticles(user) && (
+              <button
+                onClick={handleScan}
+                disabled={isScanning}
+                className="px-3 py-1.5 text-sm text-amber-800 bg-white border border-amber-300 rounded-lg hover:bg-amber-100 disabled:opacity-50 flex items-center space-x-1"
+              >
+                <RefreshCw className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+                <span>Check Again</span>
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Search and Filters */}
         <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
           <div className="flex flex-col lg:flex-row lg:items-center space-y-4 lg:space-y-0 lg:space-x-4">
@@ -148,7 +198,12 @@ const Dashboard: React.FC = () => {
               >
                 <option value="all">All Status</option>
                 <option value="draft">Draft</option>
+                <option value="in_review">In Review</option>
+                <option value="changes_requested">Changes Requested</option>
+                <option value="approved">Approved</option>
                 <option value="published">Published</option>
+                <option value="archived">Archived</option>
+                {canDeleteArticles(user) && <option value="trash">Trash</option>}
               </select>
               
               <CategoryTypeahead
@@ -166,133 +221,146 @@ const Dashboard: React.FC = () => {
       </div>
 
       {/* Articles Table */}
-      <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full">
-            <thead className="bg-gradient-to-r from-purple-50 to-blue-50 border-b border-purple-100">
-              <tr>
-                <th className="px-6 py-4 text-left">
-                  <input
-                    type="checkbox"
-                    checked={filteredArticles.length > 0 && selectedArticles.length === filteredArticles.length}
-                    onChange={(e) => handleSelectAll(e.target.checked)}
-                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
-                  />
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                  Article Title
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                  Last Modified
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                  Owner
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                  Status
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
-                  Last Synced
-                </th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-gray-100">
-              {filteredArticles.map((article) => {
-                const lastSynced = getLastSyncedVersion(article.id);
-                return (
-                <tr 
-                  key={article.id} 
-                  className="hover:bg-white/40 transition-colors duration-150 group"
-                  onMouseLeave={() => setShowActionsMenu(null)}
-                >
-                  <td className="px-6 py-4">
+      {statusFilter === 'trash' ? (
+        <TrashBin searchTerm={searchTerm} />
+      ) : (
+        <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gradient-to-r from-purple-50 to-blue-50 border-b border-purple-100">
+                <tr>
+                  <th className="px-6 py-4 text-left">
                     <input
                       type="checkbox"
-                      checked={selectedArticles.includes(article.id)}
-                      onChange={(e) => handleSelectArticle(article.id, e.target.checked)}
+                      checked={filteredArticles.length > 0 && selectedArticles.length === filteredArticles.length}
+                      onChange={(e) => handleSelectAll(e.target.checked)}
                       className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
                     />
-                  </td>
-                  <td className="px-6 py-4 relative">
-                    <div className="flex flex-col">
-                      <Link
-                        to={`/article/${article.id}/preview`}
-                        className="font-medium text-gray-900 hover:text-purple-600 transition-colors duration-200"
-                      >
-                        {article.title}
-                      </Link>
-                      <span className="text-sm text-gray-500">
-                        {article.dataCategories?.length ? `${article.dataCategories.length} data categories` : 'No data categories'}
-                      </span>
-                    </div>
-                    
-                    {/* Actions Menu */}
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-2 text-sm text-gray-600">
-                      <Calendar className="w-4 h-4" />
-                      <span>{formatDate(article.lastModified)}</span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <div className="flex items-center space-x-2">
-                      <div className="w-6 h-6 bg-gradient-to-br from-emerald-400 to-cyan-400 rounded-full flex items-center justify-center">
-                        <User className="w-3 h-3 text-white" />
-                      </div>
-                      <span className="text-sm text-gray-600">{article.owner}</span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4">
-                    <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${
-                      article.status === 'published'
-                        ? 'bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border border-emerald-200'
-                        : 'bg-gradient-to-r from-orange-100 to-yellow-100 text-orange-700 border border-orange-200'
-                    }`}>
-                      {article.status === 'published' ? (
-                        <CheckCircle className="w-3 h-3" />
-                      ) : (
-                        <Clock className="w-3 h-3" />
-                      )}
-                      <span className="capitalize">{article.status}</span>
-                    </span>
-                  </td>
-                  <td className="px-6 py-4">
-                    {lastSynced ? (
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Article Title
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Last Modified
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Owner
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                    Last Synced
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {filteredArticles.map((article) => {
+                  const lastSynced = getLastSyncedVersion(article.id);
+                  const drift = driftByArticle.get(article.id) || [];
+                  return (
+                  <tr 
+                    key={article.id} 
+                    className="hover:bg-white/40 transition-colors duration-150 group"
+                    onMouseLeave={() => setShowActionsMenu(null)}
+                  >
+                    <td className="px-6 py-4">
+                      <input
+                        type="checkbox"
+                        checked={selectedArticles.includes(article.id)}
+                        onChange={(e) => handleSelectArticle(article.id, e.target.checked)}
+                        className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                      />
+                    </td>
+                    <td className="px-6 py-4 relative">
                       <div className="flex flex-col">
-                        <div className="flex items-center space-x-2">
-                          <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border border-emerald-200">
-                            <CheckCircle className="w-3 h-3" />
-                            <span>Synced</span>
-                          </span>
-                        </div>
-                        <div className="text-xs text-gray-500 mt-1">
-                          {lastSynced.versionLabel} • {formatDate(lastSynced.syncTimestamp || lastSynced.createdAt)}
+                        <Link
+                          to={`/article/${article.id}/preview`}
+                          className="font-medium text-gray-900 hover:text-purple-600 transition-colors duration-200"
+                        >
+                          {article.title}
+                        </Link>
+                        <span className="text-sm text-gray-500">
+                          {article.dataCategories?.length ? `${article.dataCategories.length} data categories` : 'No data categories'}
+                        </span>
+                      </div>
+                      
+                      {/* Actions Menu */}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2 text-sm text-gray-600">
+                        <Calendar className="w-4 h-4" />
+                        <span>{formatDate(article.lastModified)}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center space-x-2">
+                        <div className="w-6 h-6 bg-gradient-to-br from-emerald-400 to-cyan-400 rounded-full flex items-center justify-center">
+                          <User className="w-3 h-3 text-white" />
                         </div>
+                        <span className="text-sm text-gray-600">{article.owner}</span>
                       </div>
-                    ) : (
-                      <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-gray-100 to-slate-100 text-gray-700 border border-gray-200">
-                        <Clock className="w-3 h-3" />
-                        <span>Not Synced</span>
-                      </span>
-                    )}
-                  </td>
-                </tr>
-                );
-              })}
-            </tbody>
-          </table>
-        </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <ArticleStatusBadge status={article.status} />
+                    </td>
+                    <td className="px-6 py-4">
+                      {drift.length > 0 ? (
+                        <div className="flex flex-col items-start space-y-1">
+                          {drift.map(report => (
+                            <button
+                              key={report.orgId}
+                              onClick={() => setShownDrift(report)}
+                              className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-amber-100 to-orange-100 text-amber-700 border border-amber-200 hover:from-amber-200 hover:to-orange-200"
+                            >
+                              <AlertTriangle className="w-3 h-3" />
+                              <span>Changed in Salesforce</span>
+                            </button>
+                          ))}
+                        </div>
+                      ) : lastSynced ? (
+                        <div className="flex flex-col">
+                          <div className="flex items-center space-x-2">
+                            <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border border-emerald-200">
+                              <CheckCircle className="w-3 h-3" />
+                              <span>Synced</span>
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {lastSynced.versionLabel} • {formatDate(lastSynced.syncTimestamp || lastSynced.createdAt)}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="inline-flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-gray-100 to-slate-100 text-gray-700 border border-gray-200">
+                          <Clock className="w-3 h-3" />
+                          <span>Not Synced</span>
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
 
-        {filteredArticles.length === 0 && (
-          <div className="text-center py-12">
-            <div className="w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
-              <Search className="w-8 h-8 text-gray-400" />
+          {filteredArticles.length === 0 && (
+            <div className="text-center py-12">
+              <div className="w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+                <Search className="w-8 h-8 text-gray-400" />
+              </div>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No articles found</h3>
+              <p className="text-gray-500">Try adjusting your search criteria or create a new article.</p>
             </div>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No articles found</h3>
-            <p className="text-gray-500">Try adjusting your search criteria or create a new article.</p>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
+      )}
+
+      <SalesforceDriftModal
+        report={shownDrift}
+        onClose={() => setShownDrift(null)}
+        onResolved={handleDriftResolved}
+      />
     </div>
   );
 };
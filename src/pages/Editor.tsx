@@ -1,23 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
+import { Editor as RichTextEditor } from '@tiptap/react';
 import { Link } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
-import { canCreateArticles, canEditOwnArticles, isOwnerOrAdmin } from '../utils/permissions';
-import { saveDraftLocally, syncArticleToSalesforce } from '../api/salesforceAPI';
+import {
+  canCommentOnArticle,
+  canCreateArticles,
+  canEditArticle,
+  canEditOwnArticles,
+  isAssignedReviewer,
+  isOwnerOrAdmin
+} from '../utils/permissions';
+import { ApiFieldError } from '../api/apiClient';
 import { Article } from '../types';
 import { validateCategorySelections } from '../utils/articleUtils';
 import OnboardingTooltip from '../components/OnboardingTooltip';
-import { Save, Upload, FolderSync as Sync, ArrowLeft, Tag, Eye, Globe, Lock, CheckCircle, Clock, History, Edit } from 'lucide-react';
+import { Save, Upload, FolderSync as Sync, ArrowLeft, Tag, Eye, Globe, Lock, History, Edit, AlertCircle } from 'lucide-react';
 import VersionHistory from '../components/VersionHistory';
+import ArticleStatusBadge from '../components/ArticleStatusBadge';
 import CategorySummary from '../components/CategorySummary';
 import CategoryEditModal from '../components/CategoryEditModal';
 import TiptapEditor from '../components/TiptapEditor';
+import CommentThreads from '../components/CommentThreads';
+import SuggestionList from '../components/SuggestionList';
+import { CommentDraft } from '../extensions/CommentMark';
+
+const EDITOR_FIELDS: ApiFieldError['kublishField'][] = ['title', 'body', 'tags', 'visibility'];
 
 const Editor: React.FC = () => {
   const { articleId } = useParams<{ articleId: string }>();
-  const { articles, updateArticle, addArticle, addSyncLog, addVersion, updateVersion, getVersionsByArticle, getLastSyncedVersion, user } = useAppContext();
+  const { articles, updateArticle, addArticle, addSyncLog, addVersion, getVersionsByArticle, getLastSyncedVersion, user } = useAppContext();
   const navigate = useNavigate();
+  const location = useLocation();
   
+  // Field-level errors from a rejected Salesforce sync, handed over by the preview page
+  const [salesforceFieldErrors, setSalesforceFieldErrors] = useState<ApiFieldError[]>(
+    (location.state as { salesforceFieldErrors?: ApiFieldError[] } | null)?.salesforceFieldErrors || []
+  );
   const [isLoading, setIsLoading] = useState(false);
   const [showVersionHistory, setShowVersionHistory] = useState(false);
   const [showCategoryModal, setShowCategoryModal] = useState(false);
@@ -29,19 +48,24 @@ const Editor: React.FC = () => {
     visibility: 'internal',
     status: 'draft',
     owner: user?.name || 'Unknown',
+    ownerId: user?.id,
     lastModified: new Date().toISOString(),
     createdAt: new Date().toISOString(),
     dataCategories: []
   });
 
   const [newTag, setNewTag] = useState('');
+  const [richTextEditor, setRichTextEditor] = useState<RichTextEditor | null>(null);
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
   const versions = getVersionsByArticle(article.id);
   const lastSyncedVersion = getLastSyncedVersion(article.id);
 
   useEffect(() => {
     if (articleId && articleId !== 'new') {
       const existingArticle = articles.find(a => a.id === articleId);
-      if (existingArticle && isOwnerOrAdmin(user, existingArticle.owner)) {
+      if (existingArticle && (isOwnerOrAdmin(user, existingArticle.ownerId) || isAssignedReviewer(user, existingArticle))) {
         setArticle(existingArticle);
       } else if (existingArticle) {
         // User doesn't have permission to edit this article
@@ -52,7 +76,8 @@ const Editor: React.FC = () => {
       setArticle(prev => ({
         ...prev,
         id: `article-${Date.now()}`,
-        owner: user?.name || 'Unknown'
+        owner: user?.name || 'Unknown',
+        ownerId: user?.id
       }));
     } else {
       // User doesn't have permission to create articles
@@ -65,43 +90,55 @@ const Editor: React.FC = () => {
     setArticle(prev => ({ ...prev, body: html }));
   };
 
+  // Threads hang off the stored article, so a new one has to be saved first
+  const canComment = articleId !== 'new' && canCommentOnArticle(user, article);
+
+  // Assigned reviewers can only suggest changes to the body
+  const suggestOnly = articleId !== 'new' && !canEditArticle(user, article) && isAssignedReviewer(user, article);
+
+  const startComment = () => {
+    if (!richTextEditor) return;
+    const { from, to, empty } = richTextEditor.state.selection;
+    if (empty) {
+      alert('Select the text you want to comment on.');
+      return;
+    }
+    setCommentDraft({ from, to, quote: richTextEditor.state.doc.textBetween(from, to, ' ') });
+  };
+
   const handleSaveDraft = async () => {
     setIsLoading(true);
     try {
-      const articleToSave = { ...article };
-      await saveDraftLocally(articleToSave);
-      
-      const updatedArticle = {
-        ...articleToSave,
-        lastModified: new Date().toISOString(),
-        status: 'draft' as const
-      };
+      const updatedArticle = { ...article, lastModified: new Date().toISOString() };
+
+      // The article must exist before a version can be attached to it.
+      // The server assigns new articles their id and decides the status,
+      // keeping review states and withdrawing approval on edits, so the
+      // saved copy is the one to show.
+      const savedArticle = articleId === 'new'
+        ? await addArticle(updatedArticle)
+        : await updateArticle(updatedArticle);
 
       // Create version record
-      addVersion({
-        articleId: updatedArticle.id,
+      await addVersion({
+        articleId: savedArticle.id,
         title: updatedArticle.title,
         body: updatedArticle.body,
-        status: 'Draft',
-        createdBy: user?.name || 'Unknown',
         versionLabel: `v${versions.length + 1}.0`,
         notes: 'Draft saved'
       });
 
       if (articleId === 'new') {
-        addArticle(updatedArticle);
-        navigate(`/editor/${updatedArticle.id}`);
-      } else {
-        updateArticle(updatedArticle);
+        navigate(`/editor/${savedArticle.id}`);
       }
       
-      setArticle(updatedArticle);
+      setArticle(savedArticle);
+      setSalesforceFieldErrors([]);
 
       addSyncLog({
-        articleId: updatedArticle.id,
-        articleTitle: updatedArticle.title,
+        articleId: savedArticle.id,
+        articleTitle: savedArticle.title,
         action: 'draft_save',
-        user: user?.name || 'Unknown',
         status: 'success',
         message: 'Draft saved successfully'
       });
@@ -115,6 +152,21 @@ const Editor: React.FC = () => {
     }
   };
 
+  // Reviewers save the body with their suggestions; the accepted text
+  // stays the same, so no version is recorded
+  const handleSaveSuggestions = async () => {
+    setIsLoading(true);
+    try {
+      setArticle(await updateArticle(article));
+      alert('Suggestions saved successfully!');
+    } catch (error) {
+      console.error('Save failed:', error);
+      alert('Failed to save suggestions. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleRestoreVersion = async (version: any) => {
     try {
       // Update article state
@@ -122,8 +174,7 @@ const Editor: React.FC = () => {
         ...article,
         title: version.title,
         body: version.body,
-        lastModified: new Date().toISOString(),
-        status: 'draft' as const
+        lastModified: new Date().toISOString()
       };
 
       setArticle(restoredArticle);
@@ -133,8 +184,6 @@ const Editor: React.FC = () => {
         articleId: restoredArticle.id,
         title: restoredArticle.title,
         body: version.body,
-        status: 'Draft',
-        createdBy: user?.name || 'Unknown',
         versionLabel: `v${versions.length + 1}.0`,
         notes: `Restored from ${version.versionLabel}`
       });
@@ -164,6 +213,27 @@ const Editor: React.FC = () => {
     }));
   };
 
+  const renderFieldErrors = (field: ApiFieldError['kublishField']) => {
+    const fieldErrors = salesforceFieldErrors.filter(error => error.kublishField === field);
+    if (fieldErrors.length === 0) return null;
+
+    return (
+      <div className="mt-2 space-y-1">
+        {fieldErrors.map(error => (
+          <p key={`${error.field}-${error.message}`} className="flex items-start space-x-1 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>Salesforce: {error.message}</span>
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  // Summary and URL name are generated from the article, so their errors are listed in the banner
+  const unmappedFieldErrors = salesforceFieldErrors.filter(error =>
+    !error.kublishField || !EDITOR_FIELDS.includes(error.kublishField)
+  );
+
   const categoryOptions = ['Documentation', 'Tutorial', 'Best Practices', 'Support', 'FAQ', 'Troubleshooting'];
 
   return (
@@ -179,21 +249,10 @@ const Editor: React.FC = () => {
           </button>
           <div>
             <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
-              {articleId === 'new' ? 'Create Article' : 'Edit Article'}
+              {articleId === 'new' ? 'Create Article' : suggestOnly ? 'Suggest Changes' : 'Edit Article'}
             </h1>
             <div className="flex items-center space-x-4 mt-2">
-              <span className={`inline-flex items-center space-x-1 px-3 py-1 rounded-full text-xs font-medium ${
-                article.status === 'published'
-                  ? 'bg-gradient-to-r from-emerald-100 to-cyan-100 text-emerald-700 border border-emerald-200'
-                  : 'bg-gradient-to-r from-orange-100 to-yellow-100 text-orange-700 border border-orange-200'
-              }`}>
-                {article.status === 'published' ? (
-                  <CheckCircle className="w-3 h-3" />
-                ) : (
-                  <Clock className="w-3 h-3" />
-                )}
-                <span className="capitalize">{article.status}</span>
-              </span>
+              <ArticleStatusBadge status={article.status} />
               <span className="text-sm text-gray-500">
                 Last modified: {new Date(article.lastModified).toLocaleDateString()}
               </span>
@@ -203,12 +262,12 @@ const Editor: React.FC = () => {
 
         <div className="flex items-center space-x-3">
           <button
-            onClick={handleSaveDraft}
+            onClick={suggestOnly ? handleSaveSuggestions : handleSaveDraft}
             disabled={isLoading}
             className="bg-gradient-to-r from-gray-500 to-gray-600 hover:from-gray-600 hover:to-gray-700 disabled:from-gray-400 disabled:to-gray-500 text-white px-4 py-2 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center space-x-2"
           >
             <Save className="w-4 h-4" />
-            <span>{isLoading ? 'Saving...' : 'Save Draft'}</span>
+            <span>{isLoading ? 'Saving...' : suggestOnly ? 'Save Suggestions' : 'Save Draft'}</span>
           </button>
 
           <Link
@@ -221,6 +280,32 @@ const Editor: React.FC = () => {
         </div>
       </div>
 
+      {salesforceFieldErrors.length > 0 && (
+        <div className="mb-6 bg-red-50 border border-red-200 rounded-xl p-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 text-red-700 font-medium">
+              <AlertCircle className="w-5 h-5" />
+              <span>Salesforce rejected the last sync. Fix the highlighted fields and sync again.</span>
+            </div>
+            <button
+              onClick={() => setSalesforceFieldErrors([])}
+              className="text-sm text-red-600 hover:text-red-800"
+            >
+              Dismiss
+            </button>
+          </div>
+          {unmappedFieldErrors.length > 0 && (
+            <ul className="mt-2 ml-7 space-y-1 text-sm text-red-600">
+              {unmappedFieldErrors.map(error => (
+                <li key={`${error.field}-${error.message}`}>
+                  <span className="font-mono">{error.field}</span>: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <div className="grid gap-8 grid-cols-1 lg:grid-cols-3">
         {/* Main Content */}
         <div className="space-y-6 lg:col-span-2">
@@ -233,9 +318,11 @@ const Editor: React.FC = () => {
               type="text"
               value={article.title}
               onChange={(e) => setArticle(prev => ({ ...prev, title: e.target.value }))}
+              readOnly={suggestOnly}
               placeholder="Enter article title..."
               className="w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 backdrop-blur-sm text-lg font-medium"
             />
+            {renderFieldErrors('title')}
           </div>
 
           {/* Body */}
@@ -247,171 +334,201 @@ const Editor: React.FC = () => {
               content={article.body}
               onUpdate={handleEditorUpdate}
               placeholder="Start writing your article content..."
+              onEditorReady={setRichTextEditor}
+              onAddComment={canComment ? startComment : undefined}
+              onActiveCommentChange={setActiveThreadId}
+              suggesting={suggestOnly || suggesting}
+              suggestionAuthor={user?.name || 'Unknown'}
+              onSuggestingChange={suggestOnly ? undefined : setSuggesting}
             />
+            {renderFieldErrors('body')}
           </div>
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
-          {/* Tags */}
-          <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
-            <div className="flex items-center space-x-2 mb-3">
-              <Tag className="w-4 h-4 text-gray-500" />
-              <label className="block text-sm font-medium text-gray-700">
-                Tags
-              </label>
-            </div>
-            <div className="flex items-center space-x-2 mb-3">
-              <input
-                type="text"
-                value={newTag}
-                onChange={(e) => setNewTag(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && addTag()}
-                placeholder="Add a tag..."
-                className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 backdrop-blur-sm text-sm"
-              />
-              <button
-                onClick={addTag}
-                className="p-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-lg hover:from-purple-600 hover:to-blue-600 transition-all duration-200"
-              >
-                <Tag className="w-4 h-4" />
-              </button>
-            </div>
-            <div className="flex flex-wrap gap-2">
-              {article.tags.map(tag => (
-                <span
-                  key={tag}
-                  className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-purple-100 to-blue-100 text-purple-700 border border-purple-200"
-                >
-                  {tag}
+          {canComment && (
+            <CommentThreads
+              articleId={article.id}
+              editor={richTextEditor}
+              draft={commentDraft}
+              onDraftDone={() => setCommentDraft(null)}
+              activeThreadId={activeThreadId}
+              onActiveThreadChange={setActiveThreadId}
+            />
+          )}
+
+          <SuggestionList editor={richTextEditor} canResolve={!suggestOnly} />
+
+          {!suggestOnly && (
+            <>
+              {/* Tags */}
+              <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+                <div className="flex items-center space-x-2 mb-3">
+                  <Tag className="w-4 h-4 text-gray-500" />
+                  <label className="block text-sm font-medium text-gray-700">
+                    Tags
+                  </label>
+                </div>
+                <div className="flex items-center space-x-2 mb-3">
+                  <input
+                    type="text"
+                    value={newTag}
+                    onChange={(e) => setNewTag(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && addTag()}
+                    placeholder="Add a tag..."
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 backdrop-blur-sm text-sm"
+                  />
                   <button
-                    onClick={() => removeTag(tag)}
-                    className="ml-2 text-purple-500 hover:text-purple-700"
+                    onClick={addTag}
+                    className="p-2 bg-gradient-to-r from-purple-500 to-blue-500 text-white rounded-lg hover:from-purple-600 hover:to-blue-600 transition-all duration-200"
                   >
-                    ×
+                    <Tag className="w-4 h-4" />
                   </button>
-                </span>
-              ))}
-            </div>
-          </div>
-
-          {/* Visibility */}
-          <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
-            <label className="block text-sm font-medium text-gray-700 mb-3">
-              Visibility
-            </label>
-            <div className="space-y-3">
-              <label className="flex items-center space-x-3 cursor-pointer">
-                <input
-                  type="radio"
-                  name="visibility"
-                  value="internal"
-                  checked={article.visibility === 'internal'}
-                  onChange={(e) => setArticle(prev => ({ ...prev, visibility: e.target.value as 'internal' | 'public' }))}
-                  className="text-purple-600 focus:ring-purple-500"
-                />
-                <div className="flex items-center space-x-2">
-                  <Lock className="w-4 h-4 text-gray-500" />
-                  <span className="text-sm font-medium text-gray-700">Internal</span>
                 </div>
-              </label>
-              <label className="flex items-center space-x-3 cursor-pointer">
-                <input
-                  type="radio"
-                  name="visibility"
-                  value="public"
-                  checked={article.visibility === 'public'}
-                  onChange={(e) => setArticle(prev => ({ ...prev, visibility: e.target.value as 'internal' | 'public' }))}
-                  className="text-purple-600 focus:ring-purple-500"
-                />
-                <div className="flex items-center space-x-2">
-                  <Globe className="w-4 h-4 text-gray-500" />
-                  <span className="text-sm font-medium text-gray-700">Public</span>
+                <div className="flex flex-wrap gap-2">
+                  {article.tags.map(tag => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-gradient-to-r from-purple-100 to-blue-100 text-purple-700 border border-purple-200"
+                    >
+                      {tag}
+                      <button
+                        onClick={() => removeTag(tag)}
+                        className="ml-2 text-purple-500 hover:text-purple-700"
+                      >
+                        ×
+                      </button>
+                    </span>
+                  ))}
                 </div>
-              </label>
-            </div>
-          </div>
+                {renderFieldErrors('tags')}
+              </div>
+
+              {/* Visibility */}
+              <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+                <label className="block text-sm font-medium text-gray-700 mb-3">
+                  Visibility
+                </label>
+                <div className="space-y-3">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="visibility"
+                      value="internal"
+                      checked={article.visibility === 'internal'}
+                      onChange={(e) => setArticle(prev => ({ ...prev, visibility: e.target.value as 'internal' | 'public' }))}
+                      className="text-purple-600 focus:ring-purple-500"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <Lock className="w-4 h-4 text-gray-500" />
+                      <span className="text-sm font-medium text-gray-700">Internal</span>
+                    </div>
+                  </label>
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="visibility"
+                      value="public"
+                      checked={article.visibility === 'public'}
+                      onChange={(e) => setArticle(prev => ({ ...prev, visibility: e.target.value as 'internal' | 'public' }))}
+                      className="text-purple-600 focus:ring-purple-500"
+                    />
+                    <div className="flex items-center space-x-2">
+                      <Globe className="w-4 h-4 text-gray-500" />
+                      <span className="text-sm font-medium text-gray-700">Public</span>
+                    </div>
+                  </label>
+                </div>
+                {renderFieldErrors('visibility')}
+              </div>
+            </>
+          )}
 
         </div>
       </div>
 
-      {/* Version History */}
-      <div className="mt-8">
-        <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg">
-          <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50 rounded-t-xl">
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">Data Categories</h3>
-                <p className="text-sm text-gray-600 mt-1">Assign categories to control visibility and routing</p>
-              </div>
-              <button
-                onClick={() => setShowCategoryModal(true)}
-                className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-all duration-200 mt-3 sm:mt-0"
-              >
-                <Edit className="w-4 h-4" />
-                <span>Edit Categories</span>
-              </button>
-            </div>
-          </div>
-          <div className="p-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              <div>
-                <CategorySummary
-                  articleId={article.id}
-                  onEditClick={() => setShowCategoryModal(true)}
-                />
-              </div>
-              <div className="bg-gradient-to-r from-gray-50 to-slate-50 rounded-xl p-4 border border-gray-200">
-                <h4 className="text-sm font-medium text-gray-700 mb-3">Category Guidelines</h4>
-                <div className="space-y-2 text-xs text-gray-600">
-                  <div className="flex items-start space-x-2">
-                    <div className="w-1.5 h-1.5 bg-purple-400 rounded-full mt-1.5 flex-shrink-0"></div>
-                    <span>Select categories that best describe your article's content and target audience</span>
+      {!suggestOnly && (
+        <>
+          {/* Version History */}
+          <div className="mt-8">
+            <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg">
+              <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50 rounded-t-xl">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Data Categories</h3>
+                    <p className="text-sm text-gray-600 mt-1">Assign categories to control visibility and routing</p>
                   </div>
-                  <div className="flex items-start space-x-2">
-                    <div className="w-1.5 h-1.5 bg-blue-400 rounded-full mt-1.5 flex-shrink-0"></div>
-                    <span>Required categories must be selected before publishing to Salesforce</span>
+                  <button
+                    onClick={() => setShowCategoryModal(true)}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-all duration-200 mt-3 sm:mt-0"
+                  >
+                    <Edit className="w-4 h-4" />
+                    <span>Edit Categories</span>
+                  </button>
+                </div>
+              </div>
+              <div className="p-6">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <div>
+                    <CategorySummary
+                      articleId={article.id}
+                      onEditClick={() => setShowCategoryModal(true)}
+                    />
                   </div>
-                  <div className="flex items-start space-x-2">
-                    <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full mt-1.5 flex-shrink-0"></div>
-                    <span>Categories control article visibility and routing in your knowledge base</span>
+                  <div className="bg-gradient-to-r from-gray-50 to-slate-50 rounded-xl p-4 border border-gray-200">
+                    <h4 className="text-sm font-medium text-gray-700 mb-3">Category Guidelines</h4>
+                    <div className="space-y-2 text-xs text-gray-600">
+                      <div className="flex items-start space-x-2">
+                        <div className="w-1.5 h-1.5 bg-purple-400 rounded-full mt-1.5 flex-shrink-0"></div>
+                        <span>Select categories that best describe your article's content and target audience</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-1.5 h-1.5 bg-blue-400 rounded-full mt-1.5 flex-shrink-0"></div>
+                        <span>Required categories must be selected before publishing to Salesforce</span>
+                      </div>
+                      <div className="flex items-start space-x-2">
+                        <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full mt-1.5 flex-shrink-0"></div>
+                        <span>Categories control article visibility and routing in your knowledge base</span>
+                      </div>
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
           </div>
-        </div>
-      </div>
 
-      {/* Version History */}
-      <div className="mt-8">
-        <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg">
-          <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50 rounded-t-xl">
-            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
-              <div>
-                <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
-                <p className="text-sm text-gray-600 mt-1">Track changes and restore previous versions</p>
+          {/* Version History */}
+          <div className="mt-8">
+            <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg">
+              <div className="px-6 py-4 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50 rounded-t-xl">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
+                    <p className="text-sm text-gray-600 mt-1">Track changes and restore previous versions</p>
+                  </div>
+                  <button
+                    onClick={() => setShowVersionHistory(!showVersionHistory)}
+                    className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-all duration-200 mt-3 sm:mt-0"
+                  >
+                    <History className="w-4 h-4" />
+                    <span>{showVersionHistory ? 'Hide' : 'Show'} History</span>
+                  </button>
+                </div>
               </div>
-              <button
-                onClick={() => setShowVersionHistory(!showVersionHistory)}
-                className="flex items-center space-x-1 px-3 py-1.5 text-sm font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-all duration-200 mt-3 sm:mt-0"
-              >
-                <History className="w-4 h-4" />
-                <span>{showVersionHistory ? 'Hide' : 'Show'} History</span>
-              </button>
+              {showVersionHistory && (
+                <div className="p-6">
+                  <VersionHistory
+                    versions={versions}
+                    onRestore={handleRestoreVersion}
+                    lastSyncedVersion={lastSyncedVersion}
+                  />
+                </div>
+              )}
             </div>
           </div>
-          {showVersionHistory && (
-            <div className="p-6">
-              <VersionHistory
-                versions={versions}
-                onRestore={handleRestoreVersion}
-                lastSyncedVersion={lastSyncedVersion}
-              />
-            </div>
-          )}
-        </div>
-      </div>
+        </>
+      )}
 
       {/* Category Edit Modal */}
       <CategoryEditModal
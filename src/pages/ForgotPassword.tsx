@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { requestPasswordReset, resetPassword } from '../api/authAPI';
+import { ArrowRight, KeyRound, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+
+// Requests a reset link, or sets a new password when opened from one
+const ForgotPassword: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = token
+        ? await resetPassword(token, password)
+        : await requestPasswordReset(email);
+      setSuccess(result.message);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClassName = "w-full px-4 py-3 border border-gray-200 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent bg-white/80 backdrop-blur-sm transition-all duration-200 disabled:opacity-50";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <Link to="/">
+            <div className="flex flex-col items-center mb-6 cursor-pointer hover:opacity-80 transition-opacity duration-200">
+              <img
+                src="/klogo.png"
+                alt="Kublish Logo"
+                className="h-40 w-auto mb-4"
+              />
+            </div>
+          </Link>
+          <p className="text-gray-600">{token ? 'Choose a new password' : 'Reset your password'}</p>
+        </div>
+
+        <div className="bg-white/60 backdrop-blur-md rounded-2xl border border-white/20 p-8 shadow-2xl">
+          {success ? (
+            <div className="space-y-6 text-center">
+              <div className="p-4 bg-emerald-50 border border-emerald-200 rounded-lg">
+                <div className="flex items-center justify-center space-x-2">
+                  <CheckCircle className="w-4 h-4 text-emerald-600" />
+                  <span className="text-sm text-emerald-700">{success}</span>
+                </div>
+              </div>
+              <Link
+                to="/login"
+                className="inline-flex items-center space-x-2 text-purple-600 hover:text-purple-700 font-medium"
+              >
+                <span>Back to sign in</span>
+                <ArrowRight className="w-4 h-4" />
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center space-x-2">
+                    <AlertCircle className="w-4 h-4 text-red-600" />
+                    <span className="text-sm text-red-700">{error}</span>
+                  </div>
+                </div>
+              )}
+
+              {token ? (
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+                    New Password
+                  </label>
+                  <input
+                    id="password"
+                    name="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required
+                    minLength={8}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    className={inputClassName}
+                    placeholder="At least 8 characters"
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Email Address
+                  </label>
+                  <input
+                    id="email"
+                    name="email"
+                    type="email"
+                    autoComplete="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    disabled={isLoading}
+                    className={inputClassName}
+                    placeholder="Enter your email"
+                  />
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-500 to-blue-500 hover:from-purple-600 hover:to-blue-600 disabled:from-gray-400 disabled:to-gray-500 text-white font-semibold py-4 px-6 rounded-xl transition-all duration-200 shadow-lg flex items-center justify-center space-x-3 disabled:cursor-not-allowed"
+              >
+                {isLoading ? (
+                  <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                ) : token ? (
+                  <>
+                    <KeyRound className="w-5 h-5" />
+                    <span>Set New Password</span>
+                  </>
+                ) : (
+                  <>
+                    <Mail className="w-5 h-5" />
+                    <span>Send Reset Link</span>
+                  </>
+                )}
+              </button>
+
+              <div className="text-center text-sm">
+                <Link to="/login" className="text-purple-600 hover:text-purple-700 font-medium transition-colors">
+                  Back to sign in
+                </Link>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
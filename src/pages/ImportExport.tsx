@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { useAppContext } from '../context/AppContext';
 import { Article } from '../types';
+import { startSalesforceImport, waitForImportJob } from '../api/salesforceAPI';
 import { 
   Download, 
   Upload, 
@@ -9,7 +10,8 @@ import {
   CheckCircle, 
   X,
   Eye,
-  AlertCircle
+  AlertCircle,
+  DownloadCloud
 } from 'lucide-react';
 
 interface ImportRow extends Omit<Article, 'lastModified' | 'createdAt'> {
@@ -20,12 +22,13 @@ interface ImportRow extends Omit<Article, 'lastModified' | 'createdAt'> {
 }
 
 const ImportExport: React.FC = () => {
-  const { articles, user, addArticle, updateArticle, addSyncLog } = useAppContext();
+  const { articles, user, addArticle, updateArticle, addSyncLog, refreshData } = useAppContext();
   const [dragActive, setDragActive] = useState(false);
   const [importData, setImportData] = useState<ImportRow[]>([]);
   const [showPreview, setShowPreview] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [isImportingFromSalesforce, setIsImportingFromSalesforce] = useState(false);
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -211,19 +214,18 @@ const ImportExport: React.FC = () => {
             articleId: articleData.id,
             articleTitle: articleData.title,
             action: 'draft_save',
-            user: user?.name || 'Unknown',
             status: 'success',
             message: 'Article updated via CSV import'
           });
         } else {
-          addArticle(articleData);
+          // The server gives new articles their own id
+          const created = await addArticle(articleData);
           newCount++;
           
           addSyncLog({
-            articleId: articleData.id,
+            articleId: created.id,
             articleTitle: articleData.title,
             action: 'draft_save',
-            user: user?.name || 'Unknown',
             status: 'success',
             message: 'Article created via CSV import'
           });
@@ -246,6 +248,26 @@ const ImportExport: React.FC = () => {
     }
   };
 
+  const handleSalesforceImport = async () => {
+    if (!user) return;
+
+    setIsImportingFromSalesforce(true);
+    try {
+      const job = await startSalesforceImport();
+      const result = await waitForImportJob(job.id);
+      if (result.status === 'failed') throw new Error(result.error || 'Import failed');
+      await refreshData();
+      showNotification(
+        'success',
+        `${result.total} Salesforce articles processed (${result.imported} new, ${result.updated} updated, ${result.skipped} already in Kublish)`
+      );
+    } catch (error) {
+      showNotification('error', `Salesforce import failed: ${(error as Error).message}`);
+    } finally {
+      setIsImportingFromSalesforce(false);
+    }
+  };
+
   const validRows = importData.filter(row => row.isValid);
   const invalidRows = importData.filter(row => !row.isValid);
 
@@ -397,6 +419,33 @@ const ImportExport: React.FC = () => {
         </div>
       </div>
 
+      {/* Salesforce Import */}
+      {!showPreview && (
+        <div className="mt-8 bg-white/60 backdrop-blur-md rounded-xl border border-white/20 p-6 shadow-lg">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-gradient-to-br from-blue-400 to-indigo-400 rounded-xl flex items-center justify-center">
+                <DownloadCloud className="w-5 h-5 text-white" />
+              </div>
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Import from Salesforce</h2>
+                <p className="text-sm text-gray-600">
+                  Pull existing Knowledge articles, their data categories and publish status into Kublish
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={handleSalesforceImport}
+              disabled={isImportingFromSalesforce}
+              className="bg-gradient-to-r from-blue-500 to-indigo-500 hover:from-blue-600 hover:to-indigo-600 disabled:from-blue-400 disabled:to-indigo-400 text-white px-6 py-3 rounded-lg font-medium transition-all duration-200 transform hover:scale-105 disabled:hover:scale-100 shadow-lg flex items-center justify-center space-x-2"
+            >
+              <DownloadCloud className="w-4 h-4" />
+              <span>{isImportingFromSalesforce ? 'Importing...' : 'Import Knowledge Articles'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Import Preview */}
       {showPreview && (
         <div className="mt-8 bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import { useAppContext } from '../context/AppContext';
 import { loginWithCredentials } from '../api/authAPI';
@@ -15,21 +15,6 @@ const Login: React.FC = () => {
   const { setUser } = useAppContext();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    // Check if user is already logged in and redirect to dashboard
-    const storedUser = localStorage.getItem('kublish_user');
-    if (storedUser) {
-      try {
-        const user = JSON.parse(storedUser);
-        setUser(user);
-        navigate('/dashboard');
-      } catch (error) {
-        // Invalid stored user data, clear it
-        localStorage.removeItem('kublish_user');
-      }
-    }
-  }, [setUser, navigate]);
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
@@ -49,11 +34,8 @@ const Login: React.FC = () => {
     setError(null);
 
     try {
-      const { user, accessToken } = await loginWithCredentials(formData.email, formData.password);
-      const userWithToken = { ...user, accessToken };
-      
-      localStorage.setItem('kublish_user', JSON.stringify(userWithToken));
-      setUser(userWithToken);
+      const { user } = await loginWithCredentials(formData.email, formData.password);
+      setUser(user);
       navigate('/dashboard');
     } catch (error: any) {
       setError(error.message || 'Login failed. Please check your credentials and try again.');
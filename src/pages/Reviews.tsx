@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardCheck, User, Calendar } from 'lucide-react';
+import { useAppContext } from '../context/AppContext';
+import { fetchReviewQueue, getWorkflowSettings } from '../api/reviewAPI';
+import ArticleStatusBadge from '../components/ArticleStatusBadge';
+import { ReviewRequest } from '../types';
+
+type ReviewTab = 'mine' | 'submitted' | 'all';
+
+const TAB_LABELS: Record<ReviewTab, string> = {
+  mine: 'Awaiting my review',
+  submitted: 'My submissions',
+  all: 'All reviews'
+};
+
+const Reviews: React.FC = () => {
+  const { user } = useAppContext();
+  const [reviews, setReviews] = useState<ReviewRequest[]>([]);
+  const [workflowEnabled, setWorkflowEnabled] = useState(true);
+  const [tab, setTab] = useState<ReviewTab>('mine');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([fetchReviewQueue(), getWorkflowSettings()])
+      .then(([queue, settings]) => {
+        setReviews(queue);
+        setWorkflowEnabled(settings.enabled);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load reviews'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // A reviewer is waiting on an article still in review they have not decided on
+  const awaitsMe = (review: ReviewRequest) =>
+    !!user &&
+    review.articleStatus === 'in_review' &&
+    review.reviewerIds.includes(user.id) &&
+    !review.decisions.some(decision => decision.reviewerId === user.id);
+
+  const visible = reviews.filter(review =>
+    tab === 'all' || (tab === 'mine' ? awaitsMe(review) : review.submittedById === user?.id)
+  );
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+          Reviews
+        </h1>
+        <p className="text-gray-600 mt-1">
+          Articles submitted for editorial review · {reviews.filter(awaitsMe).length} waiting on you
+        </p>
+      </div>
+
+      {!workflowEnabled && (
+        <div className="mb-6 p-4 rounded-lg border bg-amber-50 border-amber-200 text-amber-700 text-sm">
+          The review workflow is turned off, so articles can be published without approval.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg border bg-red-50 border-red-200 text-red-700 text-sm">{error}</div>
+      )}
+
+      <div className="flex space-x-2 mb-4">
+        {(Object.keys(TAB_LABELS) as ReviewTab[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+              tab === key
+                ? 'bg-gradient-to-r from-purple-500 to-blue-500 text-white shadow'
+                : 'bg-white/60 text-gray-700 hover:bg-white'
+            }`}
+          >
+            {TAB_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gradient-to-r from-purple-50 to-blue-50 border-b border-purple-100">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Article Title
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Status
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Submitted
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Reviewers
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">
+                  Approvals
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visible.map(review => (
+                <tr key={review.articleId} className="hover:bg-white/40 transition-colors duration-150">
+                  <td className="px-6 py-4">
+                    <Link
+                      to={`/article/${review.articleId}/preview`}
+                      className="font-medium text-gray-900 hover:text-purple-600"
+                    >
+                      {review.articleTitle}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4">
+                    {review.articleStatus && <ArticleStatusBadge status={review.articleStatus} />}
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex flex-col text-sm text-gray-600">
+                      <span className="flex items-center space-x-2">
+                        <User className="w-4 h-4" />
+                        <span>{review.submittedBy}</span>
+                      </span>
+                      <span className="flex items-center space-x-2 text-gray-500">
+                        <Calendar className="w-4 h-4" />
+                        <span>{formatDate(review.submittedAt)}</span>
+                      </span>
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{review.reviewers.join(', ')}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {review.approvals} / {review.requiredApprovals}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {!loading && visible.length === 0 && (
+          <div className="text-center py-12">
+            <div className="w-16 h-16 bg-gradient-to-br from-purple-100 to-blue-100 rounded-2xl flex items-center justify-center mx-auto mb-4">
+              <ClipboardCheck className="w-8 h-8 text-gray-400" />
+            </div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing to review</h3>
+            <p className="text-gray-500">Articles submitted for review show up here.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reviews;
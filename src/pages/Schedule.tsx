@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarDays, ChevronLeft, ChevronRight } from 'lucide-react';
+import { fetchScheduledActions, formatScheduledTime, SCHEDULE_ACTION_LABELS } from '../api/scheduleAPI';
+import { ScheduleActionIcon } from '../components/ArticleSchedule';
+import { ScheduledAction } from '../types';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_STYLES: Record<ScheduledAction['status'], string> = {
+  pending: 'bg-purple-100 text-purple-700 border-purple-200',
+  done: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+  cancelled: 'bg-gray-100 text-gray-500 border-gray-200 line-through'
+};
+
+// Calendar days are in the viewer's local time; each entry shows the zone it was scheduled in
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const Schedule: React.FC = () => {
+  const [month, setMonth] = useState(() => {
+    const today = new Date();
+    return new Date(today.getFullYear(), today.getMonth(), 1);
+  });
+  const [schedules, setSchedules] = useState<ScheduledAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const monthStart = month.getTime();
+
+  useEffect(() => {
+    const start = new Date(monthStart);
+    const end = new Date(start.getFullYear(), start.getMonth() + 1, 1);
+
+    setLoading(true);
+    setError(null);
+    fetchScheduledActions({ from: start.toISOString(), to: end.toISOString() })
+      .then(setSchedules)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load scheduled actions'))
+      .finally(() => setLoading(false));
+  }, [monthStart]);
+
+  const byDay = schedules.reduce<Record<string, ScheduledAction[]>>((days, schedule) => {
+    const key = dayKey(new Date(schedule.runAt));
+    (days[key] = days[key] || []).push(schedule);
+    return days;
+  }, {});
+
+  // Leading blanks so the first falls under its weekday
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, i) => new Date(month.getFullYear(), month.getMonth(), i + 1))
+  ];
+  const todayKey = dayKey(new Date());
+  const pendingCount = schedules.filter(s => s.status === 'pending').length;
+
+  const changeMonth = (delta: number) => {
+    setMonth(prev => new Date(prev.getFullYear(), prev.getMonth() + delta, 1));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-600 to-blue-600 bg-clip-text text-transparent">
+            Schedule
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Scheduled publishing, archiving and visibility changes · {pendingCount} upcoming this month
+          </p>
+        </div>
+
+        <div className="flex items-center space-x-2 mt-4 sm:mt-0">
+          <button
+            onClick={() => changeMonth(-1)}
+            title="Previous month"
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-white/60 rounded-lg"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <div className="flex items-center space-x-2 min-w-[10rem] justify-center font-semibold text-gray-900">
+            <CalendarDays className="w-5 h-5 text-purple-600" />
+            <span>{month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</span>
+          </div>
+          <button
+            onClick={() => changeMonth(1)}
+            title="Next month"
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-white/60 rounded-lg"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-lg border bg-red-50 border-red-200 text-red-700 text-sm">{error}</div>
+      )}
+
+      <div className={`bg-white/60 backdrop-blur-md rounded-xl border border-white/20 shadow-lg overflow-hidden ${loading ? 'opacity-60' : ''}`}>
+        <div className="grid grid-cols-7 border-b border-gray-200 bg-gradient-to-r from-purple-50 to-blue-50">
+          {WEEKDAYS.map(day => (
+            <div key={day} className="px-3 py-2 text-xs font-medium text-gray-600 uppercase tracking-wider">
+              {day}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7">
+          {cells.map((date, index) => (
+            <div
+              key={date ? date.getDate() : `blank-${index}`}
+              className="min-h-[7rem] border-b border-r border-gray-100 p-2"
+            >
+              {date && (
+                <>
+                  <div className={`text-xs font-medium mb-1 ${
+                    dayKey(date) === todayKey
+                      ? 'inline-flex w-6 h-6 items-center justify-center rounded-full bg-purple-600 text-white'
+                      : 'text-gray-500'
+                  }`}>
+                    {date.getDate()}
+                  </div>
+                  <div className="space-y-1">
+                    {(byDay[dayKey(date)] || []).map(schedule => (
+                      <Link
+                        key={schedule.id}
+                        to={`/article/${schedule.articleId}/preview`}
+                        title={`${SCHEDULE_ACTION_LABELS[schedule.action]} · ${formatScheduledTime(schedule)} · ${schedule.status}${schedule.error ? `: ${schedule.error}` : ''}`}
+                        className={`flex items-center space-x-1 px-1.5 py-0.5 rounded border text-xs truncate ${STATUS_STYLES[schedule.status]}`}
+                      >
+                        <ScheduleActionIcon action={schedule.action} />
+                        <span className="truncate">{schedule.articleTitle}</span>
+                      </Link>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Schedule;
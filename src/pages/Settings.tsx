@@ -1,7 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { useAppContext } from '../context/AppContext';
 import OnboardingTooltip from '../components/OnboardingTooltip';
-import { Calendar, User, FileText, Filter, Search, CheckCircle, XCircle, Clock, Upload, Save, FolderSync as Sync, ChevronDown, Download } from 'lucide-react';
+import { Calendar, User, FileText, Filter, Search, CheckCircle, XCircle, Clock, Upload, Save, FolderSync as Sync, ChevronDown, Download, ArrowUpCircle, Archive, ArchiveRestore, Trash2, RotateCcw, Eye, Send, ThumbsUp, MessageSquare, Undo2 } from 'lucide-react';
 
 const Settings: React.FC = () => {
   const { syncLogs, articles, user } = useAppContext();
@@ -55,6 +55,26 @@ const Settings: React.FC = () => {
         return <Sync className="w-4 h-4" />;
       case 'draft_save':
         return <Save className="w-4 h-4" />;
+      case 'promote':
+        return <ArrowUpCircle className="w-4 h-4" />;
+      case 'archive':
+        return <Archive className="w-4 h-4" />;
+      case 'unarchive':
+        return <ArchiveRestore className="w-4 h-4" />;
+      case 'delete':
+        return <Trash2 className="w-4 h-4" />;
+      case 'restore':
+        return <RotateCcw className="w-4 h-4" />;
+      case 'visibility':
+        return <Eye className="w-4 h-4" />;
+      case 'submit_review':
+        return <Send className="w-4 h-4" />;
+      case 'approve':
+        return <ThumbsUp className="w-4 h-4" />;
+      case 'request_changes':
+        return <MessageSquare className="w-4 h-4" />;
+      case 'withdraw_review':
+        return <Undo2 className="w-4 h-4" />;
       default:
         return <FileText className="w-4 h-4" />;
     }
@@ -68,6 +88,26 @@ const Settings: React.FC = () => {
         return 'from-blue-100 to-indigo-100 text-blue-700 border-blue-200';
       case 'draft_save':
         return 'from-gray-100 to-slate-100 text-gray-700 border-gray-200';
+      case 'promote':
+        return 'from-amber-100 to-orange-100 text-amber-700 border-amber-200';
+      case 'archive':
+        return 'from-slate-100 to-gray-100 text-slate-700 border-slate-200';
+      case 'unarchive':
+        return 'from-teal-100 to-emerald-100 text-teal-700 border-teal-200';
+      case 'delete':
+        return 'from-rose-100 to-red-100 text-rose-700 border-rose-200';
+      case 'restore':
+        return 'from-lime-100 to-green-100 text-lime-700 border-lime-200';
+      case 'visibility':
+        return 'from-sky-100 to-cyan-100 text-sky-700 border-sky-200';
+      case 'submit_review':
+        return 'from-blue-100 to-sky-100 text-blue-700 border-blue-200';
+      case 'approve':
+        return 'from-emerald-100 to-teal-100 text-emerald-700 border-emerald-200';
+      case 'request_changes':
+        return 'from-amber-100 to-yellow-100 text-amber-700 border-amber-200';
+      case 'withdraw_review':
+        return 'from-gray-100 to-slate-100 text-gray-600 border-gray-200';
       default:
         return 'from-purple-100 to-blue-100 text-purple-700 border-purple-200';
     }
@@ -232,6 +272,16 @@ const Settings: React.FC = () => {
                   <option value="publish">Publish</option>
                   <option value="sync">Sync</option>
                   <option value="draft_save">Draft Save</option>
+                  <option value="promote">Promote</option>
+                  <option value="archive">Archive</option>
+                  <option value="unarchive">Unarchive</option>
+                  <option value="delete">Delete</option>
+                  <option value="restore">Restore</option>
+                  <option value="visibility">Visibility</option>
+                  <option value="submit_review">Submit for Review</option>
+                  <option value="approve">Approve</option>
+                  <option value="request_changes">Request Changes</option>
+                  <option value="withdraw_review">Withdraw Review</option>
                 </select>
                 <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4 pointer-events-none" />
               </div>
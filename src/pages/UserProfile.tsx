@@ -4,12 +4,11 @@ import { useAppContext } from '../context/AppContext';
 import { User, Mail, Shield, Clock, Calendar, LogOut } from 'lucide-react';
 
 const UserProfile: React.FC = () => {
-  const { user, setUser } = useAppContext();
+  const { user, logout } = useAppContext();
   const navigate = useNavigate();
 
-  const handleLogout = () => {
-    localStorage.removeItem('kublish_user');
-    setUser(null);
+  const handleLogout = async () => {
+    await logout();
     navigate('/login');
   };
 
@@ -127,7 +126,7 @@ const UserProfile: React.FC = () => {
                   <span className="text-gray-700 font-medium">Last Login</span>
                 </div>
                 <span className="text-gray-900 font-medium text-sm">
-                  {formatLastLogin(new Date().toISOString())}
+                  {formatLastLogin(user.lastLoginAt || new Date().toISOString())}
                 </span>
               </div>
 
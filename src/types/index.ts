@@ -4,31 +4,123 @@ export interface Article {
   body: string;
   tags: string[];
   visibility: 'internal' | 'public';
-  status: 'draft' | 'published';
-  owner: string;
+  status: 'draft' | 'in_review' | 'changes_requested' | 'approved' | 'published' | 'archived';
+  owner: string; // Display name
+  ownerId?: string; // Unset until a Kublish user owns it, e.g. after an import
   lastModified: string;
   createdAt: string;
   lastSyncedVersionId?: string;
   dataCategories?: string[]; // Array of data category IDs
+  deletedAt?: string; // Set while the article is in the trash
+  deletedBy?: string;
+  reviewers?: string[]; // Names of the users reviewing the current submission
+  reviewerIds?: string[]; // Their ids, which is what permissions check
+  statusBeforeReview?: 'draft' | 'published'; // What withdrawing from review goes back to
 }
 
 export interface SyncLog {
   id: string;
   articleId: string;
   articleTitle: string;
-  action: 'sync' | 'publish' | 'draft_save';
+  action:
+    | 'sync'
+    | 'publish'
+    | 'draft_save'
+    | 'promote'
+    | 'archive'
+    | 'unarchive'
+    | 'delete'
+    | 'restore'
+    | 'visibility'
+    | 'submit_review'
+    | 'approve'
+    | 'request_changes'
+    | 'withdraw_review';
   user: string;
   timestamp: string;
   status: 'success' | 'error';
   message: string;
 }
 
+export interface WorkflowSettings {
+  enabled: boolean; // when false, publishers publish directly
+  requiredApprovals: number;
+  reviewersByGroup: Record<string, string[]>; // data category group name -> reviewer user ids
+  defaultReviewers: string[]; // user ids
+}
+
+export interface ReviewDecision {
+  reviewer: string;
+  reviewerId: string;
+  decision: 'approved' | 'changes_requested';
+  comment: string;
+  createdAt: string;
+}
+
+export interface ReviewRequest {
+  articleId: string;
+  articleTitle: string;
+  submittedBy: string;
+  submittedById: string;
+  submittedAt: string;
+  comment?: string;
+  reviewers: string[]; // names, in the same order as reviewerIds
+  reviewerIds: string[];
+  requiredApprovals: number;
+  decisions: ReviewDecision[];
+  approvals: number;
+  articleStatus?: Article['status']; // included in the review queue
+}
+
+export interface ArticleComment {
+  id: string;
+  author: string;
+  authorId: string;
+  body: string;
+  mentions: string[];
+  createdAt: string;
+}
+
+export interface CommentThread {
+  id: string;
+  articleId: string;
+  quote: string; // anchored text when the thread was started
+  comments: ArticleComment[];
+  resolved: boolean;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  createdBy: string;
+  createdById: string;
+  createdAt: string;
+}
+
+export interface ScheduledAction {
+  id: string;
+  articleId: string;
+  articleTitle: string;
+  action: 'publish' | 'archive' | 'visibility';
+  visibility?: 'internal' | 'public';
+  orgId?: string;
+  runAt: string; // UTC
+  localTime: string; // wall-clock time as entered
+  timeZone: string; // IANA zone localTime is in
+  status: 'pending' | 'done' | 'failed' | 'cancelled';
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  finishedAt?: string;
+  jobId?: string;
+  error?: string;
+}
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  accessToken: string;
+  accessToken?: string;
   role: 'Admin' | 'Editor' | 'Viewer';
+  createdAt?: string;
+  lastLoginAt?: string;
 }
 
 export interface Version {
@@ -44,7 +136,14 @@ export interface Version {
   syncedToSalesforce: boolean;
   syncTimestamp?: string;
   syncUser?: string;
-  salesforceId?: string;
+  salesforceId?: string; // KnowledgeArticleId, stable across Salesforce versions
+  salesforceVersionId?: string; // Knowledge__kav version Id
+  salesforceOrgId?: string; // org connection the sync went to
+  dataCategories?: string[]; // categories on the Salesforce version
+  promotedOrgId?: string; // org this version was promoted to from salesforceOrgId
+  promotedSalesforceId?: string; // KnowledgeArticleId in the promoted org
+  promotedVersionId?: string;
+  promotedAt?: string;
 }
 export interface DataCategoryGroup {
   id: string;
@@ -52,6 +151,8 @@ export interface DataCategoryGroup {
   label: string;
   description?: string;
   isActive: boolean;
+  selectionType?: 'single' | 'multi'; // defaults to multi
+  isRequired?: boolean;
   lastSyncedAt?: string;
   categories: DataCategory[];
 }
@@ -67,6 +168,12 @@ export interface DataCategory {
   children?: DataCategory[];
 }
 
+export interface ArticleCategorySelection {
+  groupId: string;
+  groupName: string;
+  selectedCategories: string[];
+}
+
 export interface ArticleTypeMapping {
   articleType: string;
   dataCategoryObjectName: string;
@@ -1,4 +1,5 @@
-import { DataCategoryGroup, ArticleTypeMapping } from '../types';
+import { DataCategoryGroup } from '../types';
+import { getAllCategoryIds } from './categoryUtils';
 
 export interface ArticleType {
   name: string;
@@ -134,25 +135,6 @@ export const validateCategorySelections = (
   return validation;
 };
 
-/**
- * Get all category IDs from a hierarchical category structure
- */
-const getAllCategoryIds = (categories: any[]): string[] => {
-  const ids: string[] = [];
-  
-  const traverse = (cats: any[]) => {
-    for (const cat of cats) {
-      ids.push(cat.id);
-      if (cat.children && cat.children.length > 0) {
-        traverse(cat.children);
-      }
-    }
-  };
-  
-  traverse(categories);
-  return ids;
-};
-
 /**
  * Get category group tooltips/help text
  */
@@ -167,45 +149,3 @@ export const getCategoryGroupHelp = (groupName: string): string => {
 
   return helpText[groupName] || 'Select categories that best describe this article\'s scope and applicability.';
 };
-
-/**
- * Format category path for display (e.g., "Products > Software > CRM")
- */
-export const formatCategoryPath = (
-  categoryId: string,
-  categoryGroups: DataCategoryGroup[]
-): string => {
-  for (const group of categoryGroups) {
-    const path = findCategoryPath(categoryId, group.categories, []);
-    if (path.length > 0) {
-      return path.join(' > ');
-    }
-  }
-  return 'Unknown Category';
-};
-
-/**
- * Find the path to a category in a hierarchical structure
- */
-const findCategoryPath = (
-  targetId: string,
-  categories: any[],
-  currentPath: string[]
-): string[] => {
-  for (const category of categories) {
-    const newPath = [...currentPath, category.label];
-    
-    if (category.id === targetId) {
-      return newPath;
-    }
-    
-    if (category.children && category.children.length > 0) {
-      const childPath = findCategoryPath(targetId, category.children, newPath);
-      if (childPath.length > 0) {
-        return childPath;
-      }
-    }
-  }
-  
-  return [];
-};
\ No newline at end of file
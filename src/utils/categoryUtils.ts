@@ -0,0 +1,123 @@
+import { Article, ArticleCategorySelection, DataCategory, DataCategoryGroup } from '../types';
+
+export interface CategoryOption {
+  value: string;
+  label: string;
+  count?: number;
+}
+
+/**
+ * Get all category IDs from a hierarchical category structure
+ */
+export const getAllCategoryIds = (categories: DataCategory[]): string[] => {
+  const ids: string[] = [];
+
+  const traverse = (cats: DataCategory[]) => {
+    for (const cat of cats) {
+      ids.push(cat.id);
+      if (cat.children && cat.children.length > 0) {
+        traverse(cat.children);
+      }
+    }
+  };
+
+  traverse(categories);
+  return ids;
+};
+
+/**
+ * Find the chain of categories from a group root down to the target
+ */
+const findCategoryChain = (targetId: string, categories: DataCategory[]): DataCategory[] => {
+  for (const category of categories) {
+    if (category.id === targetId) {
+      return [category];
+    }
+
+    if (category.children && category.children.length > 0) {
+      const childChain = findCategoryChain(targetId, category.children);
+      if (childChain.length > 0) {
+        return [category, ...childChain];
+      }
+    }
+  }
+
+  return [];
+};
+
+/**
+ * Get the path to a category, root first, across all groups
+ */
+export const getCategoryPath = (categoryId: string, categoryGroups: DataCategoryGroup[]): DataCategory[] => {
+  for (const group of categoryGroups) {
+    const chain = findCategoryChain(categoryId, group.categories);
+    if (chain.length > 0) {
+      return chain;
+    }
+  }
+  return [];
+};
+
+export const findCategoryById = (categoryId: string, categoryGroups: DataCategoryGroup[]): DataCategory | null => {
+  const path = getCategoryPath(categoryId, categoryGroups);
+  return path.length > 0 ? path[path.length - 1] : null;
+};
+
+export const findCategoryGroup = (categoryId: string, categoryGroups: DataCategoryGroup[]): DataCategoryGroup | null =>
+  categoryGroups.find(group => findCategoryChain(categoryId, group.categories).length > 0) || null;
+
+/**
+ * Format category path for display (e.g., "Products > Software > CRM").
+ * Categories missing from the synced structure fall back to their ID.
+ */
+export const formatCategoryPath = (categoryId: string, categoryGroups: DataCategoryGroup[]): string => {
+  const path = getCategoryPath(categoryId, categoryGroups);
+  return path.length > 0 ? path.map(category => category.label).join(' > ') : categoryId;
+};
+
+/**
+ * Ancestors of a category, nearest parent first
+ */
+export const getParentCategoryIds = (categoryId: string, categoryGroups: DataCategoryGroup[]): string[] =>
+  getCategoryPath(categoryId, categoryGroups)
+    .slice(0, -1)
+    .map(category => category.id)
+    .reverse();
+
+/**
+ * Every descendant of a category
+ */
+export const getChildCategoryIds = (categoryId: string, categoryGroups: DataCategoryGroup[]): string[] => {
+  const category = findCategoryById(categoryId, categoryGroups);
+  return category ? getAllCategoryIds(category.children || []) : [];
+};
+
+/**
+ * Split an article's flat dataCategories into per-group selections
+ */
+export const toCategorySelections = (
+  categoryIds: string[],
+  categoryGroups: DataCategoryGroup[]
+): ArticleCategorySelection[] =>
+  categoryGroups
+    .map(group => {
+      const groupCategoryIds = getAllCategoryIds(group.categories);
+      return {
+        groupId: group.id,
+        groupName: group.name,
+        selectedCategories: categoryIds.filter(id => groupCategoryIds.includes(id))
+      };
+    })
+    .filter(selection => selection.selectedCategories.length > 0);
+
+/**
+ * Typeahead options for the categories assigned across a set of articles
+ */
+export const toCategoryOptions = (articles: Article[], categoryGroups: DataCategoryGroup[]): CategoryOption[] => {
+  const uniqueCategories = [...new Set(articles.flatMap(article => article.dataCategories || []))];
+  return uniqueCategories.map(categoryId => ({
+    value: categoryId,
+    label: formatCategoryPath(categoryId, categoryGroups),
+    count: articles.filter(article => article.dataCategories?.includes(categoryId)).length
+  }));
+};
@@ -1,38 +1,51 @@
 import { User } from '../types';
+import { hasPermission } from '../../shared/permissions';
+
+// Role rules live in shared/permissions.ts so the backend enforces the same table
+export {
+  isOwnerOrAdmin,
+  isAssignedReviewer,
+  canViewArticle,
+  canEditArticle,
+  canCommentOnArticle
+} from '../../shared/permissions';
 
 export const canViewAllArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin' || user?.role === 'Editor';
+  return hasPermission(user, 'articles:viewAll');
 };
 
 export const canEditAllArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin';
+  return hasPermission(user, 'articles:editAll');
 };
 
 export const canEditOwnArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin' || user?.role === 'Editor';
+  return hasPermission(user, 'articles:editOwn');
 };
 
 export const canDeleteArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin';
+  return hasPermission(user, 'articles:delete');
 };
 
 export const canManageUsers = (user: User | null): boolean => {
-  return user?.role === 'Admin';
+  return hasPermission(user, 'users:manage');
 };
 
 export const canPublishArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin' || user?.role === 'Editor';
+  return hasPermission(user, 'articles:publish');
+};
+
+export const canReviewArticles = (user: User | null): boolean => {
+  return hasPermission(user, 'articles:review');
+};
+
+export const canManageWorkflow = (user: User | null): boolean => {
+  return hasPermission(user, 'workflow:manage');
 };
 
 export const canViewDrafts = (user: User | null): boolean => {
-  return user?.role === 'Admin' || user?.role === 'Editor';
+  return hasPermission(user, 'articles:viewDrafts');
 };
 
 export const canCreateArticles = (user: User | null): boolean => {
-  return user?.role === 'Admin' || user?.role === 'Editor';
+  return hasPermission(user, 'articles:create');
 };
-
-export const isOwnerOrAdmin = (user: User | null, articleOwner: string): boolean => {
-  if (!user) return false;
-  return user.role === 'Admin' || user.name === articleOwner;
-};
\ No newline at end of file